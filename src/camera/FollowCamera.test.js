@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
 import { FollowCamera } from './FollowCamera.js'
 import { CAMERA } from '../config/camera.js'
 
@@ -31,4 +32,18 @@ describe('camera/FollowCamera', () => {
 
     expect(camera.lookAt).toHaveBeenCalledWith(10, 2 + CAMERA.LOOK_AT_Y, -5)
   })
+
+  it('casts a ray through the screen center along the view direction', () => {
+    const camera = new THREE.PerspectiveCamera(60, 1, 0.1, 100)
+    camera.position.set(0, 10, 10)
+    camera.lookAt(0, 0, 0)
+
+    const follow = new FollowCamera(camera)
+    const ray = follow.screenPointToRay(0, 0)
+
+    expect(ray.origin.y).toBeCloseTo(10, 5)
+    expect(ray.direction.x).toBeCloseTo(0, 5)
+    expect(ray.direction.y).toBeCloseTo(-Math.SQRT1_2, 5)
+    expect(ray.direction.z).toBeCloseTo(-Math.SQRT1_2, 5)
+  })
 })
@@ -1,8 +1,12 @@
-import type * as THREE from 'three';
+import * as THREE from 'three';
 import { CAMERA } from '../config/index.js';
 import { lerp } from '../utils/index.js';
 import type { Vector3Like } from '../types/index.js';
 
+// Smoothing factors are the fraction closed per frame at this rate; other
+// frame times are converted so the follow speed doesn't depend on refresh rate
+const SMOOTHING_REFERENCE_RATE = 60;
+
 /**
  * Third-person follow camera
  */
@@ -95,8 +99,10 @@ export class FollowCamera {
   /**
    * Update camera to follow target
    */
-  update(targetPosition: Vector3Like, _deltaTime: number): void {
-    void _deltaTime;
+  update(targetPosition: Vector3Like, deltaTime: number): void {
+    const rotationBlend = this.frameSmoothing(this.rotationSmoothing, deltaTime);
+    const zoomBlend = this.frameSmoothing(this.zoomSmoothing, deltaTime);
+    const positionBlend = this.frameSmoothing(this.positionSmoothing, deltaTime);
 
     // When following character facing, update target yaw to match
     if (this.followCharacterFacing) {
@@ -105,9 +111,9 @@ export class FollowCamera {
     }
 
     // Smooth yaw/pitch/zoom
-    this.yaw = lerp(this.yaw, this.targetYaw, this.rotationSmoothing);
-    this.pitch = lerp(this.pitch, this.targetPitch, this.rotationSmoothing);
-    this.distance = lerp(this.distance, this.targetDistance, this.zoomSmoothing);
+    this.yaw = lerp(this.yaw, this.targetYaw, rotationBlend);
+    this.pitch = lerp(this.pitch, this.targetPitch, rotationBlend);
+    this.distance = lerp(this.distance, this.targetDistance, zoomBlend);
 
     // Spherical offset
     const cosPitch = Math.cos(this.pitch);
@@ -129,9 +135,9 @@ export class FollowCamera {
     const targetCamZ = targetZ + rotatedOffsetZ;
 
     // Smooth interpolation
-    this.camera.position.x = lerp(this.camera.position.x, targetCamX, this.positionSmoothing);
-    this.camera.position.y = lerp(this.camera.position.y, targetCamY, this.positionSmoothing);
-    this.camera.position.z = lerp(this.camera.position.z, targetCamZ, this.positionSmoothing);
+    this.camera.position.x = lerp(this.camera.position.x, targetCamX, positionBlend);
+    this.camera.position.y = lerp(this.camera.position.y, targetCamY, positionBlend);
+    this.camera.position.z = lerp(this.camera.position.z, targetCamZ, positionBlend);
 
     // Look at target
     const lookAtX = targetX + this.lookAtOffset.x;
@@ -141,6 +147,16 @@ export class FollowCamera {
     this.camera.lookAt(lookAtX, lookAtY, lookAtZ);
   }
 
+  /**
+   * Blend factor for this frame from a per-reference-frame smoothing factor
+   * (the factor itself when no frame time is given)
+   */
+  private frameSmoothing(factor: number, deltaTime: number): number {
+    if (!(deltaTime > 0)) return factor;
+    const perFrame = Math.min(Math.max(factor, 0), 1);
+    return 1 - Math.pow(1 - perFrame, deltaTime * SMOOTHING_REFERENCE_RATE);
+  }
+
   /**
    * Set camera yaw (rotation around Y)
    */
@@ -284,6 +300,24 @@ export class FollowCamera {
     return this.followCharacterFacing;
   }
 
+  /**
+   * World-space ray through a screen point given in normalized device
+   * coordinates (x, y in [-1, 1], +y up)
+   */
+  screenPointToRay(ndcX: number, ndcY: number): { origin: Vector3Like; direction: Vector3Like } {
+    this.camera.updateMatrixWorld();
+    const origin = new THREE.Vector3().setFromMatrixPosition(this.camera.matrixWorld);
+    const direction = new THREE.Vector3(ndcX, ndcY, 0.5)
+      .unproject(this.camera)
+      .sub(origin)
+      .normalize();
+
+    return {
+      origin: { x: origin.x, y: origin.y, z: origin.z },
+      direction: { x: direction.x, y: direction.y, z: direction.z }
+    };
+  }
+
   private clamp(value: number, min: number, max: number): number {
     return Math.max(min, Math.min(max, value));
   }
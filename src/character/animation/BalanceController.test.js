@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { BalanceController } from './BalanceController.js'
+import { CHARACTER, COM } from '../../config/index.js'
+
+// Square support polygon around the origin, half-size 0.3
+const square = [
+  { x: -0.3, y: 0, z: -0.3 },
+  { x: 0.3, y: 0, z: -0.3 },
+  { x: 0.3, y: 0, z: 0.3 },
+  { x: -0.3, y: 0, z: 0.3 }
+]
+
+const comAt = (x, z, stabilityMargin) => ({
+  position: { x, y: 3, z },
+  velocity: { x: 0, y: 0, z: 0 },
+  groundProjection: { x, y: 0, z },
+  isStable: stabilityMargin >= 0,
+  stabilityMargin,
+  stabilityLevel: stabilityMargin >= COM.STABILITY.STABLE_MARGIN ? 'stable' : 'unstable'
+})
+
+const state = {
+  torsoLean: 0,
+  torsoTwist: 0,
+  headBob: 0,
+  hipSway: 0,
+  leftArmSwing: 0,
+  rightArmSwing: 0,
+  leftElbowBend: 0,
+  rightElbowBend: 0
+}
+
+describe('character/animation/BalanceController', () => {
+  it('leaves the pose alone while the CoM is well inside the support', () => {
+    const balance = new BalanceController()
+    for (let i = 0; i < 30; i++) balance.update(comAt(0.05, 0, 0.25), square, 0, true, 0.016)
+
+    expect(balance.urgency).toBe(0)
+    expect(balance.apply(state)).toEqual(state)
+  })
+
+  it('leans back and swings the arms back when the CoM drifts forward', () => {
+    const balance = new BalanceController()
+    // Facing +Z, CoM near the front edge
+    for (let i = 0; i < 60; i++) balance.update(comAt(0, 0.28, 0.02), square, 0, true, 0.016)
+
+    const corrected = balance.apply(state)
+    expect(balance.forwardOffset).toBeCloseTo(0.28, 5)
+    expect(corrected.torsoLean).toBeLessThan(0)
+    expect(corrected.leftArmSwing).toBeGreaterThan(0)
+    expect(corrected.rightArmSwing).toBe(corrected.leftArmSwing)
+    expect(Math.abs(corrected.torsoLean)).toBeLessThanOrEqual(COM.BALANCE.MAX_LEAN)
+  })
+
+  it('tilts away from a sideways drift and fades out when disabled', () => {
+    const balance = new BalanceController()
+    // Facing +X, so world -Z is the character's right
+    for (let i = 0; i < 60; i++) balance.update(comAt(0, -0.28, 0.02), square, Math.PI / 2, true, 0.016)
+    expect(balance.lateralOffset).toBeCloseTo(0.28, 5)
+    expect(balance.sideLean).toBeGreaterThan(0)
+
+    for (let i = 0; i < 200; i++) balance.update(comAt(0, -0.28, 0.02), square, Math.PI / 2, false, 0.016)
+    expect(Math.abs(balance.sideLean)).toBeLessThan(1e-4)
+  })
+
+  it('requests a recovery step toward the fall once the CoM stays outside', () => {
+    const balance = new BalanceController(CHARACTER.HIP_WIDTH)
+    const outside = comAt(-0.5, 0, -0.2)
+
+    balance.update(outside, square, 0, true, 0.016)
+    expect(balance.takeRecoveryStep()).toBeNull()
+
+    for (let t = 0; t < COM.BALANCE.RECOVERY_DELAY; t += 0.016) balance.update(outside, square, 0, true, 0.016)
+    const step = balance.takeRecoveryStep()
+    expect(step.side).toBe('left')
+    // Past the CoM and out by half the hip width
+    expect(step.target.x).toBeCloseTo(-0.5 - COM.BALANCE.RECOVERY_STEP_MARGIN - CHARACTER.HIP_WIDTH / 2, 5)
+    expect(balance.takeRecoveryStep()).toBeNull()
+  })
+
+  it('forces a longer step along harder pushes', () => {
+    const balance = new BalanceController(CHARACTER.HIP_WIDTH)
+    const projection = { x: 0, y: 0, z: 0 }
+
+    // Facing +Z, pushed from behind
+    balance.requestStep({ x: 0, y: 0, z: 1 }, 0, projection, 0)
+    const soft = balance.takeRecoveryStep()
+    balance.requestStep({ x: 0, y: 0, z: 1 }, 1, projection, 0)
+    const hard = balance.takeRecoveryStep()
+
+    expect(soft.side).toBe('right')
+    expect(soft.target.z).toBeCloseTo(COM.BALANCE.RECOVERY_STEP_MARGIN, 5)
+    expect(hard.target.z).toBeCloseTo(COM.BALANCE.RECOVERY_STEP_MAX, 5)
+
+    // Pushed toward the character's left steps with the left foot
+    balance.requestStep({ x: -1, y: 0, z: 0 }, 0.5, projection, 0)
+    expect(balance.takeRecoveryStep().side).toBe('left')
+  })
+})
@@ -0,0 +1,205 @@
+import { CHARACTER, COM } from '../../config/index.js';
+import { clamp, lerp } from '../../utils/index.js';
+import type { AnimationState } from './ProceduralAnimation.js';
+import type { CoMState, Vector3Like } from '../../types/index.js';
+
+/**
+ * Foot placement asked of FootIKSystem to catch the center of mass
+ */
+export interface RecoveryStepRequest {
+  side: 'left' | 'right';
+  target: Vector3Like;
+}
+
+/**
+ * Active balance from the CoM stability margin
+ * As the CoM ground projection nears the support polygon's edge the torso
+ * leans and the arms swing against the offset; once it has been outside
+ * for RECOVERY_DELAY a recovery step is requested toward the fall.
+ */
+export class BalanceController {
+  hipWidth: number;
+
+  // Corrections (smoothed, added over the procedural upper body)
+  torsoLean: number;
+  sideLean: number;
+  armSwing: number;
+
+  // CoM offset from the support centroid in character space (meters)
+  forwardOffset: number;
+  lateralOffset: number;
+  urgency: number;        // 0 stable - 1 at or past the polygon edge
+
+  // Recovery stepping
+  unstableTime: number;
+  pendingStep: RecoveryStepRequest | null;
+
+  constructor(hipWidth: number = CHARACTER.HIP_WIDTH) {
+    this.hipWidth = hipWidth;
+
+    // Corrections
+    this.torsoLean = 0;
+    this.sideLean = 0;
+    this.armSwing = 0;
+
+    // CoM offset
+    this.forwardOffset = 0;
+    this.lateralOffset = 0;
+    this.urgency = 0;
+
+    // Recovery stepping
+    this.unstableTime = 0;
+    this.pendingStep = null;
+  }
+
+  /**
+   * Read this frame's CoM state; `enabled` is false whenever the gait or an
+   * ability owns the pose (corrections then fade out)
+   */
+  update(
+    comState: CoMState,
+    supportPolygon: Vector3Like[],
+    facing: number,
+    enabled: boolean,
+    deltaTime: number
+  ): void {
+    const { STABILITY, BALANCE } = COM;
+    const active = enabled && supportPolygon.length > 0;
+
+    if (active) {
+      const center = polygonCentroid(supportPolygon);
+      const dx = comState.groundProjection.x - center.x;
+      const dz = comState.groundProjection.z - center.z;
+      this.forwardOffset = dx * Math.sin(facing) + dz * Math.cos(facing);
+      this.lateralOffset = dx * Math.cos(facing) - dz * Math.sin(facing);
+
+      const range = STABILITY.STABLE_MARGIN - STABILITY.UNSTABLE_MARGIN;
+      this.urgency = range > 0
+        ? clamp((STABILITY.STABLE_MARGIN - comState.stabilityMargin) / range, 0, 1)
+        : comState.isStable ? 0 : 1;
+    } else {
+      this.forwardOffset = 0;
+      this.lateralOffset = 0;
+      this.urgency = 0;
+    }
+
+    // Lean and swing the arms against the offset (positive lean is forward,
+    // positive arm swing is back, positive hip tilt leans left)
+    const gain = CHARACTER.COM_BALANCE_INFLUENCE * this.urgency;
+    const leanTarget = clamp(-this.forwardOffset * CHARACTER.COM_LEAN_COMPENSATION * gain, -BALANCE.MAX_LEAN, BALANCE.MAX_LEAN);
+    const sideTarget = clamp(this.lateralOffset * CHARACTER.COM_LEAN_COMPENSATION * gain, -BALANCE.MAX_SIDE_LEAN, BALANCE.MAX_SIDE_LEAN);
+    const armTarget = this.forwardOffset * BALANCE.ARM_COUNTERBALANCE * gain;
+
+    const blend = 1 - Math.exp(-BALANCE.RESPONSE * deltaTime);
+    this.torsoLean += (leanTarget - this.torsoLean) * blend;
+    this.sideLean += (sideTarget - this.sideLean) * blend;
+    this.armSwing += (armTarget - this.armSwing) * blend;
+
+    // Step once the CoM has stayed outside the support polygon
+    const outside = active && comState.stabilityMargin < STABILITY.UNSTABLE_MARGIN;
+    this.unstableTime = outside ? this.unstableTime + deltaTime : 0;
+    if (outside && this.unstableTime >= BALANCE.RECOVERY_DELAY && !this.pendingStep) {
+      this.pendingStep = this.planRecoveryStep(comState.groundProjection, facing);
+      this.unstableTime = 0;
+    }
+  }
+
+  /**
+   * Step with the foot on the side the CoM is falling toward (the right
+   * foot for straight ahead or behind), landing RECOVERY_STEP_MARGIN past
+   * the CoM projection and hip-width out from it
+   */
+  planRecoveryStep(projection: Vector3Like, facing: number): RecoveryStepRequest {
+    return this.planStep(projection, facing, this.forwardOffset, this.lateralOffset, COM.BALANCE.RECOVERY_STEP_MARGIN);
+  }
+
+  /**
+   * Force a recovery step along an external push (world direction): harder
+   * pushes step further past the CoM projection, up to RECOVERY_STEP_MAX
+   */
+  requestStep(direction: Vector3Like, strength: number, projection: Vector3Like, facing: number): void {
+    const { BALANCE } = COM;
+    const forward = direction.x * Math.sin(facing) + direction.z * Math.cos(facing);
+    const lateral = direction.x * Math.cos(facing) - direction.z * Math.sin(facing);
+    const distance = lerp(BALANCE.RECOVERY_STEP_MARGIN, BALANCE.RECOVERY_STEP_MAX, clamp(strength, 0, 1));
+    this.pendingStep = this.planStep(projection, facing, forward, lateral, distance);
+    this.unstableTime = 0;
+  }
+
+  /**
+   * Step `distance` past `projection` along the character-space direction
+   * (forward, lateral), hip-width out on the stepping foot's side
+   */
+  planStep(
+    projection: Vector3Like,
+    facing: number,
+    forwardOffset: number,
+    lateralOffset: number,
+    distance: number
+  ): RecoveryStepRequest {
+    const forwardX = Math.sin(facing);
+    const forwardZ = Math.cos(facing);
+    const rightX = Math.cos(facing);
+    const rightZ = -Math.sin(facing);
+
+    const offsetLength = Math.hypot(forwardOffset, lateralOffset);
+    const forward = offsetLength > 1e-6 ? forwardOffset / offsetLength : 0;
+    const lateral = offsetLength > 1e-6 ? lateralOffset / offsetLength : 0;
+    const side = lateral < 0 ? 'left' : 'right';
+    const sideOffset = (side === 'left' ? -this.hipWidth : this.hipWidth) / 2;
+
+    return {
+      side,
+      target: {
+        x: projection.x + (forwardX * forward + rightX * lateral) * distance + rightX * sideOffset,
+        y: projection.y,
+        z: projection.z + (forwardZ * forward + rightZ * lateral) * distance + rightZ * sideOffset
+      }
+    };
+  }
+
+  /**
+   * Hand over the pending recovery step (once)
+   */
+  takeRecoveryStep(): RecoveryStepRequest | null {
+    const step = this.pendingStep;
+    this.pendingStep = null;
+    return step;
+  }
+
+  /**
+   * Procedural upper body with the balance corrections added
+   */
+  apply(state: AnimationState): AnimationState {
+    return {
+      ...state,
+      torsoLean: state.torsoLean + this.torsoLean,
+      hipSway: state.hipSway + this.sideLean,
+      leftArmSwing: state.leftArmSwing + this.armSwing,
+      rightArmSwing: state.rightArmSwing + this.armSwing
+    };
+  }
+
+  reset(): void {
+    this.torsoLean = 0;
+    this.sideLean = 0;
+    this.armSwing = 0;
+    this.forwardOffset = 0;
+    this.lateralOffset = 0;
+    this.urgency = 0;
+    this.unstableTime = 0;
+    this.pendingStep = null;
+  }
+}
+
+function polygonCentroid(polygon: Vector3Like[]): Vector3Like {
+  let x = 0;
+  let z = 0;
+  for (const point of polygon) {
+    x += point.x;
+    z += point.z;
+  }
+  return { x: x / polygon.length, y: 0, z: z / polygon.length };
+}
+
+export default BalanceController;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { ClimbIKSystem } from './ClimbIKSystem.js'
+import { MovementMode } from '../controller/MovementModes.js'
+
+const ledge = {
+  point: { x: 0, y: 9, z: 1.25 },
+  normal: { x: 0, y: 0, z: -1 },
+  topY: 9,
+  height: 7.2,
+  landing: null,
+  canStand: true
+}
+const hangPosition = { x: 0, y: 1.8, z: 0.8 }
+
+describe('character/animation/ClimbIKSystem', () => {
+  it('grips the ledge edge and braces the feet on the wall while hanging', () => {
+    const ik = new ClimbIKSystem(1.2, 0.8, 1.2, 1, 1.5, 1.5)
+
+    const targets = ik.update(ledge, hangPosition, 0, MovementMode.LEDGE_HANG, 0, 0)
+
+    expect(targets.leftHand).toEqual({ x: -0.6, y: 9, z: 1.25 })
+    expect(targets.rightHand).toEqual({ x: 0.6, y: 9, z: 1.25 })
+    expect(targets.leftFoot.z).toBeCloseTo(1.25, 5)
+    expect(targets.leftFoot.y).toBeGreaterThan(targets.rightFoot.y)
+  })
+
+  it('releases the feet while pulling up and the hands late in a vault', () => {
+    const ik = new ClimbIKSystem(1.2, 0.8, 1.2, 1, 1.5, 1.5)
+
+    const climbing = ik.update(ledge, hangPosition, 0, MovementMode.CLIMBING_UP, 0.8, 0)
+    expect(climbing.leftHand).not.toBeNull()
+    expect(climbing.leftFoot).toBeNull()
+
+    const vaulting = ik.update(ledge, hangPosition, 0, MovementMode.VAULTING, 0.9, 0)
+    expect(vaulting.leftHand).toBeNull()
+    expect(ik.update(null, hangPosition, 0, MovementMode.LEDGE_HANG, 0, 0).rightHand).toBeNull()
+  })
+})
@@ -0,0 +1,126 @@
+import { MovementMode, type MovementModeType } from '../controller/MovementModes.js';
+import { TwoBoneIK, type IKSolution } from './TwoBoneIK.js';
+import type { LedgeInfo } from '../controller/LedgeDetector.js';
+import type { Vector3Like } from '../../types/index.js';
+
+/**
+ * Hand and foot targets for ledge traversal (null = limb stays on FK)
+ */
+export interface ClimbTargets {
+  leftHand: Vector3Like | null;
+  rightHand: Vector3Like | null;
+  leftFoot: Vector3Like | null;
+  rightFoot: Vector3Like | null;
+}
+
+/**
+ * IK targets for hanging, shimmying, climbing up and vaulting
+ * Hands grip the ledge edge, feet brace against the wall below it.
+ */
+export class ClimbIKSystem {
+  handSpacing: number;
+  footSpacing: number;
+
+  // IK solvers
+  armSolver: TwoBoneIK;
+  legSolver: TwoBoneIK;
+
+  // Current targets
+  targets: ClimbTargets;
+
+  // Hand shuffle while shimmying
+  static readonly SHUFFLE_SPEED = 8;
+  static readonly SHUFFLE_AMOUNT = 0.15;
+  // Foot heights on the wall above the hanging feet
+  static readonly LEFT_FOOT_RAISE = 0.7;
+  static readonly RIGHT_FOOT_RAISE = 0.3;
+  // Climb-up progress at which the feet leave the wall / vault hands let go
+  static readonly CLIMB_FEET_RELEASE = 0.6;
+  static readonly VAULT_HAND_RELEASE = 0.6;
+
+  constructor(
+    shoulderWidth: number,
+    hipWidth: number,
+    upperArmLength: number,
+    lowerArmLength: number,
+    upperLegLength: number,
+    lowerLegLength: number
+  ) {
+    this.handSpacing = shoulderWidth / 2;
+    this.footSpacing = hipWidth / 2;
+
+    // IK solvers (elbows bend back, knees forward)
+    this.armSolver = new TwoBoneIK(upperArmLength, lowerArmLength, -1);
+    this.legSolver = new TwoBoneIK(upperLegLength, lowerLegLength);
+
+    // Current targets
+    this.targets = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
+  }
+
+  /**
+   * Place targets for the current traversal mode
+   * `progress` is the climb-up/vault progress (0-1)
+   */
+  update(
+    ledge: LedgeInfo | null,
+    characterPos: Vector3Like,
+    facing: number,
+    movementMode: MovementModeType,
+    progress: number,
+    time: number
+  ): ClimbTargets {
+    const targets: ClimbTargets = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
+    this.targets = targets;
+    if (!ledge) return targets;
+
+    const hanging = movementMode === MovementMode.LEDGE_HANG || movementMode === MovementMode.SHIMMYING;
+    const climbing = movementMode === MovementMode.CLIMBING_UP;
+    const vaulting = movementMode === MovementMode.VAULTING;
+
+    // Hands on the edge, shuffling in turn while shimmying
+    if (hanging || climbing || (vaulting && progress < ClimbIKSystem.VAULT_HAND_RELEASE)) {
+      const shuffle = movementMode === MovementMode.SHIMMYING
+        ? Math.sin(time * ClimbIKSystem.SHUFFLE_SPEED) * ClimbIKSystem.SHUFFLE_AMOUNT
+        : 0;
+      targets.leftHand = this.getEdgePoint(ledge, facing, -this.handSpacing + shuffle);
+      targets.rightHand = this.getEdgePoint(ledge, facing, this.handSpacing - shuffle);
+    }
+
+    // Feet braced on the wall until the body comes over the top
+    if (hanging || (climbing && progress < ClimbIKSystem.CLIMB_FEET_RELEASE)) {
+      targets.leftFoot = this.getWallPoint(ledge, characterPos, facing, -this.footSpacing, ClimbIKSystem.LEFT_FOOT_RAISE);
+      targets.rightFoot = this.getWallPoint(ledge, characterPos, facing, this.footSpacing, ClimbIKSystem.RIGHT_FOOT_RAISE);
+    }
+
+    return targets;
+  }
+
+  /**
+   * Point on the ledge top edge, `lateral` to the character's right
+   */
+  getEdgePoint(ledge: LedgeInfo, facing: number, lateral: number): Vector3Like {
+    return {
+      x: ledge.point.x + Math.cos(facing) * lateral,
+      y: ledge.topY,
+      z: ledge.point.z - Math.sin(facing) * lateral
+    };
+  }
+
+  /**
+   * Point on the wall face below the ledge, `raise` above the character's feet
+   */
+  getWallPoint(ledge: LedgeInfo, characterPos: Vector3Like, facing: number, lateral: number, raise: number): Vector3Like {
+    const edge = this.getEdgePoint(ledge, facing, lateral);
+    return { x: edge.x, y: characterPos.y + raise, z: edge.z };
+  }
+
+  solveArmIK(shoulderWorldPos: Vector3Like, handTarget: Vector3Like, characterFacing: number): IKSolution {
+    return this.armSolver.solve(shoulderWorldPos, handTarget, characterFacing);
+  }
+
+  solveLegIK(hipWorldPos: Vector3Like, footTarget: Vector3Like, characterFacing: number): IKSolution {
+    return this.legSolver.solve(hipWorldPos, footTarget, characterFacing);
+  }
+}
+
+export default ClimbIKSystem;
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { FootIKSystem } from './FootIKSystem.js'
+import { ANIMATION } from '../../config/index.js'
 import { MovementMode, GaitType } from '../controller/MovementModes.js'
 
 const flatHeight = () => 0
@@ -26,6 +27,42 @@ describe('character/animation/FootIKSystem', () => {
     expect(ik.rightFoot.phase).toBe('swing')
   })
 
+  it('sinks foot targets by the surface sink depth', () => {
+    const ik = new FootIKSystem(1, 1, 1)
+    ik.sinkDepthSource = () => 0.05
+
+    ik.computeFootTargets(
+      { x: 0, y: 0, z: 0 },
+      0,
+      { x: 0, y: 0, z: 0 },
+      GaitType.IDLE,
+      0.016,
+      flatHeight,
+      flatNormal,
+      null
+    )
+
+    expect(ik.leftFoot.worldTarget.y).toBeCloseTo(-0.05)
+    expect(ik.rightFoot.terrainHeight).toBeCloseTo(-0.05)
+  })
+
+  it('carries planted feet with a moving, rotating platform', () => {
+    const ik = new FootIKSystem(1, 1, 1)
+    ik.leftFoot.plantedPosition = { x: 1, y: 0, z: 0 }
+    ik.rightFoot.worldTarget = { x: -1, y: 0, z: 0 }
+
+    // Platform spun a quarter turn about the origin and rose 0.5 while moving +Z by 1
+    ik.applyGroundMotion(
+      { velocity: { x: 0, y: 0.5, z: 1 }, angularVelocity: Math.PI / 2, center: { x: 0, y: 0.5, z: 1 } },
+      1
+    )
+
+    expect(ik.leftFoot.plantedPosition.x).toBeCloseTo(0, 5)
+    expect(ik.leftFoot.plantedPosition.y).toBeCloseTo(0.5, 5)
+    expect(ik.leftFoot.plantedPosition.z).toBeCloseTo(0, 5)
+    expect(ik.rightFoot.worldTarget.z).toBeCloseTo(2, 5)
+  })
+
   it('advances cycle phase when moving', () => {
     const ik = new FootIKSystem(1, 1, 1)
     ik.computeFootTargets(
@@ -51,10 +88,53 @@ describe('character/animation/FootIKSystem', () => {
     expect(offset).toBeLessThan(0)
   })
 
+  it('lowers the pelvis gradually while crouching', () => {
+    const ik = new FootIKSystem(1, 1, 1)
+    const first = ik.computePelvisOffset({ x: 0, y: 0, z: 0 }, 0, true, 0.05)
+    expect(first).toBeLessThan(0)
+
+    let offset = first
+    for (let i = 0; i < 60; i++) offset = ik.computePelvisOffset({ x: 0, y: 0, z: 0 }, 0, true, 0.05)
+    expect(offset).toBeCloseTo(-ANIMATION.CROUCH_PELVIS_DROP, 5)
+
+    for (let i = 0; i < 60; i++) offset = ik.computePelvisOffset({ x: 0, y: 0, z: 0 }, 0, false, 0.05)
+    expect(offset).toBeCloseTo(0, 5)
+  })
+
   it('returns IK blend weight by movement mode', () => {
     const ik = new FootIKSystem(1, 1, 1)
     expect(ik.getIKBlendWeight(MovementMode.GROUNDED)).toBe(1)
     expect(ik.getIKBlendWeight(MovementMode.LANDING)).toBe(0.5)
     expect(ik.getIKBlendWeight(MovementMode.JUMPING)).toBe(0)
+    expect(ik.getIKBlendWeight(MovementMode.SWIMMING)).toBe(0)
+    expect(ik.getIKBlendWeight(MovementMode.RAGDOLL)).toBe(0)
+  })
+
+  it('takes a recovery step, braces, then settles back under the hips', () => {
+    const ik = new FootIKSystem(1, 1, 1)
+    const idle = () => ik.computeFootTargets({ x: 0, y: 0, z: 0 }, 0, { x: 0, y: 0, z: 0 }, GaitType.IDLE, 0.05, flatHeight, flatNormal, null)
+    idle()
+    expect(ik.getSupportingFeet()).toEqual({ left: true, right: true })
+
+    expect(ik.startRecoveryStep('right', { x: 1.2, y: 0, z: 0.4 })).toBe(true)
+    expect(ik.startRecoveryStep('left', { x: 0, y: 0, z: 0 })).toBe(false)
+    idle()
+    expect(ik.rightFoot.phase).toBe('swing')
+    expect(ik.rightFoot.worldTarget.y).toBeGreaterThan(0)
+    expect(ik.leftFoot.worldTarget.x).toBeCloseTo(-0.5, 5)
+    expect(ik.getSupportingFeet()).toEqual({ left: true, right: false })
+
+    for (let i = 0; i < 5; i++) idle()
+    expect(ik.recoveryStep).toBeNull()
+    expect(ik.rightFoot.worldTarget.x).toBeCloseTo(1.2, 5)
+    expect(ik.rightFoot.worldTarget.z).toBeCloseTo(0.4, 5)
+
+    // Held while braced, then stepped back under the hip
+    idle()
+    expect(ik.rightFoot.worldTarget.x).toBeCloseTo(1.2, 5)
+    for (let i = 0; i < 60; i++) idle()
+    expect(ik.bracedTime).toBeNull()
+    expect(ik.rightFoot.worldTarget.x).toBeCloseTo(0.5, 5)
+    expect(ik.rightFoot.worldTarget.z).toBeCloseTo(0, 5)
   })
 })
@@ -1,7 +1,8 @@
-import { ANIMATION } from '../../config/index.js';
-import { lerp } from '../../utils/index.js';
-import { FootPhase, GaitType, MovementMode, type GaitTypeType, type MovementModeType, type FootPhaseType } from '../controller/MovementModes.js';
+import { ANIMATION, COM } from '../../config/index.js';
+import { clamp, lerp } from '../../utils/index.js';
+import { FootPhase, GaitType, MovementMode, isAirborne, isSwimmingMode, isRagdollMode, type GaitTypeType, type MovementModeType, type FootPhaseType } from '../controller/MovementModes.js';
 import { TwoBoneIK, type IKSolution } from './TwoBoneIK.js';
+import type { GroundMotion } from '../../physics/IPhysicsWorld.js';
 import type { Vector3Like } from '../../types/index.js';
 
 interface FootState {
@@ -19,8 +20,20 @@ interface FootState {
   swingEndTarget: Vector3Like;
 }
 
+/**
+ * Single corrective step by one foot (the other stays planted)
+ */
+interface RecoveryStep {
+  side: 'left' | 'right';
+  start: Vector3Like;
+  target: Vector3Like;
+  elapsed: number;
+  settling: boolean;  // Stepping back under the hip rather than catching a fall
+}
+
 type TerrainHeightFunction = (x: number, z: number) => number;
 type TerrainNormalFunction = (x: number, z: number) => Vector3Like;
+type TerrainSinkFunction = (x: number, z: number) => number;
 
 /**
  * Foot IK system for procedural walking
@@ -46,6 +59,7 @@ export class FootIKSystem {
   // Pelvis
   pelvisOffset: number;
   targetPelvisOffset: number;
+  crouchBlend: number;       // 0 standing - 1 fully crouched
 
   // Distance tracking for step triggers
   lastCharacterPosition: Vector3Like;
@@ -55,6 +69,15 @@ export class FootIKSystem {
   turnPlantedLeft: Vector3Like;
   turnPlantedRight: Vector3Like;
 
+  // Footstep sink depth below the terrain surface (e.g. from terrain materials)
+  sinkDepthSource: TerrainSinkFunction | null;
+
+  // Balance recovery: a corrective step, then the feet hold the braced
+  // stance it left until settling back under the hips
+  recoveryStep: RecoveryStep | null;
+  bracedTime: number | null;  // Seconds braced (null when idle feet follow the hips)
+  standing: boolean;          // Both feet planted under a stationary character
+
   // Configuration for foot planting
   static readonly EARLY_STEP_DISTANCE_FACTOR = 0.8;
   static readonly SWING_RETARGET_MAX_SPEED = 2.0;
@@ -81,6 +104,7 @@ export class FootIKSystem {
     // Pelvis
     this.pelvisOffset = 0;
     this.targetPelvisOffset = 0;
+    this.crouchBlend = 0;
 
     // Distance tracking
     this.lastCharacterPosition = { x: 0, y: 0, z: 0 };
@@ -89,6 +113,14 @@ export class FootIKSystem {
     this.isTurningInPlace = false;
     this.turnPlantedLeft = { x: 0, y: 0, z: 0 };
     this.turnPlantedRight = { x: 0, y: 0, z: 0 };
+
+    // Footstep sink
+    this.sinkDepthSource = null;
+
+    // Balance recovery
+    this.recoveryStep = null;
+    this.bracedTime = null;
+    this.standing = true;
   }
 
   createFootState(): FootState {
@@ -150,6 +182,42 @@ export class FootIKSystem {
     this.rightFoot.phase = leftInStance ? FootPhase.SWING : FootPhase.STANCE;
   }
 
+  /**
+   * Carry planted and in-flight foot positions with a moving platform
+   * so stance feet stay pinned to the platform rather than the world.
+   */
+  applyGroundMotion(motion: GroundMotion | null, deltaTime: number): void {
+    if (!motion || deltaTime <= 0) return;
+
+    const yawDelta = motion.angularVelocity * deltaTime;
+    const cos = Math.cos(yawDelta);
+    const sin = Math.sin(yawDelta);
+    const pivotX = motion.center.x - motion.velocity.x * deltaTime;
+    const pivotZ = motion.center.z - motion.velocity.z * deltaTime;
+
+    const carry = (point: Vector3Like): void => {
+      const rx = point.x - pivotX;
+      const rz = point.z - pivotZ;
+      point.x = motion.center.x + rx * cos + rz * sin;
+      point.y += motion.velocity.y * deltaTime;
+      point.z = motion.center.z - rx * sin + rz * cos;
+    };
+
+    for (const foot of [this.leftFoot, this.rightFoot]) {
+      carry(foot.worldTarget);
+      carry(foot.plantedPosition);
+      carry(foot.swingStartPosition);
+      carry(foot.swingEndTarget);
+    }
+    if (this.recoveryStep) {
+      carry(this.recoveryStep.start);
+      carry(this.recoveryStep.target);
+    }
+    carry(this.turnPlantedLeft);
+    carry(this.turnPlantedRight);
+    carry(this.lastCharacterPosition);
+  }
+
   /**
    * Compute foot targets
    */
@@ -163,32 +231,49 @@ export class FootIKSystem {
     getTerrainNormal: TerrainNormalFunction,
     moveIntent?: Vector3Like
   ): void {
+    // Soft surfaces (mud, sand) let feet sink below the rendered surface
+    const sinkDepth = this.sinkDepthSource;
+    const sampleHeight: TerrainHeightFunction = sinkDepth
+      ? (x, z) => getTerrainHeight(x, z) - sinkDepth(x, z)
+      : getTerrainHeight;
+
+    // RECOVERY STEP - overrides the gait until the stepping foot lands
+    if (this.recoveryStep) {
+      this.updateRecoveryStep(sampleHeight, getTerrainNormal, deltaTime);
+      this.lastCharacterPosition.x = characterPos.x;
+      this.lastCharacterPosition.y = characterPos.y;
+      this.lastCharacterPosition.z = characterPos.z;
+      return;
+    }
+
     // TURNING STATE HANDLING - plant both feet and freeze gait
     if (gait === GaitType.TURNING) {
+      this.standing = true;
+
       // Enter turning - plant both feet at current positions
       if (!this.isTurningInPlace) {
         this.isTurningInPlace = true;
 
         // Store current foot positions as planted
         this.turnPlantedLeft.x = this.leftFoot.worldTarget.x;
-        this.turnPlantedLeft.y = getTerrainHeight(this.leftFoot.worldTarget.x, this.leftFoot.worldTarget.z);
+        this.turnPlantedLeft.y = sampleHeight(this.leftFoot.worldTarget.x, this.leftFoot.worldTarget.z);
         this.turnPlantedLeft.z = this.leftFoot.worldTarget.z;
 
         this.turnPlantedRight.x = this.rightFoot.worldTarget.x;
-        this.turnPlantedRight.y = getTerrainHeight(this.rightFoot.worldTarget.x, this.rightFoot.worldTarget.z);
+        this.turnPlantedRight.y = sampleHeight(this.rightFoot.worldTarget.x, this.rightFoot.worldTarget.z);
         this.turnPlantedRight.z = this.rightFoot.worldTarget.z;
       }
 
       // Both feet stay planted - only update Y for terrain
       this.leftFoot.worldTarget.x = this.turnPlantedLeft.x;
       this.leftFoot.worldTarget.z = this.turnPlantedLeft.z;
-      this.leftFoot.worldTarget.y = getTerrainHeight(this.turnPlantedLeft.x, this.turnPlantedLeft.z);
+      this.leftFoot.worldTarget.y = sampleHeight(this.turnPlantedLeft.x, this.turnPlantedLeft.z);
       this.leftFoot.terrainHeight = this.leftFoot.worldTarget.y;
       this.leftFoot.terrainNormal = getTerrainNormal(this.turnPlantedLeft.x, this.turnPlantedLeft.z);
 
       this.rightFoot.worldTarget.x = this.turnPlantedRight.x;
       this.rightFoot.worldTarget.z = this.turnPlantedRight.z;
-      this.rightFoot.worldTarget.y = getTerrainHeight(this.turnPlantedRight.x, this.turnPlantedRight.z);
+      this.rightFoot.worldTarget.y = sampleHeight(this.turnPlantedRight.x, this.turnPlantedRight.z);
       this.rightFoot.terrainHeight = this.rightFoot.worldTarget.y;
       this.rightFoot.terrainNormal = getTerrainNormal(this.turnPlantedRight.x, this.turnPlantedRight.z);
 
@@ -222,11 +307,26 @@ export class FootIKSystem {
     }
 
     const speed = Math.sqrt(velocity.x ** 2 + velocity.z ** 2);
+    this.standing = speed < 0.5;
+
+    // Moving off releases a braced stance; standing in one eventually
+    // steps the feet back under the hips
+    if (!this.standing) {
+      this.bracedTime = null;
+    } else if (this.bracedTime !== null) {
+      this.bracedTime += deltaTime;
+      if (this.bracedTime >= COM.BALANCE.SETTLE_DELAY) {
+        this.settleStance(characterPos, characterFacing);
+        if (this.recoveryStep) return;
+      }
+    }
 
     // Stride parameters (needed for early step check)
     const strideLen = gait === GaitType.RUNNING
       ? ANIMATION.RUN_STRIDE_LENGTH
-      : ANIMATION.WALK_STRIDE_LENGTH;
+      : gait === GaitType.CROUCHING
+        ? ANIMATION.CROUCH_STRIDE_LENGTH
+        : ANIMATION.WALK_STRIDE_LENGTH;
 
     // Update cycle phase - CRITICAL: cycle rate = speed / stride length
     // This ensures feet move at exactly the right rate to match character movement
@@ -261,7 +361,9 @@ export class FootIKSystem {
     const strideLength = strideLen;
     const strideHeight = gait === GaitType.RUNNING
       ? ANIMATION.RUN_STRIDE_HEIGHT
-      : ANIMATION.WALK_STRIDE_HEIGHT;
+      : gait === GaitType.CROUCHING
+        ? ANIMATION.CROUCH_STRIDE_HEIGHT
+        : ANIMATION.WALK_STRIDE_HEIGHT;
 
     // Facing direction (for hip offset - must match StickFigureRig)
     const facingDirX = Math.sin(characterFacing);
@@ -309,7 +411,7 @@ export class FootIKSystem {
       strideHeight,
       this.cyclePhase,
       speed,
-      getTerrainHeight,
+      sampleHeight,
       getTerrainNormal,
       deltaTime
     );
@@ -324,7 +426,7 @@ export class FootIKSystem {
       strideHeight,
       (this.cyclePhase + 0.5) % 1.0,
       speed,
-      getTerrainHeight,
+      sampleHeight,
       getTerrainNormal,
       deltaTime
     );
@@ -353,6 +455,17 @@ export class FootIKSystem {
     const hipX = charPos.x + perpX * lateralOffset;
     const hipZ = charPos.z + perpZ * lateralOffset;
 
+    // Standing in a braced stance - feet stay where recovery left them
+    if (speed < 0.5 && this.bracedTime !== null) {
+      foot.worldTarget.x = foot.plantedPosition.x;
+      foot.worldTarget.z = foot.plantedPosition.z;
+      foot.worldTarget.y = getHeight(foot.plantedPosition.x, foot.plantedPosition.z);
+      foot.terrainHeight = foot.worldTarget.y;
+      foot.terrainNormal = getNormal(foot.plantedPosition.x, foot.plantedPosition.z);
+      foot.wasInStance = true;
+      return;
+    }
+
     // Standing still - no pinning needed, feet under hips
     if (speed < 0.5) {
       foot.worldTarget.x = hipX;
@@ -454,19 +567,139 @@ export class FootIKSystem {
   }
 
   /**
-   * Compute pelvis offset for uneven terrain
+   * Step one foot toward `target` to catch the center of mass (reach
+   * clamped to RECOVERY_STEP_MAX); the other foot stays planted. Returns
+   * false while a step is already underway.
    */
-  computePelvisOffset(_characterPos: Vector3Like, _groundHeight: number): number {
+  startRecoveryStep(side: 'left' | 'right', target: Vector3Like, settling: boolean = false): boolean {
+    if (this.recoveryStep) return false;
+
+    const foot = side === 'left' ? this.leftFoot : this.rightFoot;
+    const other = side === 'left' ? this.rightFoot : this.leftFoot;
+    const start = { ...foot.worldTarget };
+    const dx = target.x - start.x;
+    const dz = target.z - start.z;
+    const reach = Math.sqrt(dx * dx + dz * dz);
+    const scale = reach > COM.BALANCE.RECOVERY_STEP_MAX ? COM.BALANCE.RECOVERY_STEP_MAX / reach : 1;
+
+    other.plantedPosition = { ...other.worldTarget };
+    this.isTurningInPlace = false;
+    this.standing = false;
+    this.recoveryStep = {
+      side,
+      start,
+      target: { x: start.x + dx * scale, y: target.y, z: start.z + dz * scale },
+      elapsed: 0,
+      settling
+    };
+    return true;
+  }
+
+  /**
+   * Swing the stepping foot along a low arc, then plant it and brace
+   */
+  updateRecoveryStep(
+    getHeight: TerrainHeightFunction,
+    getNormal: TerrainNormalFunction,
+    deltaTime: number
+  ): void {
+    const step = this.recoveryStep;
+    if (!step) return;
+
+    const foot = step.side === 'left' ? this.leftFoot : this.rightFoot;
+    const other = step.side === 'left' ? this.rightFoot : this.leftFoot;
+    step.elapsed += deltaTime;
+    const t = clamp(step.elapsed / COM.BALANCE.RECOVERY_STEP_DURATION, 0, 1);
+    const eased = t * t * (3 - 2 * t);
+
+    foot.phase = FootPhase.SWING;
+    foot.worldTarget.x = lerp(step.start.x, step.target.x, eased);
+    foot.worldTarget.z = lerp(step.start.z, step.target.z, eased);
+    foot.terrainHeight = getHeight(foot.worldTarget.x, foot.worldTarget.z);
+    foot.worldTarget.y = foot.terrainHeight + Math.sin(t * Math.PI) * COM.BALANCE.RECOVERY_STEP_HEIGHT;
+    foot.terrainNormal = getNormal(foot.worldTarget.x, foot.worldTarget.z);
+    foot.wasInStance = false;
+
+    other.phase = FootPhase.STANCE;
+    other.worldTarget.x = other.plantedPosition.x;
+    other.worldTarget.z = other.plantedPosition.z;
+    other.worldTarget.y = getHeight(other.plantedPosition.x, other.plantedPosition.z);
+    other.terrainHeight = other.worldTarget.y;
+    other.terrainNormal = getNormal(other.plantedPosition.x, other.plantedPosition.z);
+    other.wasInStance = true;
+
+    if (t >= 1) {
+      foot.phase = FootPhase.STANCE;
+      foot.worldTarget.y = foot.terrainHeight;
+      foot.plantedPosition = { ...foot.worldTarget };
+      foot.plantedNormalWorld = foot.terrainNormal;
+      foot.wasInStance = true;
+      this.recoveryStep = null;
+      this.standing = true;
+      // Settle steps follow each other straight away
+      this.bracedTime = step.settling ? COM.BALANCE.SETTLE_DELAY : 0;
+    }
+  }
+
+  /**
+   * Step the foot farthest from its hip back under it, or leave the braced
+   * stance once both feet are there
+   */
+  settleStance(characterPos: Vector3Like, characterFacing: number): void {
+    const perpX = Math.cos(characterFacing);
+    const perpZ = -Math.sin(characterFacing);
+    let farthest: { side: 'left' | 'right'; hip: Vector3Like; distance: number } | null = null;
+
+    for (const side of ['left', 'right'] as const) {
+      const foot = side === 'left' ? this.leftFoot : this.rightFoot;
+      const offset = (side === 'left' ? -this.hipWidth : this.hipWidth) / 2;
+      const hip = { x: characterPos.x + perpX * offset, y: characterPos.y, z: characterPos.z + perpZ * offset };
+      const distance = Math.hypot(foot.plantedPosition.x - hip.x, foot.plantedPosition.z - hip.z);
+      if (!farthest || distance > farthest.distance) {
+        farthest = { side, hip, distance };
+      }
+    }
+
+    if (farthest && farthest.distance > COM.BALANCE.SETTLE_TOLERANCE) {
+      this.startRecoveryStep(farthest.side, farthest.hip, true);
+    } else {
+      this.bracedTime = null;
+    }
+  }
+
+  /**
+   * Feet bearing weight: stance feet, or both while standing still
+   */
+  getSupportingFeet(): { left: boolean; right: boolean } {
+    return {
+      left: this.standing || this.leftFoot.phase === FootPhase.STANCE,
+      right: this.standing || this.rightFoot.phase === FootPhase.STANCE
+    };
+  }
+
+  /**
+   * Compute pelvis offset for uneven terrain, lowered further while crouching
+   */
+  computePelvisOffset(
+    _characterPos: Vector3Like,
+    _groundHeight: number,
+    crouching: boolean = false,
+    deltaTime: number = 0.016
+  ): number {
     void _characterPos;
     void _groundHeight;
     const leftHeight = this.leftFoot.terrainHeight;
     const rightHeight = this.rightFoot.terrainHeight;
     const heightDiff = Math.abs(leftHeight - rightHeight);
 
+    const crouchTarget = crouching ? 1 : 0;
+    const crouchStep = ANIMATION.CROUCH_BLEND_SPEED * deltaTime;
+    this.crouchBlend += Math.max(-crouchStep, Math.min(crouchStep, crouchTarget - this.crouchBlend));
+
     this.targetPelvisOffset = -Math.min(heightDiff * 0.5, ANIMATION.PELVIS_DROP_MAX);
     this.pelvisOffset = lerp(this.pelvisOffset, this.targetPelvisOffset, 0.1);
 
-    return this.pelvisOffset;
+    return this.pelvisOffset - this.crouchBlend * ANIMATION.CROUCH_PELVIS_DROP;
   }
 
   /**
@@ -480,7 +713,9 @@ export class FootIKSystem {
    * Get IK blend weight based on movement mode
    */
   getIKBlendWeight(movementMode: MovementModeType): number {
-    if (movementMode === MovementMode.JUMPING || movementMode === MovementMode.FALLING) {
+    // No feet to plant in the air or in the water; knockdowns pose the
+    // legs themselves
+    if (isAirborne(movementMode) || isSwimmingMode(movementMode) || isRagdollMode(movementMode)) {
       return 0;
     }
     if (movementMode === MovementMode.LANDING) {
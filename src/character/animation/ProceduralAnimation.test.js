@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import { ProceduralAnimation } from './ProceduralAnimation.js'
 import { MovementMode, GaitType } from '../controller/MovementModes.js'
+import { ANIMATION } from '../../config/animation.js'
 
 describe('character/animation/ProceduralAnimation', () => {
   it('produces movement targets for running', () => {
@@ -19,4 +20,42 @@ describe('character/animation/ProceduralAnimation', () => {
     const state = anim.getState()
     expect(state.torsoLean).not.toBe(0)
   })
+
+  it('strokes with alternating arms instead of the walk swing while swimming', () => {
+    const anim = new ProceduralAnimation()
+    const targets = anim.calculateTargets(MovementMode.SWIMMING, GaitType.WALKING, 0, 0.3)
+    const walk = anim.calculateTargets(MovementMode.GROUNDED, GaitType.WALKING, 0, 0.3)
+
+    expect(targets.torsoLean).toBe(ANIMATION.TORSO_LEAN_SWIM)
+    expect(targets.leftArmSwing).toBeLessThan(0)
+    expect(targets.leftArmSwing).not.toBeCloseTo(targets.rightArmSwing, 2)
+    expect(targets.leftArmSwing).not.toBeCloseTo(walk.leftArmSwing, 2)
+  })
+
+  it('hunches over with arms reaching down while getting up', () => {
+    const anim = new ProceduralAnimation()
+    const targets = anim.calculateTargets(MovementMode.GETTING_UP, GaitType.IDLE, 0, 0)
+
+    expect(targets.torsoLean).toBe(ANIMATION.TORSO_LEAN_GET_UP)
+    expect(targets.leftArmSwing).toBeLessThan(0)
+    expect(targets.rightArmSwing).toBe(targets.leftArmSwing)
+  })
+
+  it('flinches along a push in proportion to its strength', () => {
+    const anim = new ProceduralAnimation()
+    const rest = anim.calculateTargets(MovementMode.STAGGERING, GaitType.IDLE, 0, 0)
+
+    anim.setFlinch(0.5, 0)
+    const soft = anim.calculateTargets(MovementMode.STAGGERING, GaitType.IDLE, 0, 0)
+    anim.setFlinch(1, 0)
+    const hard = anim.calculateTargets(MovementMode.STAGGERING, GaitType.IDLE, 0, 0)
+
+    expect(soft.torsoLean - rest.torsoLean).toBeCloseTo(0.5 * ANIMATION.FLINCH_LEAN, 5)
+    expect(hard.torsoLean - rest.torsoLean).toBeCloseTo(ANIMATION.FLINCH_LEAN, 5)
+    expect(hard.leftArmSwing).toBeLessThan(soft.leftArmSwing)
+
+    // Pushed toward the right tilts the hips right (negative sway)
+    anim.setFlinch(0, 1)
+    expect(anim.calculateTargets(MovementMode.STAGGERING, GaitType.IDLE, 0, 0).hipSway).toBeLessThan(rest.hipSway)
+  })
 })
@@ -1,6 +1,6 @@
 import { ANIMATION } from '../../config/index.js';
 import { lerp } from '../../utils/index.js';
-import { GaitType, MovementMode, type GaitTypeType, type MovementModeType } from '../controller/MovementModes.js';
+import { GaitType, MovementMode, isGroundedMode, type GaitTypeType, type MovementModeType } from '../controller/MovementModes.js';
 
 export interface AnimationState {
   torsoLean: number;
@@ -13,6 +13,9 @@ export interface AnimationState {
   rightElbowBend: number;
 }
 
+// Arm angle the swim stroke sweeps around (reaching forward, above the shoulder)
+const SWIM_STROKE_CENTER = -1.4;
+
 /**
  * Procedural animation for upper body (FK)
  */
@@ -28,6 +31,10 @@ export class ProceduralAnimation {
   leftElbowBend: number;
   rightElbowBend: number;
 
+  // Stagger flinch (push direction in character space, scaled by strength)
+  flinchForward: number;
+  flinchLateral: number;
+
   constructor() {
     // Current rotations
     this.torsoLean = 0;
@@ -39,6 +46,18 @@ export class ProceduralAnimation {
     this.rightArmSwing = 0;
     this.leftElbowBend = 0;
     this.rightElbowBend = 0;
+
+    // Stagger flinch
+    this.flinchForward = 0;
+    this.flinchLateral = 0;
+  }
+
+  /**
+   * Flinch from a push this frame (CharacterController.getStaggerFlinch)
+   */
+  setFlinch(forward: number, lateral: number): void {
+    this.flinchForward = forward;
+    this.flinchLateral = lateral;
   }
 
   /**
@@ -74,7 +93,44 @@ export class ProceduralAnimation {
     let rightElbowBend = -0.1;
 
     // Torso based on movement mode and gait
-    if (movementMode === MovementMode.GROUNDED || movementMode === MovementMode.LANDING) {
+    if (movementMode === MovementMode.LEDGE_HANG || movementMode === MovementMode.SHIMMYING) {
+      // Chest to the wall, swaying slightly while shimmying
+      torsoLean = ANIMATION.TORSO_LEAN_HANG;
+      if (movementMode === MovementMode.SHIMMYING) {
+        hipSway = Math.sin(time * 8) * ANIMATION.HIP_SWAY_AMOUNT;
+      }
+    } else if (movementMode === MovementMode.CLIMBING_UP) {
+      torsoLean = ANIMATION.TORSO_LEAN_CLIMB;
+    } else if (movementMode === MovementMode.VAULTING) {
+      torsoLean = ANIMATION.TORSO_LEAN_VAULT;
+      headBob = -ANIMATION.HEAD_BOB_AMOUNT * 2;
+    } else if (movementMode === MovementMode.SWIMMING) {
+      // Stretched out along the surface, rolling with the stroke
+      torsoLean = ANIMATION.TORSO_LEAN_SWIM;
+      torsoTwist = Math.sin(time * ANIMATION.SWIM_STROKE_SPEED) * ANIMATION.TORSO_TWIST_AMOUNT * 2;
+    } else if (movementMode === MovementMode.TREADING) {
+      // Upright, bobbing gently
+      torsoLean = ANIMATION.TORSO_LEAN_TREAD;
+      headBob = Math.sin(time * ANIMATION.BREATHE_SPEED) * ANIMATION.HEAD_BOB_AMOUNT;
+    } else if (movementMode === MovementMode.GETTING_UP) {
+      // Hunched over the knees, head down
+      torsoLean = ANIMATION.TORSO_LEAN_GET_UP;
+      headBob = -ANIMATION.HEAD_BOB_AMOUNT * 2;
+    } else if (movementMode === MovementMode.DODGING) {
+      // Tucked into the roll, head down
+      torsoLean = ANIMATION.TORSO_LEAN_DODGE;
+      headBob = -ANIMATION.HEAD_BOB_AMOUNT * 4;
+    } else if (movementMode === MovementMode.SLIDING) {
+      // Leaning back against the slope with a slight wobble
+      torsoLean = ANIMATION.TORSO_LEAN_SLIDE;
+      hipSway = Math.sin(time * 6) * ANIMATION.HIP_SWAY_AMOUNT;
+    } else if (movementMode === MovementMode.SPRINTING) {
+      // Deeper lean and stronger bounce than running
+      torsoLean = ANIMATION.TORSO_LEAN_SPRINT + Math.abs(Math.cos(phase)) * 0.06;
+      torsoTwist = Math.cos(phase) * ANIMATION.TORSO_TWIST_AMOUNT * 2;
+      headBob = -Math.abs(Math.cos(phase)) * ANIMATION.HEAD_BOB_AMOUNT * 2.5;
+      hipSway = Math.cos(phase) * ANIMATION.HIP_SWAY_AMOUNT;
+    } else if (isGroundedMode(movementMode)) {
       if (gait === GaitType.RUNNING) {
         // Forward lean with vertical bounce at each foot strike (cos peaks at touchdown)
         torsoLean = ANIMATION.TORSO_LEAN_RUN + Math.abs(Math.cos(phase)) * 0.04;
@@ -85,6 +141,12 @@ export class ProceduralAnimation {
         headBob = -Math.abs(Math.cos(phase)) * ANIMATION.HEAD_BOB_AMOUNT * 2;
         // Hip sway - lateral shift follows leg cycle
         hipSway = Math.cos(phase) * ANIMATION.HIP_SWAY_AMOUNT;
+      } else if (gait === GaitType.CROUCHING) {
+        // Hunched forward with a small bob as each foot plants
+        torsoLean = ANIMATION.TORSO_LEAN_CROUCH + Math.abs(Math.cos(phase)) * 0.02;
+        torsoTwist = Math.cos(phase) * ANIMATION.TORSO_TWIST_AMOUNT * 0.5;
+        headBob = -ANIMATION.TORSO_LEAN_CROUCH * 0.5;
+        hipSway = Math.cos(phase) * ANIMATION.HIP_SWAY_AMOUNT * 0.5;
       } else if (gait === GaitType.WALKING) {
         // Subtle forward lean with gentle bob at each step
         torsoLean = ANIMATION.TORSO_LEAN_WALK + Math.abs(Math.cos(phase)) * 0.02;
@@ -107,9 +169,13 @@ export class ProceduralAnimation {
     // Arms based on gait - contralateral to legs for natural walking motion
     // When left leg steps forward (cyclePhase=0), left arm goes back, right arm forward
     if (gait !== GaitType.IDLE) {
-      const armSwingAmount = gait === GaitType.RUNNING
-        ? ANIMATION.ARM_SWING_RUN
-        : ANIMATION.ARM_SWING_WALK;
+      const armSwingAmount = movementMode === MovementMode.SPRINTING
+        ? ANIMATION.ARM_SWING_SPRINT
+        : gait === GaitType.RUNNING
+          ? ANIMATION.ARM_SWING_RUN
+          : gait === GaitType.CROUCHING
+            ? ANIMATION.ARM_SWING_CROUCH
+            : ANIMATION.ARM_SWING_WALK;
 
       // Use cosine for correct phase alignment with leg touchdown
       // At cyclePhase=0 (left leg touchdown): leftArm=-1 (back), rightArm=+1 (forward)
@@ -118,7 +184,7 @@ export class ProceduralAnimation {
       rightArmSwing = Math.cos(phase) * armSwingAmount;
 
       // Elbow bends more when arm is back (pumping motion)
-      const elbowIntensity = gait === GaitType.RUNNING ? 0.5 : 0.3;
+      const elbowIntensity = gait === GaitType.RUNNING || movementMode === MovementMode.SPRINTING ? 0.5 : 0.3;
       // Left elbow max bend when cos(phase)=1 (arm back), min when cos(phase)=-1 (arm forward)
       leftElbowBend = -(ANIMATION.ELBOW_BEND_BASE + (1 + Math.cos(phase)) * elbowIntensity);
       // Right elbow max bend when cos(phase)=-1 (arm back), min when cos(phase)=1 (arm forward)
@@ -133,6 +199,71 @@ export class ProceduralAnimation {
       rightElbowBend = -0.5;
     }
 
+    // Swimming replaces the walk swing with alternating overarm strokes;
+    // treading sculls with the arms out in front
+    if (movementMode === MovementMode.SWIMMING) {
+      const stroke = time * ANIMATION.SWIM_STROKE_SPEED;
+      leftArmSwing = SWIM_STROKE_CENTER + Math.sin(stroke) * ANIMATION.SWIM_STROKE_AMOUNT;
+      rightArmSwing = SWIM_STROKE_CENTER - Math.sin(stroke) * ANIMATION.SWIM_STROKE_AMOUNT;
+      // Elbows bend on the recovery, straighten for the pull
+      leftElbowBend = -(0.2 + Math.max(0, -Math.cos(stroke)) * 0.8);
+      rightElbowBend = -(0.2 + Math.max(0, Math.cos(stroke)) * 0.8);
+    } else if (movementMode === MovementMode.TREADING) {
+      const scull = Math.sin(time * ANIMATION.SWIM_STROKE_SPEED * 0.6) * 0.15;
+      leftArmSwing = -0.7 + scull;
+      rightArmSwing = -0.7 - scull;
+      leftElbowBend = -0.8;
+      rightElbowBend = -0.8;
+    }
+
+    // Ledge and vault arms reach up/forward (climb IK places the hands)
+    if (movementMode === MovementMode.LEDGE_HANG ||
+        movementMode === MovementMode.SHIMMYING ||
+        movementMode === MovementMode.CLIMBING_UP) {
+      leftArmSwing = -2.9;
+      rightArmSwing = -2.9;
+      leftElbowBend = -0.2;
+      rightElbowBend = -0.2;
+    } else if (movementMode === MovementMode.VAULTING) {
+      leftArmSwing = -0.9;
+      rightArmSwing = -0.9;
+      leftElbowBend = -0.1;
+      rightElbowBend = -0.1;
+    }
+
+    // Getting up: arms reach down and forward to push off the ground
+    if (movementMode === MovementMode.GETTING_UP) {
+      leftArmSwing = -0.5;
+      rightArmSwing = -0.5;
+      leftElbowBend = -0.3;
+      rightElbowBend = -0.3;
+    }
+
+    // Dodge: arms wrapped in tight; slide: arms forward for balance
+    if (movementMode === MovementMode.DODGING) {
+      leftArmSwing = 0.9;
+      rightArmSwing = 0.9;
+      leftElbowBend = -1.8;
+      rightElbowBend = -1.8;
+    } else if (movementMode === MovementMode.SLIDING) {
+      leftArmSwing = 0.7;
+      rightArmSwing = 0.5;
+      leftElbowBend = -0.3;
+      rightElbowBend = -0.4;
+    }
+
+    // Flinch: thrown along the push with the arms flung forward to catch
+    // balance, in proportion to how hard the push was
+    const flinch = Math.hypot(this.flinchForward, this.flinchLateral);
+    if (flinch > 0) {
+      torsoLean += this.flinchForward * ANIMATION.FLINCH_LEAN;
+      hipSway -= this.flinchLateral * ANIMATION.FLINCH_SIDE_LEAN;
+      leftArmSwing -= flinch * ANIMATION.FLINCH_ARM_RAISE;
+      rightArmSwing -= flinch * ANIMATION.FLINCH_ARM_RAISE;
+      leftElbowBend -= flinch * ANIMATION.FLINCH_ELBOW_BEND;
+      rightElbowBend -= flinch * ANIMATION.FLINCH_ELBOW_BEND;
+    }
+
     return {
       torsoLean,
       torsoTwist,
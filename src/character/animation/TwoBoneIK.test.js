@@ -10,4 +10,20 @@ describe('character/animation/TwoBoneIK', () => {
     expect(result.reachRatio).toBeGreaterThan(0)
     expect(result.reachRatio).toBeLessThanOrEqual(1)
   })
+
+  it('solves in the character frame and bends elbows opposite to knees', () => {
+    const leg = new TwoBoneIK(1.5, 1.5)
+    const arm = new TwoBoneIK(1.2, 1, -1)
+
+    // Facing +x: a target ahead and below swings the limb forward (negative pitch)
+    const ahead = leg.solve({ x: 0, y: 0, z: 0 }, { x: 1.5, y: -2, z: 0 }, Math.PI / 2)
+    expect(ahead.upperAngle).toBeLessThan(0)
+
+    const knee = leg.solve({ x: 0, y: 0, z: 0 }, { x: 0, y: -2, z: 0 }, 0)
+    const elbow = arm.solve({ x: 0, y: 0, z: 0 }, { x: 0, y: -1.6, z: 0 }, 0)
+    expect(knee.lowerAngle).toBeGreaterThan(0)
+    expect(knee.upperAngle).toBeLessThan(0)
+    expect(elbow.lowerAngle).toBeLessThan(0)
+    expect(elbow.upperAngle).toBeGreaterThan(0)
+  })
 })
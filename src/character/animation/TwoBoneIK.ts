@@ -9,17 +9,20 @@ export interface IKSolution {
 
 /**
  * Generic two-bone IK solver
- * Works for legs and arms
+ * Works for legs (bendDirection 1: knee points forward) and arms
+ * (bendDirection -1: elbow points backward)
  */
 export class TwoBoneIK {
   upperLength: number;
   lowerLength: number;
   totalLength: number;
+  bendDirection: number;
 
-  constructor(upperLength: number, lowerLength: number) {
+  constructor(upperLength: number, lowerLength: number, bendDirection: number = 1) {
     this.upperLength = upperLength;
     this.lowerLength = lowerLength;
     this.totalLength = upperLength + lowerLength;
+    this.bendDirection = bendDirection < 0 ? -1 : 1;
   }
 
   /**
@@ -38,9 +41,9 @@ export class TwoBoneIK {
     const minReach = Math.abs(a - b) + 0.05;
     const c = clamp(distance, minReach, maxReach);
 
-    // Transform to character local space
-    const cos = Math.cos(-characterFacing);
-    const sin = Math.sin(-characterFacing);
+    // Transform to character local space (forward is (sin, cos) of facing)
+    const cos = Math.cos(characterFacing);
+    const sin = Math.sin(characterFacing);
     const localY = dy;
     const localZ = dx * sin + dz * cos;
 
@@ -55,12 +58,12 @@ export class TwoBoneIK {
     const cosKneeInterior = (a * a + b * b - c * c) / (2 * a * b);
     const kneeInteriorAngle = Math.acos(clamp(cosKneeInterior, -1, 1));
 
-    // Upper bone pitch (knee-forward for human legs)
-    const upperAngle = angleToTarget - hipOffset;
+    // Upper bone pitch (knee-forward for human legs, elbow-back for arms)
+    const upperAngle = angleToTarget - hipOffset * this.bendDirection;
 
     // Lower bone pitch (relative to upper)
-    // Knee only bends backward (positive)
-    const lowerAngle = Math.max(0, Math.PI - kneeInteriorAngle);
+    // Knees only bend backward (positive), elbows only forward (negative)
+    const lowerAngle = Math.max(0, Math.PI - kneeInteriorAngle) * this.bendDirection;
 
     return {
       upperAngle,
@@ -1,3 +1,7 @@
 export { TwoBoneIK } from './TwoBoneIK.js';
 export { FootIKSystem } from './FootIKSystem.js';
+export { ClimbIKSystem } from './ClimbIKSystem.js';
+export type { ClimbTargets } from './ClimbIKSystem.js';
 export { ProceduralAnimation } from './ProceduralAnimation.js';
+export { BalanceController } from './BalanceController.js';
+export type { RecoveryStepRequest } from './BalanceController.js';
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { AbilityId, AbilitySystem } from './Abilities.js'
+import { CHARACTER } from '../../config/character.js'
+
+describe('character/controller/Abilities', () => {
+  it('blocks timed abilities during cooldown', () => {
+    const abilities = new AbilitySystem(CHARACTER)
+
+    expect(abilities.start(AbilityId.DODGE)).toBe(true)
+    abilities.update(CHARACTER.DODGE_DURATION)
+    expect(abilities.isActive(AbilityId.DODGE)).toBe(false)
+    expect(abilities.getCooldown(AbilityId.DODGE)).toBeCloseTo(CHARACTER.DODGE_COOLDOWN, 5)
+    expect(abilities.start(AbilityId.DODGE)).toBe(false)
+
+    abilities.update(CHARACTER.DODGE_COOLDOWN)
+    expect(abilities.start(AbilityId.DODGE)).toBe(true)
+  })
+
+  it('regenerates stamina only after the regen delay', () => {
+    const abilities = new AbilitySystem(CHARACTER)
+    abilities.start(AbilityId.SPRINT)
+    abilities.update(1)
+    abilities.stop(AbilityId.SPRINT)
+    const drained = abilities.stamina
+    expect(drained).toBeCloseTo(CHARACTER.STAMINA_MAX - CHARACTER.SPRINT_STAMINA_DRAIN, 5)
+
+    abilities.update(CHARACTER.STAMINA_REGEN_DELAY / 2)
+    expect(abilities.stamina).toBe(drained)
+
+    abilities.update(CHARACTER.STAMINA_REGEN_DELAY / 2)
+    abilities.update(0.5)
+    expect(abilities.stamina).toBeCloseTo(drained + CHARACTER.STAMINA_REGEN * 0.5, 5)
+  })
+
+  it('round-trips through snapshots', () => {
+    const abilities = new AbilitySystem(CHARACTER)
+    abilities.start(AbilityId.DODGE)
+    const snapshot = abilities.getSnapshot()
+
+    const restored = new AbilitySystem(CHARACTER)
+    restored.restoreSnapshot(snapshot)
+    expect(restored.isActive(AbilityId.DODGE)).toBe(true)
+    expect(restored.stamina).toBe(abilities.stamina)
+    expect(restored.getActive()).toBe(AbilityId.DODGE)
+  })
+})
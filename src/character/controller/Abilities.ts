@@ -0,0 +1,235 @@
+import type { CharacterConfig } from '../../types/index.js';
+
+/**
+ * Ability id enum
+ */
+export const AbilityId = {
+  SPRINT: 'sprint',
+  DODGE: 'dodge',
+  SLIDE: 'slide'
+} as const;
+
+export type AbilityIdType = typeof AbilityId[keyof typeof AbilityId];
+
+export interface AbilityDefinition {
+  staminaCost: number;   // Spent once when the ability starts
+  staminaDrain: number;  // Spent per second while active
+  minStamina: number;    // Required to start
+  duration: number;      // Seconds until it ends by itself (0 = until stopped)
+  cooldown: number;      // Seconds after ending before it can start again
+}
+
+export interface AbilityState {
+  active: boolean;
+  elapsed: number;
+  cooldown: number;
+}
+
+/**
+ * Serializable ability state (part of controller snapshots)
+ */
+export interface AbilitySnapshot {
+  stamina: number;
+  regenDelay: number;
+  states: Record<AbilityIdType, AbilityState>;
+}
+
+const ABILITY_IDS: readonly AbilityIdType[] = [AbilityId.SPRINT, AbilityId.DODGE, AbilityId.SLIDE];
+
+/**
+ * Ability tuning from character config
+ */
+export function createAbilityDefinitions(config: CharacterConfig): Record<AbilityIdType, AbilityDefinition> {
+  return {
+    sprint: {
+      staminaCost: 0,
+      staminaDrain: config.SPRINT_STAMINA_DRAIN,
+      minStamina: config.SPRINT_MIN_STAMINA,
+      duration: 0,
+      cooldown: 0
+    },
+    dodge: {
+      staminaCost: config.DODGE_STAMINA_COST,
+      staminaDrain: 0,
+      minStamina: config.DODGE_STAMINA_COST,
+      duration: config.DODGE_DURATION,
+      cooldown: config.DODGE_COOLDOWN
+    },
+    slide: {
+      staminaCost: 0,
+      staminaDrain: 0,
+      minStamina: 0,
+      duration: 0,
+      cooldown: 0
+    }
+  };
+}
+
+const createState = (): AbilityState => ({ active: false, elapsed: 0, cooldown: 0 });
+
+/**
+ * Stamina pool, cooldowns and active state for movement abilities
+ * Stamina regenerates after STAMINA_REGEN_DELAY once nothing spends it.
+ */
+export class AbilitySystem {
+  definitions: Record<AbilityIdType, AbilityDefinition>;
+  states: Record<AbilityIdType, AbilityState>;
+
+  // Stamina
+  stamina: number;
+  maxStamina: number;
+  regenRate: number;
+  regenDelayTime: number;
+  regenDelay: number;
+
+  constructor(config: CharacterConfig) {
+    this.definitions = createAbilityDefinitions(config);
+    this.states = { sprint: createState(), dodge: createState(), slide: createState() };
+
+    // Stamina
+    this.maxStamina = config.STAMINA_MAX;
+    this.stamina = config.STAMINA_MAX;
+    this.regenRate = config.STAMINA_REGEN;
+    this.regenDelayTime = config.STAMINA_REGEN_DELAY;
+    this.regenDelay = 0;
+  }
+
+  isActive(id: AbilityIdType): boolean {
+    return this.states[id].active;
+  }
+
+  /**
+   * Off cooldown and enough stamina
+   */
+  canStart(id: AbilityIdType): boolean {
+    const state = this.states[id];
+    const definition = this.definitions[id];
+    return !state.active && state.cooldown <= 0 && this.stamina >= definition.minStamina;
+  }
+
+  /**
+   * Start an ability; returns false when it can't start
+   */
+  start(id: AbilityIdType): boolean {
+    if (!this.canStart(id)) return false;
+
+    const definition = this.definitions[id];
+    const state = this.states[id];
+    state.active = true;
+    state.elapsed = 0;
+    if (definition.staminaCost > 0) {
+      this.spend(definition.staminaCost);
+    }
+    return true;
+  }
+
+  /**
+   * End an ability early (cooldown starts now)
+   */
+  stop(id: AbilityIdType): void {
+    const state = this.states[id];
+    if (!state.active) return;
+    state.active = false;
+    state.cooldown = this.definitions[id].cooldown;
+  }
+
+  /**
+   * Advance timers, drain and regenerate stamina
+   */
+  update(deltaTime: number): void {
+    let draining = false;
+
+    for (const id of ABILITY_IDS) {
+      const state = this.states[id];
+      const definition = this.definitions[id];
+
+      if (!state.active) {
+        state.cooldown = Math.max(0, state.cooldown - deltaTime);
+        continue;
+      }
+
+      state.elapsed += deltaTime;
+      if (definition.staminaDrain > 0) {
+        draining = true;
+        this.spend(definition.staminaDrain * deltaTime);
+        if (this.stamina <= 0) {
+          this.stop(id);
+          continue;
+        }
+      }
+      if (definition.duration > 0 && state.elapsed >= definition.duration) {
+        this.stop(id);
+      }
+    }
+
+    if (draining) return;
+    if (this.regenDelay > 0) {
+      this.regenDelay = Math.max(0, this.regenDelay - deltaTime);
+      return;
+    }
+    this.stamina = Math.min(this.maxStamina, this.stamina + this.regenRate * deltaTime);
+  }
+
+  /**
+   * First active ability, or null
+   */
+  getActive(): AbilityIdType | null {
+    return ABILITY_IDS.find((id) => this.states[id].active) ?? null;
+  }
+
+  /**
+   * Progress through a timed ability (0-1); 0 when inactive or untimed
+   */
+  getProgress(id: AbilityIdType): number {
+    const state = this.states[id];
+    const duration = this.definitions[id].duration;
+    if (!state.active || duration <= 0) return 0;
+    return Math.min(1, state.elapsed / duration);
+  }
+
+  getCooldown(id: AbilityIdType): number {
+    return this.states[id].cooldown;
+  }
+
+  getStaminaFraction(): number {
+    return this.maxStamina > 0 ? this.stamina / this.maxStamina : 0;
+  }
+
+  getSnapshot(): AbilitySnapshot {
+    return {
+      stamina: this.stamina,
+      regenDelay: this.regenDelay,
+      states: {
+        sprint: { ...this.states.sprint },
+        dodge: { ...this.states.dodge },
+        slide: { ...this.states.slide }
+      }
+    };
+  }
+
+  restoreSnapshot(snapshot: AbilitySnapshot): void {
+    this.stamina = snapshot.stamina;
+    this.regenDelay = snapshot.regenDelay;
+    for (const id of ABILITY_IDS) {
+      this.states[id] = { ...(snapshot.states[id] ?? createState()) };
+    }
+  }
+
+  /**
+   * Full stamina, nothing active or cooling down
+   */
+  reset(): void {
+    this.stamina = this.maxStamina;
+    this.regenDelay = 0;
+    for (const id of ABILITY_IDS) {
+      this.states[id] = createState();
+    }
+  }
+
+  private spend(amount: number): void {
+    this.stamina = Math.max(0, this.stamina - amount);
+    this.regenDelay = this.regenDelayTime;
+  }
+}
+
+export default AbilitySystem;
@@ -2,11 +2,28 @@ import { describe, expect, it } from 'vitest'
 import { CharacterController } from './CharacterController.js'
 import { MovementMode } from './MovementModes.js'
 import { CHARACTER } from '../../config/character.js'
+import { SimplePhysics } from '../../physics/SimplePhysics.js'
+import { TerrainHeightmap } from '../../terrain/TerrainHeightmap.js'
 
 const createPhysics = () => ({
   probeGround: () => ({ height: 0, normal: { x: 0, y: 1, z: 0 } })
 })
 
+// Flat ground with one box whose near face is at z = 1.25
+const createBlockPhysics = (halfExtents) => {
+  const physics = new SimplePhysics(new TerrainHeightmap(40, 4))
+  physics.addStaticShape('block', {
+    type: 'box',
+    position: { x: 0, y: halfExtents.y, z: 1.25 + halfExtents.z },
+    halfExtents
+  })
+  return physics
+}
+
+const runUntil = (controller, predicate, maxSteps = 200) => {
+  for (let i = 0; i < maxSteps && !predicate(); i++) controller.update(0.016, 0)
+}
+
 describe('character/controller/CharacterController', () => {
   it('grounds on flat terrain and remains idle without input', () => {
     const controller = new CharacterController(createPhysics())
@@ -18,6 +35,23 @@ describe('character/controller/CharacterController', () => {
     expect(controller.gait).toBe('idle')
   })
 
+  it('teleports without leaving a previous pose to blend from', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.setInput({ x: 0, y: 1 }, true, false)
+    for (let i = 0; i < 30; i++) controller.update(0.016, 0)
+
+    controller.teleport({ x: 12, y: 3, z: -4 }, Math.PI / 2)
+
+    expect(controller.lastPosition).toEqual({ x: 12, y: 3, z: -4 })
+    expect(controller.lastPosition).not.toBe(controller.position)
+    expect(controller.position).toEqual({ x: 12, y: 3, z: -4 })
+    expect(controller.lastFacing).toBe(Math.PI / 2)
+    expect(controller.facing).toBe(Math.PI / 2)
+    expect(controller.velocity).toEqual({ x: 0, y: 0, z: 0 })
+    expect(controller.groundHeight).toBe(3)
+    expect(controller.isGrounded).toBe(true)
+  })
+
   it('accelerates toward desired velocity and updates facing', () => {
     const controller = new CharacterController(createPhysics())
     controller.position.y = 0
@@ -30,6 +64,22 @@ describe('character/controller/CharacterController', () => {
     expect(controller.facing).toBeCloseTo(1, 2)
   })
 
+  it('scales ground acceleration by surface friction', () => {
+    const iceController = new CharacterController({
+      probeGround: () => ({ height: 0, normal: { x: 0, y: 1, z: 0 }, materialId: 'ice' })
+    })
+    const grassController = new CharacterController(createPhysics())
+
+    for (const controller of [iceController, grassController]) {
+      controller.setInput({ x: 0, y: 1 }, false, false)
+      controller.update(0.05, 0)
+    }
+
+    expect(iceController.groundMaterialId).toBe('ice')
+    expect(grassController.groundMaterialId).toBe('grass')
+    expect(Math.abs(iceController.velocity.z)).toBeLessThan(Math.abs(grassController.velocity.z) * 0.5)
+  })
+
   it('initiates a jump when grounded', () => {
     const controller = new CharacterController(createPhysics())
     controller.position.y = 0
@@ -65,4 +115,530 @@ describe('character/controller/CharacterController', () => {
     expect(controller.position.y).toBe(0)
     expect(controller.velocity.y).toBe(0)
   })
+
+  it('blends analog stick magnitude from walk toward run speed', () => {
+    const controller = new CharacterController(createPhysics())
+
+    controller.setInput({ x: 0, y: CHARACTER.ANALOG_WALK_MAGNITUDE / 2 }, false, false, true)
+    expect(controller.getTargetSpeed()).toBeCloseTo(CHARACTER.WALK_SPEED / 2, 5)
+
+    controller.setInput({ x: 0, y: CHARACTER.ANALOG_WALK_MAGNITUDE }, false, false, true)
+    expect(controller.getTargetSpeed()).toBeCloseTo(CHARACTER.WALK_SPEED, 5)
+
+    controller.setInput({ x: 0, y: 1 }, false, false, true)
+    expect(controller.getTargetSpeed()).toBeCloseTo(CHARACTER.RUN_SPEED, 5)
+
+    // Digital input keeps the fixed walk speed
+    controller.setInput({ x: 0, y: 1 }, false, false)
+    expect(controller.getTargetSpeed()).toBe(CHARACTER.WALK_SPEED)
+  })
+
+  it('clamps to world bounds unless bounds are infinite (streaming terrain)', () => {
+    const clamped = new CharacterController(createPhysics())
+    clamped.position.x = CHARACTER.WORLD_BOUNDS + 100
+    clamped.update(0.016, 0)
+    expect(clamped.position.x).toBe(CHARACTER.WORLD_BOUNDS)
+
+    const streaming = new CharacterController(createPhysics())
+    streaming.worldBounds = Number.POSITIVE_INFINITY
+    streaming.position.x = CHARACTER.WORLD_BOUNDS + 100
+    streaming.update(0.016, 0)
+    expect(streaming.position.x).toBe(CHARACTER.WORLD_BOUNDS + 100)
+  })
+
+  it('rides a moving platform and keeps its momentum when jumping off', () => {
+    const motion = { velocity: { x: 2, y: 0, z: 0 }, angularVelocity: 0, center: { x: 0, y: 0, z: 0 } }
+    const controller = new CharacterController({
+      probeGround: () => ({ height: 0, normal: { x: 0, y: 1, z: 0 } }),
+      supportsCharacterMovement: () => true,
+      computeCharacterMovement: (position, movement) => ({
+        movement,
+        grounded: true,
+        groundHeight: 0,
+        groundNormal: { x: 0, y: 1, z: 0 },
+        groundPlatformKey: 'platform'
+      }),
+      getPlatformMotion: () => motion
+    })
+    controller.isGrounded = true
+    controller.groundPlatformKey = 'platform'
+
+    for (let i = 0; i < 10; i++) {
+      motion.center.x += motion.velocity.x * 0.1
+      controller.update(0.1, 0)
+    }
+
+    expect(controller.position.x).toBeCloseTo(2, 5)
+    expect(controller.velocity.x).toBeCloseTo(0, 5)
+
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.update(0.1, 0)
+    expect(controller.movementMode).toBe(MovementMode.JUMPING)
+    expect(controller.velocity.x).toBeCloseTo(2, 5)
+    expect(controller.groundMotion).toBeNull()
+  })
+
+  it('turns with a rotating platform', () => {
+    const motion = { velocity: { x: 0, y: 0, z: 0 }, angularVelocity: 1, center: { x: 0, y: 0, z: 0 } }
+    const controller = new CharacterController({
+      probeGround: () => ({ height: 0, normal: { x: 0, y: 1, z: 0 } }),
+      supportsCharacterMovement: () => true,
+      computeCharacterMovement: (position, movement) => ({
+        movement,
+        grounded: true,
+        groundHeight: 0,
+        groundNormal: { x: 0, y: 1, z: 0 },
+        groundPlatformKey: 'disc'
+      }),
+      getPlatformMotion: () => motion
+    })
+    controller.isGrounded = true
+    controller.groundPlatformKey = 'disc'
+    controller.position.x = 2
+
+    controller.update(Math.PI / 2, 0)
+
+    expect(controller.position.x).toBeCloseTo(0, 4)
+    expect(controller.position.z).toBeCloseTo(-2, 4)
+    expect(controller.facing).toBeCloseTo(Math.PI / 2, 4)
+  })
+
+  it('crouches to a slower gait and stays down under a low ceiling', () => {
+    let ceiling = 4.5
+    const controller = new CharacterController({
+      probeGround: () => ({ height: 0, normal: { x: 0, y: 1, z: 0 } }),
+      shapeCast: (origin, direction, distance) => (origin.y + distance > ceiling
+        ? { hit: true, point: { x: origin.x, y: ceiling, z: origin.z }, normal: { x: 0, y: -1, z: 0 } }
+        : { hit: false })
+    })
+    controller.isGrounded = true
+
+    controller.setInput({ x: 0, y: 1 }, false, false, false, true)
+    for (let i = 0; i < 20; i++) controller.update(0.05, 0)
+    expect(controller.isCrouching).toBe(true)
+    expect(controller.gait).toBe('crouching')
+    expect(controller.getSpeed()).toBeCloseTo(CHARACTER.CROUCH_SPEED, 5)
+    expect(controller.getCharacterShape().height).toBe(CHARACTER.CROUCH_CAPSULE_HEIGHT)
+
+    controller.setInput({ x: 0, y: 0 }, false, true, false, false)
+    controller.update(0.05, 0)
+    expect(controller.isCrouching).toBe(true)
+    expect(controller.movementMode).not.toBe(MovementMode.JUMPING)
+
+    ceiling = 10
+    controller.update(0.05, 0)
+    expect(controller.isCrouching).toBe(false)
+    expect(controller.getCharacterShape().height).toBe(CHARACTER.CAPSULE_HEIGHT)
+  })
+
+  it('sprints above run speed while stamina lasts', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.isGrounded = true
+
+    controller.setInput({ x: 0, y: 1 }, true, false)
+    controller.setAbilityInput(true, false)
+    for (let i = 0; i < 20; i++) controller.update(0.05, 0)
+
+    expect(controller.movementMode).toBe(MovementMode.SPRINTING)
+    expect(controller.getSpeed()).toBeCloseTo(CHARACTER.SPRINT_SPEED, 5)
+    expect(controller.getSpeed()).toBeGreaterThan(CHARACTER.RUN_SPEED)
+    expect(controller.getAbilityTelemetry().stamina).toBeLessThan(CHARACTER.STAMINA_MAX)
+
+    // Exhausted: back to running until stamina recovers
+    const exhaustSteps = Math.ceil(CHARACTER.STAMINA_MAX / CHARACTER.SPRINT_STAMINA_DRAIN / 0.05)
+    for (let i = 0; i < exhaustSteps; i++) controller.update(0.05, 0)
+    expect(controller.abilities.stamina).toBeLessThan(CHARACTER.SPRINT_MIN_STAMINA)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.getSpeed()).toBeCloseTo(CHARACTER.RUN_SPEED, 5)
+  })
+
+  it('dodges with a burst that costs stamina and needs a fresh press', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.isGrounded = true
+
+    controller.setInput({ x: 1, y: 0 }, false, false)
+    controller.setAbilityInput(false, true)
+    controller.update(0.016, 0)
+
+    expect(controller.movementMode).toBe(MovementMode.DODGING)
+    expect(controller.velocity.x).toBeCloseTo(CHARACTER.DODGE_SPEED, 5)
+    expect(controller.abilities.stamina).toBe(CHARACTER.STAMINA_MAX - CHARACTER.DODGE_STAMINA_COST)
+
+    const rollSteps = Math.ceil(CHARACTER.DODGE_DURATION / 0.016) + 1
+    for (let i = 0; i < rollSteps; i++) controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.getAbilityTelemetry().dodgeCooldown).toBeGreaterThan(0)
+
+    // Still holding: no second roll even once the cooldown ends
+    for (let i = 0; i < 60; i++) controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+
+    controller.setAbilityInput(false, false)
+    controller.update(0.016, 0)
+    controller.setAbilityInput(false, true)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.DODGING)
+  })
+
+  it('slides down slopes steeper than the slope limit', () => {
+    const angle = ((CHARACTER.SLOPE_LIMIT + 10) * Math.PI) / 180
+    const slope = Math.tan(angle)
+    const normalLength = Math.hypot(1, slope)
+    let steep = true
+    const controller = new CharacterController({
+      // Downhill toward +z
+      probeGround: (_x, z) => (steep
+        ? { height: -slope * z, normal: { x: 0, y: 1 / normalLength, z: slope / normalLength } }
+        : { height: 0, normal: { x: 0, y: 1, z: 0 } })
+    })
+    controller.isGrounded = true
+
+    for (let i = 0; i < 20; i++) controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.SLIDING)
+    expect(controller.velocity.z).toBeGreaterThan(1)
+    expect(Math.abs(controller.position.y + slope * controller.position.z)).toBeLessThan(CHARACTER.SNAP_DISTANCE)
+    expect(controller.getAbilityTelemetry().ability).toBe('slide')
+
+    steep = false
+    controller.position.y = 0
+    controller.update(0.016, 0)
+    expect(controller.movementMode).not.toBe(MovementMode.SLIDING)
+  })
+
+  it('allows a ground jump for coyote time after walking off a ledge', () => {
+    let ground = 0
+    const controller = new CharacterController({
+      probeGround: () => ({ height: ground, normal: { x: 0, y: 1, z: 0 } })
+    })
+    controller.isGrounded = true
+
+    // Ground drops away: falls once the airborne debounce passes
+    ground = -20
+    const step = 0.016
+    while (controller.movementMode !== MovementMode.FALLING) controller.update(step, 0)
+    const airJumps = controller.airJumpsRemaining
+
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.update(step, 0)
+    expect(controller.movementMode).toBe(MovementMode.JUMPING)
+    expect(controller.velocity.y).toBeCloseTo(CHARACTER.JUMP_VELOCITY - CHARACTER.GRAVITY * step, 5)
+    expect(controller.airJumpsRemaining).toBe(airJumps)
+  })
+
+  it('spends an air jump once coyote time has run out', () => {
+    const controller = new CharacterController({
+      probeGround: () => ({ height: -100, normal: { x: 0, y: 1, z: 0 } })
+    })
+    controller.movementMode = MovementMode.FALLING
+    controller.airJumpsRemaining = 1
+
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.JUMPING)
+    expect(controller.velocity.y).toBeCloseTo(CHARACTER.AIR_JUMP_VELOCITY - CHARACTER.GRAVITY * 0.016, 5)
+    expect(controller.airJumpsRemaining).toBe(0)
+
+    controller.setInput({ x: 0, y: 0 }, false, false)
+    controller.update(0.016, 0)
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    const velocityBefore = controller.velocity.y
+    controller.update(0.016, 0)
+    expect(controller.velocity.y).toBeLessThan(velocityBefore)
+  })
+
+  it('buffers a jump pressed shortly before landing', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.position.y = 0.5
+    controller.velocity.y = -10
+    controller.movementMode = MovementMode.FALLING
+    controller.airJumpsRemaining = 0
+
+    // Tap and release while still in the air
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.setInput({ x: 0, y: 0 }, false, false)
+    for (let i = 0; i < 5 && controller.movementMode !== MovementMode.JUMPING; i++) {
+      controller.update(0.016, 0)
+    }
+
+    expect(controller.movementMode).toBe(MovementMode.JUMPING)
+  })
+
+  it('cuts the rise short when jump is released early', () => {
+    const held = new CharacterController(createPhysics())
+    const tapped = new CharacterController(createPhysics())
+
+    for (const controller of [held, tapped]) {
+      controller.isGrounded = true
+      controller.setInput({ x: 0, y: 0 }, false, true)
+      controller.update(0.016, 0)
+    }
+    tapped.setInput({ x: 0, y: 0 }, false, false)
+    let heldApex = 0
+    let tappedApex = 0
+    for (let i = 0; i < 60; i++) {
+      held.update(0.016, 0)
+      tapped.update(0.016, 0)
+      heldApex = Math.max(heldApex, held.position.y)
+      tappedApex = Math.max(tappedApex, tapped.position.y)
+    }
+
+    expect(tappedApex).toBeLessThan(heldApex * 0.5)
+  })
+
+  it('debounces ground contact by time rather than frame count', () => {
+    const land = (step) => {
+      const controller = new CharacterController(createPhysics())
+      controller.movementMode = MovementMode.FALLING
+      let elapsed = 0
+      while (!controller.isGrounded) {
+        controller.update(step, 0)
+        elapsed += step
+      }
+      return elapsed
+    }
+
+    expect(land(1 / 30)).toBeGreaterThanOrEqual(CHARACTER.GROUNDED_DEBOUNCE_TIME)
+    expect(land(1 / 240)).toBeGreaterThanOrEqual(CHARACTER.GROUNDED_DEBOUNCE_TIME)
+    expect(land(1 / 240)).toBeLessThan(CHARACTER.GROUNDED_DEBOUNCE_TIME + 1 / 240 + 1e-9)
+  })
+
+  it('vaults a thin low wall when jumping in front of it', () => {
+    const controller = new CharacterController(createBlockPhysics({ x: 3, y: 1, z: 0.25 }))
+    controller.isGrounded = true
+
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.VAULTING)
+    expect(controller.jumpConsumed).toBe(true)
+
+    let peak = 0
+    runUntil(controller, () => {
+      peak = Math.max(peak, controller.position.y)
+      return controller.movementMode !== MovementMode.VAULTING
+    })
+
+    expect(peak).toBeGreaterThan(2)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.position.z).toBeGreaterThan(1.75)
+    expect(controller.position.y).toBeCloseTo(0, 5)
+  })
+
+  it('mantles onto a chest-high block', () => {
+    const controller = new CharacterController(createBlockPhysics({ x: 2, y: 1.75, z: 1.5 }))
+    controller.isGrounded = true
+
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.CLIMBING_UP)
+
+    runUntil(controller, () => controller.movementMode !== MovementMode.CLIMBING_UP)
+    controller.update(0.016, 0)
+
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.isGrounded).toBe(true)
+    expect(controller.position.y).toBeCloseTo(3.5, 5)
+    expect(controller.position.z).toBeGreaterThan(1.25)
+  })
+
+  it('grabs a high ledge from a jump, shimmies along it and climbs up', () => {
+    const controller = new CharacterController(createBlockPhysics({ x: 2, y: 4.5, z: 1.5 }))
+    controller.isGrounded = true
+
+    controller.setInput({ x: 0, y: 1 }, false, true)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.JUMPING)
+    runUntil(controller, () => controller.movementMode === MovementMode.LEDGE_HANG)
+
+    expect(controller.movementMode).toBe(MovementMode.LEDGE_HANG)
+    expect(controller.position.y).toBeCloseTo(9 - CHARACTER.LEDGE_HANG_OFFSET, 5)
+    expect(controller.position.z).toBeCloseTo(1.25 - CHARACTER.CAPSULE_RADIUS - CHARACTER.LEDGE_WALL_GAP, 5)
+    expect(controller.velocity.y).toBe(0)
+
+    // Shimmy right (+x when facing +z) until the ledge runs out
+    controller.setInput({ x: 1, y: 0 }, false, false)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.SHIMMYING)
+    expect(controller.position.x).toBeGreaterThan(0)
+    for (let i = 0; i < 200; i++) controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.LEDGE_HANG)
+    expect(controller.position.x).toBeLessThanOrEqual(2)
+
+    controller.setInput({ x: 0, y: 1 }, false, false)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.CLIMBING_UP)
+    runUntil(controller, () => controller.movementMode !== MovementMode.CLIMBING_UP)
+
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.position.y).toBeCloseTo(9, 5)
+  })
+
+  it('drops from a ledge and waits before grabbing again', () => {
+    const controller = new CharacterController(createBlockPhysics({ x: 2, y: 4.5, z: 1.5 }))
+    controller.isGrounded = true
+    controller.setInput({ x: 0, y: 1 }, false, true)
+    runUntil(controller, () => controller.movementMode === MovementMode.LEDGE_HANG)
+    expect(controller.movementMode).toBe(MovementMode.LEDGE_HANG)
+
+    controller.setInput({ x: 0, y: -1 }, false, false)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.FALLING)
+    expect(controller.ledgeCooldown).toBe(CHARACTER.LEDGE_REGRAB_DELAY)
+
+    controller.setInput({ x: 0, y: 1 }, false, false)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.FALLING)
+  })
+
+  it('floats at the surface when wading into deep water and stands in the shallows', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.waterSource = { getSurfaceHeight: (x, y) => (y <= 5 ? 5 : null) }
+    controller.position.y = 0
+    controller.isGrounded = true
+
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.TREADING)
+
+    for (let i = 0; i < 400; i++) controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.TREADING)
+    expect(5 - controller.position.y).toBeCloseTo(CHARACTER.SWIM_FLOAT_DEPTH, 1)
+    expect(Math.abs(controller.velocity.y)).toBeLessThan(0.1)
+
+    controller.setInput({ x: 0, y: 1 }, false, false)
+    for (let i = 0; i < 100; i++) controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.SWIMMING)
+    expect(Math.hypot(controller.velocity.x, controller.velocity.z)).toBeLessThanOrEqual(CHARACTER.SWIM_SPEED + 1e-6)
+
+    // Water drains to waist height: back on the ground
+    controller.waterSource = { getSurfaceHeight: (x, y) => (y <= 2 ? 2 : null) }
+    controller.setInput({ x: 0, y: 0 }, false, false)
+    runUntil(controller, () => controller.movementMode === MovementMode.GROUNDED, 300)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+  })
+
+  it('drags a fast entry down to swim speed and hops from the surface', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.waterSource = { getSurfaceHeight: (x, y) => (y <= 5 ? 5 : null) }
+    controller.position.y = 0
+    controller.velocity.x = 10
+
+    for (let i = 0; i < 200; i++) controller.update(0.016, 0)
+    expect(Math.abs(controller.velocity.x)).toBeLessThan(0.5)
+    expect(controller.isCrouching).toBe(false)
+
+    controller.setInput({ x: 0, y: 0 }, false, true)
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.JUMPING)
+    expect(controller.velocity.y).toBeGreaterThan(0)
+  })
+
+  it('is knocked down by a long fall and gets back up', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.position.y = CHARACTER.FALL_DAMAGE_HEIGHT + 2
+    controller.isGrounded = false
+    controller.movementMode = MovementMode.FALLING
+    controller.velocity.x = 3
+
+    runUntil(controller, () => controller.movementMode !== MovementMode.FALLING)
+    expect(controller.movementMode).toBe(MovementMode.RAGDOLL)
+    expect(controller.ragdollActive).toBe(false)
+
+    // Input is ignored while down; the slide comes to rest before getting up
+    controller.setInput({ x: 0, y: 1 }, false, true)
+    runUntil(controller, () => controller.movementMode !== MovementMode.RAGDOLL, 1000)
+    expect(controller.movementMode).toBe(MovementMode.GETTING_UP)
+    expect(controller.position.y).toBe(0)
+    expect(controller.getGetUpProgress()).toBeCloseTo(0, 1)
+
+    runUntil(controller, () => controller.movementMode !== MovementMode.GETTING_UP, 1000)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+  })
+
+  it('hands a knockdown to the ragdoll source and follows its pelvis', () => {
+    const root = { x: 0, y: 2, z: 0 }
+    const calls = []
+    const controller = new CharacterController(createPhysics())
+    controller.ragdollSource = {
+      activate: (velocity) => {
+        calls.push(['activate', { ...velocity }])
+        return true
+      },
+      deactivate: () => calls.push(['deactivate']),
+      getRootPosition: () => root,
+      getRootVelocity: () => ({ x: 1, y: 0, z: 0 }),
+      isSettled: () => root.x > 2
+    }
+    controller.velocity.x = 4
+
+    controller.enterRagdoll()
+    expect(calls[0]).toEqual(['activate', { x: 4, y: 0, z: 0 }])
+
+    root.x = 3
+    controller.update(0.5, 0)
+    expect(controller.position.x).toBe(3)
+    expect(controller.movementMode).toBe(MovementMode.RAGDOLL)
+
+    controller.update(CHARACTER.RAGDOLL_MIN_TIME, 0)
+    expect(controller.movementMode).toBe(MovementMode.GETTING_UP)
+    expect(calls.at(-1)).toEqual(['deactivate'])
+    expect(controller.velocity).toEqual({ x: 0, y: 0, z: 0 })
+  })
+
+  it('lands a short drop without a knockdown', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.position.y = CHARACTER.FALL_DAMAGE_HEIGHT - 2
+    controller.isGrounded = false
+    controller.movementMode = MovementMode.FALLING
+
+    runUntil(controller, () => controller.movementMode !== MovementMode.FALLING)
+    expect(controller.movementMode).toBe(MovementMode.LANDING)
+  })
+
+  it('staggers from a push, ignoring input until it wears off', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.update(0.016, 0)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+
+    const impulse = CHARACTER.MASS * (CHARACTER.PUSH_STAGGER_SPEED + CHARACTER.PUSH_KNOCKDOWN_SPEED) / 2
+    const speed = controller.applyImpulse({ x: 0, y: 0, z: 2 }, impulse)
+    expect(speed).toBeCloseTo(impulse / CHARACTER.MASS, 5)
+    expect(controller.velocity.z).toBeCloseTo(speed, 5)
+    expect(controller.movementMode).toBe(MovementMode.STAGGERING)
+
+    const push = controller.takePush()
+    expect(push.direction).toEqual({ x: 0, y: 0, z: 1 })
+    expect(push.strength).toBeCloseTo(speed / CHARACTER.PUSH_KNOCKDOWN_SPEED, 5)
+    expect(controller.takePush()).toBeNull()
+
+    // Pushed from behind: the flinch is forward and fades with the stagger
+    const flinch = controller.getStaggerFlinch()
+    expect(flinch.forward).toBeCloseTo(push.strength, 5)
+    expect(flinch.lateral).toBeCloseTo(0, 5)
+
+    controller.setInput({ x: 0, y: -1 }, false, true)
+    controller.setAbilityInput(false, true)
+    controller.update(0.1, 0)
+    expect(controller.movementMode).toBe(MovementMode.STAGGERING)
+    expect(controller.velocity.z).toBeGreaterThan(0)
+    expect(controller.velocity.y).toBe(0)
+    expect(controller.getStaggerFlinch().forward).toBeLessThan(flinch.forward)
+
+    runUntil(controller, () => controller.movementMode !== MovementMode.STAGGERING)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.getStaggerFlinch()).toEqual({ forward: 0, lateral: 0 })
+  })
+
+  it('absorbs a soft push and falls over past the knockdown threshold', () => {
+    const controller = new CharacterController(createPhysics())
+    controller.update(0.016, 0)
+
+    controller.applyImpulse({ x: 1, y: 0, z: 0 }, CHARACTER.MASS * CHARACTER.PUSH_STAGGER_SPEED * 0.5)
+    expect(controller.movementMode).toBe(MovementMode.GROUNDED)
+    expect(controller.velocity.x).toBeGreaterThan(0)
+
+    controller.applyImpulse({ x: 1, y: 0, z: 0 }, CHARACTER.MASS * CHARACTER.PUSH_KNOCKDOWN_SPEED * 1.5)
+    expect(controller.movementMode).toBe(MovementMode.RAGDOLL)
+
+    // Already down: further pushes are ignored
+    expect(controller.applyImpulse({ x: 1, y: 0, z: 0 }, 1000)).toBe(0)
+  })
 })
@@ -1,14 +1,107 @@
-import { CHARACTER } from '../../config/index.js';
-import { clamp, wrapAngle, horizontalSpeed } from '../../utils/index.js';
-import { MovementMode, GaitType, isAirborne, getDisplayState, type MovementModeType, type GaitTypeType } from './MovementModes.js';
-import type { CharacterShapeDefinition, IPhysicsWorld } from '../../physics/IPhysicsWorld.js';
-import type { Vector3Like, CharacterConfig } from '../../types/index.js';
+import { CHARACTER, TERRAIN, TERRAIN_MATERIALS } from '../../config/index.js';
+import { clamp, lerp, wrapAngle, horizontalSpeed } from '../../utils/index.js';
+import {
+  MovementMode,
+  GaitType,
+  isAirborne,
+  isGroundedMode,
+  isTraversalMode,
+  isSwimmingMode,
+  isRagdollMode,
+  getDisplayState,
+  type MovementModeType,
+  type GaitTypeType
+} from './MovementModes.js';
+import { AbilityId, AbilitySystem, type AbilityIdType, type AbilitySnapshot } from './Abilities.js';
+import { LedgeDetector, type LedgeInfo } from './LedgeDetector.js';
+import { sweepHeadroom } from './Headroom.js';
+import type { CharacterShapeDefinition, GroundMotion, IPhysicsWorld } from '../../physics/IPhysicsWorld.js';
+import type { Vector3Like, CharacterConfig, RagdollSource, TerrainMaterialId, WaterSource } from '../../types/index.js';
 
 interface Vector2Like {
   x: number;
   y: number;
 }
 
+// Smoothstep easing for scripted traversal paths
+const ease = (t: number): number => t * t * (3 - 2 * t);
+
+// Fraction of a climb-up spent rising before moving onto the ledge
+const CLIMB_RISE_FRACTION = 0.6;
+
+// How far below the floating depth a swimmer can still jump from the surface
+const SURFACE_JUMP_MARGIN = 0.5;
+
+// Horizontal slowdown of a knockdown without a physics ragdoll (1/s)
+const KNOCKDOWN_FRICTION = 4;
+
+/**
+ * Serializable controller state used to seed deterministic replays
+ */
+export interface ControllerSnapshot {
+  position: Vector3Like;
+  velocity: Vector3Like;
+  facing: number;
+  targetFacing: number;
+  movementMode: MovementModeType;
+  gait: GaitTypeType;
+  landingTimer: number;
+  isGrounded: boolean;
+  groundNormal: Vector3Like;
+  groundHeight: number;
+  groundMaterialId?: TerrainMaterialId;
+  groundPlatformKey?: string | null;
+  isCrouching?: boolean;
+  abilities?: AbilitySnapshot;
+  dodgeDirection?: Vector3Like;
+  dodgeConsumed?: boolean;
+  onSteepGround?: boolean;
+  slopeAngle: number;
+  groundedTime: number;
+  airborneTime: number;
+  jumpConsumed: boolean;
+  jumpHeld?: boolean;
+  jumpBufferTimer?: number;
+  coyoteTimer?: number;
+  airJumpsRemaining?: number;
+  jumpCut?: boolean;
+  ledge?: LedgeInfo | null;
+  traversalTimer?: number;
+  traversalStart?: Vector3Like;
+  traversalEnd?: Vector3Like;
+  ledgeCooldown?: number;
+  ragdollTimer?: number;
+  getUpTimer?: number;
+  fallApex?: number | null;
+  staggerTimer?: number;
+  staggerDuration?: number;
+  staggerDirection?: Vector3Like;
+  staggerStrength?: number;
+  isTurning: boolean;
+  turningTimer: number;
+  angularVelocity: number;
+  previousFacing: number;
+}
+
+/**
+ * Ability state surfaced to telemetry
+ */
+export interface AbilityTelemetry {
+  stamina: number;
+  staminaMax: number;
+  ability: AbilityIdType | null;
+  dodgeCooldown: number;
+}
+
+/**
+ * An external push applied this step (handed out once by takePush)
+ */
+export interface PushEvent {
+  direction: Vector3Like;  // Horizontal unit direction of the push
+  speed: number;           // Velocity change (impulse / MASS)
+  strength: number;        // speed relative to PUSH_KNOCKDOWN_SPEED (0-1)
+}
+
 /**
  * Character controller handling movement physics
  * Uses plain objects for state - no Three.js dependency
@@ -24,32 +117,89 @@ export class CharacterController {
   facing: number;
   targetFacing: number;
 
+  // Previous step state (for render interpolation)
+  lastPosition: Vector3Like;
+  lastFacing: number;
+
   // Movement state
   movementMode: MovementModeType;
   gait: GaitTypeType;
   landingTimer: number;
+  isCrouching: boolean;
+
+  // Abilities (sprint, dodge roll, slope slide)
+  abilities: AbilitySystem;
+  dodgeDirection: Vector3Like;
+
+  // Ledge traversal (hang, shimmy, climb-up, vault)
+  ledgeDetector: LedgeDetector;
+  ledge: LedgeInfo | null;
+  traversalTimer: number;
+  traversalStart: Vector3Like;  // Path endpoints for climb-up and vault
+  traversalEnd: Vector3Like;
+  ledgeCooldown: number;        // Time before a released ledge can be grabbed again
+
+  // Water (null when the world has none)
+  waterSource: WaterSource | null;
+  waterDepth: number;  // Water surface above the feet (0 when dry)
+
+  // Knockdown (physics ragdoll when a source is attached and supported)
+  ragdollSource: RagdollSource | null;
+  ragdollActive: boolean;     // Bodies simulated this knockdown
+  ragdollTimer: number;
+  getUpTimer: number;
+  fallApex: number | null;    // Highest point of the current fall
+
+  // External pushes
+  staggerTimer: number;
+  staggerDuration: number;
+  staggerDirection: Vector3Like;
+  staggerStrength: number;    // 0-1, scales the flinch
+  pendingPush: PushEvent | null;
 
   // Ground info
   isGrounded: boolean;
   groundNormal: Vector3Like;
   groundHeight: number;
+  groundMaterialId: TerrainMaterialId;
   slopeAngle: number;
+  onSteepGround: boolean;  // Touching ground too steep to stand on
 
-  // Hysteresis counters for ground state transitions
-  groundedFrameCounter: number;
-  airborneFrameCounter: number;
+  // Moving platform underfoot (motion applied this step, and the carry
+  // velocity at the character's position for momentum on leaving it)
+  groundPlatformKey: string | null;
+  groundMotion: GroundMotion | null;
+  platformVelocity: Vector3Like;
 
-  // Hysteresis configuration
-  static readonly GROUNDED_DEBOUNCE_FRAMES = 2;  // Frames to confirm grounded
-  static readonly AIRBORNE_DEBOUNCE_FRAMES = 4;  // Frames to confirm airborne
+  // Hysteresis timers for ground state transitions (seconds of consistent contact)
+  groundedTime: number;
+  airborneTime: number;
+
+  // Hysteresis distance thresholds
   static readonly LEAVE_GROUND_THRESHOLD = 0.4;  // Higher than SNAP_DISTANCE
   static readonly LAND_THRESHOLD = 0.25;         // Lower than SNAP_DISTANCE
 
+  // Hang time before climbing up (holding forward through a grab doesn't
+  // pull straight over the top)
+  static readonly LEDGE_SETTLE_TIME = 0.3;
+
   // Input state
   inputDirection: Vector2Like;
   wantsRun: boolean;
   wantsJump: boolean;
+  wantsCrouch: boolean;
+  wantsSprint: boolean;
+  wantsDodge: boolean;
   jumpConsumed: boolean;
+  dodgeConsumed: boolean;
+  analogInput: boolean;
+
+  // Jump assists
+  jumpHeld: boolean;          // Raw jump input (for cutting the rise short)
+  jumpBufferTimer: number;    // Time a press stays valid before it can jump
+  coyoteTimer: number;        // Grace time to ground-jump after leaving the ground
+  airJumpsRemaining: number;
+  jumpCut: boolean;           // Current rise already cut by an early release
 
   // Turning state
   isTurning: boolean;
@@ -57,6 +207,9 @@ export class CharacterController {
   angularVelocity: number;
   previousFacing: number;
 
+  // Horizontal clamp (Infinity when terrain streams around the character)
+  worldBounds: number;
+
   // Config shortcuts
   config: CharacterConfig;
 
@@ -71,26 +224,80 @@ export class CharacterController {
     this.facing = 0;
     this.targetFacing = 0;
 
+    // Previous step state
+    this.lastPosition = { x: 0, y: 0, z: 0 };
+    this.lastFacing = 0;
+
     // Movement state
     this.movementMode = MovementMode.GROUNDED;
     this.gait = GaitType.IDLE;
     this.landingTimer = 0;
+    this.isCrouching = false;
+
+    // Abilities
+    this.abilities = new AbilitySystem(CHARACTER);
+    this.dodgeDirection = { x: 0, y: 0, z: 1 };
+
+    // Ledge traversal
+    this.ledgeDetector = new LedgeDetector(physics);
+    this.ledge = null;
+    this.traversalTimer = 0;
+    this.traversalStart = { x: 0, y: 0, z: 0 };
+    this.traversalEnd = { x: 0, y: 0, z: 0 };
+    this.ledgeCooldown = 0;
+
+    // Water
+    this.waterSource = null;
+    this.waterDepth = 0;
+
+    // Knockdown
+    this.ragdollSource = null;
+    this.ragdollActive = false;
+    this.ragdollTimer = 0;
+    this.getUpTimer = 0;
+    this.fallApex = null;
+
+    // External pushes
+    this.staggerTimer = 0;
+    this.staggerDuration = 0;
+    this.staggerDirection = { x: 0, y: 0, z: 1 };
+    this.staggerStrength = 0;
+    this.pendingPush = null;
 
     // Ground info
     this.isGrounded = false;
     this.groundNormal = { x: 0, y: 1, z: 0 };
     this.groundHeight = 0;
+    this.groundMaterialId = TERRAIN.DEFAULT_MATERIAL;
     this.slopeAngle = 0;
+    this.onSteepGround = false;
+
+    // Moving platform
+    this.groundPlatformKey = null;
+    this.groundMotion = null;
+    this.platformVelocity = { x: 0, y: 0, z: 0 };
 
-    // Hysteresis counters
-    this.groundedFrameCounter = 0;
-    this.airborneFrameCounter = 0;
+    // Hysteresis timers
+    this.groundedTime = 0;
+    this.airborneTime = 0;
 
     // Input state
     this.inputDirection = { x: 0, y: 0 };
     this.wantsRun = false;
     this.wantsJump = false;
+    this.wantsCrouch = false;
+    this.wantsSprint = false;
+    this.wantsDodge = false;
     this.jumpConsumed = false;
+    this.dodgeConsumed = false;
+    this.analogInput = false;
+
+    // Jump assists
+    this.jumpHeld = false;
+    this.jumpBufferTimer = 0;
+    this.coyoteTimer = 0;
+    this.airJumpsRemaining = CHARACTER.AIR_JUMPS;
+    this.jumpCut = false;
 
     // Turning state
     this.isTurning = false;
@@ -100,48 +307,117 @@ export class CharacterController {
 
     // Config shortcuts
     this.config = CHARACTER;
+
+    // Horizontal clamp
+    this.worldBounds = CHARACTER.WORLD_BOUNDS;
   }
 
   /**
-   * Set input state
+   * Set input state (analog directions keep their magnitude for speed blending)
    */
-  setInput(direction: Vector2Like, wantsRun: boolean, wantsJump: boolean): void {
+  setInput(
+    direction: Vector2Like,
+    wantsRun: boolean,
+    wantsJump: boolean,
+    analog: boolean = false,
+    wantsCrouch: boolean = false
+  ): void {
     this.inputDirection.x = direction.x;
     this.inputDirection.y = direction.y;
     this.wantsRun = wantsRun;
-
-    if (wantsJump && !this.jumpConsumed) {
-      this.wantsJump = true;
+    this.wantsCrouch = wantsCrouch;
+    this.analogInput = analog;
+
+    // Jump intent is level-triggered while held (a new jump needs the input
+    // to be released first); each press is also buffered briefly so a tap
+    // just before landing still jumps
+    if (wantsJump && !this.jumpHeld) {
+      this.jumpBufferTimer = this.config.JUMP_BUFFER_TIME;
     }
+    this.jumpHeld = wantsJump;
+    this.wantsJump = wantsJump && !this.jumpConsumed;
     if (!wantsJump) {
       this.jumpConsumed = false;
     }
   }
 
+  /**
+   * Set ability input (dodge, like jump, needs a release between presses)
+   */
+  setAbilityInput(wantsSprint: boolean, wantsDodge: boolean): void {
+    this.wantsSprint = wantsSprint;
+    this.wantsDodge = wantsDodge && !this.dodgeConsumed;
+    if (!wantsDodge) {
+      this.dodgeConsumed = false;
+    }
+  }
+
   /**
    * Update controller
    */
   update(deltaTime: number, cameraYaw: number = 0): void {
+    this.lastPosition.x = this.position.x;
+    this.lastPosition.y = this.position.y;
+    this.lastPosition.z = this.position.z;
+    this.lastFacing = this.facing;
+    const wasGrounded = this.isGrounded;
+    const entryVelocity = { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z };
+    this.ledgeCooldown = Math.max(0, this.ledgeCooldown - deltaTime);
+
+    if (isRagdollMode(this.movementMode)) {
+      this.updateRagdoll(deltaTime);
+    } else if (isTraversalMode(this.movementMode) || this.tryStartTraversal()) {
+      this.fallApex = null;
+      this.updateTraversal(deltaTime);
+    } else {
+      this.updateLocomotion(deltaTime, cameraYaw);
+    }
+
+    if (this.isGrounded !== wasGrounded && typeof this.physics.setCharacterGrounded === 'function') {
+      this.physics.setCharacterGrounded(this.isGrounded, this.position, entryVelocity);
+    }
+  }
+
+  /**
+   * Physics-driven movement: ground probing, abilities, jumping and gravity
+   */
+  updateLocomotion(deltaTime: number, cameraYaw: number): void {
     const useCharacterMovement = typeof this.physics.supportsCharacterMovement === 'function' &&
       this.physics.supportsCharacterMovement();
 
+    this.updateWater();
     if (!useCharacterMovement) {
-      this.probeGround();
+      this.probeGround(deltaTime);
     }
 
+    // Ride the platform underfoot; velocity stays relative to it while grounded
+    const carry = this.applyPlatformCarry(deltaTime);
+    this.updateCrouch();
+    this.updateAbilities(deltaTime);
+
     const desiredVelocity = this.computeDesiredVelocity(cameraYaw);
     this.applyAcceleration(desiredVelocity, deltaTime);
-    this.handleJump();
+    this.handleJump(deltaTime);
+    if (this.movementMode === MovementMode.JUMPING && this.groundMotion) {
+      this.leavePlatform();
+      carry.x = 0;
+      carry.y = 0;
+      carry.z = 0;
+    }
     this.applyGravity(deltaTime);
 
-    if (!useCharacterMovement && this.movementMode === MovementMode.GROUNDED) {
+    const followsSlope = this.movementMode === MovementMode.GROUNDED ||
+      this.movementMode === MovementMode.SPRINTING ||
+      this.movementMode === MovementMode.DODGING ||
+      this.movementMode === MovementMode.STAGGERING;
+    if (!useCharacterMovement && followsSlope) {
       this.projectVelocityOntoSlope();
     }
 
     const desiredMovement = {
-      x: this.velocity.x * deltaTime,
-      y: this.velocity.y * deltaTime,
-      z: this.velocity.z * deltaTime
+      x: this.velocity.x * deltaTime + carry.x,
+      y: this.velocity.y * deltaTime + carry.y,
+      z: this.velocity.z * deltaTime + carry.z
     };
 
     if (useCharacterMovement) {
@@ -156,15 +432,23 @@ export class CharacterController {
       this.position.z += movementResult.movement.z;
 
       if (deltaTime > 0) {
-        this.velocity.x = movementResult.movement.x / deltaTime;
-        this.velocity.y = movementResult.movement.y / deltaTime;
-        this.velocity.z = movementResult.movement.z / deltaTime;
+        this.velocity.x = (movementResult.movement.x - carry.x) / deltaTime;
+        this.velocity.y = (movementResult.movement.y - carry.y) / deltaTime;
+        this.velocity.z = (movementResult.movement.z - carry.z) / deltaTime;
       }
 
       this.groundHeight = movementResult.groundHeight;
       this.groundNormal = movementResult.groundNormal;
+      this.groundMaterialId = movementResult.groundMaterialId ?? TERRAIN.DEFAULT_MATERIAL;
       this.updateSlopeAngle();
 
+      // Walking off a platform keeps its momentum
+      const platformKey = movementResult.groundPlatformKey ?? null;
+      if (this.groundMotion && platformKey !== this.groundPlatformKey) {
+        this.leavePlatform();
+      }
+      this.groundPlatformKey = platformKey;
+
       // Use hysteresis for physics-based grounding as well
       const wasGrounded = this.isGrounded;
       const distanceToGround = this.position.y - this.groundHeight;
@@ -179,26 +463,8 @@ export class CharacterController {
          this.velocity.y < 5 &&
          this.slopeAngle <= this.config.SLOPE_LIMIT);
       const belowGround = distanceToGround < 0 && this.slopeAngle <= this.config.SLOPE_LIMIT;
-
-      if (rawGrounded || belowGround) {
-        this.groundedFrameCounter++;
-        this.airborneFrameCounter = 0;
-
-        if (!wasGrounded && this.groundedFrameCounter >= CharacterController.GROUNDED_DEBOUNCE_FRAMES) {
-          this.isGrounded = true;
-        } else if (wasGrounded) {
-          this.isGrounded = true; // Stay grounded
-        }
-      } else {
-        this.airborneFrameCounter++;
-        this.groundedFrameCounter = 0;
-
-        if (wasGrounded && this.airborneFrameCounter >= CharacterController.AIRBORNE_DEBOUNCE_FRAMES) {
-          this.isGrounded = false;
-        } else if (!wasGrounded) {
-          this.isGrounded = false; // Stay airborne
-        }
-      }
+      this.updateSteepGround(distanceToGround);
+      this.updateGroundedState(rawGrounded || belowGround, deltaTime);
 
       if (this.isGrounded && this.movementMode === MovementMode.FALLING) {
         this.movementMode = MovementMode.LANDING;
@@ -211,10 +477,14 @@ export class CharacterController {
       this.position.z += desiredMovement.z;
     }
 
-    // Snap to ground when grounded or landing
-    if (this.movementMode === MovementMode.GROUNDED ||
-        this.movementMode === MovementMode.LANDING ||
-        this.isGrounded) {
+    // Snap to ground when grounded, landing or in a ground ability; swimmers
+    // only stay above the bottom
+    if (isSwimmingMode(this.movementMode)) {
+      if (this.position.y < this.groundHeight) {
+        this.position.y = this.groundHeight;
+        this.velocity.y = Math.max(0, this.velocity.y);
+      }
+    } else if (isGroundedMode(this.movementMode) || this.isGrounded) {
       this.snapToGround();
     }
 
@@ -223,20 +493,612 @@ export class CharacterController {
     }
 
     this.updateMovementMode(deltaTime);
+    if (this.updateFallDamage()) return;
     this.updateFacing(deltaTime);
     this.updateTurningState(deltaTime);
     this.updateGait();
 
     // Clamp to world bounds
-    const bounds = this.config.WORLD_BOUNDS;
-    this.position.x = clamp(this.position.x, -bounds, bounds);
-    this.position.z = clamp(this.position.z, -bounds, bounds);
+    const bounds = this.worldBounds;
+    if (Number.isFinite(bounds)) {
+      this.position.x = clamp(this.position.x, -bounds, bounds);
+      this.position.z = clamp(this.position.z, -bounds, bounds);
+    }
   }
 
-  probeGround(): void {
+  /**
+   * Grab, mantle or vault when a ledge is ahead. Grounded jumps vault thin
+   * low obstacles and mantle chest-high ones; moving forward in the air grabs
+   * ledges in reach (mantling those too low to hang from).
+   */
+  tryStartTraversal(): boolean {
+    if (this.isCrouching || this.ledgeCooldown > 0) return false;
+
+    const mode = this.movementMode;
+    const pendingJump = this.wantsJump || this.jumpBufferTimer > 0;
+    const canGroundStart = pendingJump && (
+      mode === MovementMode.GROUNDED ||
+      mode === MovementMode.LANDING ||
+      mode === MovementMode.SPRINTING
+    );
+    const canGrab = isAirborne(mode) && this.inputDirection.y > 0.1;
+    if (!canGroundStart && !canGrab) return false;
+
+    const forward = { x: Math.sin(this.facing), y: 0, z: Math.cos(this.facing) };
+    const ledge = this.ledgeDetector.detect(this.position, forward);
+    if (!ledge) return false;
+
+    const config = this.config;
+    const canMantle = ledge.canStand &&
+      ledge.height >= config.VAULT_MIN_HEIGHT &&
+      ledge.height < config.LEDGE_GRAB_MIN_HEIGHT;
+
+    if (canGroundStart) {
+      const canVault = ledge.landing !== null &&
+        ledge.height >= config.VAULT_MIN_HEIGHT &&
+        ledge.height <= config.VAULT_MAX_HEIGHT;
+      if (canVault) {
+        this.startVault(ledge);
+      } else if (canMantle) {
+        this.startClimbUp(ledge);
+      } else {
+        return false;
+      }
+      this.consumeJumpInput();
+      return true;
+    }
+
+    const inGrabRange = ledge.height >= config.LEDGE_GRAB_MIN_HEIGHT &&
+      ledge.height <= config.LEDGE_GRAB_MAX_HEIGHT;
+    if (inGrabRange && this.canHangFrom(ledge)) {
+      this.startHang(ledge);
+    } else if (canMantle || (inGrabRange && ledge.canStand)) {
+      this.startClimbUp(ledge);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Hanging feet stay above the ground below the ledge
+   */
+  canHangFrom(ledge: LedgeInfo): boolean {
+    const hang = this.getHangPosition(ledge);
+    return this.physics.probeGround(hang.x, hang.z).height < hang.y;
+  }
+
+  /**
+   * Feet position while hanging: off the wall face, arms' reach below the top
+   */
+  getHangPosition(ledge: LedgeInfo): Vector3Like {
+    const offset = this.config.CAPSULE_RADIUS + this.config.LEDGE_WALL_GAP;
+    return {
+      x: ledge.point.x + ledge.normal.x * offset,
+      y: ledge.topY - this.config.LEDGE_HANG_OFFSET,
+      z: ledge.point.z + ledge.normal.z * offset
+    };
+  }
+
+  startHang(ledge: LedgeInfo): void {
+    this.beginTraversal(ledge, MovementMode.LEDGE_HANG);
+    this.position = this.getHangPosition(ledge);
+    this.airJumpsRemaining = this.config.AIR_JUMPS;
+  }
+
+  /**
+   * Pull up from a hang (or mantle from the ground) onto the ledge top
+   */
+  startClimbUp(ledge: LedgeInfo): void {
+    this.beginTraversal(ledge, MovementMode.CLIMBING_UP);
+    const inset = this.config.CAPSULE_RADIUS * 2 + this.config.LEDGE_WALL_GAP;
+    this.traversalEnd = {
+      x: ledge.point.x - ledge.normal.x * inset,
+      y: ledge.topY,
+      z: ledge.point.z - ledge.normal.z * inset
+    };
+  }
+
+  /**
+   * Hop over a thin obstacle to the landing point behind it
+   */
+  startVault(ledge: LedgeInfo): void {
+    this.beginTraversal(ledge, MovementMode.VAULTING);
+    this.traversalEnd = ledge.landing ? { ...ledge.landing } : { ...this.position };
+  }
+
+  /**
+   * Shared entry: face the wall, drop abilities and physics state
+   */
+  beginTraversal(ledge: LedgeInfo, mode: MovementModeType): void {
+    this.abilities.stop(AbilityId.SPRINT);
+    this.abilities.stop(AbilityId.DODGE);
+    this.ledge = ledge;
+    this.movementMode = mode;
+    this.traversalTimer = 0;
+    this.traversalStart = { ...this.position };
+    this.facing = Math.atan2(-ledge.normal.x, -ledge.normal.z);
+    this.targetFacing = this.facing;
+    this.previousFacing = this.facing;
+    this.isGrounded = false;
+    this.isTurning = false;
+    this.jumpCut = false;
+    this.velocity = { x: 0, y: 0, z: 0 };
+    if (this.groundMotion) {
+      this.groundMotion = null;
+      this.groundPlatformKey = null;
+      this.platformVelocity = { x: 0, y: 0, z: 0 };
+    }
+  }
+
+  /**
+   * Kinematic root motion for ledge and vault states (physics is skipped)
+   * Velocity follows the path; the snap onto a grabbed ledge doesn't count.
+   */
+  updateTraversal(deltaTime: number): void {
+    const start = { ...this.position };
+    this.abilities.update(deltaTime);
+
+    switch (this.movementMode) {
+      case MovementMode.LEDGE_HANG:
+      case MovementMode.SHIMMYING:
+        this.updateLedgeHang(deltaTime);
+        break;
+
+      case MovementMode.CLIMBING_UP:
+        this.updateClimbUp(deltaTime);
+        break;
+
+      case MovementMode.VAULTING:
+        this.updateVault(deltaTime);
+        break;
+    }
+    this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - deltaTime);
+
+    if (deltaTime > 0) {
+      this.velocity.x = (this.position.x - start.x) / deltaTime;
+      this.velocity.y = (this.position.y - start.y) / deltaTime;
+      this.velocity.z = (this.position.z - start.z) / deltaTime;
+    }
+    if (this.isGrounded && this.velocity.y < 0) {
+      this.velocity.y = 0;
+    }
+    this.angularVelocity = 0;
+    this.gait = GaitType.IDLE;
+  }
+
+  /**
+   * Forward or jump climbs up, back or crouch lets go, sideways shimmies
+   * along the ledge (stopping where it ends or steps too far)
+   */
+  updateLedgeHang(deltaTime: number): void {
+    const ledge = this.ledge;
+    if (!ledge) {
+      this.releaseLedge();
+      return;
+    }
+
+    this.traversalTimer += deltaTime;
+    const settled = this.traversalTimer >= CharacterController.LEDGE_SETTLE_TIME;
+    const pendingJump = this.wantsJump || this.jumpBufferTimer > 0;
+    if (settled && (pendingJump || this.inputDirection.y > 0.5) && ledge.canStand) {
+      if (pendingJump) this.consumeJumpInput();
+      this.startClimbUp(ledge);
+      return;
+    }
+    if (this.inputDirection.y < -0.5 || this.wantsCrouch) {
+      this.releaseLedge();
+      return;
+    }
+
+    this.movementMode = MovementMode.LEDGE_HANG;
+    const input = clamp(this.inputDirection.x, -1, 1);
+    if (Math.abs(input) < 0.1) return;
+
+    // Right of a character facing the wall
+    const step = input * this.config.LEDGE_SHIMMY_SPEED * deltaTime;
+    const candidate = {
+      x: this.position.x + Math.cos(this.facing) * step,
+      y: this.position.y,
+      z: this.position.z - Math.sin(this.facing) * step
+    };
+    const wallDirection = { x: -ledge.normal.x, y: 0, z: -ledge.normal.z };
+    const next = this.ledgeDetector.detect(candidate, wallDirection);
+    const continues = next !== null &&
+      Math.abs(next.topY - ledge.topY) <= this.config.LEDGE_SHIMMY_MAX_STEP &&
+      next.normal.x * ledge.normal.x + next.normal.z * ledge.normal.z > 0.7;
+    if (!next || !continues) return;
+
+    this.ledge = next;
+    this.position = this.getHangPosition(next);
+    this.facing = Math.atan2(-next.normal.x, -next.normal.z);
+    this.targetFacing = this.facing;
+    this.previousFacing = this.facing;
+    this.movementMode = MovementMode.SHIMMYING;
+  }
+
+  /**
+   * Let go of the ledge and fall (no regrab for LEDGE_REGRAB_DELAY)
+   */
+  releaseLedge(): void {
+    this.ledge = null;
+    this.movementMode = MovementMode.FALLING;
+    this.ledgeCooldown = this.config.LEDGE_REGRAB_DELAY;
+    this.coyoteTimer = 0;
+    this.groundedTime = 0;
+  }
+
+  /**
+   * Rise to the ledge top, then move onto it
+   */
+  updateClimbUp(deltaTime: number): void {
+    this.traversalTimer += deltaTime;
+    const t = clamp(this.traversalTimer / this.config.CLIMB_UP_DURATION, 0, 1);
+    const rise = ease(clamp(t / CLIMB_RISE_FRACTION, 0, 1));
+    const moveIn = ease(clamp((t - CLIMB_RISE_FRACTION) / (1 - CLIMB_RISE_FRACTION), 0, 1));
+
+    const start = this.traversalStart;
+    const end = this.traversalEnd;
+    this.position = {
+      x: lerp(start.x, end.x, moveIn),
+      y: lerp(start.y, end.y, rise),
+      z: lerp(start.z, end.z, moveIn)
+    };
+
+    if (t >= 1) {
+      this.finishTraversal();
+    }
+  }
+
+  /**
+   * Arc over the obstacle, clearing its top by VAULT_CLEARANCE
+   */
+  updateVault(deltaTime: number): void {
+    this.traversalTimer += deltaTime;
+    const t = clamp(this.traversalTimer / this.config.VAULT_DURATION, 0, 1);
+
+    const start = this.traversalStart;
+    const end = this.traversalEnd;
+    const peak = (this.ledge?.topY ?? Math.max(start.y, end.y)) + this.config.VAULT_CLEARANCE;
+    const arc = Math.max(0, peak - lerp(start.y, end.y, 0.5));
+    this.position = {
+      x: lerp(start.x, end.x, t),
+      y: lerp(start.y, end.y, t) + arc * Math.sin(Math.PI * t),
+      z: lerp(start.z, end.z, t)
+    };
+
+    if (t >= 1) {
+      this.finishTraversal();
+    }
+  }
+
+  /**
+   * Stand at the end of a climb-up or vault
+   */
+  finishTraversal(): void {
+    this.position = { ...this.traversalEnd };
+    this.groundHeight = this.traversalEnd.y;
+    this.groundNormal = { x: 0, y: 1, z: 0 };
+    this.updateSlopeAngle();
+    this.ledge = null;
+    this.traversalTimer = 0;
+    this.movementMode = MovementMode.GROUNDED;
+    this.isGrounded = true;
+    this.groundedTime = this.config.GROUNDED_DEBOUNCE_TIME;
+    this.airborneTime = 0;
+  }
+
+  /**
+   * Progress through a climb-up or vault (0-1); 0 in other modes
+   */
+  getTraversalProgress(): number {
+    const duration = this.movementMode === MovementMode.CLIMBING_UP
+      ? this.config.CLIMB_UP_DURATION
+      : this.movementMode === MovementMode.VAULTING
+        ? this.config.VAULT_DURATION
+        : 0;
+    return duration > 0 ? clamp(this.traversalTimer / duration, 0, 1) : 0;
+  }
+
+  /**
+   * Track the height of the current fall; landing more than
+   * FALL_DAMAGE_HEIGHT below its apex knocks the character down
+   * Returns true when the landing started a ragdoll.
+   */
+  updateFallDamage(): boolean {
+    if (isAirborne(this.movementMode)) {
+      this.fallApex = Math.max(this.fallApex ?? this.position.y, this.position.y);
+      return false;
+    }
+
+    const drop = this.fallApex === null ? 0 : this.fallApex - this.position.y;
+    this.fallApex = null;
+    if (this.movementMode === MovementMode.LANDING && drop > this.config.FALL_DAMAGE_HEIGHT) {
+      this.enterRagdoll();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Go limp: hand the body to the ragdoll source (keeping current momentum)
+   * or, without one, drop in place until the knockdown times out
+   */
+  enterRagdoll(): void {
+    if (isRagdollMode(this.movementMode)) return;
+
+    this.abilities.stop(AbilityId.SPRINT);
+    this.abilities.stop(AbilityId.DODGE);
+    this.abilities.stop(AbilityId.SLIDE);
+    this.isCrouching = false;
+    this.ledge = null;
+    this.leavePlatform();
+    this.fallApex = null;
+    this.isTurning = false;
+    this.angularVelocity = 0;
+
+    this.movementMode = MovementMode.RAGDOLL;
+    this.staggerTimer = 0;
+    this.ragdollTimer = 0;
+    this.getUpTimer = 0;
+    this.ragdollActive = this.ragdollSource?.activate(this.velocity) ?? false;
+  }
+
+  /**
+   * Release the ragdoll and start getting up where it came to rest
+   */
+  exitRagdoll(): void {
+    if (this.movementMode !== MovementMode.RAGDOLL) return;
+
+    if (this.ragdollActive) {
+      this.ragdollSource?.deactivate();
+      this.ragdollActive = false;
+    }
+    this.movementMode = MovementMode.GETTING_UP;
+    this.getUpTimer = this.config.GET_UP_DURATION;
+    this.velocity = { x: 0, y: 0, z: 0 };
+  }
+
+  /**
+   * Follow the ragdoll's pelvis while limp (it settles, or RAGDOLL_MAX_TIME
+   * passes, before getting up), then stand in place for GET_UP_DURATION
+   */
+  updateRagdoll(deltaTime: number): void {
+    this.abilities.update(deltaTime);
+    this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - deltaTime);
+    this.angularVelocity = 0;
+    this.gait = GaitType.IDLE;
+
+    if (this.movementMode === MovementMode.GETTING_UP) {
+      this.placeOnGround();
+      this.getUpTimer = Math.max(0, this.getUpTimer - deltaTime);
+      if (this.getUpTimer <= 0) {
+        this.movementMode = MovementMode.GROUNDED;
+        this.isGrounded = true;
+        this.groundedTime = this.config.GROUNDED_DEBOUNCE_TIME;
+        this.airborneTime = 0;
+      }
+      return;
+    }
+
+    this.ragdollTimer += deltaTime;
+    const root = this.ragdollActive ? this.ragdollSource?.getRootPosition() : null;
+    if (root) {
+      this.position.x = root.x;
+      this.position.z = root.z;
+      const rootVelocity = this.ragdollSource?.getRootVelocity();
+      this.velocity = rootVelocity ? { ...rootVelocity } : { x: 0, y: 0, z: 0 };
+      this.placeOnGround();
+    } else {
+      const decay = Math.exp(-KNOCKDOWN_FRICTION * deltaTime);
+      this.velocity.x *= decay;
+      this.velocity.z *= decay;
+      this.velocity.y = Math.min(0, this.velocity.y) - this.config.GRAVITY * deltaTime;
+      this.position.x += this.velocity.x * deltaTime;
+      this.position.y += this.velocity.y * deltaTime;
+      this.position.z += this.velocity.z * deltaTime;
+      if (this.placeOnGround()) {
+        this.velocity.y = 0;
+      }
+    }
+
+    const settled = this.ragdollActive
+      ? this.ragdollSource?.isSettled() ?? true
+      : this.isGrounded && horizontalSpeed(this.velocity) < this.config.RAGDOLL_SETTLE_SPEED;
+    if ((this.ragdollTimer >= this.config.RAGDOLL_MIN_TIME && settled) ||
+      this.ragdollTimer >= this.config.RAGDOLL_MAX_TIME) {
+      this.exitRagdoll();
+    }
+  }
+
+  /**
+   * Keep the feet on or above the ground under the character; returns
+   * true when on it
+   */
+  placeOnGround(): boolean {
     const ground = this.physics.probeGround(this.position.x, this.position.z);
     this.groundHeight = ground.height;
     this.groundNormal = ground.normal;
+    this.groundMaterialId = ground.materialId ?? TERRAIN.DEFAULT_MATERIAL;
+    this.updateSlopeAngle();
+
+    const onGround = this.ragdollActive || this.movementMode === MovementMode.GETTING_UP ||
+      this.position.y <= this.groundHeight;
+    if (onGround) {
+      this.position.y = this.groundHeight;
+    }
+    this.isGrounded = onGround;
+    return onGround;
+  }
+
+  /**
+   * Progress through getting up (0-1); 0 in other modes
+   */
+  getGetUpProgress(): number {
+    if (this.movementMode !== MovementMode.GETTING_UP) return 0;
+    const duration = this.config.GET_UP_DURATION;
+    return duration > 0 ? clamp(1 - this.getUpTimer / duration, 0, 1) : 1;
+  }
+
+  /**
+   * Push the character with `magnitude` (N·s) along the horizontal part of
+   * `direction`, changing its velocity by magnitude / MASS. Past
+   * PUSH_KNOCKDOWN_SPEED it falls over; past PUSH_STAGGER_SPEED a grounded
+   * character staggers. Knockdowns and scripted traversal ignore softer
+   * pushes. Returns the velocity change applied.
+   */
+  applyImpulse(direction: Vector3Like, magnitude: number): number {
+    const length = Math.hypot(direction.x, direction.z);
+    if (length < 1e-6 || magnitude <= 0 || isRagdollMode(this.movementMode)) return 0;
+
+    const speed = magnitude / this.config.MASS;
+    const knockdown = speed > this.config.PUSH_KNOCKDOWN_SPEED;
+    if (isTraversalMode(this.movementMode) && !knockdown) return 0;
+
+    const push = { x: direction.x / length, y: 0, z: direction.z / length };
+    this.velocity.x += push.x * speed;
+    this.velocity.z += push.z * speed;
+    const strength = this.config.PUSH_KNOCKDOWN_SPEED > 0
+      ? clamp(speed / this.config.PUSH_KNOCKDOWN_SPEED, 0, 1)
+      : 1;
+    this.pendingPush = { direction: push, speed, strength };
+
+    if (knockdown) {
+      this.enterRagdoll();
+    } else if (speed > this.config.PUSH_STAGGER_SPEED && isGroundedMode(this.movementMode)) {
+      this.startStagger(push, strength);
+    }
+    return speed;
+  }
+
+  /**
+   * Lose footing for STAGGER_DURATION (scaled by strength): abilities stop
+   * and input is ignored while the push bleeds off
+   */
+  startStagger(direction: Vector3Like, strength: number): void {
+    if (this.movementMode === MovementMode.SLIDING) return;
+
+    this.abilities.stop(AbilityId.SPRINT);
+    this.abilities.stop(AbilityId.DODGE);
+    this.isTurning = false;
+    this.turningTimer = 0;
+
+    this.movementMode = MovementMode.STAGGERING;
+    this.staggerDuration = this.config.STAGGER_DURATION * strength;
+    this.staggerTimer = this.staggerDuration;
+    this.staggerDirection = { ...direction };
+    this.staggerStrength = strength;
+  }
+
+  /**
+   * Hand over the push applied since the last call (once)
+   */
+  takePush(): PushEvent | null {
+    const push = this.pendingPush;
+    this.pendingPush = null;
+    return push;
+  }
+
+  /**
+   * Push direction in character space (forward, right) weighted by the
+   * stagger's strength and remaining time; zero when not staggering
+   */
+  getStaggerFlinch(): { forward: number; lateral: number } {
+    if (this.movementMode !== MovementMode.STAGGERING || this.staggerDuration <= 0) {
+      return { forward: 0, lateral: 0 };
+    }
+    const weight = this.staggerStrength * clamp(this.staggerTimer / this.staggerDuration, 0, 1);
+    const { x, z } = this.staggerDirection;
+    const sin = Math.sin(this.facing);
+    const cos = Math.cos(this.facing);
+    return {
+      forward: (x * sin + z * cos) * weight,
+      lateral: (x * cos - z * sin) * weight
+    };
+  }
+
+  /**
+   * Move with the platform under the character over the last physics step
+   * Returns the displacement to add to this step's movement and turns the
+   * character by the platform's yaw.
+   */
+  applyPlatformCarry(deltaTime: number): Vector3Like {
+    const motion = this.isGrounded && this.groundPlatformKey && deltaTime > 0
+      ? this.physics.getPlatformMotion(this.groundPlatformKey)
+      : null;
+    this.groundMotion = motion;
+
+    if (!motion) {
+      this.platformVelocity = { x: 0, y: 0, z: 0 };
+      return { x: 0, y: 0, z: 0 };
+    }
+
+    // Rotate about the platform's previous center, then translate with it
+    const yawDelta = motion.angularVelocity * deltaTime;
+    const rx = this.position.x - (motion.center.x - motion.velocity.x * deltaTime);
+    const rz = this.position.z - (motion.center.z - motion.velocity.z * deltaTime);
+    const cos = Math.cos(yawDelta);
+    const sin = Math.sin(yawDelta);
+    const carry = {
+      x: rx * cos + rz * sin - rx + motion.velocity.x * deltaTime,
+      y: motion.velocity.y * deltaTime,
+      z: -rx * sin + rz * cos - rz + motion.velocity.z * deltaTime
+    };
+
+    this.platformVelocity = {
+      x: carry.x / deltaTime,
+      y: carry.y / deltaTime,
+      z: carry.z / deltaTime
+    };
+    this.facing += yawDelta;
+    this.targetFacing += yawDelta;
+    this.previousFacing += yawDelta;
+
+    return carry;
+  }
+
+  /**
+   * Convert the platform's carry velocity into the character's own momentum
+   */
+  leavePlatform(): void {
+    this.velocity.x += this.platformVelocity.x;
+    this.velocity.y += Math.max(0, this.platformVelocity.y);
+    this.velocity.z += this.platformVelocity.z;
+    this.platformVelocity = { x: 0, y: 0, z: 0 };
+    this.groundMotion = null;
+    this.groundPlatformKey = null;
+  }
+
+  /**
+   * Crouch while the input is held on the ground; stand back up once
+   * released, but only when the full standing capsule fits
+   */
+  updateCrouch(): void {
+    if (this.wantsCrouch && !isAirborne(this.movementMode) && !isSwimmingMode(this.movementMode)) {
+      this.isCrouching = true;
+    } else if (this.isCrouching && this.hasStandingClearance()) {
+      this.isCrouching = false;
+    }
+  }
+
+  /**
+   * Sweep the crouched capsule's head sphere up to standing height
+   */
+  hasStandingClearance(): boolean {
+    const radius = this.config.CAPSULE_RADIUS;
+    const head = {
+      x: this.position.x,
+      y: this.position.y + this.config.CROUCH_CAPSULE_HEIGHT - radius,
+      z: this.position.z
+    };
+    return sweepHeadroom(this.physics, head, radius, this.config.CAPSULE_HEIGHT - this.config.CROUCH_CAPSULE_HEIGHT);
+  }
+
+  probeGround(deltaTime: number): void {
+    const ground = this.physics.probeGround(this.position.x, this.position.z);
+    this.groundHeight = ground.height;
+    this.groundNormal = ground.normal;
+    this.groundMaterialId = ground.materialId ?? TERRAIN.DEFAULT_MATERIAL;
     this.updateSlopeAngle();
 
     const distanceToGround = this.position.y - this.groundHeight;
@@ -256,30 +1118,164 @@ export class CharacterController {
 
     // Also ground if clearly below ground level
     const belowGround = distanceToGround < 0 && this.slopeAngle <= this.config.SLOPE_LIMIT;
+    this.updateSteepGround(distanceToGround);
+
+    const landed = this.updateGroundedState(rawGrounded || belowGround, deltaTime);
+    if (landed && (isAirborne(this.movementMode) || this.movementMode === MovementMode.LANDING)) {
+      this.movementMode = MovementMode.LANDING;
+      this.landingTimer = this.config.LANDING_DURATION;
+    }
+  }
 
-    if (rawGrounded || belowGround) {
-      // Increment grounded counter, reset airborne
-      this.groundedFrameCounter++;
-      this.airborneFrameCounter = 0;
+  /**
+   * Time-based hysteresis: support must hold for GROUNDED_DEBOUNCE_TIME to
+   * land and be missing for AIRBORNE_DEBOUNCE_TIME to leave the ground, so
+   * behavior doesn't change with framerate. Returns true on landing.
+   */
+  updateGroundedState(hasSupport: boolean, deltaTime: number): boolean {
+    const wasGrounded = this.isGrounded;
 
-      // Only become grounded after N consecutive frames
-      if (!wasGrounded && this.groundedFrameCounter >= CharacterController.GROUNDED_DEBOUNCE_FRAMES) {
+    if (hasSupport) {
+      this.groundedTime += deltaTime;
+      this.airborneTime = 0;
+      if (!wasGrounded && this.groundedTime >= this.config.GROUNDED_DEBOUNCE_TIME) {
         this.isGrounded = true;
-        if (this.movementMode !== MovementMode.GROUNDED) {
-          this.movementMode = MovementMode.LANDING;
-          this.landingTimer = this.config.LANDING_DURATION;
-        }
       }
     } else {
-      // Increment airborne counter, reset grounded
-      this.airborneFrameCounter++;
-      this.groundedFrameCounter = 0;
-
-      // Only become airborne after N consecutive frames
-      if (wasGrounded && this.airborneFrameCounter >= CharacterController.AIRBORNE_DEBOUNCE_FRAMES) {
+      this.airborneTime += deltaTime;
+      this.groundedTime = 0;
+      if (wasGrounded && this.airborneTime >= this.config.AIRBORNE_DEBOUNCE_TIME) {
         this.isGrounded = false;
       }
     }
+
+    return this.isGrounded && !wasGrounded;
+  }
+
+  /**
+   * Steep contact starts a slide; once sliding, the looser leave threshold and
+   * SLIDE_EXIT_ANGLE keep it from flickering near the slope limit
+   */
+  updateSteepGround(distanceToGround: number): void {
+    const sliding = this.abilities.isActive(AbilityId.SLIDE);
+    const threshold = sliding ? CharacterController.LEAVE_GROUND_THRESHOLD : CharacterController.LAND_THRESHOLD;
+    const angleLimit = sliding ? this.config.SLIDE_EXIT_ANGLE : this.config.SLOPE_LIMIT;
+    this.onSteepGround = !isSwimmingMode(this.movementMode) &&
+      distanceToGround <= threshold &&
+      this.velocity.y < 5 &&
+      this.slopeAngle > angleLimit;
+  }
+
+  /**
+   * Sample the water at the feet; wading in past SWIM_ENTER_DEPTH (or
+   * falling in) starts swimming
+   */
+  updateWater(): void {
+    const surface = this.waterSource?.getSurfaceHeight(this.position.x, this.position.y, this.position.z) ?? null;
+    this.waterDepth = surface === null ? 0 : surface - this.position.y;
+
+    const rising = this.movementMode === MovementMode.JUMPING;
+    const canEnter = !isSwimmingMode(this.movementMode) && !isTraversalMode(this.movementMode) && !rising;
+    if (canEnter && this.waterDepth >= this.config.SWIM_ENTER_DEPTH) {
+      this.startSwimming();
+    }
+  }
+
+  /**
+   * Enter the water, dropping abilities and crouch
+   */
+  startSwimming(): void {
+    this.abilities.stop(AbilityId.SPRINT);
+    this.abilities.stop(AbilityId.DODGE);
+    this.abilities.stop(AbilityId.SLIDE);
+    this.isCrouching = false;
+    this.movementMode = MovementMode.TREADING;
+  }
+
+  /**
+   * Start and stop abilities from input and ground state, then switch into
+   * the active ability's movement mode (slide > dodge > sprint)
+   */
+  updateAbilities(deltaTime: number): void {
+    const abilities = this.abilities;
+    abilities.update(deltaTime);
+
+    if (this.onSteepGround) {
+      if (!abilities.isActive(AbilityId.SLIDE)) this.startSlide();
+    } else {
+      abilities.stop(AbilityId.SLIDE);
+    }
+
+    const onGround = isGroundedMode(this.movementMode) &&
+      this.movementMode !== MovementMode.STAGGERING &&
+      !abilities.isActive(AbilityId.SLIDE);
+
+    if (this.wantsDodge && onGround && !this.isCrouching && abilities.start(AbilityId.DODGE)) {
+      abilities.stop(AbilityId.SPRINT);
+      this.dodgeDirection = this.getDodgeDirection();
+      this.wantsDodge = false;
+      this.dodgeConsumed = true;
+    }
+
+    const hasMoveInput = Math.hypot(this.inputDirection.x, this.inputDirection.y) > 0.1;
+    const canSprint = this.wantsSprint &&
+      hasMoveInput &&
+      onGround &&
+      !this.isCrouching &&
+      !abilities.isActive(AbilityId.DODGE);
+    if (!canSprint) {
+      abilities.stop(AbilityId.SPRINT);
+    } else if (!abilities.isActive(AbilityId.SPRINT)) {
+      abilities.start(AbilityId.SPRINT);
+    }
+
+    if (abilities.isActive(AbilityId.SLIDE)) {
+      this.movementMode = MovementMode.SLIDING;
+    } else if (abilities.isActive(AbilityId.DODGE)) {
+      this.movementMode = MovementMode.DODGING;
+    } else if (abilities.isActive(AbilityId.SPRINT)) {
+      this.movementMode = MovementMode.SPRINTING;
+    } else if (this.isAbilityMode(this.movementMode)) {
+      this.movementMode = this.isGrounded ? MovementMode.GROUNDED : MovementMode.FALLING;
+    }
+  }
+
+  /**
+   * Begin sliding down steep ground, cancelling sprint and dodge
+   */
+  startSlide(): void {
+    this.abilities.stop(AbilityId.SPRINT);
+    this.abilities.stop(AbilityId.DODGE);
+    this.abilities.start(AbilityId.SLIDE);
+    this.movementMode = MovementMode.SLIDING;
+  }
+
+  /**
+   * Roll toward the input direction (character-relative), forward without input
+   */
+  getDodgeDirection(): Vector3Like {
+    const forwardX = Math.sin(this.facing);
+    const forwardZ = Math.cos(this.facing);
+    const rightX = Math.cos(this.facing);
+    const rightZ = -Math.sin(this.facing);
+
+    const inputX = this.inputDirection.x;
+    const inputY = this.inputDirection.y;
+    let x = forwardX * inputY + rightX * inputX;
+    let z = forwardZ * inputY + rightZ * inputX;
+    const length = Math.hypot(x, z);
+    if (length < 0.1) {
+      return { x: forwardX, y: 0, z: forwardZ };
+    }
+    x /= length;
+    z /= length;
+    return { x, y: 0, z };
+  }
+
+  isAbilityMode(mode: MovementModeType): boolean {
+    return mode === MovementMode.SPRINTING ||
+      mode === MovementMode.DODGING ||
+      mode === MovementMode.SLIDING;
   }
 
   updateSlopeAngle(): void {
@@ -298,8 +1294,48 @@ export class CharacterController {
         break;
 
       case MovementMode.GROUNDED:
+        if (this.onSteepGround) {
+          this.startSlide();
+        } else if (!this.isGrounded) {
+          this.movementMode = MovementMode.FALLING;
+        }
+        break;
+
+      case MovementMode.SPRINTING:
+      case MovementMode.DODGING:
+        if (!this.isGrounded) {
+          this.abilities.stop(AbilityId.SPRINT);
+          this.abilities.stop(AbilityId.DODGE);
+          this.movementMode = MovementMode.FALLING;
+        }
+        break;
+
+      case MovementMode.STAGGERING:
+        this.staggerTimer = Math.max(0, this.staggerTimer - deltaTime);
         if (!this.isGrounded) {
+          this.staggerTimer = 0;
           this.movementMode = MovementMode.FALLING;
+        } else if (this.staggerTimer <= 0) {
+          this.movementMode = MovementMode.GROUNDED;
+        }
+        break;
+
+      case MovementMode.SLIDING:
+        if (!this.onSteepGround) {
+          this.abilities.stop(AbilityId.SLIDE);
+          this.movementMode = this.isGrounded ? MovementMode.GROUNDED : MovementMode.FALLING;
+        }
+        break;
+
+      case MovementMode.SWIMMING:
+      case MovementMode.TREADING:
+        if (this.waterDepth <= 0) {
+          this.movementMode = this.isGrounded ? MovementMode.GROUNDED : MovementMode.FALLING;
+        } else if (this.isGrounded && this.waterDepth < this.config.SWIM_EXIT_DEPTH) {
+          this.movementMode = MovementMode.GROUNDED;
+        } else {
+          const stroking = Math.hypot(this.inputDirection.x, this.inputDirection.y) > 0.1;
+          this.movementMode = stroking ? MovementMode.SWIMMING : MovementMode.TREADING;
         }
         break;
 
@@ -310,7 +1346,9 @@ export class CharacterController {
         break;
 
       case MovementMode.FALLING:
-        if (this.isGrounded) {
+        if (this.onSteepGround) {
+          this.startSlide();
+        } else if (this.isGrounded) {
           this.movementMode = MovementMode.LANDING;
           this.landingTimer = this.config.LANDING_DURATION;
         }
@@ -330,7 +1368,8 @@ export class CharacterController {
     const hasRight = inputX > 0.1;
     const hasAnyInput = Math.abs(inputX) > 0.1 || Math.abs(inputY) > 0.1;
 
-    if (!hasAnyInput) {
+    // Staggering ignores input until the feet are back under control
+    if (!hasAnyInput || this.movementMode === MovementMode.STAGGERING) {
       return { x: 0, y: 0, z: 0 };
     }
 
@@ -345,9 +1384,7 @@ export class CharacterController {
     const rightX = cos;
     const rightZ = -sin;
 
-    const targetSpeed = this.wantsRun
-      ? this.config.RUN_SPEED
-      : this.config.WALK_SPEED;
+    const targetSpeed = this.getTargetSpeed();
 
     let worldDirX = 0;
     let worldDirZ = 0;
@@ -404,16 +1441,69 @@ export class CharacterController {
     };
   }
 
+  /**
+   * Target ground speed from run state and analog stick magnitude
+   */
+  getTargetSpeed(): number {
+    if (isSwimmingMode(this.movementMode)) {
+      return this.config.SWIM_SPEED;
+    }
+    if (this.isCrouching) {
+      const magnitude = this.analogInput
+        ? clamp(Math.hypot(this.inputDirection.x, this.inputDirection.y), 0, 1)
+        : 1;
+      return this.config.CROUCH_SPEED * magnitude;
+    }
+    if (this.abilities.isActive(AbilityId.SPRINT)) {
+      return this.config.SPRINT_SPEED;
+    }
+    if (this.wantsRun) {
+      return this.config.RUN_SPEED;
+    }
+    if (!this.analogInput) {
+      return this.config.WALK_SPEED;
+    }
+
+    // Analog: ramp up to walk speed, then blend toward run at full deflection
+    const magnitude = clamp(Math.hypot(this.inputDirection.x, this.inputDirection.y), 0, 1);
+    const walkMagnitude = clamp(this.config.ANALOG_WALK_MAGNITUDE, 0.01, 1);
+    if (magnitude <= walkMagnitude) {
+      return this.config.WALK_SPEED * (magnitude / walkMagnitude);
+    }
+
+    const runBlend = walkMagnitude < 1 ? (magnitude - walkMagnitude) / (1 - walkMagnitude) : 0;
+    return lerp(this.config.WALK_SPEED, this.config.RUN_SPEED, runBlend);
+  }
+
   applyAcceleration(desiredVelocity: Vector3Like, deltaTime: number): void {
+    if (this.abilities.isActive(AbilityId.DODGE)) {
+      this.applyDodgeVelocity();
+      return;
+    }
+    if (this.abilities.isActive(AbilityId.SLIDE)) {
+      this.applySlideAcceleration(desiredVelocity, deltaTime);
+      return;
+    }
+    if (isSwimmingMode(this.movementMode)) {
+      this.applySwimAcceleration(desiredVelocity, deltaTime);
+      return;
+    }
+
     const airborne = isAirborne(this.movementMode);
     const desiredLen = Math.sqrt(desiredVelocity.x ** 2 + desiredVelocity.z ** 2);
 
     let accel: number;
-    if (desiredLen > 0.1) {
+    if (this.movementMode === MovementMode.STAGGERING) {
+      accel = this.config.STAGGER_DECEL;
+    } else if (desiredLen > 0.1) {
       accel = airborne ? this.config.AIR_ACCEL : this.config.GROUND_ACCEL;
     } else {
       accel = airborne ? this.config.AIR_DECEL : this.config.GROUND_DECEL;
     }
+    // Surface friction scales grip on the ground (ice slides, rock bites)
+    if (!airborne) {
+      accel *= this.getGroundFriction();
+    }
 
     const diffX = desiredVelocity.x - this.velocity.x;
     const diffZ = desiredVelocity.z - this.velocity.z;
@@ -430,23 +1520,147 @@ export class CharacterController {
     }
   }
 
-  handleJump(): void {
-    const canJump =
-      (this.movementMode === MovementMode.GROUNDED ||
-        this.movementMode === MovementMode.LANDING) &&
-      this.wantsJump;
+  /**
+   * Root-motion burst along the roll, easing from DODGE_SPEED to walk speed
+   */
+  applyDodgeVelocity(): void {
+    const progress = this.abilities.getProgress(AbilityId.DODGE);
+    const speed = lerp(this.config.DODGE_SPEED, this.config.WALK_SPEED, progress);
+    this.velocity.x = this.dodgeDirection.x * speed;
+    this.velocity.z = this.dodgeDirection.z * speed;
+  }
+
+  /**
+   * Slides keep their momentum: gravity along the slope pulls the character
+   * downhill, input only steers and friction bleeds speed (ground snapping
+   * keeps it on the surface)
+   */
+  applySlideAcceleration(desiredVelocity: Vector3Like, deltaTime: number): void {
+    const { x: nx, y: ny, z: nz } = this.groundNormal;
+    const normalLen = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    const horizontalLen = Math.sqrt(nx * nx + nz * nz);
+    if (normalLen > 0.001 && horizontalLen > 0.001) {
+      // Horizontal part of g·sin(slope): g·sin·cos
+      const downhill = this.config.GRAVITY * (horizontalLen / normalLen) * (Math.abs(ny) / normalLen);
+      this.velocity.x += (nx / horizontalLen) * downhill * deltaTime;
+      this.velocity.z += (nz / horizontalLen) * downhill * deltaTime;
+    }
+
+    const desiredLen = Math.sqrt(desiredVelocity.x ** 2 + desiredVelocity.z ** 2);
+    if (desiredLen > 0.1) {
+      const steer = (this.config.SLIDE_STEER_ACCEL * deltaTime) / desiredLen;
+      this.velocity.x += desiredVelocity.x * steer;
+      this.velocity.z += desiredVelocity.z * steer;
+    }
+
+    const speed = Math.sqrt(this.velocity.x ** 2 + this.velocity.z ** 2);
+    if (speed > 0) {
+      const friction = this.config.SLIDE_FRICTION * this.getGroundFriction() * deltaTime;
+      const scale = Math.max(0, speed - friction) / speed;
+      this.velocity.x *= scale;
+      this.velocity.z *= scale;
+    }
+  }
+
+  /**
+   * Buoyancy grows with depth and balances gravity at SWIM_FLOAT_DEPTH, so
+   * swimmers settle at (and follow) the surface; drag damps bobbing and
+   * bleeds off momentum beyond the stroke speed
+   */
+  applySwimAcceleration(desiredVelocity: Vector3Like, deltaTime: number): void {
+    const buoyancy = clamp(this.waterDepth / this.config.SWIM_FLOAT_DEPTH, 0, this.config.SWIM_MAX_BUOYANCY);
+    const damping = Math.exp(-this.config.WATER_DRAG * deltaTime);
+    this.velocity.y += this.config.GRAVITY * (buoyancy - 1) * deltaTime;
+    this.velocity.y *= damping;
+
+    const desiredLen = Math.sqrt(desiredVelocity.x ** 2 + desiredVelocity.z ** 2);
+    const speed = Math.sqrt(this.velocity.x ** 2 + this.velocity.z ** 2);
+    if (speed > desiredLen) {
+      const scale = Math.max(desiredLen, speed * damping) / speed;
+      this.velocity.x *= scale;
+      this.velocity.z *= scale;
+    }
+
+    const diffX = desiredVelocity.x - this.velocity.x;
+    const diffZ = desiredVelocity.z - this.velocity.z;
+    const diffLen = Math.sqrt(diffX ** 2 + diffZ ** 2);
+    const maxDelta = this.config.SWIM_ACCEL * deltaTime;
+    const scale = diffLen > maxDelta ? maxDelta / diffLen : 1;
+    this.velocity.x += diffX * scale;
+    this.velocity.z += diffZ * scale;
+  }
+
+  /**
+   * Ground jumps (including coyote time after walking off a ledge), air
+   * jumps, and cutting the rise short when jump is released early
+   */
+  handleJump(deltaTime: number): void {
+    if (isGroundedMode(this.movementMode)) {
+      this.coyoteTimer = this.config.COYOTE_TIME;
+      this.airJumpsRemaining = this.config.AIR_JUMPS;
+    } else {
+      this.coyoteTimer = Math.max(0, this.coyoteTimer - deltaTime);
+    }
+    if (isSwimmingMode(this.movementMode)) {
+      this.airJumpsRemaining = this.config.AIR_JUMPS;
+    }
+
+    if (this.movementMode === MovementMode.JUMPING &&
+        !this.jumpHeld &&
+        !this.jumpCut &&
+        this.velocity.y > 0) {
+      this.velocity.y *= this.config.JUMP_CUT_MULTIPLIER;
+      this.jumpCut = true;
+    }
+
+    const pendingJump = this.wantsJump || this.jumpBufferTimer > 0;
+    this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - deltaTime);
+    if (!pendingJump || this.isCrouching) return;
 
-    if (canJump) {
-      this.velocity.y = this.config.JUMP_VELOCITY;
-      this.movementMode = MovementMode.JUMPING;
-      this.isGrounded = false;
-      this.wantsJump = false;
-      this.jumpConsumed = true;
+    if (isSwimmingMode(this.movementMode)) {
+      // Hop from the surface only
+      if (this.waterDepth <= this.config.SWIM_FLOAT_DEPTH + SURFACE_JUMP_MARGIN) {
+        this.startJump(this.config.SWIM_JUMP_VELOCITY);
+      }
+      return;
+    }
+
+    const canGroundJump =
+      this.movementMode === MovementMode.GROUNDED ||
+      this.movementMode === MovementMode.LANDING ||
+      this.movementMode === MovementMode.SPRINTING ||
+      (this.movementMode === MovementMode.FALLING && this.coyoteTimer > 0);
+
+    if (canGroundJump) {
+      this.startJump(this.config.JUMP_VELOCITY);
+    } else if (isAirborne(this.movementMode) && this.airJumpsRemaining > 0) {
+      this.airJumpsRemaining--;
+      this.startJump(this.config.AIR_JUMP_VELOCITY);
     }
   }
 
+  startJump(velocity: number): void {
+    this.abilities.stop(AbilityId.SPRINT);
+    this.velocity.y = velocity;
+    this.movementMode = MovementMode.JUMPING;
+    this.isGrounded = false;
+    this.consumeJumpInput();
+    this.coyoteTimer = 0;
+    this.jumpCut = false;
+  }
+
+  /**
+   * Use up the current press (and any buffered one)
+   */
+  consumeJumpInput(): void {
+    this.wantsJump = false;
+    this.jumpConsumed = true;
+    this.jumpBufferTimer = 0;
+  }
+
   applyGravity(deltaTime: number): void {
-    if (!this.isGrounded) {
+    // Swimmers get gravity with buoyancy
+    if (!this.isGrounded && !isSwimmingMode(this.movementMode)) {
       this.velocity.y -= this.config.GRAVITY * deltaTime;
     }
   }
@@ -543,6 +1757,11 @@ export class CharacterController {
       return;
     }
 
+    if (this.isCrouching) {
+      this.gait = GaitType.CROUCHING;
+      return;
+    }
+
     if (speed < 0.5) {
       this.gait = GaitType.IDLE;
     } else if (speed < this.config.WALK_SPEED + 1) {
@@ -566,6 +1785,25 @@ export class CharacterController {
     return horizontalSpeed(this.velocity);
   }
 
+  /**
+   * Stamina and active ability for telemetry
+   */
+  getAbilityTelemetry(): AbilityTelemetry {
+    return {
+      stamina: this.abilities.stamina,
+      staminaMax: this.abilities.maxStamina,
+      ability: this.abilities.getActive(),
+      dodgeCooldown: this.abilities.getCooldown(AbilityId.DODGE)
+    };
+  }
+
+  /**
+   * Friction multiplier of the surface under the character
+   */
+  getGroundFriction(): number {
+    return TERRAIN_MATERIALS[this.groundMaterialId]?.FRICTION ?? 1;
+  }
+
   /**
    * Get current angular velocity (rad/s)
    */
@@ -582,8 +1820,8 @@ export class CharacterController {
     distanceToGround: number;
     slopeAngle: number;
     verticalVelocity: number;
-    groundedFrames: number;
-    airborneFrames: number;
+    groundedTime: number;
+    airborneTime: number;
   } {
     return {
       isGrounded: this.isGrounded,
@@ -591,16 +1829,164 @@ export class CharacterController {
       distanceToGround: this.position.y - this.groundHeight,
       slopeAngle: this.slopeAngle,
       verticalVelocity: this.velocity.y,
-      groundedFrames: this.groundedFrameCounter,
-      airborneFrames: this.airborneFrameCounter
+      groundedTime: this.groundedTime,
+      airborneTime: this.airborneTime
     };
   }
 
-  private getCharacterShape(): CharacterShapeDefinition {
+  /**
+   * Capture the full simulation state
+   */
+  getSnapshot(): ControllerSnapshot {
+    return {
+      position: { ...this.position },
+      velocity: { ...this.velocity },
+      facing: this.facing,
+      targetFacing: this.targetFacing,
+      movementMode: this.movementMode,
+      gait: this.gait,
+      landingTimer: this.landingTimer,
+      isGrounded: this.isGrounded,
+      groundNormal: { ...this.groundNormal },
+      groundHeight: this.groundHeight,
+      groundMaterialId: this.groundMaterialId,
+      groundPlatformKey: this.groundPlatformKey,
+      isCrouching: this.isCrouching,
+      abilities: this.abilities.getSnapshot(),
+      dodgeDirection: { ...this.dodgeDirection },
+      dodgeConsumed: this.dodgeConsumed,
+      onSteepGround: this.onSteepGround,
+      slopeAngle: this.slopeAngle,
+      groundedTime: this.groundedTime,
+      airborneTime: this.airborneTime,
+      jumpConsumed: this.jumpConsumed,
+      jumpHeld: this.jumpHeld,
+      jumpBufferTimer: this.jumpBufferTimer,
+      coyoteTimer: this.coyoteTimer,
+      airJumpsRemaining: this.airJumpsRemaining,
+      jumpCut: this.jumpCut,
+      ledge: this.ledge ? this.cloneLedge(this.ledge) : null,
+      traversalTimer: this.traversalTimer,
+      traversalStart: { ...this.traversalStart },
+      traversalEnd: { ...this.traversalEnd },
+      ledgeCooldown: this.ledgeCooldown,
+      ragdollTimer: this.ragdollTimer,
+      getUpTimer: this.getUpTimer,
+      fallApex: this.fallApex,
+      staggerTimer: this.staggerTimer,
+      staggerDuration: this.staggerDuration,
+      staggerDirection: { ...this.staggerDirection },
+      staggerStrength: this.staggerStrength,
+      isTurning: this.isTurning,
+      turningTimer: this.turningTimer,
+      angularVelocity: this.angularVelocity,
+      previousFacing: this.previousFacing
+    };
+  }
+
+  /**
+   * Restore state captured by getSnapshot (pending input is cleared)
+   */
+  restoreSnapshot(snapshot: ControllerSnapshot): void {
+    this.position = { ...snapshot.position };
+    this.velocity = { ...snapshot.velocity };
+    this.lastPosition = { ...snapshot.position };
+    this.facing = snapshot.facing;
+    this.lastFacing = snapshot.facing;
+    this.targetFacing = snapshot.targetFacing;
+    this.movementMode = snapshot.movementMode;
+    this.gait = snapshot.gait;
+    this.landingTimer = snapshot.landingTimer;
+    this.isGrounded = snapshot.isGrounded;
+    this.groundNormal = { ...snapshot.groundNormal };
+    this.groundHeight = snapshot.groundHeight;
+    this.groundMaterialId = snapshot.groundMaterialId ?? TERRAIN.DEFAULT_MATERIAL;
+    this.groundPlatformKey = snapshot.groundPlatformKey ?? null;
+    this.groundMotion = null;
+    this.platformVelocity = { x: 0, y: 0, z: 0 };
+    this.isCrouching = snapshot.isCrouching ?? false;
+    if (snapshot.abilities) {
+      this.abilities.restoreSnapshot(snapshot.abilities);
+    } else {
+      this.abilities.reset();
+    }
+    this.dodgeDirection = snapshot.dodgeDirection ? { ...snapshot.dodgeDirection } : { x: 0, y: 0, z: 1 };
+    this.dodgeConsumed = snapshot.dodgeConsumed ?? false;
+    this.onSteepGround = snapshot.onSteepGround ?? false;
+    this.slopeAngle = snapshot.slopeAngle;
+    this.groundedTime = snapshot.groundedTime ?? 0;
+    this.airborneTime = snapshot.airborneTime ?? 0;
+    this.jumpConsumed = snapshot.jumpConsumed;
+    this.jumpHeld = snapshot.jumpHeld ?? false;
+    this.jumpBufferTimer = snapshot.jumpBufferTimer ?? 0;
+    this.coyoteTimer = snapshot.coyoteTimer ?? 0;
+    this.airJumpsRemaining = snapshot.airJumpsRemaining ?? this.config.AIR_JUMPS;
+    this.jumpCut = snapshot.jumpCut ?? false;
+    this.ledge = snapshot.ledge ? this.cloneLedge(snapshot.ledge) : null;
+    this.traversalTimer = snapshot.traversalTimer ?? 0;
+    this.traversalStart = snapshot.traversalStart ? { ...snapshot.traversalStart } : { ...snapshot.position };
+    this.traversalEnd = snapshot.traversalEnd ? { ...snapshot.traversalEnd } : { ...snapshot.position };
+    this.ledgeCooldown = snapshot.ledgeCooldown ?? 0;
+    if (this.ragdollActive) {
+      this.ragdollSource?.deactivate();
+      this.ragdollActive = false;
+    }
+    this.ragdollTimer = snapshot.ragdollTimer ?? 0;
+    this.getUpTimer = snapshot.getUpTimer ?? 0;
+    this.fallApex = snapshot.fallApex ?? null;
+    this.staggerTimer = snapshot.staggerTimer ?? 0;
+    this.staggerDuration = snapshot.staggerDuration ?? 0;
+    this.staggerDirection = snapshot.staggerDirection ? { ...snapshot.staggerDirection } : { x: 0, y: 0, z: 1 };
+    this.staggerStrength = snapshot.staggerStrength ?? 0;
+    this.pendingPush = null;
+    this.isTurning = snapshot.isTurning;
+    this.turningTimer = snapshot.turningTimer;
+    this.angularVelocity = snapshot.angularVelocity;
+    this.previousFacing = snapshot.previousFacing;
+
+    this.inputDirection = { x: 0, y: 0 };
+    this.wantsRun = false;
+    this.wantsJump = false;
+    this.wantsCrouch = false;
+    this.wantsSprint = false;
+    this.wantsDodge = false;
+    this.analogInput = false;
+  }
+
+  /**
+   * Move the character onto the ground at a new position without a render
+   * blend from the old pose (the previous pose is set to the new one)
+   */
+  teleport(position: Vector3Like, facing: number = this.facing): void {
+    this.position = { ...position };
+    this.lastPosition = { ...position };
+    this.velocity = { x: 0, y: 0, z: 0 };
+    this.facing = facing;
+    this.lastFacing = facing;
+    this.targetFacing = facing;
+    this.previousFacing = facing;
+    this.angularVelocity = 0;
+    this.groundHeight = position.y;
+    this.isGrounded = true;
+  }
+
+  cloneLedge(ledge: LedgeInfo): LedgeInfo {
+    return {
+      ...ledge,
+      point: { ...ledge.point },
+      normal: { ...ledge.normal },
+      landing: ledge.landing ? { ...ledge.landing } : null
+    };
+  }
+
+  /**
+   * Collision capsule used for character movement (feet at position)
+   */
+  getCharacterShape(): CharacterShapeDefinition {
     return {
       type: 'capsule',
       radius: this.config.CAPSULE_RADIUS,
-      height: this.config.CAPSULE_HEIGHT
+      height: this.isCrouching ? this.config.CROUCH_CAPSULE_HEIGHT : this.config.CAPSULE_HEIGHT
     };
   }
 }
@@ -0,0 +1,16 @@
+import type { IPhysicsWorld } from '../../physics/IPhysicsWorld.js';
+import type { Vector3Like } from '../../types/index.js';
+
+/**
+ * Sweep a sphere straight up from `center` by `rise`; true when nothing
+ * overhead blocks it (crouch stand-up, standing room on a ledge top)
+ */
+export function sweepHeadroom(physics: IPhysicsWorld, center: Vector3Like, radius: number, rise: number): boolean {
+  if (rise <= 0) return true;
+
+  const hit = physics.shapeCast(center, { x: 0, y: 1, z: 0 }, rise, { type: 'sphere', radius });
+  // Hits at or below the sphere center are the ground, not a ceiling
+  return !hit.hit || !hit.point || hit.point.y <= center.y;
+}
+
+export default sweepHeadroom;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { LedgeDetector } from './LedgeDetector.js'
+import { SimplePhysics } from '../../physics/SimplePhysics.js'
+import { TerrainHeightmap } from '../../terrain/TerrainHeightmap.js'
+import { CHARACTER } from '../../config/character.js'
+
+const FORWARD = { x: 0, y: 0, z: 1 }
+
+const createPhysics = (halfExtents, centerZ) => {
+  const physics = new SimplePhysics(new TerrainHeightmap(40, 4))
+  physics.addStaticShape('block', {
+    type: 'box',
+    position: { x: 0, y: halfExtents.y, z: centerZ },
+    halfExtents
+  })
+  return physics
+}
+
+describe('character/controller/LedgeDetector', () => {
+  it('finds a thin low wall with a landing behind it', () => {
+    const detector = new LedgeDetector(createPhysics({ x: 3, y: 1, z: 0.25 }, 1.5))
+
+    const ledge = detector.detect({ x: 0, y: 0, z: 0 }, FORWARD)
+
+    expect(ledge).not.toBeNull()
+    expect(ledge.height).toBeCloseTo(2, 5)
+    expect(ledge.point.z).toBeCloseTo(1.25, 5)
+    expect(ledge.normal.z).toBeCloseTo(-1, 5)
+    expect(ledge.landing.y).toBeCloseTo(0, 5)
+    expect(ledge.landing.z).toBeCloseTo(1.25 + CHARACTER.VAULT_MAX_DEPTH, 5)
+    expect(ledge.canStand).toBe(false)
+  })
+
+  it('reports standing room on a deep block and no vault landing', () => {
+    const detector = new LedgeDetector(createPhysics({ x: 2, y: 1.75, z: 1.5 }, 2.75))
+
+    const ledge = detector.detect({ x: 0, y: 0, z: 0 }, FORWARD)
+
+    expect(ledge.height).toBeCloseTo(3.5, 5)
+    expect(ledge.landing).toBeNull()
+    expect(ledge.canStand).toBe(true)
+  })
+
+  it('ignores walls out of reach or taller than the grab height', () => {
+    const far = new LedgeDetector(createPhysics({ x: 2, y: 1.75, z: 1.5 }, 6))
+    expect(far.detect({ x: 0, y: 0, z: 0 }, FORWARD)).toBeNull()
+
+    const tall = new LedgeDetector(createPhysics({ x: 2, y: 10, z: 1.5 }, 2.75))
+    expect(tall.detect({ x: 0, y: 0, z: 0 }, FORWARD)).toBeNull()
+  })
+})
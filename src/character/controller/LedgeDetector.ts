@@ -0,0 +1,125 @@
+import { CHARACTER } from '../../config/index.js';
+import { sweepHeadroom } from './Headroom.js';
+import type { IPhysicsWorld } from '../../physics/IPhysicsWorld.js';
+import type { Vector3Like, CharacterConfig } from '../../types/index.js';
+
+/**
+ * A ledge found in front of the character
+ */
+export interface LedgeInfo {
+  point: Vector3Like;            // On the top edge, where the probe met the wall
+  normal: Vector3Like;           // Horizontal wall normal, pointing back toward the character
+  topY: number;
+  height: number;                // Ledge top above the probing feet
+  landing: Vector3Like | null;   // Ground beyond a thin obstacle (vaultable), null when deep
+  canStand: boolean;             // Room for the standing capsule on top
+}
+
+// Minimum upward-facing normal for a ledge top
+const MIN_TOP_NORMAL_Y = 0.7;
+// Largest vertical normal component still treated as a wall
+const MAX_WALL_NORMAL_Y = 0.3;
+const EPSILON = 1e-3;
+
+/**
+ * Finds climbable ledges with a forward wall ray followed by downward rays
+ * onto the top, past the top (for vault landings) and a shapecast for
+ * standing room
+ */
+export class LedgeDetector {
+  physics: IPhysicsWorld;
+  config: CharacterConfig;
+
+  constructor(physics: IPhysicsWorld, config: CharacterConfig = CHARACTER) {
+    this.physics = physics;
+    this.config = config;
+  }
+
+  /**
+   * Probe along a horizontal direction from feet at `position`
+   */
+  detect(position: Vector3Like, direction: Vector3Like): LedgeInfo | null {
+    if (typeof this.physics.raycast !== 'function') return null;
+    const length = Math.hypot(direction.x, direction.z);
+    if (length < EPSILON) return null;
+    const dir = { x: direction.x / length, y: 0, z: direction.z / length };
+
+    const wall = this.findWall(position, dir);
+    if (!wall) return null;
+
+    // Drop onto the top just past the wall face, from above the highest grab
+    const fromY = position.y + this.config.LEDGE_GRAB_MAX_HEIGHT + 0.5;
+    const top = this.castDown(wall.point, dir, this.config.LEDGE_TOP_INSET, fromY, position.y);
+    if (!top || top.y < wall.point.y) return null;
+    const topY = top.y;
+
+    return {
+      point: { x: wall.point.x, y: topY, z: wall.point.z },
+      normal: wall.normal,
+      topY,
+      height: topY - position.y,
+      landing: this.findLanding(wall.point, dir, topY),
+      canStand: this.hasStandingRoom(wall.point, dir, topY)
+    };
+  }
+
+  /**
+   * First wall hit from the low, then the high probe height
+   */
+  findWall(position: Vector3Like, dir: Vector3Like): { point: Vector3Like; normal: Vector3Like } | null {
+    const reach = this.config.CAPSULE_RADIUS + this.config.LEDGE_PROBE_DISTANCE;
+
+    for (const probeHeight of [this.config.LEDGE_LOW_PROBE_HEIGHT, this.config.LEDGE_HIGH_PROBE_HEIGHT]) {
+      const origin = { x: position.x, y: position.y + probeHeight, z: position.z };
+      const hit = this.physics.raycast(origin, dir, reach);
+      if (!hit.hit || !hit.point || !hit.normal) continue;
+      if (Math.abs(hit.normal.y) > MAX_WALL_NORMAL_Y) continue;
+
+      const normalLength = Math.hypot(hit.normal.x, hit.normal.z);
+      if (normalLength < EPSILON) continue;
+      return {
+        point: { ...hit.point },
+        normal: { x: hit.normal.x / normalLength, y: 0, z: hit.normal.z / normalLength }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Walkable surface `inset` past the wall point, between `fromY` and `minY`
+   * Returns null when the ray starts inside geometry (wall too tall)
+   */
+  castDown(wallPoint: Vector3Like, dir: Vector3Like, inset: number, fromY: number, minY: number): Vector3Like | null {
+    const origin = { x: wallPoint.x + dir.x * inset, y: fromY, z: wallPoint.z + dir.z * inset };
+    const hit = this.physics.raycast(origin, { x: 0, y: -1, z: 0 }, fromY - minY);
+    if (!hit.hit || !hit.point || !hit.normal) return null;
+    if ((hit.distance ?? 0) < EPSILON || hit.normal.y < MIN_TOP_NORMAL_Y) return null;
+    return { ...hit.point };
+  }
+
+  /**
+   * Ground VAULT_MAX_DEPTH past the wall face that sits clearly below the top
+   */
+  findLanding(wallPoint: Vector3Like, dir: Vector3Like, topY: number): Vector3Like | null {
+    const minY = topY - this.config.LEDGE_GRAB_MAX_HEIGHT;
+    const landing = this.castDown(wallPoint, dir, this.config.VAULT_MAX_DEPTH, topY + 0.5, minY);
+    if (!landing || topY - landing.y < this.config.VAULT_CLEARANCE) return null;
+    return landing;
+  }
+
+  /**
+   * The top is deep enough for the capsule and nothing blocks a standing height
+   */
+  hasStandingRoom(wallPoint: Vector3Like, dir: Vector3Like, topY: number): boolean {
+    const radius = this.config.CAPSULE_RADIUS;
+    const inset = radius * 2 + this.config.LEDGE_WALL_GAP;
+    const stand = this.castDown(wallPoint, dir, inset, topY + 0.5, topY - this.config.STEP_OFFSET);
+    if (!stand) return false;
+
+    const center = { x: stand.x, y: stand.y + radius + this.config.SKIN_WIDTH, z: stand.z };
+    return sweepHeadroom(this.physics, center, radius, this.config.CAPSULE_HEIGHT - radius * 2);
+  }
+}
+
+export default LedgeDetector;
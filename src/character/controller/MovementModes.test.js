@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { GaitType, MovementMode, getDisplayState, isAirborne } from './MovementModes.js'
+import { GaitType, MovementMode, getDisplayState, isAirborne, isGroundedMode, isRagdollMode, isSwimmingMode, isTraversalMode } from './MovementModes.js'
 
 describe('character/controller/MovementModes', () => {
   it('identifies airborne states', () => {
@@ -8,9 +8,48 @@ describe('character/controller/MovementModes', () => {
     expect(isAirborne(MovementMode.GROUNDED)).toBe(false)
   })
 
+  it('treats ground abilities as grounded', () => {
+    expect(isGroundedMode(MovementMode.SPRINTING)).toBe(true)
+    expect(isGroundedMode(MovementMode.DODGING)).toBe(true)
+    expect(isGroundedMode(MovementMode.SLIDING)).toBe(true)
+    expect(isGroundedMode(MovementMode.FALLING)).toBe(false)
+    expect(getDisplayState(MovementMode.SLIDING, GaitType.RUNNING)).toBe('sliding')
+  })
+
   it('returns display state based on movement mode', () => {
     expect(getDisplayState(MovementMode.JUMPING, GaitType.WALKING)).toBe('jumping')
     expect(getDisplayState(MovementMode.LANDING, GaitType.RUNNING)).toBe('landing')
     expect(getDisplayState(MovementMode.GROUNDED, GaitType.WALKING)).toBe('walking')
   })
+
+  it('identifies ledge and vault traversal states', () => {
+    expect(isTraversalMode(MovementMode.LEDGE_HANG)).toBe(true)
+    expect(isTraversalMode(MovementMode.VAULTING)).toBe(true)
+    expect(isTraversalMode(MovementMode.JUMPING)).toBe(false)
+    expect(isGroundedMode(MovementMode.CLIMBING_UP)).toBe(false)
+    expect(isAirborne(MovementMode.SHIMMYING)).toBe(false)
+    expect(getDisplayState(MovementMode.SHIMMYING, GaitType.IDLE)).toBe('shimmying')
+  })
+
+  it('identifies swimming states', () => {
+    expect(isSwimmingMode(MovementMode.SWIMMING)).toBe(true)
+    expect(isSwimmingMode(MovementMode.TREADING)).toBe(true)
+    expect(isSwimmingMode(MovementMode.GROUNDED)).toBe(false)
+    expect(isGroundedMode(MovementMode.TREADING)).toBe(false)
+    expect(getDisplayState(MovementMode.TREADING, GaitType.IDLE)).toBe('treading')
+  })
+
+  it('identifies knockdown states', () => {
+    expect(isRagdollMode(MovementMode.RAGDOLL)).toBe(true)
+    expect(isRagdollMode(MovementMode.GETTING_UP)).toBe(true)
+    expect(isRagdollMode(MovementMode.LANDING)).toBe(false)
+    expect(isGroundedMode(MovementMode.GETTING_UP)).toBe(false)
+    expect(getDisplayState(MovementMode.RAGDOLL, GaitType.IDLE)).toBe('ragdoll')
+  })
+
+  it('treats staggering as grounded', () => {
+    expect(isGroundedMode(MovementMode.STAGGERING)).toBe(true)
+    expect(isRagdollMode(MovementMode.STAGGERING)).toBe(false)
+    expect(getDisplayState(MovementMode.STAGGERING, GaitType.WALKING)).toBe('staggering')
+  })
 })
@@ -5,7 +5,19 @@ export const MovementMode = {
   GROUNDED: 'grounded',
   JUMPING: 'jumping',
   FALLING: 'falling',
-  LANDING: 'landing'
+  LANDING: 'landing',
+  SPRINTING: 'sprinting',
+  DODGING: 'dodging',
+  SLIDING: 'sliding',
+  STAGGERING: 'staggering',
+  LEDGE_HANG: 'hanging',
+  SHIMMYING: 'shimmying',
+  CLIMBING_UP: 'climbing',
+  VAULTING: 'vaulting',
+  SWIMMING: 'swimming',
+  TREADING: 'treading',
+  RAGDOLL: 'ragdoll',
+  GETTING_UP: 'getting_up'
 } as const;
 
 export type MovementModeType = typeof MovementMode[keyof typeof MovementMode];
@@ -17,7 +29,8 @@ export const GaitType = {
   IDLE: 'idle',
   WALKING: 'walking',
   RUNNING: 'running',
-  TURNING: 'turning'
+  TURNING: 'turning',
+  CROUCHING: 'crouching'
 } as const;
 
 export type GaitTypeType = typeof GaitType[keyof typeof GaitType];
@@ -39,6 +52,42 @@ export function isAirborne(mode: MovementModeType): boolean {
   return mode === MovementMode.JUMPING || mode === MovementMode.FALLING;
 }
 
+/**
+ * Check if character is on the ground (including ground abilities)
+ */
+export function isGroundedMode(mode: MovementModeType): boolean {
+  return mode === MovementMode.GROUNDED ||
+    mode === MovementMode.LANDING ||
+    mode === MovementMode.SPRINTING ||
+    mode === MovementMode.DODGING ||
+    mode === MovementMode.SLIDING ||
+    mode === MovementMode.STAGGERING;
+}
+
+/**
+ * Check if character is in a scripted ledge/vault traversal
+ */
+export function isTraversalMode(mode: MovementModeType): boolean {
+  return mode === MovementMode.LEDGE_HANG ||
+    mode === MovementMode.SHIMMYING ||
+    mode === MovementMode.CLIMBING_UP ||
+    mode === MovementMode.VAULTING;
+}
+
+/**
+ * Check if character is in the water (stroking or treading at the surface)
+ */
+export function isSwimmingMode(mode: MovementModeType): boolean {
+  return mode === MovementMode.SWIMMING || mode === MovementMode.TREADING;
+}
+
+/**
+ * Check if character is knocked down (limp ragdoll or getting back up)
+ */
+export function isRagdollMode(mode: MovementModeType): boolean {
+  return mode === MovementMode.RAGDOLL || mode === MovementMode.GETTING_UP;
+}
+
 /**
  * Get display state string
  */
@@ -46,6 +95,13 @@ export function getDisplayState(movementMode: MovementModeType, gait: GaitTypeTy
   if (movementMode === MovementMode.JUMPING) return 'jumping';
   if (movementMode === MovementMode.FALLING) return 'falling';
   if (movementMode === MovementMode.LANDING) return 'landing';
+  if (movementMode === MovementMode.SPRINTING) return 'sprinting';
+  if (movementMode === MovementMode.DODGING) return 'dodging';
+  if (movementMode === MovementMode.SLIDING) return 'sliding';
+  if (movementMode === MovementMode.STAGGERING) return 'staggering';
+  if (isTraversalMode(movementMode) || isSwimmingMode(movementMode) || isRagdollMode(movementMode)) {
+    return movementMode;
+  }
   if (gait === GaitType.TURNING) return 'turning';
   return gait;
 }
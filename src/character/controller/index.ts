@@ -1,2 +1,8 @@
 export { CharacterController } from './CharacterController.js';
-export { MovementMode, GaitType, FootPhase, isAirborne, getDisplayState } from './MovementModes.js';
+export { MovementMode, GaitType, FootPhase, isAirborne, isGroundedMode, isTraversalMode, isSwimmingMode, isRagdollMode, getDisplayState } from './MovementModes.js';
+export { AbilitySystem, AbilityId } from './Abilities.js';
+export { LedgeDetector } from './LedgeDetector.js';
+export { sweepHeadroom } from './Headroom.js';
+export type { ControllerSnapshot, AbilityTelemetry, PushEvent } from './CharacterController.js';
+export type { AbilityIdType, AbilityDefinition, AbilityState, AbilitySnapshot } from './Abilities.js';
+export type { LedgeInfo } from './LedgeDetector.js';
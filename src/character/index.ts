@@ -1,9 +1,9 @@
 // Controller
-export { CharacterController, MovementMode, GaitType, FootPhase } from './controller/index.js';
+export { CharacterController, MovementMode, GaitType, FootPhase, isGroundedMode, isTraversalMode, isSwimmingMode, isRagdollMode } from './controller/index.js';
 
 // Animation
-export { TwoBoneIK, FootIKSystem, ProceduralAnimation } from './animation/index.js';
+export { TwoBoneIK, FootIKSystem, ClimbIKSystem, ProceduralAnimation, BalanceController } from './animation/index.js';
 
 // Rig
-export { StickFigureRig, SkeletonBuilder, createCharacterMaterials } from './rig/index.js';
+export { StickFigureRig, SkeletonBuilder, Ragdoll, createCharacterMaterials } from './rig/index.js';
 export { BUILT_IN_POSE_PRESETS } from './poses.js';
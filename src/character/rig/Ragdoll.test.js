@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import { Ragdoll } from './Ragdoll.js'
+import { StickFigureRig } from './StickFigureRig.js'
+import { DisposalTracker } from '../../utils/disposal.js'
+import { CHARACTER, COM } from '../../config/index.js'
+import { RapierPhysics } from '../../physics/RapierPhysics.js'
+import { SimplePhysics } from '../../physics/SimplePhysics.js'
+import { TerrainHeightmap } from '../../terrain/TerrainHeightmap.js'
+
+describe('character/rig/Ragdoll', () => {
+  it('builds a jointed body per segment from the rig pose', () => {
+    const rig = new StickFigureRig(new DisposalTracker())
+    rig.group.position.set(0, 5, 0)
+    const ragdoll = new Ragdoll(rig, new SimplePhysics(new TerrainHeightmap(10, 2)))
+
+    const { segments, joints } = ragdoll.buildDefinition({ x: 1, y: 0, z: 0 })
+    expect(Object.keys(segments)).toHaveLength(10)
+    expect(joints).toHaveLength(9)
+
+    const totalMass = Object.values(segments).reduce((sum, segment) => sum + segment.mass, 0)
+    const massShare = Object.values(COM.SEGMENT_MASSES).reduce((sum, share) => sum + share, 0)
+    expect(totalMass).toBeCloseTo(massShare * CHARACTER.MASS, 5)
+    expect(segments.torso.position.y).toBeCloseTo(5 + CHARACTER.HIP_HEIGHT, 5)
+    expect(segments.leftLowerLeg.linearVelocity.x).toBe(1)
+
+    const knee = joints.find((joint) => joint.child === 'leftLowerLeg')
+    expect(knee.type).toBe('revolute')
+    expect(knee.parentAnchor.y).toBeCloseTo(-rig.upperLegLength, 5)
+
+    // Every ball joint is limited in swing and twist
+    const ballJoints = joints.filter((joint) => joint.type === 'spherical')
+    expect(ballJoints.map((joint) => joint.child).sort()).toEqual(
+      ['head', 'leftUpperArm', 'leftUpperLeg', 'rightUpperArm', 'rightUpperLeg']
+    )
+    for (const joint of ballJoints) {
+      expect(joint.swingLimit).toBeGreaterThan(0)
+      expect(joint.twistLimit).toBeGreaterThan(0)
+    }
+  })
+
+  it('does not activate without physics ragdoll support', () => {
+    const rig = new StickFigureRig(new DisposalTracker())
+    const ragdoll = new Ragdoll(rig, new SimplePhysics(new TerrainHeightmap(10, 2)))
+
+    expect(ragdoll.activate({ x: 0, y: 0, z: 0 })).toBe(false)
+    expect(ragdoll.getRootPosition()).toBeNull()
+    expect(ragdoll.isSettled()).toBe(true)
+  })
+
+  it('collapses under physics, poses the rig and blends back to animation', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(40, 4))
+    try {
+      const rig = new StickFigureRig(new DisposalTracker())
+      const ragdoll = new Ragdoll(rig, physics)
+
+      expect(ragdoll.activate({ x: 0, y: 0, z: 0 })).toBe(true)
+      for (let i = 0; i < 180; i++) physics.update(1 / 60)
+
+      const root = ragdoll.getRootPosition()
+      expect(root.y).toBeLessThan(CHARACTER.HIP_HEIGHT - 1)
+
+      ragdoll.applyToRig()
+      rig.group.updateMatrixWorld(true)
+      const rootWorld = rig.pivots.root.getWorldPosition(new THREE.Vector3())
+      expect(rootWorld.y).toBeCloseTo(root.y, 5)
+
+      ragdoll.deactivate()
+      expect(physics.getRagdollState('character')).toBeNull()
+      expect(rig.pivots.root.position.y).toBe(rig.hipHeight)
+
+      // Full weight holds the captured pose; clearing restores the animation
+      ragdoll.blendToAnimation(1)
+      rig.group.updateMatrixWorld(true)
+      expect(rig.pivots.root.getWorldPosition(new THREE.Vector3()).y).toBeCloseTo(root.y, 5)
+      ragdoll.clearBlend()
+      expect(rig.pivots.root.position.y).toBe(rig.hipHeight)
+    } finally {
+      physics.dispose()
+    }
+  })
+})
@@ -0,0 +1,321 @@
+import * as THREE from 'three';
+import { CHARACTER, COM } from '../../config/index.js';
+import type {
+  IPhysicsWorld,
+  RagdollDefinition,
+  RagdollJointDefinition,
+  RagdollSegmentDefinition,
+  RagdollSegmentState
+} from '../../physics/IPhysicsWorld.js';
+import type { QuaternionLike, RagdollSource, SegmentMasses, Vector3Like } from '../../types/index.js';
+import type { StickFigureRig } from './StickFigureRig.js';
+
+type PivotName = keyof StickFigureRig['pivots'];
+
+interface SphericalLimits {
+  swing: number;
+  twist: number;
+}
+
+/**
+ * One simulated body: its frame is a rig pivot's world transform and it is
+ * jointed to `parent` at that pivot
+ */
+interface SegmentLayout {
+  name: string;
+  pivot: PivotName;
+  parent: string | null;
+  masses: (keyof SegmentMasses)[];  // COM.SEGMENT_MASSES shares folded into the body
+  shape: 'capsule' | 'sphere';
+  radius: number;
+  length: number;                   // Collider extent along body Y (negative hangs down)
+  joint?: RagdollJointDefinition['type'];
+  limits?: [number, number];
+  ballLimits?: SphericalLimits;
+}
+
+
+const TORSO_RADIUS = 0.3;
+// Hinge limits in the rig's rotation.x convention (elbows bend forward,
+// knees back)
+const ELBOW_LIMITS: [number, number] = [-2.5, 0];
+const KNEE_LIMITS: [number, number] = [0, 2.5];
+// Ball joint limits about the rest pose (swing about X/Z, twist about the
+// segment's own axis)
+const NECK_LIMITS: SphericalLimits = { swing: 0.7, twist: 1.0 };
+const SHOULDER_LIMITS: SphericalLimits = { swing: 2.0, twist: 1.2 };
+const HIP_LIMITS: SphericalLimits = { swing: 1.6, twist: 0.6 };
+
+// Pivots between segments; reset to rest while simulated so each body's
+// rotation lands on its own pivot
+const PASSIVE_PIVOTS: PivotName[] = [
+  'spine',
+  'leftShoulder', 'rightShoulder',
+  'leftElbow', 'rightElbow',
+  'leftHip', 'rightHip',
+  'leftKnee', 'rightKnee'
+];
+
+/**
+ * Physics ragdoll for the stick figure: a rigid body per segment (masses
+ * from COM.SEGMENT_MASSES) jointed at the rig's pivots: swing- and
+ * twist-limited ball joints at the neck, shoulders and hips and limited
+ * hinges at the elbows and knees.
+ * While active the bodies pose the rig; on deactivation the final pose is
+ * kept so animation can blend back from it.
+ */
+export class Ragdoll implements RagdollSource {
+  rig: StickFigureRig;
+  physics: IPhysicsWorld;
+  key: string;
+  active: boolean;
+  layout: SegmentLayout[];
+
+  // Pose when physics let go (root in world space, other pivots local)
+  capturedRoot: { position: THREE.Vector3; quaternion: THREE.Quaternion } | null;
+  capturedPivots: Map<PivotName, THREE.Quaternion>;
+
+  // Animated pose overwritten by the last blend (restored by clearBlend)
+  animatedPivots: Map<PivotName, THREE.Quaternion>;
+  animatedRootPosition: THREE.Vector3 | null;
+
+  constructor(rig: StickFigureRig, physics: IPhysicsWorld, key: string = 'character') {
+    this.rig = rig;
+    this.physics = physics;
+    this.key = key;
+    this.active = false;
+    this.layout = Ragdoll.createLayout(rig);
+
+    this.capturedRoot = null;
+    this.capturedPivots = new Map();
+
+    this.animatedPivots = new Map();
+    this.animatedRootPosition = null;
+  }
+
+  static createLayout(rig: StickFigureRig): SegmentLayout[] {
+    const { SKELETON } = CHARACTER;
+    const layout: SegmentLayout[] = [
+      { name: 'torso', pivot: 'spine', parent: null, masses: ['torso'], shape: 'capsule', radius: TORSO_RADIUS, length: SKELETON.TORSO_LENGTH },
+      { name: 'head', pivot: 'neck', parent: 'torso', masses: ['head'], shape: 'sphere', radius: SKELETON.HEAD_RADIUS, length: 0.6, joint: 'spherical', ballLimits: NECK_LIMITS }
+    ];
+
+    for (const side of ['left', 'right'] as const) {
+      layout.push(
+        {
+          name: `${side}UpperArm`, pivot: `${side}UpperArm`, parent: 'torso', masses: [`${side}UpperArm`],
+          shape: 'capsule', radius: SKELETON.LIMB_RADIUS, length: -SKELETON.UPPER_ARM_LENGTH, joint: 'spherical', ballLimits: SHOULDER_LIMITS
+        },
+        {
+          name: `${side}LowerArm`, pivot: `${side}LowerArm`, parent: `${side}UpperArm`, masses: [`${side}LowerArm`, `${side}Hand`],
+          shape: 'capsule', radius: SKELETON.LIMB_RADIUS, length: -SKELETON.LOWER_ARM_LENGTH, joint: 'revolute', limits: ELBOW_LIMITS
+        },
+        {
+          name: `${side}UpperLeg`, pivot: `${side}UpperLeg`, parent: 'torso', masses: [`${side}UpperLeg`],
+          shape: 'capsule', radius: SKELETON.LIMB_RADIUS, length: -rig.upperLegLength, joint: 'spherical', ballLimits: HIP_LIMITS
+        },
+        {
+          name: `${side}LowerLeg`, pivot: `${side}LowerLeg`, parent: `${side}UpperLeg`, masses: [`${side}LowerLeg`, `${side}Foot`],
+          shape: 'capsule', radius: SKELETON.LIMB_RADIUS, length: -rig.lowerLegLength, joint: 'revolute', limits: KNEE_LIMITS
+        }
+      );
+    }
+
+    return layout;
+  }
+
+  /**
+   * Hand the rig to physics from its current pose, every segment moving at
+   * `velocity`; false when the physics world has no ragdoll support
+   */
+  activate(velocity: Vector3Like): boolean {
+    if (typeof this.physics.supportsRagdolls !== 'function' || !this.physics.supportsRagdolls()) {
+      return false;
+    }
+
+    this.clearBlend();
+    this.physics.addRagdoll(this.key, this.buildDefinition(velocity));
+    this.active = true;
+    this.capturedRoot = null;
+    this.capturedPivots.clear();
+    return true;
+  }
+
+  /**
+   * Remove the bodies and return the rig to rest for animation, keeping the
+   * final pose for blendToAnimation
+   */
+  deactivate(): void {
+    if (!this.active) return;
+    this.capturePose();
+    this.rig.resetPose();
+    this.physics.removeRagdoll(this.key);
+    this.active = false;
+  }
+
+  /**
+   * Segments and joints matching the rig's current world pose
+   */
+  buildDefinition(velocity: Vector3Like): RagdollDefinition {
+    this.rig.group.updateMatrixWorld(true);
+    const segments: Record<string, RagdollSegmentDefinition> = {};
+    const joints: RagdollJointDefinition[] = [];
+    const frames = new Map<string, THREE.Matrix4>();
+
+    for (const part of this.layout) {
+      const frame = this.rig.pivots[part.pivot].matrixWorld;
+      const position = new THREE.Vector3();
+      const rotation = new THREE.Quaternion();
+      frame.decompose(position, rotation, new THREE.Vector3());
+      frames.set(part.name, frame.clone());
+
+      const capsule = part.shape === 'capsule';
+      const mass = part.masses.reduce((sum, key) => sum + COM.SEGMENT_MASSES[key], 0) * CHARACTER.MASS;
+      segments[part.name] = {
+        shape: part.shape,
+        position: { x: position.x, y: position.y, z: position.z },
+        rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+        colliderOffset: { x: 0, y: capsule ? part.length / 2 : part.length, z: 0 },
+        radius: part.radius,
+        halfHeight: capsule ? Math.max(0, Math.abs(part.length) / 2 - part.radius) : undefined,
+        mass,
+        linearVelocity: { ...velocity }
+      };
+
+      const parentFrame = part.parent ? frames.get(part.parent) : null;
+      if (part.parent && part.joint && parentFrame) {
+        const anchor = position.clone().applyMatrix4(parentFrame.clone().invert());
+        joints.push({
+          type: part.joint,
+          parent: part.parent,
+          child: part.name,
+          parentAnchor: { x: anchor.x, y: anchor.y, z: anchor.z },
+          childAnchor: { x: 0, y: 0, z: 0 },
+          axis: part.joint === 'revolute' ? { x: 1, y: 0, z: 0 } : undefined,
+          limits: part.limits,
+          swingLimit: part.ballLimits?.swing,
+          twistLimit: part.ballLimits?.twist
+        });
+      }
+    }
+
+    return { segments, joints };
+  }
+
+  getState(): Record<string, RagdollSegmentState> | null {
+    return this.active ? this.physics.getRagdollState(this.key) : null;
+  }
+
+  getRootPosition(): Vector3Like | null {
+    const torso = this.getState()?.torso;
+    return torso ? { ...torso.position } : null;
+  }
+
+  getRootVelocity(): Vector3Like | null {
+    const torso = this.getState()?.torso;
+    return torso ? { ...torso.linearVelocity } : null;
+  }
+
+  /**
+   * Every segment asleep or slower than RAGDOLL_SETTLE_SPEED
+   */
+  isSettled(): boolean {
+    const state = this.getState();
+    if (!state) return true;
+    return Object.values(state).every(({ sleeping, linearVelocity: v }) =>
+      sleeping || Math.hypot(v.x, v.y, v.z) < CHARACTER.RAGDOLL_SETTLE_SPEED
+    );
+  }
+
+  /**
+   * Pose the rig from the simulated bodies (call after the group follows
+   * the controller)
+   */
+  applyToRig(): void {
+    const state = this.getState();
+    const torso = state?.torso;
+    if (!state || !torso) return;
+
+    const { group, pivots } = this.rig;
+    group.updateMatrixWorld(true);
+    for (const name of PASSIVE_PIVOTS) {
+      pivots[name].quaternion.identity();
+    }
+
+    // The torso body is the spine frame, which sits on the root pivot
+    const groupQuaternion = group.getWorldQuaternion(new THREE.Quaternion());
+    pivots.root.position.copy(group.worldToLocal(new THREE.Vector3(torso.position.x, torso.position.y, torso.position.z)));
+    pivots.root.quaternion.copy(groupQuaternion.invert().multiply(toQuaternion(torso.rotation)));
+
+    for (const part of this.layout) {
+      const segment = state[part.name];
+      const pivot = pivots[part.pivot];
+      if (!part.parent || !segment || !pivot.parent) continue;
+      const parentQuaternion = pivot.parent.getWorldQuaternion(new THREE.Quaternion());
+      pivot.quaternion.copy(parentQuaternion.invert().multiply(toQuaternion(segment.rotation)));
+    }
+  }
+
+  /**
+   * Pull the animated rig toward the pose captured on deactivation
+   * `weight` 1 holds the ragdoll pose, 0 leaves the animation untouched.
+   * Call clearBlend before the next animation update so animation doesn't
+   * build on the blended pose.
+   */
+  blendToAnimation(weight: number): void {
+    const captured = this.capturedRoot;
+    this.clearBlend();
+    if (!captured || weight <= 0) return;
+
+    const t = Math.min(1, weight);
+    const { group, pivots } = this.rig;
+    group.updateMatrixWorld(true);
+
+    this.animatedRootPosition = pivots.root.position.clone();
+    for (const name of Object.keys(pivots) as PivotName[]) {
+      this.animatedPivots.set(name, pivots[name].quaternion.clone());
+    }
+
+    const groupQuaternion = group.getWorldQuaternion(new THREE.Quaternion());
+    pivots.root.position.lerp(group.worldToLocal(captured.position.clone()), t);
+    pivots.root.quaternion.slerp(groupQuaternion.invert().multiply(captured.quaternion), t);
+    for (const [name, quaternion] of this.capturedPivots) {
+      pivots[name].quaternion.slerp(quaternion, t);
+    }
+  }
+
+  /**
+   * Put back the animated pose the last blendToAnimation overwrote
+   */
+  clearBlend(): void {
+    const { pivots } = this.rig;
+    if (this.animatedRootPosition) {
+      pivots.root.position.copy(this.animatedRootPosition);
+      this.animatedRootPosition = null;
+    }
+    for (const [name, quaternion] of this.animatedPivots) {
+      pivots[name].quaternion.copy(quaternion);
+    }
+    this.animatedPivots.clear();
+  }
+
+  capturePose(): void {
+    const { pivots } = this.rig;
+    this.capturedRoot = {
+      position: pivots.root.getWorldPosition(new THREE.Vector3()),
+      quaternion: pivots.root.getWorldQuaternion(new THREE.Quaternion())
+    };
+    this.capturedPivots.clear();
+    for (const name of Object.keys(pivots) as PivotName[]) {
+      if (name !== 'root') {
+        this.capturedPivots.set(name, pivots[name].quaternion.clone());
+      }
+    }
+  }
+}
+
+function toQuaternion(rotation: QuaternionLike): THREE.Quaternion {
+  return new THREE.Quaternion(rotation.x, rotation.y, rotation.z, rotation.w);
+}
+
+export default Ragdoll;
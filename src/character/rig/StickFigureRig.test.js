@@ -62,4 +62,35 @@ describe('character/rig/StickFigureRig', () => {
     expect(hip.x).toBeLessThan(0)
     expect(hip.y).toBeCloseTo(rig.hipHeight, 5)
   })
+
+  it('interpolates between previous and current controller state', () => {
+    const rig = new StickFigureRig(new DisposalTracker())
+    const previous = { position: { x: 0, y: 0, z: 0 }, facing: 3 }
+
+    rig.syncToController({ x: 2, y: 1, z: -4 }, -3, previous, 0.5)
+
+    expect(rig.group.position.x).toBeCloseTo(1, 5)
+    expect(rig.group.position.y).toBeCloseTo(0.5, 5)
+    expect(rig.group.position.z).toBeCloseTo(-2, 5)
+    // Facing takes the short way around the wrap
+    expect(Math.abs(rig.group.rotation.y)).toBeGreaterThan(3)
+
+    rig.syncToController({ x: 2, y: 1, z: -4 }, -3)
+    expect(rig.group.position.x).toBeCloseTo(2, 5)
+    expect(rig.group.rotation.y).toBeCloseTo(-3, 5)
+  })
+
+  it('keeps the feet on the ground while rising from a crouch to get up', () => {
+    const rig = new StickFigureRig(new DisposalTracker())
+
+    rig.applyGetUpPose(0, 1)
+    rig.group.updateMatrixWorld(true)
+    expect(rig.pivots.leftLowerLeg.rotation.x).toBeGreaterThan(1)
+    expect(rig.getFootWorldPosition('left').y).toBeCloseTo(0, 5)
+
+    rig.applyGetUpPose(1, 1)
+    rig.group.updateMatrixWorld(true)
+    expect(rig.pivots.leftLowerLeg.rotation.x).toBeCloseTo(0, 5)
+    expect(rig.pivots.root.position.y).toBeCloseTo(rig.hipHeight, 5)
+  })
 })
@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import { CHARACTER, ANIMATION } from '../../config/index.js';
-import { lerp } from '../../utils/index.js';
+import { lerp, wrapAngle } from '../../utils/index.js';
 import { MovementMode, type MovementModeType, type FootPhaseType } from '../controller/MovementModes.js';
 import { createCharacterMaterials, type CharacterMaterials } from './materials.js';
 import { SkeletonBuilder } from './SkeletonBuilder.js';
@@ -70,6 +70,8 @@ export class StickFigureRig {
   hipWidth: number;
   upperLegLength: number;
   lowerLegLength: number;
+  shoulderHeight: number;  // Above the hip pivot, along the spine
+  shoulderWidth: number;
 
   // Root group
   group: THREE.Group;
@@ -92,6 +94,8 @@ export class StickFigureRig {
     this.hipWidth = CHARACTER.HIP_WIDTH;
     this.upperLegLength = ANIMATION.UPPER_LEG_LENGTH;
     this.lowerLegLength = ANIMATION.LOWER_LEG_LENGTH;
+    this.shoulderHeight = 2.3;
+    this.shoulderWidth = 1.2;
 
     // Root group
     this.group = new THREE.Group();
@@ -144,8 +148,8 @@ export class StickFigureRig {
     root.add(this.bones.hip);
 
     // Build arms
-    this.buildArm('left', spine, -0.6);
-    this.buildArm('right', spine, 0.6);
+    this.buildArm('left', spine, -this.shoulderWidth / 2);
+    this.buildArm('right', spine, this.shoulderWidth / 2);
 
     // Build legs
     this.buildLeg('left', root, -this.hipWidth / 2);
@@ -157,7 +161,7 @@ export class StickFigureRig {
 
     // Shoulder
     const shoulder = b.createPivot(`${side}Shoulder`);
-    shoulder.position.set(xOffset, 2.3, 0);
+    shoulder.position.set(xOffset, this.shoulderHeight, 0);
     parent.add(shoulder);
 
     const shoulderJoint = b.createJoint(0.2);
@@ -291,11 +295,28 @@ export class StickFigureRig {
   }
 
   /**
-   * Sync rig position to controller
+   * Sync rig position to controller, optionally blending from the previous
+   * simulation step by the engine's interpolation alpha
    */
-  syncToController(position: Vector3Like, facing: number): void {
-    this.group.position.set(position.x, position.y, position.z);
-    this.group.rotation.y = facing;
+  syncToController(
+    position: Vector3Like,
+    facing: number,
+    previous: { position: Vector3Like; facing: number } | null = null,
+    alpha: number = 1
+  ): void {
+    if (!previous || alpha >= 1) {
+      this.group.position.set(position.x, position.y, position.z);
+      this.group.rotation.y = facing;
+      return;
+    }
+
+    const t = Math.max(0, alpha);
+    this.group.position.set(
+      lerp(previous.position.x, position.x, t),
+      lerp(previous.position.y, position.y, t),
+      lerp(previous.position.z, position.z, t)
+    );
+    this.group.rotation.y = previous.facing + wrapAngle(facing - previous.facing) * t;
   }
 
   /**
@@ -309,6 +330,19 @@ export class StickFigureRig {
     lowerPivot.rotation.x = lerp(lowerPivot.rotation.x, ik.lowerAngle, blendSpeed);
   }
 
+  /**
+   * Apply arm IK results (solved in character space, so the spine lean the
+   * shoulders inherit is taken back out)
+   */
+  applyArmIK(side: 'left' | 'right', ik: IKSolution, blendSpeed: number): void {
+    const upperPivot = side === 'left' ? this.pivots.leftUpperArm : this.pivots.rightUpperArm;
+    const lowerPivot = side === 'left' ? this.pivots.leftLowerArm : this.pivots.rightLowerArm;
+    const upperAngle = ik.upperAngle - this.pivots.spine.rotation.x;
+
+    upperPivot.rotation.x = lerp(upperPivot.rotation.x, upperAngle, blendSpeed);
+    lowerPivot.rotation.x = lerp(lowerPivot.rotation.x, ik.lowerAngle, blendSpeed);
+  }
+
   /**
    * Apply upper body animation
    */
@@ -359,6 +393,49 @@ export class StickFigureRig {
     this.pivots.rightLowerLeg.rotation.x = lerp(this.pivots.rightLowerLeg.rotation.x, lowerAngle, blendSpeed);
   }
 
+  /**
+   * Legs in the water: a flutter kick trailing behind the body while
+   * stroking, a slow bent-knee kick while treading
+   */
+  applySwimPose(stroking: boolean, time: number, blendSpeed: number): void {
+    let baseAngle: number, kick: number, lowerAngle: number;
+
+    if (stroking) {
+      baseAngle = ANIMATION.TORSO_LEAN_SWIM * 0.8;
+      kick = Math.sin(time * ANIMATION.SWIM_KICK_SPEED) * ANIMATION.SWIM_KICK_AMOUNT;
+      lowerAngle = 0.2;
+    } else {
+      baseAngle = -0.2;
+      kick = Math.sin(time * ANIMATION.SWIM_KICK_SPEED * 0.5) * ANIMATION.SWIM_KICK_AMOUNT * 0.5;
+      lowerAngle = 0.8;
+    }
+
+    this.pivots.leftUpperLeg.rotation.x = lerp(this.pivots.leftUpperLeg.rotation.x, baseAngle + kick, blendSpeed);
+    this.pivots.rightUpperLeg.rotation.x = lerp(this.pivots.rightUpperLeg.rotation.x, baseAngle - kick, blendSpeed);
+    this.pivots.leftLowerLeg.rotation.x = lerp(this.pivots.leftLowerLeg.rotation.x, lowerAngle, blendSpeed);
+    this.pivots.rightLowerLeg.rotation.x = lerp(this.pivots.rightLowerLeg.rotation.x, lowerAngle, blendSpeed);
+  }
+
+  /**
+   * Rise out of a deep crouch as `progress` goes 0-1, lowering the pelvis
+   * so the feet stay on the ground
+   */
+  applyGetUpPose(progress: number, blendSpeed: number): void {
+    const crouch = 1 - Math.min(Math.max(progress, 0), 1);
+    const upperAngle = -1.2 * crouch;
+    const lowerAngle = 2.0 * crouch;
+
+    this.pivots.leftUpperLeg.rotation.x = lerp(this.pivots.leftUpperLeg.rotation.x, upperAngle, blendSpeed);
+    this.pivots.rightUpperLeg.rotation.x = lerp(this.pivots.rightUpperLeg.rotation.x, upperAngle, blendSpeed);
+    this.pivots.leftLowerLeg.rotation.x = lerp(this.pivots.leftLowerLeg.rotation.x, lowerAngle, blendSpeed);
+    this.pivots.rightLowerLeg.rotation.x = lerp(this.pivots.rightLowerLeg.rotation.x, lowerAngle, blendSpeed);
+
+    const upper = this.pivots.leftUpperLeg.rotation.x;
+    const lower = this.pivots.leftLowerLeg.rotation.x;
+    const legHeight = this.upperLegLength * Math.cos(upper) + this.lowerLegLength * Math.cos(upper + lower);
+    this.applyPelvisOffset(legHeight - this.hipHeight);
+  }
+
   /**
    * Update debug markers
    */
@@ -424,6 +501,23 @@ export class StickFigureRig {
     };
   }
 
+  /**
+   * Get shoulder world position for arm IK (follows the current torso lean)
+   */
+  getShoulderWorldPosition(side: 'left' | 'right', charPos: Vector3Like, facing: number, pelvisOffset: number): Vector3Like {
+    const offset = side === 'left' ? -this.shoulderWidth / 2 : this.shoulderWidth / 2;
+    const lean = this.pivots.spine.rotation.x;
+    const forward = Math.sin(lean) * this.shoulderHeight;
+    const cos = Math.cos(facing);
+    const sin = Math.sin(facing);
+
+    return {
+      x: charPos.x + offset * cos + forward * sin,
+      y: charPos.y + this.hipHeight + pelvisOffset + Math.cos(lean) * this.shoulderHeight,
+      z: charPos.z + offset * -sin + forward * cos
+    };
+  }
+
   /**
    * Get world positions of all bones for CoM calculation
    * Returns a Map of bone names to their world positions
@@ -490,6 +584,16 @@ export class StickFigureRig {
     }
   }
 
+  /**
+   * Return every pivot to its rest rotation and the root to hip height
+   */
+  resetPose(): void {
+    for (const pivot of Object.values(this.pivots)) {
+      pivot.quaternion.identity();
+    }
+    this.pivots.root.position.set(0, this.hipHeight, 0);
+  }
+
   /**
    * Capture current joint rotations for pose saving
    */
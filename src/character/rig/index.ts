@@ -1,3 +1,4 @@
 export { createCharacterMaterials } from './materials.js';
 export { SkeletonBuilder } from './SkeletonBuilder.js';
 export { StickFigureRig } from './StickFigureRig.js';
+export { Ragdoll } from './Ragdoll.js';
@@ -2,39 +2,92 @@ import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
 
 // Core
-import { Engine, SceneManager, InputManager } from '../core/index.js';
+import {
+  Engine,
+  SceneManager,
+  InputManager,
+  InputRecorder,
+  InputReplayer,
+  InputBindings,
+  ACTION_LABELS,
+  saveInputRecording
+} from '../core/index.js';
 
 // Terrain
-import { TerrainHeightmap, TerrainMesh } from '../terrain/index.js';
+import {
+  TerrainHeightmap,
+  TerrainMesh,
+  TerrainChunkManager,
+  TerrainSculptor,
+  importHeightmap,
+  exportHeightmap,
+  parseHeightmapMetadata
+} from '../terrain/index.js';
 
 // Physics
-import { RapierPhysics, SimplePhysics, CenterOfMassSystem, SupportPolygonCalculator } from '../physics/index.js';
+import {
+  RapierPhysics,
+  SimplePhysics,
+  CenterOfMassSystem,
+  SupportPolygonCalculator,
+  attachPhysicsEventLogging
+} from '../physics/index.js';
 
 // Character
 import {
   CharacterController,
   FootIKSystem,
+  ClimbIKSystem,
   ProceduralAnimation,
+  BalanceController,
   StickFigureRig,
+  Ragdoll,
   MovementMode,
+  isGroundedMode,
+  isTraversalMode,
+  isSwimmingMode,
   BUILT_IN_POSE_PRESETS
 } from '../character/index.js';
 
+// World
+import {
+  WorldObjectManager,
+  DynamicBodyManager,
+  WaterVolumes,
+  buildTestCourse,
+  buildTestPool,
+  createDynamicBody,
+  DYNAMIC_BODY_TYPES
+} from '../world/index.js';
+
 // Camera
 import { FollowCamera } from '../camera/index.js';
 
 // Config
-import { CHARACTER, ANIMATION, DEBUG, CAMERA, RENDER } from '../config/index.js';
+import {
+  CHARACTER,
+  ANIMATION,
+  DEBUG,
+  CAMERA,
+  RENDER,
+  ENGINE,
+  INPUT,
+  TERRAIN,
+  TERRAIN_MATERIALS,
+  WORLD
+} from '../config/index.js';
 
 // Debug Visualizers
 import {
   CoMVisualizer,
+  CapturePointVisualizer,
   SupportPolygonVisualizer,
   TrajectoryTrail,
-  VelocityArrow
+  VelocityArrow,
+  PhysicsDebugRenderer
 } from '../debug/index.js';
 
-import { captureScreenshot, debugLogger } from '../utils/index.js';
+import { captureScreenshot, debugLogger, lerp, wrapAngle } from '../utils/index.js';
 import { TelemetryPanel } from './TelemetryPanel.jsx';
 import { DebugOverlay } from './DebugOverlay.jsx';
 import { QuickActions } from './QuickActions.jsx';
@@ -83,6 +136,11 @@ export function Canvas3D() {
     directionDot: 0
   }));
   const [comTelemetry, setComTelemetry] = useState(null);
+  const [terrainTelemetry, setTerrainTelemetry] = useState(null);
+  const [physicsTelemetry, setPhysicsTelemetry] = useState(null);
+  const [spawnAvailable, setSpawnAvailable] = useState(false);
+  const spawnTypeIndexRef = useRef(0);
+  const pendingSpawnRef = useRef(null);
   const [poseJointNames, setPoseJointNames] = useState([]);
   const [poseJoint, setPoseJoint] = useState('');
   const [poseTelemetry, setPoseTelemetry] = useState(null);
@@ -106,6 +164,18 @@ export function Canvas3D() {
   const rayTraceEnabledRef = useRef(rayTraceEnabled);
   const rayTraceCanvasRef = useRef(null);
 
+  const [sculptSettings, setSculptSettings] = useState(() => ({
+    enabled: false,
+    brush: 'raise',
+    radius: TERRAIN.SCULPT_RADIUS,
+    strength: TERRAIN.SCULPT_STRENGTH,
+    material: 'mud'
+  }));
+  const sculptSettingsRef = useRef(sculptSettings);
+  const [pushToolEnabled, setPushToolEnabled] = useState(false);
+  const pushToolRef = useRef(pushToolEnabled);
+  const [sculptHistory, setSculptHistory] = useState({ canUndo: false, canRedo: false });
+
   const [customPresets, setCustomPresets] = useState([]);
   const [poseLock, setPoseLock] = useState(false);
   const poseLockRef = useRef(poseLock);
@@ -117,7 +187,9 @@ export function Canvas3D() {
     showPlumbLine: DEBUG.SHOW_PLUMB_LINE,
     showVelocityArrow: DEBUG.SHOW_VELOCITY_ARROW,
     showSupportPolygon: DEBUG.SHOW_SUPPORT_POLYGON,
-    showComTrail: DEBUG.SHOW_COM_TRAIL
+    showComTrail: DEBUG.SHOW_COM_TRAIL,
+    showPhysicsDebug: DEBUG.SHOW_PHYSICS_DEBUG,
+    showCapturePoint: DEBUG.SHOW_CAPTURE_POINT
   }));
   const debugRef = useRef(debugFlags);
 
@@ -127,6 +199,33 @@ export function Canvas3D() {
   const cameraYawLockRef = useRef(0);
   const wasCameraInteractingRef = useRef(false);
 
+  const inputRecorderRef = useRef(null);
+  const inputReplayerRef = useRef(null);
+  const lastRecordingRef = useRef(null);
+  const [replayStatus, setReplayStatus] = useState(() => ({
+    recording: false,
+    replaying: false,
+    frames: 0,
+    hasRecording: false
+  }));
+
+  const [inputBindings] = useState(() => {
+    const bindings = new InputBindings();
+    bindings.load();
+    return bindings;
+  });
+  const inputBindingsRef = useRef(inputBindings);
+  const [bindingState, setBindingState] = useState(() => ({
+    bindings: { ...inputBindings.bindings },
+    conflicts: inputBindings.findConflicts()
+  }));
+
+  useEffect(() => {
+    return inputBindings.subscribe((bindings, conflicts) => {
+      setBindingState({ bindings: { ...bindings }, conflicts });
+    });
+  }, [inputBindings]);
+
   const updateDebugFlags = (updater) => {
     setDebugFlags((prev) => {
       const next = typeof updater === 'function' ? updater(prev) : updater;
@@ -209,18 +308,16 @@ export function Canvas3D() {
   };
 
   const handleResetPosition = () => {
-    const { controller, comSystem, heightmap, physics } = systemsRef.current;
+    const { controller, comSystem, balance, terrain, chunkManager, physics } = systemsRef.current;
     if (!controller) return;
-    controller.position.x = 0;
-    controller.position.z = 0;
+    chunkManager?.loadAround(0, 0);
     const ground = physics?.probeGround(0, 0);
-    const groundHeight = ground?.height ?? heightmap?.getHeight(0, 0) ?? 0;
-    controller.position.y = groundHeight;
-    controller.groundHeight = groundHeight;
-    controller.isGrounded = true;
+    const groundHeight = ground?.height ?? terrain?.getHeight(0, 0) ?? 0;
+    controller.teleport({ x: 0, y: groundHeight, z: 0 });
     if (comSystem) {
       comSystem.reset();
     }
+    balance?.reset();
     debugLogger.log('ui', 'info', 'Reset character location');
   };
 
@@ -232,6 +329,34 @@ export function Canvas3D() {
     }
   };
 
+  const handleSpawnBody = () => {
+    const { dynamicBodies, followCamera, physics, heightmap, pointerState } = systemsRef.current;
+    if (!dynamicBodies?.isSupported() || !followCamera || !pointerState) return;
+
+    const ray = followCamera.screenPointToRay(pointerState.ndcX, pointerState.ndcY);
+    const hit = physics.raycast(ray.origin, ray.direction, CAMERA.FAR);
+    const point = hit.hit ? hit.point : heightmap?.raycast(ray.origin, ray.direction, CAMERA.FAR);
+    if (!point) return;
+
+    // Spawned at the start of the next tick so the recorder sees it
+    const type = DYNAMIC_BODY_TYPES[spawnTypeIndexRef.current % DYNAMIC_BODY_TYPES.length];
+    spawnTypeIndexRef.current++;
+    pendingSpawnRef.current = {
+      type,
+      x: point.x,
+      y: point.y + WORLD.DYNAMIC_SPAWN_HEIGHT,
+      z: point.z
+    };
+  };
+
+  const handleTogglePushTool = () => {
+    setPushToolEnabled((prev) => {
+      const next = !prev;
+      debugLogger.log('ui', 'info', `Push tool ${next ? 'enabled' : 'disabled'}`);
+      return next;
+    });
+  };
+
   const handleResetCameraSettings = () => {
     setCameraSettings(CAMERA_SETTINGS_DEFAULTS);
     debugLogger.log('ui', 'info', 'Reset camera settings');
@@ -269,6 +394,158 @@ export function Canvas3D() {
     });
   };
 
+  const handleToggleRecording = () => {
+    const { controller } = systemsRef.current;
+    const recorder = inputRecorderRef.current;
+    if (!controller || !recorder || inputReplayerRef.current) return;
+
+    if (recorder.isRecording) {
+      const recording = recorder.stop();
+      lastRecordingRef.current = recording;
+      setReplayStatus({
+        recording: false,
+        replaying: false,
+        frames: recording?.frames.length ?? 0,
+        hasRecording: Boolean(recording)
+      });
+      debugLogger.log('input', 'info', 'Input recording stopped', { frames: recording?.frames.length ?? 0 });
+    } else {
+      recorder.start(controller);
+      setReplayStatus((prev) => ({ ...prev, recording: true, frames: 0 }));
+      debugLogger.log('input', 'info', 'Input recording started');
+    }
+  };
+
+  const handleSaveRecording = () => {
+    if (!lastRecordingRef.current) return;
+    saveInputRecording(lastRecordingRef.current);
+    debugLogger.log('input', 'info', 'Input recording saved');
+  };
+
+  const handleLoadRecording = (contents) => {
+    try {
+      const replayer = InputReplayer.fromJSON(contents);
+      lastRecordingRef.current = replayer.recording;
+      setReplayStatus((prev) => ({
+        ...prev,
+        frames: replayer.recording.frames.length,
+        hasRecording: true
+      }));
+      debugLogger.log('input', 'info', 'Input recording loaded', { frames: replayer.recording.frames.length });
+    } catch (error) {
+      debugLogger.log('input', 'error', 'Failed to load input recording', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const handleToggleReplay = () => {
+    const { controller, comSystem, balance } = systemsRef.current;
+    if (!controller) return;
+
+    if (inputReplayerRef.current) {
+      inputReplayerRef.current = null;
+      setReplayStatus((prev) => ({ ...prev, replaying: false }));
+      debugLogger.log('input', 'info', 'Input replay stopped');
+      return;
+    }
+
+    const recording = lastRecordingRef.current;
+    if (!recording || inputRecorderRef.current?.isRecording) return;
+
+    const replayer = new InputReplayer(recording);
+    replayer.reset(controller);
+    comSystem?.reset();
+    balance?.reset();
+    inputReplayerRef.current = replayer;
+    setReplayStatus((prev) => ({ ...prev, replaying: true }));
+    debugLogger.log('input', 'info', 'Input replay started', { frames: recording.frames.length });
+  };
+
+  const handleImportHeightmap = async (files) => {
+    const { heightmap, terrainMesh, physics } = systemsRef.current;
+    if (!heightmap || !terrainMesh) {
+      debugLogger.log('physics', 'warn', 'Heightmap import needs a single terrain (streaming is enabled)');
+      return;
+    }
+
+    // Raw files may be accompanied by the JSON sidecar written on export
+    const sidecar = files.find((file) => file.name.toLowerCase().endsWith('.json'));
+    const source = files.find((file) => file !== sidecar);
+    if (!source) return;
+
+    try {
+      const metadata = sidecar ? parseHeightmapMetadata(await sidecar.text()) : null;
+      const data = await importHeightmap(heightmap, source.name, await source.arrayBuffer(), {}, metadata);
+      terrainMesh.updateGeometry();
+      physics?.rebuildTerrain();
+      systemsRef.current.sculptor?.clearHistory();
+      syncSculptHistory();
+      handleResetPosition();
+      debugLogger.log('physics', 'info', 'Heightmap imported', {
+        file: source.name,
+        samples: `${data.width}x${data.depth}`,
+        size: heightmap.size
+      });
+    } catch (error) {
+      debugLogger.log('physics', 'error', 'Failed to import heightmap', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const handleExportHeightmap = () => {
+    const { heightmap } = systemsRef.current;
+    if (!heightmap) return;
+    exportHeightmap(heightmap);
+    debugLogger.log('physics', 'info', 'Heightmap exported');
+  };
+
+  const updateSculptSetting = (key, value) => {
+    setSculptSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const syncSculptHistory = () => {
+    const { sculptor } = systemsRef.current;
+    setSculptHistory({
+      canUndo: Boolean(sculptor?.canUndo()),
+      canRedo: Boolean(sculptor?.canRedo())
+    });
+  };
+
+  const applySculptHistory = (direction) => {
+    const { sculptor, terrainMesh, physics } = systemsRef.current;
+    if (!sculptor) return;
+    const region = direction === 'undo' ? sculptor.undo() : sculptor.redo();
+    if (region) {
+      terrainMesh?.updateRegion(region);
+      physics?.rebuildTerrain();
+      debugLogger.log('physics', 'info', `Sculpt stroke ${direction === 'undo' ? 'undone' : 'redone'}`);
+    }
+    syncSculptHistory();
+  };
+
+  const handleSculptUndo = () => applySculptHistory('undo');
+
+  const handleSculptRedo = () => applySculptHistory('redo');
+
+  const handleRebindKey = (action, code) => {
+    inputBindings.rebind(action, code);
+  };
+
+  const handleResetBindings = () => {
+    inputBindings.resetToDefaults();
+  };
+
+  const keyBindings = Object.keys(ACTION_LABELS).map((action) => ({
+    action,
+    label: ACTION_LABELS[action],
+    codes: bindingState.bindings[action] ?? [],
+    conflicts: bindingState.conflicts
+      .filter((conflict) => conflict.actions.includes(action))
+      .map((conflict) => conflict.code)
+  }));
+
   const handleApplyPreset = (preset) => {
     const { rig } = systemsRef.current;
     if (!rig || !preset) return;
@@ -395,6 +672,14 @@ export function Canvas3D() {
     poseLockRef.current = poseLock;
   }, [poseLock]);
 
+  useEffect(() => {
+    sculptSettingsRef.current = sculptSettings;
+  }, [sculptSettings]);
+
+  useEffect(() => {
+    pushToolRef.current = pushToolEnabled;
+  }, [pushToolEnabled]);
+
   useEffect(() => {
     posePrevRef.current = null;
   }, [poseJoint]);
@@ -433,29 +718,24 @@ export function Canvas3D() {
       );
       if (isInputTarget) return;
 
-      if (event.code === 'KeyH') {
-        handleToggleHud();
-      }
-      if (event.code === 'KeyP') {
-        handleScreenshot();
-      }
-      if (event.code === 'KeyO') {
-        handleTogglePoseLock();
-      }
-      if (event.code === 'KeyR') {
-        handleResetCamera();
-      }
-      if (event.code === 'KeyL') {
-        handleResetPosition();
-      }
-      if (event.code === 'KeyT') {
-        handleToggleTelemetry();
+      const uiHandlers = {
+        toggleHud: handleToggleHud,
+        screenshot: handleScreenshot,
+        togglePoseLock: handleTogglePoseLock,
+        resetCamera: handleResetCamera,
+        resetPosition: handleResetPosition,
+        toggleTelemetry: handleToggleTelemetry,
+        spawnBody: handleSpawnBody
+      };
+
+      for (const action of inputBindings.getActionsForCode(event.code)) {
+        uiHandlers[action]?.();
       }
     };
 
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, []);
+  }, [inputBindings]);
 
   useEffect(() => {
     let cancelled = false;
@@ -489,32 +769,68 @@ export function Canvas3D() {
       rendererInfoRef.current = info;
       debugLogger.log('render', 'info', `Renderer ready (${rendererName}, backend: ${info.backend})`);
 
-      // Terrain
-      const heightmap = new TerrainHeightmap();
-      const terrainMesh = new TerrainMesh(heightmap, tracker);
-      terrainMesh.addToScene(sceneManager.scene);
+      // Terrain (one fixed plane, or chunks streamed around the character)
+      const chunkManager = TERRAIN.STREAMING ? new TerrainChunkManager() : null;
+      const heightmap = chunkManager ? null : new TerrainHeightmap();
+      const terrainMesh = heightmap ? new TerrainMesh(heightmap, tracker) : null;
+      terrainMesh?.addToScene(sceneManager.scene);
+      const terrain = chunkManager ?? heightmap;
+      const sculptor = heightmap ? new TerrainSculptor(heightmap) : null;
 
       // Physics
       let physics = null;
       try {
-        physics = await RapierPhysics.create(heightmap);
+        physics = await RapierPhysics.create(terrain);
         debugLogger.log('physics', 'info', 'Rapier physics initialized');
       } catch (err) {
         console.warn('Rapier init failed, falling back to SimplePhysics:', err);
-        physics = new SimplePhysics(heightmap);
+        physics = new SimplePhysics(terrain);
         debugLogger.log('physics', 'warn', 'Rapier init failed, using SimplePhysics', {
           error: String(err)
         });
       }
 
+      if (chunkManager) {
+        chunkManager.attach(sceneManager.scene, physics);
+        chunkManager.loadAround(0, 0);
+        debugLogger.log('physics', 'info', 'Terrain streaming enabled', {
+          chunks: chunkManager.getLoadedCount()
+        });
+      }
+
+      // Contact and grounding events -> debug log
+      const detachPhysicsLogging = attachPhysicsEventLogging(physics);
+
+      // Static world objects
+      const worldObjects = new WorldObjectManager();
+      worldObjects.attach(sceneManager.scene, physics);
+      if (WORLD.TEST_COURSE_ENABLED) {
+        buildTestCourse(worldObjects, terrain);
+        debugLogger.log('physics', 'info', 'Test course placed', { objects: worldObjects.getCount() });
+      }
+
+      // Water: global level plus pools
+      const water = new WaterVolumes();
+      if (WORLD.TEST_COURSE_ENABLED) {
+        buildTestPool(water, terrain);
+      }
+      sceneManager.setWater(water.level, water.getPools());
+
+      // Dynamic props (Rapier only)
+      const dynamicBodies = new DynamicBodyManager();
+      dynamicBodies.attach(sceneManager.scene, physics);
+      setSpawnAvailable(dynamicBodies.isSupported());
+
       // Character controller
       const controller = new CharacterController(physics);
+      controller.waterSource = water;
+      if (chunkManager) {
+        controller.worldBounds = Number.POSITIVE_INFINITY;
+      }
 
       // Initialize character at ground level
       const startGround = physics.probeGround(0, 0);
-      controller.position.y = startGround.height;
-      controller.groundHeight = startGround.height;
-      controller.isGrounded = true;
+      controller.teleport({ x: 0, y: startGround.height, z: 0 });
 
       // Animation systems
       const footIK = new FootIKSystem(
@@ -522,11 +838,40 @@ export function Canvas3D() {
         ANIMATION.UPPER_LEG_LENGTH,
         ANIMATION.LOWER_LEG_LENGTH
       );
+      // Foot IK samples height, normal and sink depth at the same points, so
+      // one ground probe per point serves all three (cleared every tick)
+      let footProbe = null;
+      let footProbeX = 0;
+      let footProbeZ = 0;
+      const probeFootGround = (x, z) => {
+        if (!footProbe || x !== footProbeX || z !== footProbeZ) {
+          footProbe = physics.probeGround(x, z);
+          footProbeX = x;
+          footProbeZ = z;
+        }
+        return footProbe;
+      };
+      footIK.sinkDepthSource = (x, z) => TERRAIN_MATERIALS[probeFootGround(x, z).materialId]?.SINK_DEPTH ?? 0;
       const proceduralAnim = new ProceduralAnimation();
+      const balance = new BalanceController(CHARACTER.HIP_WIDTH);
 
       // Visual rig
       const rig = new StickFigureRig(tracker);
       sceneManager.add(rig.group);
+
+      // Knockdowns go limp as a physics ragdoll where the engine supports it
+      const ragdoll = new Ragdoll(rig, physics);
+      controller.ragdollSource = ragdoll;
+
+      // Hands and feet on the ledge while climbing
+      const climbIK = new ClimbIKSystem(
+        rig.shoulderWidth,
+        CHARACTER.HIP_WIDTH,
+        CHARACTER.SKELETON.UPPER_ARM_LENGTH,
+        CHARACTER.SKELETON.LOWER_ARM_LENGTH,
+        ANIMATION.UPPER_LEG_LENGTH,
+        ANIMATION.LOWER_LEG_LENGTH
+      );
       const jointNames = typeof rig.getJointNames === 'function'
         ? rig.getJointNames()
         : [];
@@ -544,20 +889,32 @@ export function Canvas3D() {
       rig.setDebugVisible(debugRef.current.showFootTargets, sceneManager.scene);
 
       // Center of Mass systems
-      const comSystem = new CenterOfMassSystem();
+      const comSystem = new CenterOfMassSystem(rig.upperLegLength + rig.lowerLegLength);
       const supportPolygonCalc = new SupportPolygonCalculator();
 
       // CoM visualizers
       const comVisualizer = new CoMVisualizer(tracker);
+      const capturePointVis = new CapturePointVisualizer(tracker);
       const supportPolygonVis = new SupportPolygonVisualizer(tracker);
       const trajectoryTrail = new TrajectoryTrail(tracker);
       const velocityArrow = new VelocityArrow(tracker);
+      // Push tool impulse, drawn into the character for a moment after each push
+      const pushArrow = new VelocityArrow(tracker, {
+        color: DEBUG.PUSH_COLOR,
+        scale: DEBUG.PUSH_ARROW_SCALE,
+        gated: false,
+        endAtPosition: true
+      });
+      const physicsDebug = new PhysicsDebugRenderer(tracker);
 
       // Add visualizers to scene
       comVisualizer.addToScene(sceneManager.scene);
+      capturePointVis.addToScene(sceneManager.scene);
       supportPolygonVis.addToScene(sceneManager.scene);
       trajectoryTrail.addToScene(sceneManager.scene);
       velocityArrow.addToScene(sceneManager.scene);
+      pushArrow.addToScene(sceneManager.scene);
+      physicsDebug.addToScene(sceneManager.scene);
 
       // Camera
       const followCamera = new FollowCamera(sceneManager.camera);
@@ -580,23 +937,35 @@ export function Canvas3D() {
         scene: sceneManager.scene,
         followCamera,
         comSystem,
+        balance,
         supportPolygonCalc,
         trajectoryTrail,
         comVisualizer,
+        capturePointVis,
         supportPolygonVis,
         velocityArrow,
-        heightmap
+        physicsDebug,
+        heightmap,
+        terrainMesh,
+        terrain,
+        chunkManager,
+        sculptor,
+        worldObjects,
+        dynamicBodies
       };
+      inputRecorderRef.current = new InputRecorder();
 
       // Set initial visibility from config
       const initialDebug = debugRef.current;
       comVisualizer.setVisible(initialDebug.showComMarker || initialDebug.showPlumbLine);
+      capturePointVis.setVisible(initialDebug.showCapturePoint);
       supportPolygonVis.setVisible(initialDebug.showSupportPolygon);
       trajectoryTrail.setVisible(initialDebug.showComTrail);
       velocityArrow.setVisible(initialDebug.showVelocityArrow);
+      physicsDebug.setVisible(initialDebug.showPhysicsDebug);
 
       // Input
-      const input = new InputManager();
+      const input = new InputManager(inputBindingsRef.current);
       input.attach();
       debugLogger.log('input', 'debug', 'Input attached');
 
@@ -604,7 +973,35 @@ export function Canvas3D() {
         mode: null,
         lastX: 0,
         lastY: 0,
-        pointerId: null
+        pointerId: null,
+        // Normalized device coordinates of the cursor (sculpting, spawning)
+        ndcX: 0,
+        ndcY: 0
+      };
+      systemsRef.current.pointerState = pointerState;
+      let sculptPhysicsTimer = 0;
+      let sculptPhysicsDirty = false;
+
+      const updateCursor = (event) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0 || rect.height === 0) return;
+        pointerState.ndcX = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+        pointerState.ndcY = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+      };
+
+      // Queue a push away from the ground point under the cursor (Alt pushes
+      // hard enough to knock it over); the next tick applies and records it
+      let pendingPush = null;
+      const pushCharacter = (strong) => {
+        const ray = followCamera.screenPointToRay(pointerState.ndcX, pointerState.ndcY);
+        const hit = physics.raycast(ray.origin, ray.direction, CAMERA.FAR);
+        const point = hit.hit ? hit.point : heightmap?.raycast(ray.origin, ray.direction, CAMERA.FAR);
+        if (!point) return;
+
+        pendingPush = {
+          point: { x: point.x, z: point.z },
+          impulse: strong ? DEBUG.PUSH_STRONG_IMPULSE : DEBUG.PUSH_IMPULSE
+        };
       };
 
       const raycaster = new THREE.Raycaster();
@@ -615,6 +1012,28 @@ export function Canvas3D() {
 
       const onPointerDown = (event) => {
         if (!containerRef.current) return;
+
+        // Left drag sculpts instead of orbiting while the sculpt tool is enabled
+        if (sculptor && sculptSettingsRef.current.enabled && event.button === 0 && !event.shiftKey) {
+          event.preventDefault();
+          pointerState.mode = 'sculpt';
+          pointerState.pointerId = event.pointerId;
+          updateCursor(event);
+          containerRef.current.setPointerCapture?.(event.pointerId);
+          sculptor.beginStroke();
+          sculptPhysicsTimer = 0;
+          sculptPhysicsDirty = false;
+          return;
+        }
+
+        // Left click pushes instead of orbiting while the push tool is enabled
+        if (pushToolRef.current && event.button === 0 && !event.shiftKey) {
+          event.preventDefault();
+          updateCursor(event);
+          pushCharacter(event.altKey);
+          return;
+        }
+
         const shouldPan = event.button === 1 || (event.button === 0 && event.shiftKey);
         const shouldOrbit = event.button === 2 || (event.button === 0 && !event.shiftKey);
 
@@ -633,7 +1052,8 @@ export function Canvas3D() {
       };
 
       const onPointerMove = (event) => {
-        if (!pointerState.mode) return;
+        updateCursor(event);
+        if (!pointerState.mode || pointerState.mode === 'sculpt') return;
         const dx = event.clientX - pointerState.lastX;
         const dy = event.clientY - pointerState.lastY;
         pointerState.lastX = event.clientX;
@@ -654,7 +1074,15 @@ export function Canvas3D() {
         if (pointerState.pointerId !== null && event.pointerId !== pointerState.pointerId) {
           return;
         }
-        if (pointerState.mode) {
+        if (pointerState.mode === 'sculpt') {
+          const region = sculptor?.endStroke();
+          if (region) {
+            physics.rebuildTerrain();
+            debugLogger.log('physics', 'debug', 'Sculpt stroke committed', region);
+          }
+          sculptPhysicsDirty = false;
+          syncSculptHistory();
+        } else if (pointerState.mode) {
           // Re-enable character-follow mode when orbit ends
           if (pointerState.mode === 'orbit') {
             followCamera.setFollowCharacterFacing(true);
@@ -697,28 +1125,135 @@ export function Canvas3D() {
       let rayTraceAccumulator = 0;
       let lastMovementMode = controller.movementMode;
       let lastGait = controller.gait;
-      let lastGrounded = controller.isGrounded;
+      let wasStickOrbiting = false;
+      let pushArrowTimer = 0;
+      let pushVector = { x: 0, y: 0, z: 0 };
+      // Leg IK from the latest grounded step, solved at the rendered pose
+      let legIK = null;
 
       const gameSystem = {
         update(deltaTime, elapsedTime) {
         physics.update?.(deltaTime);
+        worldObjects.sync();
+        dynamicBodies.sync();
+
+        // Terrain sculpting at the cursor (collider refresh is throttled mid-stroke)
+        if (pointerState.mode === 'sculpt' && sculptor) {
+          const sculpt = sculptSettingsRef.current;
+          const ray = followCamera.screenPointToRay(pointerState.ndcX, pointerState.ndcY);
+          const hit = heightmap.raycast(ray.origin, ray.direction, CAMERA.FAR);
+          const region = hit
+            ? sculptor.apply(
+              hit.x,
+              hit.z,
+              { type: sculpt.brush, radius: sculpt.radius, strength: sculpt.strength, material: sculpt.material },
+              deltaTime
+            )
+            : null;
+          if (region) {
+            terrainMesh.updateRegion(region);
+            sculptPhysicsDirty = true;
+          }
+          sculptPhysicsTimer += deltaTime;
+          if (sculptPhysicsDirty && sculptPhysicsTimer >= TERRAIN.SCULPT_PHYSICS_INTERVAL) {
+            physics.rebuildTerrain();
+            sculptPhysicsTimer = 0;
+            sculptPhysicsDirty = false;
+          }
+        }
+
         // Toggle foot target debug
         if (input.justPressed('debug')) {
           toggleDebugFlag('showFootTargets');
         }
 
-        // Get input
-        const moveDir = input.getMovementDirection();
-        const wantsRun = input.isHeld('run');
-        const wantsJump = input.isPressed('jump');
-        const isCameraInteracting = Boolean(pointerState.mode);
+        // Get input (from the active replay, if any)
+        const replayer = inputReplayerRef.current;
+        const replayFrame = replayer ? replayer.next(controller) : null;
+        if (replayer && !replayFrame) {
+          inputReplayerRef.current = null;
+          setReplayStatus((prev) => ({ ...prev, replaying: false }));
+          debugLogger.log('input', 'info', 'Input replay finished');
+        }
+
+        // Queued pushes and spawns land here so they're recorded with this
+        // tick's input; a replay frame carries its own (the replayer has
+        // already applied its push)
+        let inputPush = null;
+        if (!replayFrame && pendingPush) {
+          inputPush = {
+            x: controller.position.x - pendingPush.point.x,
+            z: controller.position.z - pendingPush.point.z,
+            impulse: pendingPush.impulse
+          };
+          const speed = controller.applyImpulse({ x: inputPush.x, y: 0, z: inputPush.z }, inputPush.impulse);
+          debugLogger.log('physics', 'info', 'Pushed character', { impulse: inputPush.impulse, speed });
+        }
+        pendingPush = null;
+
+        const inputSpawn = replayFrame ? replayFrame.spawn ?? null : pendingSpawnRef.current;
+        pendingSpawnRef.current = null;
+        if (inputSpawn) {
+          const key = dynamicBodies.spawn(createDynamicBody(inputSpawn.type, {
+            x: inputSpawn.x,
+            y: inputSpawn.y,
+            z: inputSpawn.z
+          }));
+          debugLogger.log('physics', 'info', 'Spawned dynamic body', { key, x: inputSpawn.x, z: inputSpawn.z });
+        }
+
+        const moveDir = replayFrame
+          ? { x: replayFrame.moveX, y: replayFrame.moveY }
+          : input.getMovementDirection();
+        const analogMovement = replayFrame ? Boolean(replayFrame.analog) : input.isAnalogMovement();
+        const wantsRun = replayFrame ? replayFrame.run : input.isHeld('run');
+        const wantsCrouch = replayFrame ? Boolean(replayFrame.crouch) : input.isHeld('crouch');
+        const wantsSprint = replayFrame ? Boolean(replayFrame.sprint) : input.isHeld('sprint');
+        const wantsDodge = replayFrame ? Boolean(replayFrame.dodge) : input.isHeld('dodge');
+        // justPressed catches taps released within a single tick; the
+        // controller buffers the press itself
+        const wantsJump = replayFrame
+          ? replayFrame.jump
+          : input.isHeld('jump') || input.justPressed('jump');
+        const isCameraInteracting = pointerState.mode === 'orbit' || pointerState.mode === 'pan';
         if (isCameraInteracting && !wasCameraInteractingRef.current) {
           cameraYawLockRef.current = followCamera.getYaw();
         }
         wasCameraInteractingRef.current = isCameraInteracting;
-        const cameraYaw = isCameraInteracting
+        const liveCameraYaw = isCameraInteracting
           ? cameraYawLockRef.current
           : followCamera.getYaw();
+        const cameraYaw = replayFrame ? replayFrame.cameraYaw : liveCameraYaw;
+
+        inputRecorderRef.current?.capture({
+          deltaTime,
+          moveX: moveDir.x,
+          moveY: moveDir.y,
+          run: wantsRun,
+          jump: wantsJump,
+          cameraYaw,
+          analog: analogMovement,
+          crouch: wantsCrouch,
+          sprint: wantsSprint,
+          dodge: wantsDodge,
+          push: inputPush ?? undefined,
+          spawn: inputSpawn ?? undefined
+        });
+
+        // Right-stick camera orbit (pauses character-facing follow while held)
+        const look = input.getCameraLook();
+        const isStickOrbiting = look.x !== 0 || look.y !== 0;
+        if (isStickOrbiting) {
+          const settings = cameraSettingsRef.current;
+          const yawFactor = settings.invertX ? 1 : -1;
+          const pitchFactor = INPUT.GAMEPAD_INVERT_Y ? 1 : -1;
+          followCamera.addYaw(look.x * INPUT.GAMEPAD_LOOK_SPEED_X * deltaTime * yawFactor);
+          followCamera.addPitch(look.y * INPUT.GAMEPAD_LOOK_SPEED_Y * deltaTime * pitchFactor);
+        }
+        if (isStickOrbiting !== wasStickOrbiting && pointerState.mode !== 'orbit') {
+          followCamera.setFollowCharacterFacing(!isStickOrbiting);
+        }
+        wasStickOrbiting = isStickOrbiting;
         const inputLen = Math.hypot(moveDir.x, moveDir.y);
         let moveIntent = null;
         if (inputLen > 0.01) {
@@ -738,8 +1273,26 @@ export function Canvas3D() {
         }
 
         // Update controller
-        controller.setInput(moveDir, wantsRun, wantsJump);
+        if (!replayFrame) {
+          controller.setInput(moveDir, wantsRun, wantsJump, analogMovement, wantsCrouch);
+          controller.setAbilityInput(wantsSprint, wantsDodge);
+        }
         controller.update(deltaTime, cameraYaw);
+        chunkManager?.update(controller.position.x, controller.position.z);
+
+        // Staggering pushes force a recovery step along the push
+        const push = controller.takePush();
+        if (push) {
+          pushArrowTimer = DEBUG.PUSH_ARROW_TIME;
+          pushVector = {
+            x: push.direction.x * push.speed,
+            y: 0,
+            z: push.direction.z * push.speed
+          };
+          if (controller.movementMode === MovementMode.STAGGERING) {
+            balance.requestStep(push.direction, push.strength, controller.position, controller.facing);
+          }
+        }
 
         if (controller.movementMode !== lastMovementMode) {
           debugLogger.log('animation', 'info', `Movement mode -> ${controller.movementMode}`);
@@ -749,48 +1302,69 @@ export function Canvas3D() {
           debugLogger.log('animation', 'info', `Gait -> ${controller.gait}`);
           lastGait = controller.gait;
         }
-        if (controller.isGrounded !== lastGrounded) {
-          debugLogger.log('physics', 'debug', `Grounded ${controller.isGrounded ? 'true' : 'false'}`);
-          lastGrounded = controller.isGrounded;
-        }
 
         // Animation
-        const isGrounded = controller.movementMode === MovementMode.GROUNDED ||
-                          controller.movementMode === MovementMode.LANDING;
-
-        if (isGrounded) {
-          // Foot IK
+        const isGrounded = isGroundedMode(controller.movementMode);
+        const isSliding = controller.movementMode === MovementMode.SLIDING;
+        const isTraversing = isTraversalMode(controller.movementMode);
+        const isRagdolled = controller.movementMode === MovementMode.RAGDOLL;
+        const isGettingUp = controller.movementMode === MovementMode.GETTING_UP;
+        const climbTargets = isTraversing
+          ? climbIK.update(
+            controller.ledge,
+            controller.position,
+            controller.facing,
+            controller.movementMode,
+            controller.getTraversalProgress(),
+            elapsedTime
+          )
+          : null;
+
+        legIK = null;
+        if (isRagdolled) {
+          // Posed from the simulated bodies once the rig follows the controller
+          rig.applyPelvisOffset(0);
+        } else if (isGettingUp) {
+          // Animate from a clean pose; the ragdoll pose is blended over it below
+          ragdoll.clearBlend();
+          rig.applyGetUpPose(controller.getGetUpProgress(), 10 * deltaTime);
+        } else if (isGrounded) {
+          // Foot IK (planted feet ride moving platforms; heights include obstacles)
+          // Sliding holds a braced stance instead of stepping
+          footIK.applyGroundMotion(controller.groundMotion, deltaTime);
+          footProbe = null;
+
+          // Catch the center of mass with a step when balance asked for one
+          const recoveryStep = balance.takeRecoveryStep();
+          if (recoveryStep) {
+            footIK.startRecoveryStep(recoveryStep.side, recoveryStep.target);
+          }
           footIK.computeFootTargets(
             controller.position,
             controller.facing,
-            controller.velocity,
+            isSliding ? { x: 0, y: 0, z: 0 } : controller.velocity,
             controller.gait,
             deltaTime,
-            (x, z) => heightmap.getHeight(x, z),
-            (x, z) => heightmap.getNormal(x, z),
+            (x, z) => probeFootGround(x, z).height,
+            (x, z) => probeFootGround(x, z).normal,
             moveIntent
           );
 
+          // Rolls and slides lower the hips like a crouch
           const pelvisOffset = footIK.computePelvisOffset(
             controller.position,
-            controller.groundHeight
+            controller.groundHeight,
+            controller.isCrouching || isSliding || controller.movementMode === MovementMode.DODGING,
+            deltaTime
           );
 
           rig.applyPelvisOffset(pelvisOffset);
 
-          // Solve leg IK
+          // Leg IK is solved in the render callback, from the hips of the
+          // interpolated pose the rig is drawn at, so planted feet stay put
           const ikBlend = footIK.getIKBlendWeight(controller.movementMode);
-          const blendSpeed = 10 * deltaTime * ikBlend;
-
           if (ikBlend > 0) {
-            const leftHip = rig.getHipWorldPosition('left', controller.position, controller.facing, pelvisOffset);
-            const rightHip = rig.getHipWorldPosition('right', controller.position, controller.facing, pelvisOffset);
-
-            const leftIK = footIK.solveLegIK(leftHip, footIK.leftFoot.worldTarget, controller.facing);
-            const rightIK = footIK.solveLegIK(rightHip, footIK.rightFoot.worldTarget, controller.facing);
-
-            rig.applyLegIK('left', leftIK, blendSpeed);
-            rig.applyLegIK('right', rightIK, blendSpeed);
+            legIK = { pelvisOffset, blend: ikBlend };
           }
 
           // Landing compression
@@ -808,12 +1382,30 @@ export function Canvas3D() {
             phases.left,
             phases.right
           );
+        } else if (isSwimmingMode(controller.movementMode)) {
+          // Kicking in the water (no feet to plant)
+          rig.applyPelvisOffset(0);
+          rig.applySwimPose(controller.movementMode === MovementMode.SWIMMING, elapsedTime, 10 * deltaTime);
+        } else if (climbTargets) {
+          // Feet braced on the wall; tucked while pulling over the top
+          const blendSpeed = 10 * deltaTime;
+          rig.applyPelvisOffset(0);
+          if (climbTargets.leftFoot && climbTargets.rightFoot) {
+            const leftHip = rig.getHipWorldPosition('left', controller.position, controller.facing, 0);
+            const rightHip = rig.getHipWorldPosition('right', controller.position, controller.facing, 0);
+            rig.applyLegIK('left', climbIK.solveLegIK(leftHip, climbTargets.leftFoot, controller.facing), blendSpeed);
+            rig.applyLegIK('right', climbIK.solveLegIK(rightHip, climbTargets.rightFoot, controller.facing), blendSpeed);
+          } else {
+            rig.applyAirbornePose(MovementMode.JUMPING, blendSpeed);
+          }
         } else {
           // Airborne pose
           rig.applyAirbornePose(controller.movementMode, 10 * deltaTime);
         }
 
         // Upper body animation
+        const flinch = controller.getStaggerFlinch();
+        proceduralAnim.setFlinch(flinch.forward, flinch.lateral);
         proceduralAnim.update(
           controller.movementMode,
           controller.gait,
@@ -821,18 +1413,33 @@ export function Canvas3D() {
           elapsedTime,
           deltaTime
         );
-        rig.applyUpperBodyAnimation(proceduralAnim.getState(), 10 * deltaTime);
+        rig.applyUpperBodyAnimation(balance.apply(proceduralAnim.getState()), 10 * deltaTime);
+
+        // Hands grip the ledge over the FK arm pose
+        if (climbTargets?.leftHand && climbTargets.rightHand) {
+          const leftShoulder = rig.getShoulderWorldPosition('left', controller.position, controller.facing, 0);
+          const rightShoulder = rig.getShoulderWorldPosition('right', controller.position, controller.facing, 0);
+          rig.applyArmIK('left', climbIK.solveArmIK(leftShoulder, climbTargets.leftHand, controller.facing), 10 * deltaTime);
+          rig.applyArmIK('right', climbIK.solveArmIK(rightShoulder, climbTargets.rightHand, controller.facing), 10 * deltaTime);
+        }
 
         // Sync rig to controller
         rig.syncToController(controller.position, controller.facing);
+        if (isRagdolled) {
+          ragdoll.applyToRig();
+        } else if (isGettingUp) {
+          ragdoll.blendToAnimation(1 - controller.getGetUpProgress() / ANIMATION.GET_UP_BLEND);
+        }
 
         // ===== Center of Mass Update =====
         // Update visualizer visibility based on debug config
         const debugState = debugRef.current;
         comVisualizer.setVisible(debugState.showComMarker || debugState.showPlumbLine);
+        capturePointVis.setVisible(debugState.showCapturePoint);
         supportPolygonVis.setVisible(debugState.showSupportPolygon);
         trajectoryTrail.setVisible(debugState.showComTrail);
         velocityArrow.setVisible(debugState.showVelocityArrow);
+        physicsDebug.setVisible(debugState.showPhysicsDebug);
 
         if (poseLockRef.current && poseOverrideRef.current) {
           rig.applyPose(poseOverrideRef.current);
@@ -845,16 +1452,19 @@ export function Canvas3D() {
         const leftFootPos = rig.getFootWorldPosition('left');
         const rightFootPos = rig.getFootWorldPosition('right');
         const footPhases = footIK.getFootPhases();
+        const supportingFeet = isGrounded
+          ? footIK.getSupportingFeet()
+          : { left: false, right: false };
 
         const supportPolygon = supportPolygonCalc.calculate(
           {
             position: leftFootPos,
-            isGrounded: footPhases.left === 'stance',
+            isGrounded: supportingFeet.left,
             facing: controller.facing
           },
           {
             position: rightFootPos,
-            isGrounded: footPhases.right === 'stance',
+            isGrounded: supportingFeet.right,
             facing: controller.facing
           }
         );
@@ -867,16 +1477,33 @@ export function Canvas3D() {
           deltaTime
         );
 
+        // Balance reacts while standing (walking and abilities move the CoM
+        // over the feet on their own)
+        const balanceEnabled = (controller.movementMode === MovementMode.GROUNDED ||
+          controller.movementMode === MovementMode.LANDING ||
+          controller.movementMode === MovementMode.STAGGERING) &&
+          (footIK.standing || footIK.recoveryStep !== null);
+        balance.update(comState, supportPolygon, controller.facing, balanceEnabled, deltaTime);
+
         // Update visualizers
         comVisualizer.update(comState);
+        capturePointVis.update(comState);
         supportPolygonVis.update(supportPolygon, comState.isStable);
         velocityArrow.update(comState.position, comState.velocity);
+        if (pushArrowTimer > 0) {
+          pushArrowTimer = Math.max(0, pushArrowTimer - deltaTime);
+          pushArrow.setVisible(pushArrowTimer > 0);
+          pushArrow.update(comState.position, pushVector);
+        }
 
         // Add point to trajectory trail
         if (debugState.showComTrail) {
           trajectoryTrail.addPoint(comState.position);
         }
 
+        // Colliders, character capsule and recent casts
+        physicsDebug.update(physics, controller.position, controller.getCharacterShape(), deltaTime);
+
         // Update telemetry at 10 Hz
         telemetryAccumulator += deltaTime;
         if (telemetryAccumulator >= 0.1) {
@@ -910,6 +1537,7 @@ export function Canvas3D() {
             },
             grounded: controller.isGrounded,
             slopeAngle: Number(controller.slopeAngle || 0).toFixed(1),
+            surface: controller.groundMaterialId,
             leftFoot: footPhases.left,
             rightFoot: footPhases.right,
             facing: facingDeg.toFixed(0),
@@ -917,9 +1545,13 @@ export function Canvas3D() {
             input: { x: moveDir.x, y: moveDir.y },
             inputWorld: inputWorldDir,
             velocity: { x: controller.velocity.x, z: controller.velocity.z },
-            directionDot
+            directionDot,
+            ...controller.getAbilityTelemetry()
           });
 
+          setTerrainTelemetry(terrainMesh?.getLODStats() ?? chunkManager?.getLODStats() ?? null);
+          setPhysicsTelemetry(dynamicBodies.isSupported() ? physics.getStats() : null);
+
           setComTelemetry({
             position: {
               x: comState.position.x.toFixed(3),
@@ -937,7 +1569,8 @@ export function Canvas3D() {
               comState.velocity.z ** 2
             ).toFixed(2),
             stabilityMargin: comState.stabilityMargin.toFixed(3),
-            stabilityLevel: comState.stabilityLevel
+            stabilityLevel: comState.stabilityLevel,
+            captureMargin: comState.captureMargin.toFixed(3)
           });
 
           const jointName = poseJointRef.current || poseJointNamesRef.current[0];
@@ -1009,29 +1642,6 @@ export function Canvas3D() {
           }
         }
 
-        if (showPerf) {
-          perfAccumulator += deltaTime;
-          perfFrames += 1;
-          perfFrameSum += deltaTime;
-
-          if (perfAccumulator >= 0.5) {
-            const fps = perfFrames / perfAccumulator;
-            const avgFrame = (perfFrameSum / Math.max(perfFrames, 1)) * 1000;
-            const pixelRatio = sceneManager.renderer?.getPixelRatio?.() ?? window.devicePixelRatio ?? 1;
-
-            setPerfStats({
-              fps: fps.toFixed(0),
-              frameTime: avgFrame.toFixed(2),
-              backend: rendererInfoRef.current.backend,
-              pixelRatio: pixelRatio.toFixed(2)
-            });
-
-            perfAccumulator = 0;
-            perfFrames = 0;
-            perfFrameSum = 0;
-          }
-        }
-
         if (rayTraceEnabledRef.current) {
           rayTraceAccumulator += deltaTime;
           if (rayTraceAccumulator >= 1 / Math.max(RENDER.RAYTRACE_UPDATE_HZ, 1)) {
@@ -1100,18 +1710,81 @@ export function Canvas3D() {
             }
           }
         }
-
-        // Update camera - sync to character facing
-        followCamera.setCharacterFacing(controller.facing);
-        followCamera.update(controller.position, deltaTime);
         }
       };
 
+      engine.addSystem(input);
       engine.addSystem(gameSystem);
-      engine.setRenderCallback(() => sceneManager.render());
+      engine.setFixedTimestep(ENGINE.FIXED_TIMESTEP, ENGINE.STEP_RATE, ENGINE.MAX_SUBSTEPS);
+      engine.setRenderCallback((alpha) => {
+        const frameDelta = engine.deltaTime;
+
+        // Blend the character between the last two simulation steps (a
+        // ragdoll is posed for the latest step only); the camera follows the
+        // same blended pose as the rig so the two don't jitter against each other
+        const isRagdolled = controller.movementMode === MovementMode.RAGDOLL;
+        const blend = isRagdolled ? 1 : alpha;
+        const viewPosition = {
+          x: lerp(controller.lastPosition.x, controller.position.x, blend),
+          y: lerp(controller.lastPosition.y, controller.position.y, blend),
+          z: lerp(controller.lastPosition.z, controller.position.z, blend)
+        };
+        const viewFacing = controller.lastFacing + wrapAngle(controller.facing - controller.lastFacing) * blend;
+        followCamera.setCharacterFacing(viewFacing);
+        followCamera.update(viewPosition, frameDelta);
+
+        // Terrain LOD follows the render camera
+        terrainMesh?.updateLOD(sceneManager.camera.position);
+        chunkManager?.updateLOD(sceneManager.camera.position);
+        sceneManager.setUnderwater(water.isUnderwater(sceneManager.camera.position));
+
+        if (isRagdolled) {
+          rig.syncToController(controller.position, controller.facing);
+        } else {
+          rig.syncToController(
+            controller.position,
+            controller.facing,
+            { position: controller.lastPosition, facing: controller.lastFacing },
+            alpha
+          );
+        }
+
+        if (legIK) {
+          const blendSpeed = Math.min(1, 10 * frameDelta * legIK.blend);
+          const leftHip = rig.getHipWorldPosition('left', viewPosition, viewFacing, legIK.pelvisOffset);
+          const rightHip = rig.getHipWorldPosition('right', viewPosition, viewFacing, legIK.pelvisOffset);
+          rig.applyLegIK('left', footIK.solveLegIK(leftHip, footIK.leftFoot.worldTarget, viewFacing), blendSpeed);
+          rig.applyLegIK('right', footIK.solveLegIK(rightHip, footIK.rightFoot.worldTarget, viewFacing), blendSpeed);
+        }
+
+        if (showPerf) {
+          perfAccumulator += frameDelta;
+          perfFrames += 1;
+          perfFrameSum += frameDelta;
+
+          if (perfAccumulator >= 0.5) {
+            const fps = perfFrames / perfAccumulator;
+            const avgFrame = (perfFrameSum / Math.max(perfFrames, 1)) * 1000;
+            const pixelRatio = sceneManager.renderer?.getPixelRatio?.() ?? window.devicePixelRatio ?? 1;
+
+            setPerfStats({
+              fps: fps.toFixed(0),
+              frameTime: avgFrame.toFixed(2),
+              backend: rendererInfoRef.current.backend,
+              pixelRatio: pixelRatio.toFixed(2)
+            });
+
+            perfAccumulator = 0;
+            perfFrames = 0;
+            perfFrameSum = 0;
+          }
+        }
+
+        sceneManager.render();
+      });
       console.log('Starting engine...');
       engine.start();
-      console.log('Engine started, terrain mesh:', terrainMesh.mesh, 'rig group:', rig.group);
+      console.log('Engine started, terrain mesh:', terrainMesh?.mesh ?? chunkManager, 'rig group:', rig.group);
       debugLogger.log('system', 'info', 'Engine started');
 
       // Store ref for cleanup
@@ -1127,6 +1800,11 @@ export function Canvas3D() {
         debugLogger.log('system', 'info', 'Engine stopped');
         input.detach();
         debugLogger.log('input', 'debug', 'Input detached');
+        chunkManager?.dispose();
+        terrainMesh?.dispose();
+        dynamicBodies.dispose();
+        worldObjects.dispose();
+        detachPhysicsLogging();
         if (physics?.dispose) {
           physics.dispose();
         }
@@ -1139,9 +1817,12 @@ export function Canvas3D() {
         window.removeEventListener('pointerup', onPointerUp);
         // Remove CoM visualizers from scene
         comVisualizer.removeFromScene();
+        capturePointVis.removeFromScene();
         supportPolygonVis.removeFromScene();
         trajectoryTrail.removeFromScene();
         velocityArrow.removeFromScene();
+        pushArrow.removeFromScene();
+        physicsDebug.removeFromScene();
         sceneManager.dispose();
         systemsRef.current = {};
       };
@@ -1176,6 +1857,8 @@ export function Canvas3D() {
         <TelemetryPanel
           stats={telemetry}
           com={comTelemetry}
+          terrain={terrainTelemetry}
+          physics={physicsTelemetry}
           perf={showPerf ? perfStats : null}
           pose={{
             joints: poseJointNames,
@@ -1189,6 +1872,10 @@ export function Canvas3D() {
         onResetCamera={handleResetCamera}
         onResetPosition={handleResetPosition}
         onScreenshot={handleScreenshot}
+        onSpawnBody={handleSpawnBody}
+        spawnAvailable={spawnAvailable}
+        pushToolEnabled={pushToolEnabled}
+        onTogglePushTool={handleTogglePushTool}
       />
       <DebugOverlay
         visible={hudVisible}
@@ -1216,6 +1903,22 @@ export function Canvas3D() {
         onTogglePerf={handleTogglePerf}
         onToggleRayTrace={handleToggleRayTrace}
         onUpdateCameraSetting={updateCameraSetting}
+        replayStatus={replayStatus}
+        onToggleRecording={handleToggleRecording}
+        onSaveRecording={handleSaveRecording}
+        onLoadRecording={handleLoadRecording}
+        onToggleReplay={handleToggleReplay}
+        onImportHeightmap={handleImportHeightmap}
+        onExportHeightmap={handleExportHeightmap}
+        sculptAvailable={!TERRAIN.STREAMING}
+        sculptSettings={sculptSettings}
+        sculptHistory={sculptHistory}
+        onUpdateSculptSetting={updateSculptSetting}
+        onSculptUndo={handleSculptUndo}
+        onSculptRedo={handleSculptRedo}
+        keyBindings={keyBindings}
+        onRebindKey={handleRebindKey}
+        onResetBindings={handleResetBindings}
       />
     </>
   );
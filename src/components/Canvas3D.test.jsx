@@ -11,12 +11,13 @@ vi.mock('../core/index.js', () => {
     constructor() {
       this.systems = []
       this.renderCallback = null
+      this.deltaTime = 0.016
       this.start = vi.fn(() => {
-        if (this.systems[0]?.update) {
-          this.systems[0].update(0.016, 1)
+        for (const system of this.systems) {
+          system.update?.(0.016, 1)
         }
         if (this.renderCallback) {
-          this.renderCallback()
+          this.renderCallback(1)
         }
       })
       this.stop = vi.fn()
@@ -28,6 +29,7 @@ vi.mock('../core/index.js', () => {
     setRenderCallback(cb) {
       this.renderCallback = cb
     }
+    setFixedTimestep() {}
   }
 
   class SceneManager {
@@ -46,6 +48,8 @@ vi.mock('../core/index.js', () => {
       return this.tracker
     }
     add() {}
+    setWater() {}
+    setUnderwater() {}
     render() {}
     dispose() {
       if (this.container.contains(this.renderer.domElement)) {
@@ -63,6 +67,13 @@ vi.mock('../core/index.js', () => {
     getMovementDirection() {
       return { x: 0, y: 0 }
     }
+    update() {}
+    isAnalogMovement() {
+      return false
+    }
+    getCameraLook() {
+      return { x: 0, y: 0 }
+    }
     isPressed() {
       return false
     }
@@ -74,7 +85,45 @@ vi.mock('../core/index.js', () => {
     }
   }
 
-  return { Engine, SceneManager, InputManager }
+  class InputRecorder {
+    constructor() {
+      this.isRecording = false
+    }
+    start() {}
+    capture() {}
+    stop() {
+      return null
+    }
+  }
+
+  class InputReplayer {}
+
+  class InputBindings {
+    constructor() {
+      this.bindings = {}
+    }
+    load() {}
+    findConflicts() {
+      return []
+    }
+    getActionsForCode() {
+      return []
+    }
+    subscribe() {
+      return () => {}
+    }
+  }
+
+  return {
+    Engine,
+    SceneManager,
+    InputManager,
+    InputRecorder,
+    InputReplayer,
+    InputBindings,
+    ACTION_LABELS: {},
+    saveInputRecording: vi.fn()
+  }
 })
 
 vi.mock('../terrain/index.js', () => ({
@@ -85,12 +134,55 @@ vi.mock('../terrain/index.js', () => ({
     getNormal() {
       return { x: 0, y: 1, z: 0 }
     }
+    getMaterial() {
+      return 'grass'
+    }
   },
   TerrainMesh: class {
     constructor() {
       this.addToScene = vi.fn()
+      this.updateGeometry = vi.fn()
+      this.updateRegion = vi.fn()
+      this.updateLOD = vi.fn()
+      this.dispose = vi.fn()
     }
-  }
+    getLODStats() {
+      return null
+    }
+  },
+  TerrainChunkManager: class {
+    attach() {}
+    loadAround() {}
+    update() {}
+    updateLOD() {}
+    getLODStats() {
+      return null
+    }
+    getLoadedCount() {
+      return 0
+    }
+    dispose() {}
+  },
+  TerrainSculptor: class {
+    beginStroke() {}
+    apply() {
+      return null
+    }
+    endStroke() {
+      return null
+    }
+    canUndo() {
+      return false
+    }
+    canRedo() {
+      return false
+    }
+    clearHistory() {}
+  },
+  SCULPT_BRUSH_TYPES: ['raise', 'lower', 'smooth', 'flatten', 'noise', 'paint'],
+  importHeightmap: vi.fn(),
+  exportHeightmap: vi.fn(),
+  parseHeightmapMetadata: vi.fn()
 }))
 
 vi.mock('../physics/index.js', () => ({
@@ -118,7 +210,11 @@ vi.mock('../physics/index.js', () => ({
         groundProjection: { x: 0, y: 0, z: 0 },
         isStable: true,
         stabilityMargin: 0,
-        stabilityLevel: 'stable'
+        stabilityLevel: 'stable',
+        acceleration: { x: 0, y: 0, z: 0 },
+        capturePoint: { x: 0, y: 0, z: 0 },
+        zmp: { x: 0, y: 0, z: 0 },
+        captureMargin: 0
       }
     }
   },
@@ -126,7 +222,8 @@ vi.mock('../physics/index.js', () => ({
     calculate() {
       return []
     }
-  }
+  },
+  attachPhysicsEventLogging: () => () => {}
 }))
 
 vi.mock('../debug/index.js', () => ({
@@ -136,6 +233,12 @@ vi.mock('../debug/index.js', () => ({
     setVisible() {}
     update() {}
   },
+  CapturePointVisualizer: class {
+    addToScene() {}
+    removeFromScene() {}
+    setVisible() {}
+    update() {}
+  },
   SupportPolygonVisualizer: class {
     addToScene() {}
     removeFromScene() {}
@@ -147,12 +250,19 @@ vi.mock('../debug/index.js', () => ({
     removeFromScene() {}
     setVisible() {}
     addPoint() {}
+    clear() {}
   },
   VelocityArrow: class {
     addToScene() {}
     removeFromScene() {}
     setVisible() {}
     update() {}
+  },
+  PhysicsDebugRenderer: class {
+    addToScene() {}
+    removeFromScene() {}
+    setVisible() {}
+    update() {}
   }
 }))
 
@@ -161,7 +271,19 @@ vi.mock('../character/index.js', () => {
     GROUNDED: 'grounded',
     JUMPING: 'jumping',
     FALLING: 'falling',
-    LANDING: 'landing'
+    LANDING: 'landing',
+    SPRINTING: 'sprinting',
+    DODGING: 'dodging',
+    SLIDING: 'sliding',
+    STAGGERING: 'staggering',
+    LEDGE_HANG: 'hanging',
+    SHIMMYING: 'shimmying',
+    CLIMBING_UP: 'climbing',
+    VAULTING: 'vaulting',
+    SWIMMING: 'swimming',
+    TREADING: 'treading',
+    RAGDOLL: 'ragdoll',
+    GETTING_UP: 'getting_up'
   }
 
   class CharacterController {
@@ -169,14 +291,19 @@ vi.mock('../character/index.js', () => {
       this.position = { x: 1, y: 0, z: 2 }
       this.velocity = { x: 0, y: 0, z: 0 }
       this.facing = 0
+      this.lastPosition = { x: 1, y: 0, z: 2 }
+      this.lastFacing = 0
       this.gait = 'walking'
       this.movementMode = MovementMode.GROUNDED
       this.slopeAngle = 0
       this.isGrounded = true
       this.groundHeight = 0
       this.landingTimer = 0
+      this.ledge = null
       this.setInput = vi.fn()
+      this.setAbilityInput = vi.fn()
       this.update = vi.fn()
+      this.teleport = vi.fn()
     }
     getSpeed() {
       return 2.5
@@ -184,6 +311,32 @@ vi.mock('../character/index.js', () => {
     getDisplayState() {
       return 'walking'
     }
+    getCharacterShape() {
+      return { type: 'capsule', radius: 0.35, height: 1.8 }
+    }
+    getAbilityTelemetry() {
+      return { stamina: 100, staminaMax: 100, ability: null, dodgeCooldown: 0 }
+    }
+    getTraversalProgress() {
+      return 0
+    }
+    getGetUpProgress() {
+      return 0
+    }
+    takePush() {
+      return null
+    }
+    getStaggerFlinch() {
+      return { forward: 0, lateral: 0 }
+    }
+  }
+
+  class Ragdoll {
+    constructor() {
+      this.applyToRig = vi.fn()
+      this.blendToAnimation = vi.fn()
+      this.clearBlend = vi.fn()
+    }
   }
 
   class FootIKSystem {
@@ -192,16 +345,40 @@ vi.mock('../character/index.js', () => {
       this.rightFoot = { worldTarget: { x: 0, y: 0, z: 0 } }
       this.cyclePhase = 0
       this.computeFootTargets = vi.fn()
+      this.applyGroundMotion = vi.fn()
       this.computePelvisOffset = vi.fn(() => 0)
       this.getIKBlendWeight = vi.fn(() => 1)
       this.solveLegIK = vi.fn(() => ({ upperAngle: 0, lowerAngle: 0 }))
       this.getFootPhases = vi.fn(() => ({ left: 'stance', right: 'swing' }))
+      this.getSupportingFeet = vi.fn(() => ({ left: true, right: true }))
+      this.startRecoveryStep = vi.fn(() => true)
+      this.standing = true
+      this.recoveryStep = null
+    }
+  }
+
+  class BalanceController {
+    constructor() {
+      this.update = vi.fn()
+      this.takeRecoveryStep = vi.fn(() => null)
+      this.requestStep = vi.fn()
+      this.apply = vi.fn((state) => state)
+      this.reset = vi.fn()
+    }
+  }
+
+  class ClimbIKSystem {
+    constructor() {
+      this.update = vi.fn(() => ({ leftHand: null, rightHand: null, leftFoot: null, rightFoot: null }))
+      this.solveArmIK = vi.fn(() => ({ upperAngle: 0, lowerAngle: 0 }))
+      this.solveLegIK = vi.fn(() => ({ upperAngle: 0, lowerAngle: 0 }))
     }
   }
 
   class ProceduralAnimation {
     constructor() {
       this.update = vi.fn()
+      this.setFlinch = vi.fn()
     }
     getState() {
       return {
@@ -220,17 +397,22 @@ vi.mock('../character/index.js', () => {
   class StickFigureRig {
     constructor() {
       this.group = {}
+      this.shoulderWidth = 1.2
       this.setDebugVisible = vi.fn()
       this.applyPelvisOffset = vi.fn()
       this.applyLegIK = vi.fn()
+      this.applyArmIK = vi.fn()
       this.applyLandingCompression = vi.fn()
       this.updateDebugMarkers = vi.fn()
       this.applyAirbornePose = vi.fn()
+      this.applySwimPose = vi.fn()
+      this.applyGetUpPose = vi.fn()
       this.applyUpperBodyAnimation = vi.fn()
       this.syncToController = vi.fn()
       this.applyPose = vi.fn()
       this.getPose = vi.fn(() => ({}))
       this.getHipWorldPosition = vi.fn(() => ({ x: 0, y: 0, z: 0 }))
+      this.getShoulderWorldPosition = vi.fn(() => ({ x: 0, y: 0, z: 0 }))
       this.getBoneWorldPositions = vi.fn(() => new Map())
       this.getFootWorldPosition = vi.fn(() => ({ x: 0, y: 0, z: 0 }))
       this.getJointNames = vi.fn(() => ['root'])
@@ -246,14 +428,66 @@ vi.mock('../character/index.js', () => {
   return {
     CharacterController,
     FootIKSystem,
+    ClimbIKSystem,
     ProceduralAnimation,
+    BalanceController,
     StickFigureRig,
+    Ragdoll,
     MovementMode,
+    isGroundedMode: (mode) => [
+      MovementMode.GROUNDED,
+      MovementMode.LANDING,
+      MovementMode.SPRINTING,
+      MovementMode.DODGING,
+      MovementMode.SLIDING,
+      MovementMode.STAGGERING
+    ].includes(mode),
+    isTraversalMode: (mode) => [
+      MovementMode.LEDGE_HANG,
+      MovementMode.SHIMMYING,
+      MovementMode.CLIMBING_UP,
+      MovementMode.VAULTING
+    ].includes(mode),
+    isSwimmingMode: (mode) => [MovementMode.SWIMMING, MovementMode.TREADING].includes(mode),
     GaitType: { IDLE: 'idle', WALKING: 'walking', RUNNING: 'running' },
     BUILT_IN_POSE_PRESETS: []
   }
 })
 
+vi.mock('../world/index.js', () => ({
+  WorldObjectManager: class {
+    attach() {}
+    sync() {}
+    getCount() {
+      return 0
+    }
+    dispose() {}
+  },
+  DynamicBodyManager: class {
+    attach() {}
+    isSupported() {
+      return false
+    }
+    sync() {}
+    dispose() {}
+  },
+  WaterVolumes: class {
+    constructor() {
+      this.level = null
+    }
+    getPools() {
+      return []
+    }
+    isUnderwater() {
+      return false
+    }
+  },
+  buildTestCourse: vi.fn(() => []),
+  buildTestPool: vi.fn(),
+  createDynamicBody: vi.fn(),
+  DYNAMIC_BODY_TYPES: ['box', 'sphere', 'capsule']
+}))
+
 vi.mock('../camera/index.js', () => ({
   FollowCamera: class {
     constructor() {
@@ -267,6 +501,12 @@ vi.mock('../camera/index.js', () => ({
       this.addPan = vi.fn()
       this.addDistance = vi.fn()
       this.resetOrbit = vi.fn()
+      this.setCharacterFacing = vi.fn()
+      this.setFollowCharacterFacing = vi.fn()
+      this.screenPointToRay = vi.fn(() => ({
+        origin: { x: 0, y: 10, z: 10 },
+        direction: { x: 0, y: -1, z: 0 }
+      }))
     }
     getYaw() {
       return 0
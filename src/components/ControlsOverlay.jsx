@@ -10,7 +10,12 @@ export function ControlsOverlay() {
       <div className="text-sm space-y-1">
         <div>WASD / Arrows - Move</div>
         <div>Shift - Run</div>
+        <div>Q - Sprint (uses stamina)</div>
         <div>Space - Jump</div>
+        <div>Space at a ledge - Vault / Climb</div>
+        <div>Hanging - W climb, A / D shimmy, S drop</div>
+        <div>E - Dodge roll</div>
+        <div>C - Crouch</div>
         <div>V - Toggle IK debug</div>
         <div>H - Toggle Debug HUD</div>
         <div>P - Screenshot</div>
@@ -21,6 +26,7 @@ export function ControlsOverlay() {
         <div>Mouse Drag - Orbit Camera</div>
         <div>Shift + Drag / Middle Mouse - Pan</div>
         <div>Mouse Wheel - Zoom</div>
+        <div>Gamepad - Left Stick Move / Right Stick Orbit / A Jump</div>
         <div>Buttons - Reset Location / Reset Camera / Screenshot</div>
       </div>
     </div>
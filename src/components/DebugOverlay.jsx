@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { debugLogger, LOG_CATEGORIES, LOG_LEVELS } from '../utils/index.js';
 import { platform } from '../platform/index.js';
+import { SCULPT_BRUSH_TYPES } from '../terrain/index.js';
+import { TERRAIN_MATERIAL_IDS } from '../config/index.js';
 
 const DEBUG_ITEMS = [
   { key: 'showFootTargets', label: 'Foot Targets' },
@@ -8,7 +10,9 @@ const DEBUG_ITEMS = [
   { key: 'showPlumbLine', label: 'Plumb Line' },
   { key: 'showVelocityArrow', label: 'Velocity Arrow' },
   { key: 'showSupportPolygon', label: 'Support Polygon' },
-  { key: 'showComTrail', label: 'CoM Trail' }
+  { key: 'showComTrail', label: 'CoM Trail' },
+  { key: 'showCapturePoint', label: 'Capture Point & ZMP' },
+  { key: 'showPhysicsDebug', label: 'Physics Colliders & Casts' }
 ];
 
 export function DebugOverlay({
@@ -36,7 +40,23 @@ export function DebugOverlay({
   onToggleTelemetry,
   onTogglePerf,
   onToggleRayTrace,
-  onUpdateCameraSetting
+  onUpdateCameraSetting,
+  replayStatus,
+  onToggleRecording,
+  onSaveRecording,
+  onLoadRecording,
+  onToggleReplay,
+  onImportHeightmap,
+  onExportHeightmap,
+  sculptAvailable,
+  sculptSettings,
+  sculptHistory,
+  onUpdateSculptSetting,
+  onSculptUndo,
+  onSculptRedo,
+  keyBindings,
+  onRebindKey,
+  onResetBindings
 }) {
   const presetOptions = useMemo(() => {
     const builtIn = (posePresets?.builtIn || []).map((preset) => ({
@@ -60,6 +80,7 @@ export function DebugOverlay({
   const [logSettings, setLogSettings] = useState(() => debugLogger.getSettings());
   const [logFilter, setLogFilter] = useState('');
   const [showAllLogs, setShowAllLogs] = useState(false);
+  const [rebindingAction, setRebindingAction] = useState(null);
 
   useEffect(() => {
     if (!presetOptions.find((option) => option.id === selectedPresetId)) {
@@ -67,6 +88,23 @@ export function DebugOverlay({
     }
   }, [presetOptions, selectedPresetId]);
 
+  useEffect(() => {
+    if (!rebindingAction) return undefined;
+
+    // Capture the next key before gameplay and hotkey handlers see it
+    const onKeyDown = (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') {
+        onRebindKey?.(rebindingAction, event.code);
+      }
+      setRebindingAction(null);
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [rebindingAction, onRebindKey]);
+
   useEffect(() => {
     return debugLogger.subscribe((entries, settings) => {
       setLogEntries(entries);
@@ -97,6 +135,20 @@ export function DebugOverlay({
     platform.saveTextFile(`debug-logs-${Date.now()}.json`, content);
   };
 
+  const handleLoadRecordingFile = async (event) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onLoadRecording) return;
+    onLoadRecording(await file.text());
+  };
+
+  const handleImportHeightmapFiles = (event) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0 || !onImportHeightmap) return;
+    onImportHeightmap(files);
+  };
+
   if (!visible) {
     return (
       <button
@@ -268,6 +320,209 @@ export function DebugOverlay({
         </div>
       </div>
 
+      <div className="space-y-2 rounded-md border border-white/10 p-3">
+        <div className="text-xs font-semibold uppercase text-white/60">Input Replay</div>
+        <div className="flex items-center justify-between text-xs text-white/70">
+          <span>Status</span>
+          <span className="text-cyan-300">
+            {replayStatus?.recording
+              ? 'Recording'
+              : replayStatus?.replaying
+                ? 'Replaying'
+                : `${replayStatus?.frames ?? 0} frames`}
+          </span>
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button
+            className="flex-1 rounded bg-white/10 px-2 py-1 disabled:opacity-50"
+            disabled={Boolean(replayStatus?.replaying)}
+            onClick={onToggleRecording}
+            type="button"
+          >
+            {replayStatus?.recording ? 'Stop Recording' : 'Record'}
+          </button>
+          <button
+            className="flex-1 rounded bg-white/10 px-2 py-1 disabled:opacity-50"
+            disabled={!replayStatus?.hasRecording || Boolean(replayStatus?.recording)}
+            onClick={onToggleReplay}
+            type="button"
+          >
+            {replayStatus?.replaying ? 'Stop Replay' : 'Replay'}
+          </button>
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button
+            className="flex-1 rounded bg-white/10 px-2 py-1 disabled:opacity-50"
+            disabled={!replayStatus?.hasRecording}
+            onClick={onSaveRecording}
+            type="button"
+          >
+            Save
+          </button>
+          <label className="flex-1 cursor-pointer rounded bg-white/10 px-2 py-1 text-center">
+            Load
+            <input
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleLoadRecordingFile}
+              type="file"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2 rounded-md border border-white/10 p-3">
+        <div className="text-xs font-semibold uppercase text-white/60">Terrain</div>
+        <div className="text-xs text-white/50">
+          PNG (8/16-bit gray) or RAW (.raw Float32, .r16 Uint16); select the .json sidecar with a RAW file to keep its size.
+        </div>
+        <div className="flex gap-2 text-xs">
+          <label className="flex-1 cursor-pointer rounded bg-white/10 px-2 py-1 text-center">
+            Import Heightmap
+            <input
+              accept="image/png,.png,.raw,.r16,.r32,.json"
+              className="hidden"
+              multiple
+              onChange={handleImportHeightmapFiles}
+              type="file"
+            />
+          </label>
+          <button
+            className="flex-1 rounded bg-white/10 px-2 py-1"
+            onClick={onExportHeightmap}
+            type="button"
+          >
+            Export Heightmap
+          </button>
+        </div>
+
+        {sculptAvailable && (
+          <div className="space-y-2 text-xs">
+            <label className="flex items-center justify-between">
+              <span>Sculpt (left drag)</span>
+              <input
+                checked={Boolean(sculptSettings?.enabled)}
+                className="h-4 w-4 accent-cyan-400"
+                onChange={(event) => onUpdateSculptSetting('enabled', event.target.checked)}
+                type="checkbox"
+              />
+            </label>
+
+            <select
+              className="w-full rounded border border-white/10 bg-black/50 px-2 py-1 text-xs text-white"
+              onChange={(event) => onUpdateSculptSetting('brush', event.target.value)}
+              value={sculptSettings?.brush ?? 'raise'}
+            >
+              {SCULPT_BRUSH_TYPES.map((brush) => (
+                <option key={brush} value={brush}>
+                  {brush[0].toUpperCase() + brush.slice(1)}
+                </option>
+              ))}
+            </select>
+
+            {sculptSettings?.brush === 'paint' && (
+              <select
+                className="w-full rounded border border-white/10 bg-black/50 px-2 py-1 text-xs text-white"
+                onChange={(event) => onUpdateSculptSetting('material', event.target.value)}
+                value={sculptSettings?.material ?? TERRAIN_MATERIAL_IDS[0]}
+              >
+                {TERRAIN_MATERIAL_IDS.map((material) => (
+                  <option key={material} value={material}>
+                    {material[0].toUpperCase() + material.slice(1)}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <label className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span>Brush Radius</span>
+                <span>{sculptSettings?.radius?.toFixed(1)}</span>
+              </div>
+              <input
+                className="w-full"
+                max="20"
+                min="0.5"
+                onChange={(event) => onUpdateSculptSetting('radius', parseFloat(event.target.value))}
+                step="0.5"
+                type="range"
+                value={sculptSettings?.radius ?? 0}
+              />
+            </label>
+
+            <label className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span>Brush Strength</span>
+                <span>{sculptSettings?.strength?.toFixed(1)}</span>
+              </div>
+              <input
+                className="w-full"
+                max="10"
+                min="0.1"
+                onChange={(event) => onUpdateSculptSetting('strength', parseFloat(event.target.value))}
+                step="0.1"
+                type="range"
+                value={sculptSettings?.strength ?? 0}
+              />
+            </label>
+
+            <div className="flex gap-2">
+              <button
+                className="flex-1 rounded bg-white/10 px-2 py-1 disabled:opacity-50"
+                disabled={!sculptHistory?.canUndo}
+                onClick={onSculptUndo}
+                type="button"
+              >
+                Undo Stroke
+              </button>
+              <button
+                className="flex-1 rounded bg-white/10 px-2 py-1 disabled:opacity-50"
+                disabled={!sculptHistory?.canRedo}
+                onClick={onSculptRedo}
+                type="button"
+              >
+                Redo Stroke
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2 rounded-md border border-white/10 p-3">
+        <div className="text-xs font-semibold uppercase text-white/60">Key Bindings</div>
+        <div className="max-h-48 space-y-1 overflow-auto text-xs">
+          {(keyBindings || []).map((binding) => (
+            <div key={binding.action} className="flex items-center justify-between gap-2">
+              <span className={binding.conflicts.length > 0 ? 'text-yellow-300' : 'text-white/80'}>
+                {binding.label}
+              </span>
+              <button
+                className={`min-w-[6rem] rounded px-2 py-0.5 text-right ${
+                  rebindingAction === binding.action ? 'bg-cyan-600 text-black' : 'bg-white/10'
+                }`}
+                onClick={() => setRebindingAction(binding.action)}
+                title={binding.codes.join(', ')}
+                type="button"
+              >
+                {rebindingAction === binding.action ? 'Press a key…' : (binding.codes[0] ?? 'Unbound')}
+              </button>
+            </div>
+          ))}
+        </div>
+        {(keyBindings || []).some((binding) => binding.conflicts.length > 0) && (
+          <div className="text-[11px] text-yellow-300">
+            Conflicts: {Array.from(new Set(keyBindings.flatMap((binding) => binding.conflicts))).join(', ')}
+          </div>
+        )}
+        <button
+          className="w-full rounded border border-white/20 px-2 py-1 text-xs"
+          onClick={onResetBindings}
+          type="button"
+        >
+          Reset Bindings
+        </button>
+      </div>
+
       <div className="space-y-2 rounded-md border border-white/10 p-3">
         <div className="text-xs font-semibold uppercase text-white/60">Camera</div>
         <div className="space-y-3 text-xs">
@@ -3,7 +3,15 @@ import React from 'react';
 /**
  * Quick action buttons for common controls
  */
-export function QuickActions({ onResetPosition, onResetCamera, onScreenshot }) {
+export function QuickActions({
+  onResetPosition,
+  onResetCamera,
+  onScreenshot,
+  onSpawnBody,
+  spawnAvailable = true,
+  pushToolEnabled = false,
+  onTogglePushTool
+}) {
   return (
     <div className="absolute bottom-4 right-4 z-20 flex flex-col gap-2 rounded-lg bg-black/70 p-3 text-xs text-white shadow-lg">
       <button
@@ -27,6 +35,24 @@ export function QuickActions({ onResetPosition, onResetCamera, onScreenshot }) {
       >
         Screenshot <span className="text-white/60">(P)</span>
       </button>
+      <button
+        className="rounded border border-white/20 px-2 py-1 text-left hover:border-white/40 disabled:opacity-40"
+        disabled={!spawnAvailable}
+        onClick={onSpawnBody}
+        title={spawnAvailable ? 'Drop a box, sphere or capsule at the cursor' : 'Requires Rapier physics'}
+        type="button"
+      >
+        Spawn Body <span className="text-white/60">(B)</span>
+      </button>
+      <button
+        aria-pressed={pushToolEnabled}
+        className={`rounded border px-2 py-1 text-left ${pushToolEnabled ? 'border-orange-400 text-orange-300' : 'border-white/20 hover:border-white/40'}`}
+        onClick={onTogglePushTool}
+        title="Click to push the character away from the cursor (Alt+click knocks it over)"
+        type="button"
+      >
+        Push Tool {pushToolEnabled ? 'On' : 'Off'}
+      </button>
     </div>
   );
 }
@@ -6,8 +6,10 @@ import React from 'react';
  * @param {object} props.stats
  * @param {object} [props.com]
  * @param {object} [props.perf]
+ * @param {object} [props.terrain] - Terrain LOD stats ({ levels, totalTriangles })
+ * @param {object} [props.physics] - Physics stats ({ dynamicBodies, activeBodies, stepTimeMs })
  */
-export function TelemetryPanel({ stats, com, perf, pose, onSelectPoseJoint }) {
+export function TelemetryPanel({ stats, com, perf, terrain, physics, pose, onSelectPoseJoint }) {
   const formatValue = (value, digits = 2) => {
     if (typeof value === 'number') {
       return value.toFixed(digits);
@@ -56,6 +58,12 @@ export function TelemetryPanel({ stats, com, perf, pose, onSelectPoseJoint }) {
           <span className="text-gray-400">Slope:</span>
           <span className="text-orange-400">{formatValue(stats.slopeAngle, 1)}°</span>
         </div>
+        {stats.surface && (
+          <div className="flex justify-between">
+            <span className="text-gray-400">Surface:</span>
+            <span className="text-yellow-300">{stats.surface}</span>
+          </div>
+        )}
         {stats.input && (
           <div className="flex justify-between">
             <span className="text-gray-400">Input:</span>
@@ -86,6 +94,28 @@ export function TelemetryPanel({ stats, com, perf, pose, onSelectPoseJoint }) {
             <span className="text-blue-300">{formatValue(stats.directionDot, 2)}</span>
           </div>
         )}
+        {typeof stats.stamina === 'number' && (
+          <>
+            <div className="border-t border-gray-600 my-2"></div>
+            <div className="text-gray-300 font-semibold">Abilities</div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Stamina:</span>
+              <span className={stats.stamina < (stats.staminaMax ?? 100) * 0.25 ? 'text-red-400' : 'text-green-400'}>
+                {formatValue(stats.stamina, 0)} / {formatValue(stats.staminaMax, 0)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Ability:</span>
+              <span className="text-cyan-300">{stats.ability ?? 'none'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Dodge CD:</span>
+              <span className={stats.dodgeCooldown > 0 ? 'text-yellow-400' : 'text-green-400'}>
+                {stats.dodgeCooldown > 0 ? `${formatValue(stats.dodgeCooldown, 1)} s` : 'ready'}
+              </span>
+            </div>
+          </>
+        )}
         {stats.leftFoot && (
           <>
             <div className="border-t border-gray-600 my-2"></div>
@@ -128,6 +158,46 @@ export function TelemetryPanel({ stats, com, perf, pose, onSelectPoseJoint }) {
               <span className="text-gray-400">Margin:</span>
               <span className="text-cyan-200">{formatValue(com.stabilityMargin, 3)} m</span>
             </div>
+            {com.captureMargin !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Capture Margin:</span>
+                <span className={Number(com.captureMargin) >= 0 ? 'text-cyan-200' : 'text-red-400'}>
+                  {formatValue(com.captureMargin, 3)} m
+                </span>
+              </div>
+            )}
+          </>
+        )}
+        {terrain?.levels?.length > 0 && (
+          <>
+            <div className="border-t border-gray-600 my-2"></div>
+            <div className="text-gray-300 font-semibold">Terrain LOD</div>
+            {terrain.levels.map((level) => (
+              <div key={level.level} className="flex justify-between">
+                <span className="text-gray-400">L{level.level}:</span>
+                <span className="text-green-300">
+                  {level.tiles} tiles / {level.triangles.toLocaleString()} tris
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-gray-400">Total:</span>
+              <span className="text-cyan-300">{terrain.totalTriangles.toLocaleString()} tris</span>
+            </div>
+          </>
+        )}
+        {physics && (
+          <>
+            <div className="border-t border-gray-600 my-2"></div>
+            <div className="text-gray-300 font-semibold">Physics</div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Bodies:</span>
+              <span className="text-green-300">{physics.activeBodies} active / {physics.dynamicBodies}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Step:</span>
+              <span className="text-yellow-300">{formatValue(physics.stepTimeMs, 2)} ms</span>
+            </div>
           </>
         )}
         {perf && (
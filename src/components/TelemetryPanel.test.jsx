@@ -40,4 +40,78 @@ describe('components/TelemetryPanel', () => {
 
     expect(screen.queryByText('Foot IK')).toBeNull()
   })
+
+  it('reports terrain LOD triangle counts per level', () => {
+    render(
+      <TelemetryPanel
+        stats={{ speed: '0.0', state: 'idle', position: { x: '0.0', z: '0.0' }, grounded: true, slopeAngle: '0' }}
+        terrain={{
+          levels: [
+            { level: 0, tiles: 3, triangles: 1536 },
+            { level: 2, tiles: 4, triangles: 2048 }
+          ],
+          totalTriangles: 3584
+        }}
+      />
+    )
+
+    expect(screen.getByText('Terrain LOD')).toBeInTheDocument()
+    expect(screen.getByText('L2:')).toBeInTheDocument()
+    expect(screen.getByText(`4 tiles / ${(2048).toLocaleString()} tris`)).toBeInTheDocument()
+    expect(screen.getByText(`${(3584).toLocaleString()} tris`)).toBeInTheDocument()
+  })
+
+  it('reports dynamic body counts and step time', () => {
+    render(
+      <TelemetryPanel
+        stats={{ speed: '0.0', state: 'idle', position: { x: '0.0', z: '0.0' }, grounded: true, slopeAngle: '0' }}
+        physics={{ dynamicBodies: 5, activeBodies: 2, stepTimeMs: 0.75 }}
+      />
+    )
+
+    expect(screen.getByText('Physics')).toBeInTheDocument()
+    expect(screen.getByText('2 active / 5')).toBeInTheDocument()
+    expect(screen.getByText('0.75 ms')).toBeInTheDocument()
+  })
+
+  it('shows stamina and the active ability', () => {
+    render(
+      <TelemetryPanel
+        stats={{
+          speed: '0.0',
+          state: 'sprinting',
+          position: { x: '0.0', z: '0.0' },
+          grounded: true,
+          slopeAngle: '0',
+          stamina: 62.4,
+          staminaMax: 100,
+          ability: 'sprint',
+          dodgeCooldown: 0.35
+        }}
+      />
+    )
+
+    expect(screen.getByText('Abilities')).toBeInTheDocument()
+    expect(screen.getByText('62 / 100')).toBeInTheDocument()
+    expect(screen.getByText('sprint')).toBeInTheDocument()
+    expect(screen.getByText('0.3 s')).toBeInTheDocument()
+  })
+
+  it('reports the capture point margin with the center of mass', () => {
+    render(
+      <TelemetryPanel
+        stats={{ speed: '0.0', state: 'idle', position: { x: '0.0', z: '0.0' }, grounded: true, slopeAngle: '0' }}
+        com={{
+          position: { x: '0.000', y: '2.500', z: '0.000' },
+          speed: '0.40',
+          stabilityMargin: '0.120',
+          stabilityLevel: 'stable',
+          captureMargin: '-0.050'
+        }}
+      />
+    )
+
+    expect(screen.getByText('Capture Margin:')).toBeInTheDocument()
+    expect(screen.getByText('-0.050 m')).toHaveClass('text-red-400')
+  })
 })
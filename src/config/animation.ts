@@ -13,11 +13,15 @@ export const ANIMATION: AnimationConfig = {
   RUN_STRIDE_LENGTH: 3.6,
   WALK_STRIDE_HEIGHT: 0.12,
   RUN_STRIDE_HEIGHT: 0.28,
+  CROUCH_STRIDE_LENGTH: 1.6,
+  CROUCH_STRIDE_HEIGHT: 0.1,
 
   // IK
   IK_BLEND_SPEED: 8.0,
   FOOT_PLANT_TOLERANCE: 0.1,
   PELVIS_DROP_MAX: 0.4,
+  CROUCH_PELVIS_DROP: 1.2,   // Pelvis lowering at full crouch
+  CROUCH_BLEND_SPEED: 8,     // Crouch in/out rate (1/s)
 
   // Leg dimensions
   UPPER_LEG_LENGTH: 1.5,
@@ -26,11 +30,23 @@ export const ANIMATION: AnimationConfig = {
   // Arm swing - increased for more visible motion
   ARM_SWING_WALK: 0.6,
   ARM_SWING_RUN: 1.0,
+  ARM_SWING_CROUCH: 0.3,
+  ARM_SWING_SPRINT: 1.4,
   ELBOW_BEND_BASE: 0.15,
 
   // Torso - increased for natural body motion
   TORSO_LEAN_WALK: 0.05,
   TORSO_LEAN_RUN: 0.12,
+  TORSO_LEAN_CROUCH: 0.35,
+  TORSO_LEAN_SPRINT: 0.28,
+  TORSO_LEAN_DODGE: 1.1,    // Tucked into the roll
+  TORSO_LEAN_SLIDE: -0.2,   // Leaning back against the slope
+  TORSO_LEAN_HANG: 0.1,
+  TORSO_LEAN_CLIMB: 0.5,    // Chest over the ledge while pulling up
+  TORSO_LEAN_VAULT: 0.6,
+  TORSO_LEAN_SWIM: 1.2,     // Near horizontal while stroking
+  TORSO_LEAN_TREAD: 0.1,
+  TORSO_LEAN_GET_UP: 0.7,   // Hunched over while pushing up off the ground
   TORSO_LEAN_JUMP: -0.15,
   TORSO_LEAN_FALL: 0.1,
   TORSO_TWIST_AMOUNT: 0.1,
@@ -45,6 +61,21 @@ export const ANIMATION: AnimationConfig = {
   BREATHE_SPEED: 2,
   BREATHE_AMPLITUDE: 0.02,
 
+  // Swimming (stroke cycle replaces the walk arm swing)
+  SWIM_STROKE_SPEED: 5,     // rad/s
+  SWIM_STROKE_AMOUNT: 1.1,
+  SWIM_KICK_SPEED: 9,
+  SWIM_KICK_AMOUNT: 0.35,
+
+  // Getting up (fraction of the get-up spent blending out of the ragdoll pose)
+  GET_UP_BLEND: 0.4,
+
+  // Stagger flinch (at full push strength; scaled by how hard the push was)
+  FLINCH_LEAN: 0.5,         // Torso thrown along the push
+  FLINCH_SIDE_LEAN: 0.3,
+  FLINCH_ARM_RAISE: 1.1,    // Arms flung forward to catch balance
+  FLINCH_ELBOW_BEND: 0.7,
+
   // Landing
   LANDING_IMPACT: 0.15
 };
@@ -11,6 +11,8 @@ export const CHARACTER: CharacterConfig = {
   // Human walk: 1.4 m/s, Human jog: 4 m/s
   WALK_SPEED: 4.5,
   RUN_SPEED: 8,
+  CROUCH_SPEED: 2.2,
+  ANALOG_WALK_MAGNITUDE: 0.6, // Stick deflection reaching full walk speed; beyond blends to run
 
   // Acceleration - responsive but natural feeling
   GROUND_ACCEL: 25,   // Quick acceleration for responsive controls
@@ -28,6 +30,15 @@ export const CHARACTER: CharacterConfig = {
   // Jumping & Gravity
   JUMP_VELOCITY: 12,
   GRAVITY: 25,
+  COYOTE_TIME: 0.12,          // seconds after walking off a ledge that a jump still counts as grounded
+  JUMP_BUFFER_TIME: 0.12,     // seconds a jump press stays valid before landing
+  JUMP_CUT_MULTIPLIER: 0.5,   // Upward velocity kept when jump is released early
+  AIR_JUMPS: 1,               // Extra jumps in the air (0 disables double jump)
+  AIR_JUMP_VELOCITY: 10,
+
+  // Ground state hysteresis (seconds of consistent contact before switching)
+  GROUNDED_DEBOUNCE_TIME: 0.015,  // ~1 frame at 60 Hz
+  AIRBORNE_DEBOUNCE_TIME: 0.06,   // ~4 frames at 60 Hz
 
   // Ground detection
   SKIN_WIDTH: 0.1,
@@ -38,10 +49,72 @@ export const CHARACTER: CharacterConfig = {
   // Collider
   CAPSULE_RADIUS: 0.35,
   CAPSULE_HEIGHT: 5.2,
+  CROUCH_CAPSULE_HEIGHT: 4.0, // Standing back up needs CAPSULE_HEIGHT of headroom
 
   // Landing
   LANDING_DURATION: 0.15,
 
+  // Pushing dynamic bodies
+  MASS: 80,            // kg - caps the momentum transferred on contact
+  PUSH_STRENGTH: 0.5,  // Fraction of the closing velocity handed to pushed bodies
+
+  // Abilities
+  STAMINA_MAX: 100,
+  STAMINA_REGEN: 25,          // per second
+  STAMINA_REGEN_DELAY: 0.8,   // seconds after spending before regen resumes
+  SPRINT_SPEED: 11,
+  SPRINT_STAMINA_DRAIN: 20,   // per second
+  SPRINT_MIN_STAMINA: 20,     // needed to start (or restart after exhaustion)
+  DODGE_SPEED: 14,            // Burst speed at the start of the roll
+  DODGE_DURATION: 0.4,
+  DODGE_COOLDOWN: 0.6,
+  DODGE_STAMINA_COST: 25,
+  SLIDE_FRICTION: 3,          // m/s² along the slope while sliding
+  SLIDE_STEER_ACCEL: 6,       // Sideways control while sliding
+  SLIDE_EXIT_ANGLE: 40,       // degrees - sliding continues until the slope eases below this
+
+  // Ledges & vaulting (heights are above the feet)
+  LEDGE_PROBE_DISTANCE: 1.2,      // Forward reach of the wall probes past the capsule
+  LEDGE_LOW_PROBE_HEIGHT: 0.6,
+  LEDGE_HIGH_PROBE_HEIGHT: 4.5,
+  LEDGE_TOP_INSET: 0.3,           // How far past the wall face the top is sampled
+  LEDGE_GRAB_MIN_HEIGHT: 5.0,     // Lower ledges are mantled instead of hung from
+  LEDGE_GRAB_MAX_HEIGHT: 7.5,
+  LEDGE_HANG_OFFSET: 7.2,         // Ledge top to feet while hanging (arms overhead)
+  LEDGE_WALL_GAP: 0.1,
+  LEDGE_SHIMMY_SPEED: 1.5,
+  LEDGE_SHIMMY_MAX_STEP: 0.5,     // Largest ledge height change followed while shimmying
+  LEDGE_REGRAB_DELAY: 0.4,        // seconds after letting go before grabbing again
+  CLIMB_UP_DURATION: 0.8,
+  VAULT_MIN_HEIGHT: 0.7,          // Lower obstacles are stepped or walked over
+  VAULT_MAX_HEIGHT: 2.5,
+  VAULT_MAX_DEPTH: 1.5,           // Thicker obstacles are mantled instead
+  VAULT_DURATION: 0.5,
+  VAULT_CLEARANCE: 0.3,           // Feet clear the obstacle top by this much
+
+  // Swimming (depths are water surface above the feet)
+  SWIM_SPEED: 3.5,
+  SWIM_ACCEL: 8,
+  SWIM_ENTER_DEPTH: 3.8,      // Chest deep
+  SWIM_EXIT_DEPTH: 3.2,       // Standing again once this shallow with ground underfoot
+  SWIM_FLOAT_DEPTH: 4.6,      // Buoyancy balances gravity here (head above water)
+  SWIM_MAX_BUOYANCY: 2,       // × gravity when fully under
+  WATER_DRAG: 2.5,            // Velocity damping per second in water
+  SWIM_JUMP_VELOCITY: 9,      // Hop out from the surface
+
+  // Ragdoll and get-up
+  FALL_DAMAGE_HEIGHT: 15,     // Landing after a longer drop knocks the character down
+  RAGDOLL_MIN_TIME: 1.0,      // seconds limp before getting up
+  RAGDOLL_MAX_TIME: 6,        // Gets up even if the body never comes to rest
+  RAGDOLL_SETTLE_SPEED: 0.6,  // Every segment slower than this counts as at rest
+  GET_UP_DURATION: 1.2,
+
+  // External pushes (thresholds on the velocity change, impulse / MASS)
+  PUSH_STAGGER_SPEED: 1.5,    // Harder pushes stagger (input ignored, forced step)
+  PUSH_KNOCKDOWN_SPEED: 8,    // Harder pushes knock the character over
+  STAGGER_DURATION: 0.8,      // seconds at knockdown strength (scaled down for softer pushes)
+  STAGGER_DECEL: 6,           // Ground deceleration while staggering (× surface friction)
+
   // Bounds
   WORLD_BOUNDS: 45,
 
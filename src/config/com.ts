@@ -55,6 +55,30 @@ export const COM: CoMConfig = {
     LINE_WIDTH: 2,
     COLOR_STABLE: 0x00ffff,   // Cyan when stable
     COLOR_UNSTABLE: 0xff0000  // Red when unstable
+  },
+
+  // Balance controller (corrections scale with CHARACTER.COM_BALANCE_INFLUENCE)
+  BALANCE: {
+    MAX_LEAN: 0.35,               // Radians of corrective torso lean
+    MAX_SIDE_LEAN: 0.15,          // Radians of corrective hip tilt
+    ARM_COUNTERBALANCE: 2.5,      // Arm swing (rad) per meter of CoM offset
+    RESPONSE: 8,                  // 1/s, how fast corrections follow the CoM
+    RECOVERY_DELAY: 0.15,         // Seconds outside the support polygon before stepping
+    RECOVERY_STEP_MARGIN: 0.2,    // Meters the step lands past the CoM projection
+    RECOVERY_STEP_MAX: 1.2,       // Longest recovery step
+    RECOVERY_STEP_DURATION: 0.25,
+    RECOVERY_STEP_HEIGHT: 0.25,
+    SETTLE_DELAY: 1.0,            // Seconds in a braced stance before stepping back under the hips
+    SETTLE_TOLERANCE: 0.1         // Feet this close to their hips don't need a settle step
+  },
+
+  // Capture point and ZMP (linear inverted pendulum on the leg length)
+  CAPTURE_POINT: {
+    ACCEL_SMOOTHING: 0.2,         // EMA weight of the newest CoM acceleration sample
+    MIN_SUPPORT_ACCEL: 2.5,       // Floor on gravity + vertical acceleration in the ZMP estimate
+    MARKER_SIZE: 0.15,
+    CAPTURE_COLOR: 0x00ffff,      // Capture point over the support polygon
+    ZMP_COLOR: 0xff00ff
   }
 };
 
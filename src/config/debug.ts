@@ -11,6 +11,8 @@ export const DEBUG: DebugConfig = {
   SHOW_COM_TRAIL: false,
   SHOW_SKELETON_JOINTS: false,
   SHOW_GROUND_CONTACT: false,
+  SHOW_PHYSICS_DEBUG: false,
+  SHOW_CAPTURE_POINT: false,
 
   // Marker sizes
   FOOT_MARKER_SIZE: 0.15,
@@ -21,8 +23,25 @@ export const DEBUG: DebugConfig = {
   COM_COLOR: 0xff0000,
   PLUMB_COLOR: 0xffff00,
   VELOCITY_COLOR: 0x00ff00,
+  PUSH_COLOR: 0xff8000,
   STANCE_COLOR: 0x00ff00,
-  SWING_COLOR: 0xff00ff
+  SWING_COLOR: 0xff00ff,
+
+  // Physics debug rendering (colliders, character capsule, recent casts)
+  PHYSICS_QUERY_HISTORY: 32,      // Casts kept on screen
+  PHYSICS_QUERY_FADE_TIME: 1.5,   // s until a cast disappears
+  PHYSICS_NORMAL_LENGTH: 0.4,
+  PHYSICS_CAPSULE_COLOR: 0x40a0ff,
+  PHYSICS_RAY_COLOR: 0x00ffff,
+  PHYSICS_HIT_COLOR: 0xff4040,
+  PHYSICS_NORMAL_COLOR: 0xffff00,
+
+  // Push tool (click to push the character away from the cursor, Alt for a
+  // knockdown-strength push)
+  PUSH_IMPULSE: 400,              // N·s
+  PUSH_STRONG_IMPULSE: 800,
+  PUSH_ARROW_TIME: 1.0,           // s the push vector stays on screen
+  PUSH_ARROW_SCALE: 0.2           // Arrow length per m/s of velocity change
 };
 
 export default DEBUG;
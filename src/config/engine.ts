@@ -0,0 +1,11 @@
+import type { EngineConfig } from '../types/index.js';
+
+// Simulation loop parameters
+export const ENGINE: EngineConfig = {
+  FIXED_TIMESTEP: true,
+  STEP_RATE: 60,
+  MAX_SUBSTEPS: 5,
+  MAX_DELTA_TIME: 0.1
+};
+
+export default ENGINE;
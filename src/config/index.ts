@@ -1,8 +1,11 @@
 export { CHARACTER } from './character.js';
 export { ANIMATION } from './animation.js';
-export { TERRAIN } from './terrain.js';
+export { TERRAIN, TERRAIN_MATERIAL_IDS, TERRAIN_MATERIALS } from './terrain.js';
 export { CAMERA } from './camera.js';
 export { DEBUG } from './debug.js';
 export { COM } from './com.js';
 export { LOGGING } from './logging.js';
 export { RENDER } from './render.js';
+export { ENGINE } from './engine.js';
+export { INPUT } from './input.js';
+export { WORLD } from './world.js';
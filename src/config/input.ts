@@ -0,0 +1,12 @@
+import type { InputConfig } from '../types/index.js';
+
+// Input device parameters
+export const INPUT: InputConfig = {
+  // Gamepad
+  GAMEPAD_DEADZONE: 0.15,
+  GAMEPAD_LOOK_SPEED_X: 2.5,  // rad/s at full right-stick deflection
+  GAMEPAD_LOOK_SPEED_Y: 1.5,
+  GAMEPAD_INVERT_Y: false
+};
+
+export default INPUT;
@@ -1,4 +1,4 @@
-import type { TerrainConfig } from '../types/index.js';
+import type { TerrainConfig, TerrainMaterialConfig, TerrainMaterialId } from '../types/index.js';
 
 // Terrain parameters
 export const TERRAIN: TerrainConfig = {
@@ -12,6 +12,47 @@ export const TERRAIN: TerrainConfig = {
   NOISE_SCALE_2: 0.1,
   NOISE_SCALE_3: 0.02,
 
+  // Generator: 'sine' (NOISE_SCALE_*), 'fbm', 'ridged', or 'warped'
+  GENERATOR: 'sine',
+  SEED: 1337,
+  NOISE_BASIS: 'simplex',
+  NOISE_FREQUENCY: 0.02,
+  NOISE_OCTAVES: 5,
+  NOISE_LACUNARITY: 2,
+  NOISE_GAIN: 0.5,
+  WARP_FREQUENCY: 0.01,
+  WARP_STRENGTH: 12,
+
+  // Heightmap import: height in meters of a full-white PNG / max uint16 sample
+  IMPORT_HEIGHT_SCALE: 10,
+
+  // Streaming: tiles generated around the character instead of one SIZE plane
+  // (power-of-two size/segments keep shared chunk edges bit-identical)
+  STREAMING: false,
+  CHUNK_SIZE: 64,
+  CHUNK_SEGMENTS: 32,
+  CHUNK_LOAD_RADIUS: 2,    // Chunks kept loaded around the character (Chebyshev distance)
+  CHUNK_UNLOAD_RADIUS: 3,  // Chunks beyond this are unloaded (hysteresis vs load radius)
+  CHUNK_BUILDS_PER_FRAME: 2,
+
+  // Level of detail (visual only - physics always uses full resolution)
+  LOD_ENABLED: true,
+  LOD_TILE_RESOLUTION: 16,  // Quads per tile side at every level
+  LOD_SPLIT_DISTANCE: 1.5,  // Split a tile when the camera is closer than this × tile size
+  LOD_SKIRT_DEPTH: 0.5,     // Minimum skirt drop (m) hiding cracks between levels
+
+  // Sculpting brushes
+  SCULPT_RADIUS: 4,             // meters
+  SCULPT_STRENGTH: 2,           // m/s for raise/lower/noise, blend rate for smooth/flatten
+  SCULPT_NOISE_FREQUENCY: 0.5,
+  SCULPT_MAX_UNDO: 32,          // strokes
+  SCULPT_PHYSICS_INTERVAL: 0.1, // seconds between collider rebuilds while a stroke is active
+
+  // Surface materials (generated splat: rock on steep slopes, default elsewhere)
+  DEFAULT_MATERIAL: 'grass',
+  SPLAT_ROCK_SLOPE: 35,   // degrees
+  SPLAT_BLEND_RANGE: 10,  // degrees over which grass blends into rock
+
   // Visual
   COLOR: 0x3a5f3a,
   ROUGHNESS: 0.8,
@@ -23,4 +64,16 @@ export const TERRAIN: TerrainConfig = {
   GRID_COLOR_LINES: 0x444444
 };
 
+// Splat channel order (one weight per material per heightmap vertex)
+export const TERRAIN_MATERIAL_IDS: readonly TerrainMaterialId[] = ['grass', 'rock', 'mud', 'ice', 'sand'];
+
+// Per-material surface properties
+export const TERRAIN_MATERIALS: Record<TerrainMaterialId, TerrainMaterialConfig> = {
+  grass: { COLOR: TERRAIN.COLOR, FRICTION: 1.0, SINK_DEPTH: 0.01 },
+  rock: { COLOR: 0x6b6661, FRICTION: 1.1, SINK_DEPTH: 0 },
+  mud: { COLOR: 0x4a3826, FRICTION: 0.6, SINK_DEPTH: 0.08 },
+  ice: { COLOR: 0xcfe6f2, FRICTION: 0.15, SINK_DEPTH: 0 },
+  sand: { COLOR: 0xc8b27a, FRICTION: 0.75, SINK_DEPTH: 0.04 }
+};
+
 export default TERRAIN;
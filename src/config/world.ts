@@ -0,0 +1,37 @@
+import type { WorldConfig } from '../types/index.js';
+
+// Static world objects
+export const WORLD: WorldConfig = {
+  // Obstacle course placed beside the spawn point
+  TEST_COURSE_ENABLED: true,
+  TEST_COURSE_ORIGIN_X: 8,
+  TEST_COURSE_ORIGIN_Z: 0,
+
+  // Staircase generator defaults
+  STAIR_STEP_HEIGHT: 0.2,  // Below CHARACTER.STEP_OFFSET so autostep climbs it
+  STAIR_STEP_DEPTH: 0.4,
+
+  // Visual
+  OBSTACLE_COLOR: 0x8a8f99,
+  OBSTACLE_ROUGHNESS: 0.7,
+
+  // Dynamic bodies (spawned props the character can push)
+  DYNAMIC_BODY_LIMIT: 32,     // Oldest body is removed past this count
+  DYNAMIC_BODY_MASS: 20,      // kg
+  DYNAMIC_BODY_SIZE: 0.5,     // Half extent / radius
+  DYNAMIC_SPAWN_HEIGHT: 3,    // Drop height above the cursor hit
+  DYNAMIC_KILL_Y: -50,        // Bodies falling below this are removed
+  DYNAMIC_BODY_COLOR: 0xc07a3a,
+
+  // Water (global plane floods terrain below WATER_LEVEL; pools are boxes)
+  WATER_ENABLED: true,
+  WATER_LEVEL: -1,
+  WATER_COLOR: 0x2a7fb8,
+  WATER_OPACITY: 0.55,
+  WATER_PLANE_SIZE: 1000,
+  UNDERWATER_FOG_COLOR: 0x1d4e6b,
+  UNDERWATER_FOG_NEAR: 1,
+  UNDERWATER_FOG_FAR: 30
+};
+
+export default WORLD;
@@ -61,4 +61,45 @@ describe('core/Engine', () => {
     expect(engine.isRunning).toBe(false)
     expect(caf).toHaveBeenCalledWith(123)
   })
+
+  it('runs constant-size substeps in fixed timestep mode', () => {
+    globalThis.requestAnimationFrame = vi.fn()
+
+    const engine = new Engine()
+    engine.setFixedTimestep(true, 50, 10)
+
+    const update = vi.fn()
+    const render = vi.fn()
+    engine.addSystem({ update })
+    engine.setRenderCallback(render)
+    engine.isRunning = true
+    engine.lastTime = 0
+
+    engine.loop(50)
+
+    expect(update).toHaveBeenCalledTimes(2)
+    for (const call of update.mock.calls) {
+      expect(call[0]).toBeCloseTo(0.02, 6)
+    }
+    expect(render).toHaveBeenCalledTimes(1)
+    expect(render.mock.calls[0][0]).toBeCloseTo(0.5, 5)
+    expect(engine.getTiming().substeps).toBe(2)
+  })
+
+  it('caps substeps and drops unsimulated time', () => {
+    globalThis.requestAnimationFrame = vi.fn()
+
+    const engine = new Engine()
+    engine.setFixedTimestep(true, 100, 3)
+
+    const update = vi.fn()
+    engine.addSystem({ update })
+    engine.isRunning = true
+    engine.lastTime = 0
+
+    engine.loop(100)
+
+    expect(update).toHaveBeenCalledTimes(3)
+    expect(engine.accumulator).toBeLessThan(engine.fixedDeltaTime)
+  })
 })
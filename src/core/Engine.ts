@@ -1,3 +1,5 @@
+import { ENGINE } from '../config/index.js';
+
 /**
  * Interface for systems that can be updated by the engine
  */
@@ -5,13 +7,19 @@ export interface Updateable {
   update(deltaTime: number, elapsedTime: number): void;
 }
 
+/**
+ * Render callback - receives the interpolation alpha between the previous
+ * and current simulation step (always 1 in variable-step mode)
+ */
+export type RenderCallback = (alpha: number) => void;
+
 /**
  * Game engine - owns the update loop
  * Manages timing and calls update/render on systems
  */
 export class Engine {
   systems: Updateable[];
-  renderCallback: (() => void) | null;
+  renderCallback: RenderCallback | null;
 
   isRunning: boolean;
   isPaused: boolean;
@@ -23,6 +31,14 @@ export class Engine {
   deltaTime: number;
   maxDeltaTime: number;
 
+  // Fixed timestep
+  fixedTimestep: boolean;
+  fixedDeltaTime: number;
+  maxSubsteps: number;
+  accumulator: number;
+  interpolationAlpha: number;
+  substepsLastFrame: number;
+
   constructor() {
     this.systems = [];
     this.renderCallback = null;
@@ -35,7 +51,15 @@ export class Engine {
     this.lastTime = 0;
     this.elapsedTime = 0;
     this.deltaTime = 0;
-    this.maxDeltaTime = 0.1; // Cap to prevent spiral of death
+    this.maxDeltaTime = ENGINE.MAX_DELTA_TIME; // Cap to prevent spiral of death
+
+    // Fixed timestep (disabled until setFixedTimestep is called)
+    this.fixedTimestep = false;
+    this.fixedDeltaTime = 1 / ENGINE.STEP_RATE;
+    this.maxSubsteps = ENGINE.MAX_SUBSTEPS;
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
+    this.substepsLastFrame = 0;
 
     // Bind loop
     this.loop = this.loop.bind(this);
@@ -61,10 +85,25 @@ export class Engine {
   /**
    * Set render callback
    */
-  setRenderCallback(callback: () => void): void {
+  setRenderCallback(callback: RenderCallback): void {
     this.renderCallback = callback;
   }
 
+  /**
+   * Enable or disable accumulator-based fixed-step updates
+   */
+  setFixedTimestep(
+    enabled: boolean,
+    stepRate: number = ENGINE.STEP_RATE,
+    maxSubsteps: number = ENGINE.MAX_SUBSTEPS
+  ): void {
+    this.fixedTimestep = enabled;
+    this.fixedDeltaTime = 1 / Math.max(1, stepRate);
+    this.maxSubsteps = Math.max(1, Math.floor(maxSubsteps));
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
+  }
+
   /**
    * Start the engine
    */
@@ -102,6 +141,7 @@ export class Engine {
     if (this.isPaused) {
       this.isPaused = false;
       this.lastTime = performance.now();
+      this.accumulator = 0;
     }
   }
 
@@ -122,29 +162,73 @@ export class Engine {
     this.lastTime = currentTime;
 
     if (!this.isPaused) {
-      this.elapsedTime += this.deltaTime;
-
-      // Update all systems
-      for (const system of this.systems) {
-        if (system.update) {
-          system.update(this.deltaTime, this.elapsedTime);
-        }
+      if (this.fixedTimestep) {
+        this.stepFixed(this.deltaTime);
+      } else {
+        this.elapsedTime += this.deltaTime;
+        this.updateSystems(this.deltaTime);
+        this.substepsLastFrame = 1;
+        this.interpolationAlpha = 1;
       }
     }
 
     // Always render
     if (this.renderCallback) {
-      this.renderCallback();
+      this.renderCallback(this.interpolationAlpha);
+    }
+  }
+
+  /**
+   * Consume accumulated frame time in constant-size steps
+   */
+  private stepFixed(frameTime: number): void {
+    const step = this.fixedDeltaTime;
+    this.accumulator += frameTime;
+
+    let substeps = 0;
+    while (this.accumulator >= step && substeps < this.maxSubsteps) {
+      this.elapsedTime += step;
+      this.updateSystems(step);
+      this.accumulator -= step;
+      substeps++;
+    }
+
+    // Drop time we could not simulate instead of spiralling
+    if (this.accumulator >= step) {
+      this.accumulator = this.accumulator % step;
+    }
+
+    this.substepsLastFrame = substeps;
+    this.interpolationAlpha = this.accumulator / step;
+  }
+
+  /**
+   * Update all registered systems
+   */
+  private updateSystems(deltaTime: number): void {
+    for (const system of this.systems) {
+      if (system.update) {
+        system.update(deltaTime, this.elapsedTime);
+      }
     }
   }
 
   /**
    * Get current timing info
    */
-  getTiming(): { deltaTime: number; elapsedTime: number } {
+  getTiming(): {
+    deltaTime: number;
+    elapsedTime: number;
+    fixedDeltaTime: number | null;
+    alpha: number;
+    substeps: number;
+  } {
     return {
       deltaTime: this.deltaTime,
-      elapsedTime: this.elapsedTime
+      elapsedTime: this.elapsedTime,
+      fixedDeltaTime: this.fixedTimestep ? this.fixedDeltaTime : null,
+      alpha: this.interpolationAlpha,
+      substeps: this.substepsLastFrame
     };
   }
 }
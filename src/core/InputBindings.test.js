@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { InputBindings, DEFAULT_BINDINGS, BINDINGS_STORAGE_KEY } from './InputBindings.js'
+import { InputManager } from './InputManager.js'
+
+const createStorage = () => {
+  const data = new Map()
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => data.set(key, value)
+  }
+}
+
+describe('core/InputBindings', () => {
+  it('starts from defaults without conflicts', () => {
+    const bindings = new InputBindings(null)
+
+    expect(bindings.get('jump')).toEqual(DEFAULT_BINDINGS.jump)
+    expect(bindings.getActionsForCode('KeyH')).toEqual(['toggleHud'])
+    expect(bindings.findConflicts()).toEqual([])
+  })
+
+  it('rebinds the primary slot and reports conflicts', () => {
+    const bindings = new InputBindings(null)
+
+    const conflict = bindings.rebind('jump', 'KeyH')
+
+    expect(bindings.get('jump')[0]).toBe('KeyH')
+    expect(bindings.get('jump')).toContain('GamepadA')
+    expect(conflict).toEqual({ code: 'KeyH', actions: ['jump', 'toggleHud'] })
+    expect(bindings.rebind('toggleHud', 'KeyJ')).toBeNull()
+    expect(bindings.findConflicts()).toEqual([])
+  })
+
+  it('persists, reloads, and resets bindings', () => {
+    const storage = createStorage()
+    const bindings = new InputBindings(storage)
+    bindings.rebind('screenshot', 'F2')
+
+    expect(JSON.parse(storage.getItem(BINDINGS_STORAGE_KEY)).screenshot).toEqual(['F2'])
+
+    const reloaded = new InputBindings(storage)
+    reloaded.load()
+    expect(reloaded.get('screenshot')).toEqual(['F2'])
+
+    reloaded.resetToDefaults()
+    expect(reloaded.get('screenshot')).toEqual(DEFAULT_BINDINGS.screenshot)
+  })
+
+  it('notifies subscribers and drives InputManager actions', () => {
+    const bindings = new InputBindings(null)
+    const input = new InputManager(bindings)
+    let notified = 0
+    bindings.subscribe(() => {
+      notified += 1
+    })
+
+    bindings.rebind('jump', 'KeyK')
+    input.attach()
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyK' }))
+
+    expect(notified).toBe(1)
+    expect(input.isPressed('jump')).toBe(true)
+
+    input.detach()
+  })
+})
@@ -0,0 +1,234 @@
+import { debugLogger } from '../utils/index.js';
+
+export type GameplayAction = 'forward' | 'backward' | 'left' | 'right' | 'jump' | 'run' | 'sprint' | 'dodge' | 'crouch' | 'debug';
+export type UIAction =
+  | 'toggleHud'
+  | 'screenshot'
+  | 'togglePoseLock'
+  | 'resetCamera'
+  | 'resetPosition'
+  | 'toggleTelemetry'
+  | 'spawnBody';
+export type BindableAction = GameplayAction | UIAction;
+
+export type BindingMap = Record<BindableAction, string[]>;
+
+export interface BindingConflict {
+  code: string;
+  actions: BindableAction[];
+}
+
+export type BindingsListener = (bindings: BindingMap, conflicts: BindingConflict[]) => void;
+
+/**
+ * Minimal storage surface (window.localStorage in the app)
+ */
+interface BindingStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export const BINDINGS_STORAGE_KEY = 'stickFigureBindings';
+
+export const DEFAULT_BINDINGS: Readonly<BindingMap> = {
+  // Gameplay
+  forward: ['KeyW', 'ArrowUp', 'GamepadDpadUp'],
+  backward: ['KeyS', 'ArrowDown', 'GamepadDpadDown'],
+  left: ['KeyA', 'ArrowLeft', 'GamepadDpadLeft'],
+  right: ['KeyD', 'ArrowRight', 'GamepadDpadRight'],
+  jump: ['Space', 'GamepadA'],
+  run: ['ShiftLeft', 'ShiftRight', 'GamepadLeftStick'],
+  sprint: ['KeyQ', 'GamepadLeftBumper'],
+  dodge: ['KeyE', 'GamepadX'],
+  crouch: ['KeyC', 'GamepadB'],
+  debug: ['KeyV', 'GamepadBack'],
+  // UI
+  toggleHud: ['KeyH'],
+  screenshot: ['KeyP'],
+  togglePoseLock: ['KeyO'],
+  resetCamera: ['KeyR'],
+  resetPosition: ['KeyL'],
+  toggleTelemetry: ['KeyT'],
+  spawnBody: ['KeyB']
+};
+
+export const ACTION_LABELS: Readonly<Record<BindableAction, string>> = {
+  forward: 'Move Forward',
+  backward: 'Move Backward',
+  left: 'Move Left',
+  right: 'Move Right',
+  jump: 'Jump',
+  run: 'Run',
+  sprint: 'Sprint',
+  dodge: 'Dodge Roll',
+  crouch: 'Crouch',
+  debug: 'Toggle IK Debug',
+  toggleHud: 'Toggle Debug HUD',
+  screenshot: 'Screenshot',
+  togglePoseLock: 'Lock Pose',
+  resetCamera: 'Reset Camera',
+  resetPosition: 'Reset Location',
+  toggleTelemetry: 'Toggle Telemetry',
+  spawnBody: 'Spawn Body at Cursor'
+};
+
+const cloneBindings = (source: Readonly<BindingMap>): BindingMap => {
+  const copy = {} as BindingMap;
+  for (const action of Object.keys(source) as BindableAction[]) {
+    copy[action] = source[action].slice();
+  }
+  return copy;
+};
+
+const getDefaultStorage = (): BindingStorage | null => {
+  if (typeof window === 'undefined' || !window.localStorage) return null;
+  return window.localStorage;
+};
+
+/**
+ * Single registry for gameplay and UI key bindings
+ * Slot 0 of each action is its primary (rebindable) code
+ */
+export class InputBindings {
+  bindings: BindingMap;
+  private listeners: Set<BindingsListener>;
+  private storage: BindingStorage | null;
+
+  constructor(storage: BindingStorage | null = getDefaultStorage()) {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.listeners = new Set();
+    this.storage = storage;
+  }
+
+  /**
+   * Get all codes bound to an action
+   */
+  get(action: BindableAction): string[] {
+    return this.bindings[action] ?? [];
+  }
+
+  /**
+   * Get every action bound to a code
+   */
+  getActionsForCode(code: string): BindableAction[] {
+    return (Object.keys(this.bindings) as BindableAction[])
+      .filter((action) => this.bindings[action].includes(code));
+  }
+
+  /**
+   * Bind a code to an action slot; returns the conflict it creates, if any
+   */
+  rebind(action: BindableAction, code: string, slot: number = 0): BindingConflict | null {
+    const codes = this.bindings[action];
+    if (!codes) return null;
+
+    const previous = codes[slot];
+    const index = Math.min(Math.max(0, Math.floor(slot)), codes.length);
+    codes[index] = code;
+    this.bindings[action] = codes.filter((entry, i) => i === index || entry !== code);
+
+    debugLogger.log('input', 'info', `Rebound ${action}`, { from: previous ?? null, to: code });
+
+    const conflict = this.findConflicts().find((entry) => entry.code === code) ?? null;
+    if (conflict) {
+      debugLogger.log('input', 'warn', `Binding conflict on ${code}`, { actions: conflict.actions });
+    }
+
+    this.commit();
+    return conflict;
+  }
+
+  /**
+   * Find codes bound to more than one action
+   */
+  findConflicts(): BindingConflict[] {
+    const byCode = new Map<string, BindableAction[]>();
+    for (const action of Object.keys(this.bindings) as BindableAction[]) {
+      for (const code of this.bindings[action]) {
+        const actions = byCode.get(code) ?? [];
+        actions.push(action);
+        byCode.set(code, actions);
+      }
+    }
+
+    const conflicts: BindingConflict[] = [];
+    byCode.forEach((actions, code) => {
+      if (actions.length > 1) {
+        conflicts.push({ code, actions });
+      }
+    });
+    return conflicts;
+  }
+
+  /**
+   * Restore the default bindings
+   */
+  resetToDefaults(): void {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    debugLogger.log('input', 'info', 'Bindings reset to defaults');
+    this.commit();
+  }
+
+  /**
+   * Load persisted bindings (unknown actions are ignored)
+   */
+  load(): void {
+    if (!this.storage) return;
+
+    try {
+      const stored = this.storage.getItem(BINDINGS_STORAGE_KEY);
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored) as Partial<Record<string, unknown>>;
+      for (const action of Object.keys(DEFAULT_BINDINGS) as BindableAction[]) {
+        const codes = parsed[action];
+        if (Array.isArray(codes) && codes.every((code) => typeof code === 'string')) {
+          this.bindings[action] = codes.slice() as string[];
+        }
+      }
+
+      const conflicts = this.findConflicts();
+      if (conflicts.length > 0) {
+        debugLogger.log('input', 'warn', 'Loaded bindings contain conflicts', { conflicts });
+      }
+      this.notify();
+    } catch (err) {
+      debugLogger.log('input', 'warn', 'Failed to load bindings', { error: String(err) });
+    }
+  }
+
+  /**
+   * Persist bindings
+   */
+  save(): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (err) {
+      debugLogger.log('input', 'warn', 'Failed to save bindings', { error: String(err) });
+    }
+  }
+
+  /**
+   * Subscribe to binding changes
+   */
+  subscribe(listener: BindingsListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private commit(): void {
+    this.save();
+    this.notify();
+  }
+
+  private notify(): void {
+    const conflicts = this.findConflicts();
+    for (const listener of this.listeners) {
+      listener(this.bindings, conflicts);
+    }
+  }
+}
+
+export default InputBindings;
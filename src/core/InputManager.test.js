@@ -1,7 +1,21 @@
-import { describe, expect, it } from 'vitest'
-import { InputManager } from './InputManager.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { InputManager, applyRadialDeadzone } from './InputManager.js'
+
+const createPad = ({ axes = [0, 0, 0, 0], pressed = [] } = {}) => ({
+  connected: true,
+  axes,
+  buttons: Array.from({ length: 16 }, (_, index) => ({ pressed: pressed.includes(index), value: 0 }))
+})
+
+const mockGamepads = (pads) => {
+  vi.stubGlobal('navigator', { ...globalThis.navigator, getGamepads: () => pads })
+}
 
 describe('core/InputManager', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
   it('maps keys to actions and movement direction', () => {
     const input = new InputManager()
     input.attach()
@@ -20,17 +34,110 @@ describe('core/InputManager', () => {
     input.detach()
   })
 
-  it('tracks justPressed events per action', () => {
+  it('snapshots justPressed and justReleased once per tick', () => {
     const input = new InputManager()
     input.attach()
 
     window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyV' }))
+    input.update(0.016, 0.016)
+    expect(input.justPressed('debug')).toBe(true)
+    // Stable for every reader in the same tick
     expect(input.justPressed('debug')).toBe(true)
+    expect(input.justReleased('debug')).toBe(false)
+
+    input.update(0.016, 0.032)
     expect(input.justPressed('debug')).toBe(false)
+    expect(input.getHoldDuration('debug')).toBeCloseTo(0.016, 5)
 
     window.dispatchEvent(new KeyboardEvent('keyup', { code: 'KeyV' }))
-    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyV' }))
-    expect(input.justPressed('debug')).toBe(true)
+    input.update(0.016, 0.048)
+    expect(input.justReleased('debug')).toBe(true)
+    expect(input.getHoldDuration('debug')).toBe(0)
+
+    input.detach()
+  })
+
+  it('registers taps that start and end between ticks', () => {
+    const input = new InputManager()
+    input.attach()
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space' }))
+    window.dispatchEvent(new KeyboardEvent('keyup', { code: 'Space' }))
+    input.update(0.016, 0.016)
+
+    expect(input.justPressed('jump')).toBe(true)
+    expect(input.justReleased('jump')).toBe(true)
+    expect(input.isHeld('jump')).toBe(false)
+
+    input.detach()
+  })
+
+  it('buffers presses for a time window', () => {
+    const input = new InputManager()
+    input.attach()
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space' }))
+    window.dispatchEvent(new KeyboardEvent('keyup', { code: 'Space' }))
+    input.update(0.02, 1.0)
+
+    input.update(0.02, 1.08)
+    expect(input.wasPressedWithin('jump', 0.1)).toBe(true)
+
+    input.update(0.02, 1.12)
+    expect(input.wasPressedWithin('jump', 0.1)).toBe(false)
+
+    input.consumeBuffered('jump')
+    expect(input.wasPressedWithin('jump', 1)).toBe(false)
+
+    input.detach()
+  })
+
+  it('applies a radial deadzone and rescales the stick', () => {
+    expect(applyRadialDeadzone(0.1, 0.05, 0.15)).toEqual({ x: 0, y: 0 })
+
+    const full = applyRadialDeadzone(1, 0, 0.15)
+    expect(full.x).toBeCloseTo(1, 5)
+
+    const half = applyRadialDeadzone(0, 0.575, 0.15)
+    expect(half.y).toBeCloseTo(0.5, 5)
+  })
+
+  it('reads analog movement and camera look from the gamepad', () => {
+    mockGamepads([null, createPad({ axes: [0, -1, 0.575, 0] })])
+    const input = new InputManager()
+
+    input.pollGamepads()
+    const dir = input.getMovementDirection()
+
+    expect(input.gamepadConnected).toBe(true)
+    expect(dir.x).toBeCloseTo(0, 5)
+    expect(dir.y).toBeCloseTo(1, 5)
+    expect(input.isAnalogMovement()).toBe(true)
+    expect(input.getCameraLook().x).toBeCloseTo(0.5, 5)
+  })
+
+  it('maps gamepad buttons to actions', () => {
+    mockGamepads([createPad({ pressed: [0] })])
+    const input = new InputManager()
+
+    input.update(0.016, 0.016)
+    expect(input.isPressed('jump')).toBe(true)
+    expect(input.justPressed('jump')).toBe(true)
+
+    mockGamepads([createPad()])
+    input.pollGamepads()
+    expect(input.isPressed('jump')).toBe(false)
+  })
+
+  it('prefers digital keys over the stick', () => {
+    mockGamepads([createPad({ axes: [0.5, 0, 0, 0] })])
+    const input = new InputManager()
+    input.attach()
+    input.pollGamepads()
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyW' }))
+    expect(input.getMovementDirection()).toEqual({ x: 0, y: 1 })
+    expect(input.isAnalogMovement()).toBe(false)
 
     input.detach()
   })
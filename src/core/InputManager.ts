@@ -1,39 +1,106 @@
-type ActionName = 'forward' | 'backward' | 'left' | 'right' | 'jump' | 'run' | 'debug';
+import { INPUT } from '../config/index.js';
+import { InputBindings, type BindableAction } from './InputBindings.js';
+import type { Updateable } from './Engine.js';
 
-type ActionMappings = {
-  [K in ActionName]: string[];
-};
+interface StickState {
+  x: number;
+  y: number;
+}
+
+/**
+ * Codes for buttons in the W3C "standard" gamepad layout, by button index.
+ * Used in the binding registry alongside keyboard codes.
+ */
+export const GAMEPAD_BUTTON_CODES: readonly string[] = [
+  'GamepadA',
+  'GamepadB',
+  'GamepadX',
+  'GamepadY',
+  'GamepadLeftBumper',
+  'GamepadRightBumper',
+  'GamepadLeftTrigger',
+  'GamepadRightTrigger',
+  'GamepadBack',
+  'GamepadStart',
+  'GamepadLeftStick',
+  'GamepadRightStick',
+  'GamepadDpadUp',
+  'GamepadDpadDown',
+  'GamepadDpadLeft',
+  'GamepadDpadRight'
+];
+
+/**
+ * Apply a radial deadzone and rescale the remaining range to 0-1
+ */
+export function applyRadialDeadzone(x: number, y: number, deadzone: number): StickState {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadzone || magnitude === 0) {
+    return { x: 0, y: 0 };
+  }
+
+  const scaled = Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+  return {
+    x: (x / magnitude) * scaled,
+    y: (y / magnitude) * scaled
+  };
+}
 
 /**
- * Input manager handling keyboard (and future gamepad) input
- * Maps raw keys to semantic actions
+ * Input manager handling keyboard and gamepad input
+ * Maps raw keys and buttons to semantic actions and snapshots action
+ * edges once per engine tick (register it before systems that read it)
  */
-export class InputManager {
+export class InputManager implements Updateable {
   // Raw key states
   keys: Set<string>;
-  justPressedKeys: Set<string>;
+  justPressedKeys: Set<string>; // Codes pressed since the last tick
+
+  // Per-tick action snapshot
+  currentActions: Set<BindableAction>;
+  previousActions: Set<BindableAction>;
+  pressedThisTick: Set<BindableAction>;
+  releasedThisTick: Set<BindableAction>;
+  holdDurations: Map<BindableAction, number>;
+  lastPressTimes: Map<BindableAction, number>;
+  tickTime: number;
+
+  // Gamepad state (refreshed by pollGamepads)
+  gamepadButtons: Set<string>;
+  leftStick: StickState;
+  rightStick: StickState;
+  gamepadConnected: boolean;
+  usingAnalogMovement: boolean;
 
-  // Action mappings
-  actionMappings: ActionMappings;
+  // Action bindings (shared registry, also used for UI hotkeys)
+  bindings: InputBindings;
 
   // Track if attached
   attached: boolean;
 
-  constructor() {
+  constructor(bindings: InputBindings = new InputBindings(null)) {
     // Raw key states
     this.keys = new Set();
     this.justPressedKeys = new Set();
 
-    // Action mappings
-    this.actionMappings = {
-      forward: ['KeyW', 'ArrowUp'],
-      backward: ['KeyS', 'ArrowDown'],
-      left: ['KeyA', 'ArrowLeft'],
-      right: ['KeyD', 'ArrowRight'],
-      jump: ['Space'],
-      run: ['ShiftLeft', 'ShiftRight'],
-      debug: ['KeyV']
-    };
+    // Per-tick action snapshot
+    this.currentActions = new Set();
+    this.previousActions = new Set();
+    this.pressedThisTick = new Set();
+    this.releasedThisTick = new Set();
+    this.holdDurations = new Map();
+    this.lastPressTimes = new Map();
+    this.tickTime = 0;
+
+    // Gamepad state
+    this.gamepadButtons = new Set();
+    this.leftStick = { x: 0, y: 0 };
+    this.rightStick = { x: 0, y: 0 };
+    this.gamepadConnected = false;
+    this.usingAnalogMovement = false;
+
+    // Action bindings
+    this.bindings = bindings;
 
     // Bind handlers
     this.handleKeyDown = this.handleKeyDown.bind(this);
@@ -63,6 +130,94 @@ export class InputManager {
     this.attached = false;
     this.keys.clear();
     this.justPressedKeys.clear();
+    this.gamepadButtons.clear();
+    this.leftStick = { x: 0, y: 0 };
+    this.rightStick = { x: 0, y: 0 };
+    this.currentActions.clear();
+    this.previousActions.clear();
+    this.pressedThisTick.clear();
+    this.releasedThisTick.clear();
+    this.holdDurations.clear();
+    this.lastPressTimes.clear();
+  }
+
+  /**
+   * Snapshot action state for this tick (Updateable)
+   * Presses that start and end between ticks still register as pressed once.
+   */
+  update(deltaTime: number, elapsedTime: number): void {
+    this.pollGamepads();
+    this.tickTime = elapsedTime;
+
+    const previous = this.currentActions;
+    const current = new Set<BindableAction>();
+    this.pressedThisTick.clear();
+    this.releasedThisTick.clear();
+
+    for (const action of Object.keys(this.bindings.bindings) as BindableAction[]) {
+      const mappings = this.bindings.get(action);
+      const tapped = mappings.some(code => this.justPressedKeys.has(code));
+      const down = this.isPressed(action);
+
+      if (tapped) {
+        this.pressedThisTick.add(action);
+        this.lastPressTimes.set(action, elapsedTime);
+      }
+      if (down) {
+        current.add(action);
+        const held = previous.has(action) && !tapped ? (this.holdDurations.get(action) ?? 0) + deltaTime : 0;
+        this.holdDurations.set(action, held);
+      } else {
+        this.holdDurations.delete(action);
+        if (previous.has(action) || tapped) {
+          this.releasedThisTick.add(action);
+        }
+      }
+    }
+
+    this.justPressedKeys.clear();
+    this.previousActions = previous;
+    this.currentActions = current;
+  }
+
+  /**
+   * Read the first connected gamepad (call once per frame)
+   */
+  pollGamepads(): void {
+    const pads = typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function'
+      ? navigator.getGamepads()
+      : [];
+    const pad = Array.from(pads ?? []).find((candidate) => candidate?.connected) ?? null;
+
+    if (!pad) {
+      this.gamepadConnected = false;
+      this.gamepadButtons.clear();
+      this.leftStick = { x: 0, y: 0 };
+      this.rightStick = { x: 0, y: 0 };
+      return;
+    }
+
+    this.gamepadConnected = true;
+
+    // Buttons
+    pad.buttons.forEach((button, index) => {
+      const code = GAMEPAD_BUTTON_CODES[index];
+      if (!code) return;
+
+      if (button.pressed) {
+        if (!this.gamepadButtons.has(code)) {
+          this.justPressedKeys.add(code);
+        }
+        this.gamepadButtons.add(code);
+      } else {
+        this.gamepadButtons.delete(code);
+      }
+    });
+
+    // Sticks (standard layout: axes 0/1 left, 2/3 right; +y is down)
+    const deadzone = INPUT.GAMEPAD_DEADZONE;
+    this.leftStick = applyRadialDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, deadzone);
+    this.rightStick = applyRadialDeadzone(pad.axes[2] ?? 0, pad.axes[3] ?? 0, deadzone);
   }
 
   handleKeyDown(event: KeyboardEvent): void {
@@ -84,21 +239,21 @@ export class InputManager {
   /**
    * Check if an action is currently pressed
    */
-  isPressed(action: ActionName): boolean {
-    const mappings = this.actionMappings[action];
-    if (!mappings) return false;
-    return mappings.some(key => this.keys.has(key));
+  isPressed(action: BindableAction): boolean {
+    const mappings = this.bindings.get(action);
+    return mappings.some(key => this.keys.has(key) || this.gamepadButtons.has(key));
   }
 
   /**
    * Check if an action is currently held down
    */
-  isHeld(action: ActionName): boolean {
+  isHeld(action: BindableAction): boolean {
     return this.isPressed(action);
   }
 
   /**
-   * Get movement direction as normalized vector
+   * Get movement direction: normalized for digital input, or the left
+   * stick with its magnitude preserved when no digital input is active
    */
   getMovementDirection(): { x: number; y: number } {
     let x = 0;
@@ -114,28 +269,66 @@ export class InputManager {
     if (len > 0) {
       x /= len;
       y /= len;
+      this.usingAnalogMovement = false;
+      return { x, y };
     }
 
-    return { x, y };
+    const stick = this.leftStick;
+    this.usingAnalogMovement = stick.x !== 0 || stick.y !== 0;
+    return { x: stick.x, y: -stick.y };
   }
 
   /**
-   * Check if action was just pressed this frame
-   * (Would need frame tracking for proper implementation)
+   * Whether the last movement direction came from an analog stick
    */
-  justPressed(action: ActionName): boolean {
-    const mappings = this.actionMappings[action];
-    if (!mappings) return false;
-
-    let pressed = false;
-    for (const key of mappings) {
-      if (this.justPressedKeys.has(key)) {
-        this.justPressedKeys.delete(key);
-        pressed = true;
-      }
-    }
+  isAnalogMovement(): boolean {
+    return this.usingAnalogMovement;
+  }
+
+  /**
+   * Get right-stick camera look input (x: right, y: up), deadzone applied
+   */
+  getCameraLook(): { x: number; y: number } {
+    return { x: this.rightStick.x, y: -this.rightStick.y };
+  }
 
-    return pressed;
+  /**
+   * Check if action was pressed since the previous tick
+   * (stable for every reader within the same tick)
+   */
+  justPressed(action: BindableAction): boolean {
+    return this.pressedThisTick.has(action);
+  }
+
+  /**
+   * Check if action was released since the previous tick
+   */
+  justReleased(action: BindableAction): boolean {
+    return this.releasedThisTick.has(action);
+  }
+
+  /**
+   * Seconds the action has been continuously held (0 on the press tick)
+   */
+  getHoldDuration(action: BindableAction): number {
+    return this.holdDurations.get(action) ?? 0;
+  }
+
+  /**
+   * Check if action was pressed within the last `window` seconds
+   * (buffered input, e.g. a jump pressed shortly before landing)
+   */
+  wasPressedWithin(action: BindableAction, window: number): boolean {
+    const pressTime = this.lastPressTimes.get(action);
+    if (pressTime === undefined) return false;
+    return this.tickTime - pressTime <= window;
+  }
+
+  /**
+   * Clear a buffered press so it only triggers once
+   */
+  consumeBuffered(action: BindableAction): void {
+    this.lastPressTimes.delete(action);
   }
 }
 
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import {
+  InputRecorder,
+  InputReplayer,
+  INPUT_RECORDING_VERSION,
+  parseInputRecording,
+  serializeInputRecording
+} from './InputReplay.js'
+import { CharacterController } from '../character/controller/CharacterController.js'
+import { SimplePhysics } from '../physics/SimplePhysics.js'
+import { TerrainHeightmap } from '../terrain/TerrainHeightmap.js'
+
+const STEP = 1 / 60
+
+const scriptedInput = (tick) => ({
+  deltaTime: STEP,
+  moveX: tick > 90 ? 1 : 0,
+  moveY: tick < 150 ? 1 : 0,
+  run: tick > 60,
+  jump: tick === 30 || tick === 31,
+  cameraYaw: tick * 0.01
+})
+
+const recordSession = (ticks) => {
+  const controller = new CharacterController(new SimplePhysics(new TerrainHeightmap(100, 20)))
+  const recorder = new InputRecorder()
+  recorder.start(controller)
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const frame = scriptedInput(tick)
+    recorder.capture(frame)
+    controller.setInput({ x: frame.moveX, y: frame.moveY }, frame.run, frame.jump)
+    controller.update(frame.deltaTime, frame.cameraYaw)
+  }
+
+  return { controller, recording: recorder.stop() }
+}
+
+describe('core/InputReplay', () => {
+  it('replays a recording headlessly to the same final state', () => {
+    const { controller, recording } = recordSession(200)
+    expect(recording.frames).toHaveLength(200)
+
+    const replayed = new CharacterController(new SimplePhysics(new TerrainHeightmap(100, 20)))
+    const replayer = InputReplayer.fromJSON(serializeInputRecording(recording))
+    replayer.run(replayed)
+
+    expect(replayer.isFinished()).toBe(true)
+    expect(replayed.position).toEqual(controller.position)
+    expect(replayed.velocity).toEqual(controller.velocity)
+    expect(replayed.facing).toBe(controller.facing)
+    expect(replayed.movementMode).toBe(controller.movementMode)
+  })
+
+  it('replays recorded pushes on the tick they were applied', () => {
+    const controller = new CharacterController(new SimplePhysics(new TerrainHeightmap(100, 20)))
+    const recorder = new InputRecorder()
+    recorder.start(controller)
+
+    for (let tick = 0; tick < 60; tick++) {
+      const frame = { deltaTime: STEP, moveX: 0, moveY: 0, run: false, jump: false, cameraYaw: 0 }
+      if (tick === 10) {
+        frame.push = { x: 1, z: 0, impulse: 300 }
+        controller.applyImpulse({ x: 1, y: 0, z: 0 }, 300)
+      }
+      recorder.capture(frame)
+      controller.setInput({ x: 0, y: 0 }, false, false)
+      controller.update(frame.deltaTime, frame.cameraYaw)
+    }
+    expect(controller.position.x).toBeGreaterThan(0)
+
+    const replayed = new CharacterController(new SimplePhysics(new TerrainHeightmap(100, 20)))
+    InputReplayer.fromJSON(serializeInputRecording(recorder.stop())).run(replayed)
+
+    expect(replayed.position).toEqual(controller.position)
+    expect(replayed.velocity).toEqual(controller.velocity)
+  })
+
+  it('restores the initial controller state before replaying', () => {
+    const controller = new CharacterController(new SimplePhysics(new TerrainHeightmap(100, 20)))
+    controller.position = { x: 5, y: 0, z: -3 }
+    controller.facing = 1.2
+
+    const recorder = new InputRecorder()
+    recorder.start(controller)
+    const recording = recorder.stop()
+
+    const target = new CharacterController(new SimplePhysics(new TerrainHeightmap(100, 20)))
+    new InputReplayer(recording).reset(target)
+
+    expect(target.position).toEqual({ x: 5, y: 0, z: -3 })
+    expect(target.facing).toBe(1.2)
+  })
+
+  it('rejects recordings with an unknown version', () => {
+    const { recording } = recordSession(2)
+    const json = JSON.stringify({ ...recording, version: INPUT_RECORDING_VERSION + 1 })
+
+    expect(() => parseInputRecording(json)).toThrow(/version/)
+  })
+})
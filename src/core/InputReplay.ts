@@ -0,0 +1,214 @@
+import { platform } from '../platform/index.js';
+import type { CharacterController, ControllerSnapshot } from '../character/controller/CharacterController.js';
+import type { DynamicBodyDefinition } from '../physics/IPhysicsWorld.js';
+
+export const INPUT_RECORDING_VERSION = 2;
+
+/**
+ * Horizontal push applied to the character at the start of a tick
+ */
+export interface InputPush {
+  x: number;
+  z: number;
+  impulse: number;
+}
+
+/**
+ * Dynamic body spawned at the start of a tick
+ */
+export interface InputSpawn {
+  type: DynamicBodyDefinition['type'];
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Action state captured for a single simulation tick
+ */
+export interface InputFrame {
+  deltaTime: number;
+  moveX: number;
+  moveY: number;
+  run: boolean;
+  jump: boolean;
+  cameraYaw: number;
+  analog?: boolean;
+  crouch?: boolean;
+  sprint?: boolean;
+  dodge?: boolean;
+  push?: InputPush;
+  spawn?: InputSpawn;
+}
+
+/**
+ * Versioned recording file contents
+ */
+export interface InputRecording {
+  version: number;
+  createdAt: string;
+  initialState: ControllerSnapshot;
+  frames: InputFrame[];
+}
+
+/**
+ * Records per-tick input alongside the controller state it started from
+ */
+export class InputRecorder {
+  isRecording: boolean;
+  private initialState: ControllerSnapshot | null;
+  private frames: InputFrame[];
+
+  constructor() {
+    this.isRecording = false;
+    this.initialState = null;
+    this.frames = [];
+  }
+
+  /**
+   * Begin a new recording from the controller's current state
+   */
+  start(controller: CharacterController): void {
+    this.initialState = controller.getSnapshot();
+    this.frames = [];
+    this.isRecording = true;
+  }
+
+  /**
+   * Capture one tick of input (ignored when not recording)
+   */
+  capture(frame: InputFrame): void {
+    if (!this.isRecording) return;
+    const copy: InputFrame = { ...frame };
+    if (frame.push) copy.push = { ...frame.push };
+    if (frame.spawn) copy.spawn = { ...frame.spawn };
+    this.frames.push(copy);
+  }
+
+  /**
+   * Stop recording and return the finished recording
+   */
+  stop(): InputRecording | null {
+    this.isRecording = false;
+    if (!this.initialState) return null;
+
+    return {
+      version: INPUT_RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      initialState: this.initialState,
+      frames: this.frames.slice()
+    };
+  }
+
+  /**
+   * Number of frames captured so far
+   */
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+}
+
+/**
+ * Drives a CharacterController from a recording instead of live input
+ */
+export class InputReplayer {
+  recording: InputRecording;
+  frameIndex: number;
+
+  constructor(recording: InputRecording) {
+    this.recording = recording;
+    this.frameIndex = 0;
+  }
+
+  /**
+   * Parse and validate a recording file
+   */
+  static fromJSON(json: string): InputReplayer {
+    return new InputReplayer(parseInputRecording(json));
+  }
+
+  /**
+   * Rewind and restore the recorded initial controller state
+   */
+  reset(controller: CharacterController): void {
+    this.frameIndex = 0;
+    controller.restoreSnapshot(this.recording.initialState);
+  }
+
+  /**
+   * Feed the next frame into the controller's input and apply its push;
+   * returns null when done. Spawns are left to the caller, which owns the
+   * world the bodies live in.
+   */
+  next(controller: CharacterController): InputFrame | null {
+    const frame = this.recording.frames[this.frameIndex];
+    if (!frame) return null;
+
+    this.frameIndex++;
+    controller.setInput(
+      { x: frame.moveX, y: frame.moveY },
+      frame.run,
+      frame.jump,
+      frame.analog ?? false,
+      frame.crouch ?? false
+    );
+    controller.setAbilityInput(frame.sprint ?? false, frame.dodge ?? false);
+    if (frame.push) {
+      controller.applyImpulse({ x: frame.push.x, y: 0, z: frame.push.z }, frame.push.impulse);
+    }
+    return frame;
+  }
+
+  /**
+   * Replay every frame headlessly (no engine or rendering involved)
+   */
+  run(controller: CharacterController, onFrame?: (frame: InputFrame, index: number) => void): void {
+    this.reset(controller);
+
+    let frame = this.next(controller);
+    while (frame) {
+      controller.update(frame.deltaTime, frame.cameraYaw);
+      onFrame?.(frame, this.frameIndex - 1);
+      frame = this.next(controller);
+    }
+  }
+
+  isFinished(): boolean {
+    return this.frameIndex >= this.recording.frames.length;
+  }
+}
+
+/**
+ * Serialize a recording to JSON
+ */
+export function serializeInputRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse a recording file, rejecting unknown versions
+ */
+export function parseInputRecording(json: string): InputRecording {
+  const parsed = JSON.parse(json) as Partial<InputRecording>;
+
+  if (parsed.version !== INPUT_RECORDING_VERSION) {
+    throw new Error(`Unsupported input recording version: ${String(parsed.version)}`);
+  }
+  if (!parsed.initialState || !Array.isArray(parsed.frames)) {
+    throw new Error('Input recording is missing initialState or frames');
+  }
+
+  return parsed as InputRecording;
+}
+
+/**
+ * Download a recording through the platform adapter
+ */
+export function saveInputRecording(recording: InputRecording, filename?: string): void {
+  platform.saveTextFile(
+    filename ?? `input-recording-${Date.now()}.json`,
+    serializeInputRecording(recording)
+  );
+}
+
+export default InputRecorder;
@@ -49,6 +49,27 @@ describe('core/SceneManager', () => {
     expect(manager.scene.children).not.toContain(obj)
   })
 
+  it('shows water surfaces and tints the fog underwater', () => {
+    const container = document.createElement('div')
+    const manager = new SceneManager(container)
+    const skyFog = manager.scene.fog.color.getHex()
+
+    manager.setWater(0, [{ position: { x: 4, y: 1, z: 0 }, halfExtents: { x: 2, y: 1, z: 3 } }])
+    expect(manager.water.children).toHaveLength(2)
+    expect(manager.water.children[1].position.y).toBe(2)
+    expect(manager.scene.children).toContain(manager.water)
+
+    manager.setUnderwater(true)
+    expect(manager.scene.fog.color.getHex()).not.toBe(skyFog)
+    manager.setUnderwater(false)
+    expect(manager.scene.fog.color.getHex()).toBe(skyFog)
+
+    const water = manager.water
+    manager.setWater(null)
+    expect(manager.scene.children).not.toContain(water)
+    expect(manager.water.children).toHaveLength(0)
+  })
+
   it('disposes renderer and removes canvas', () => {
     const container = document.createElement('div')
     const manager = new SceneManager(container)
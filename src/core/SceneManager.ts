@@ -1,7 +1,12 @@
 import * as THREE from 'three';
 import { WebGPURenderer } from 'three/webgpu';
-import { CAMERA, RENDER } from '../config/index.js';
+import { CAMERA, RENDER, WORLD } from '../config/index.js';
 import { DisposalTracker } from '../utils/index.js';
+import type { WaterPool } from '../world/WaterVolumes.js';
+
+const SKY_COLOR = 0x87CEEB;
+const FOG_NEAR = 50;
+const FOG_FAR = 200;
 
 /**
  * Manages Three.js scene, renderer, and lights
@@ -30,6 +35,10 @@ export class SceneManager {
   };
   initPromise: Promise<void> | null;
 
+  // Water surfaces and the camera's underwater state
+  water: THREE.Group | null;
+  underwater: boolean;
+
   constructor(container: HTMLElement) {
     this.container = container;
     this.tracker = new DisposalTracker();
@@ -45,6 +54,10 @@ export class SceneManager {
     this.renderer = this.createRenderer();
     this.initPromise = null;
 
+    // Water
+    this.water = null;
+    this.underwater = false;
+
     this.setupLights();
 
     // Append to container
@@ -65,8 +78,8 @@ export class SceneManager {
 
   createScene(): THREE.Scene {
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x87CEEB);
-    scene.fog = new THREE.Fog(0x87CEEB, 50, 200);
+    scene.background = new THREE.Color(SKY_COLOR);
+    scene.fog = new THREE.Fog(SKY_COLOR, FOG_NEAR, FOG_FAR);
     return scene;
   }
 
@@ -169,6 +182,77 @@ export class SceneManager {
     this.renderer.setSize(width, height);
   }
 
+  /**
+   * Show transparent water surfaces: a large plane at `level` (null for
+   * none) and the top face of each pool. Replaces any previous water.
+   */
+  setWater(level: number | null, pools: WaterPool[] = []): void {
+    this.clearWater();
+
+    const water = new THREE.Group();
+    water.name = 'water';
+    const material = new THREE.MeshStandardMaterial({
+      color: WORLD.WATER_COLOR,
+      transparent: true,
+      opacity: WORLD.WATER_OPACITY,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    });
+
+    const addSurface = (width: number, depth: number, x: number, y: number, z: number): void => {
+      const surface = new THREE.Mesh(new THREE.PlaneGeometry(width, depth), material);
+      surface.rotation.x = -Math.PI / 2;
+      surface.position.set(x, y, z);
+      surface.receiveShadow = true;
+      water.add(surface);
+    };
+
+    if (level !== null) {
+      addSurface(WORLD.WATER_PLANE_SIZE, WORLD.WATER_PLANE_SIZE, 0, level, 0);
+    }
+    for (const { position, halfExtents } of pools) {
+      addSurface(halfExtents.x * 2, halfExtents.z * 2, position.x, position.y + halfExtents.y, position.z);
+    }
+
+    this.scene.add(water);
+    this.water = water;
+  }
+
+  /**
+   * Remove and dispose the water surfaces
+   */
+  clearWater(): void {
+    if (!this.water) return;
+    this.scene.remove(this.water);
+    const materials = new Set<THREE.Material>();
+    this.water.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        materials.add(child.material as THREE.Material);
+      }
+    });
+    materials.forEach((material) => material.dispose());
+    this.water = null;
+  }
+
+  /**
+   * Tint the fog and sky when the camera dips below the water surface
+   */
+  setUnderwater(underwater: boolean): void {
+    if (underwater === this.underwater) return;
+    this.underwater = underwater;
+
+    const color = underwater ? WORLD.UNDERWATER_FOG_COLOR : SKY_COLOR;
+    if (this.scene.fog instanceof THREE.Fog) {
+      this.scene.fog.color.setHex(color);
+      this.scene.fog.near = underwater ? WORLD.UNDERWATER_FOG_NEAR : FOG_NEAR;
+      this.scene.fog.far = underwater ? WORLD.UNDERWATER_FOG_FAR : FOG_FAR;
+    }
+    if (this.scene.background instanceof THREE.Color) {
+      this.scene.background.setHex(color);
+    }
+  }
+
   /**
    * Add object to scene
    */
@@ -211,6 +295,7 @@ export class SceneManager {
       this.resizeObserver = null;
     }
 
+    this.clearWater();
     this.tracker.dispose();
     this.renderer.dispose();
 
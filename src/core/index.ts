@@ -2,3 +2,25 @@ export { Engine } from './Engine.js';
 export type { Updateable } from './Engine.js';
 export { SceneManager } from './SceneManager.js';
 export { InputManager } from './InputManager.js';
+export {
+  InputRecorder,
+  InputReplayer,
+  INPUT_RECORDING_VERSION,
+  serializeInputRecording,
+  parseInputRecording,
+  saveInputRecording
+} from './InputReplay.js';
+export type { InputFrame, InputRecording } from './InputReplay.js';
+export {
+  InputBindings,
+  DEFAULT_BINDINGS,
+  ACTION_LABELS,
+  BINDINGS_STORAGE_KEY
+} from './InputBindings.js';
+export type {
+  BindableAction,
+  GameplayAction,
+  UIAction,
+  BindingMap,
+  BindingConflict
+} from './InputBindings.js';
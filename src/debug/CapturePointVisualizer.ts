@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+import { COM } from '../config/index.js';
+import type { DisposalTracker } from '../utils/disposal.js';
+import type { CoMState } from '../types/index.js';
+
+/**
+ * Visualizes the capture point and zero-moment point on the ground, with a
+ * line from the CoM ground projection (the plumb line's foot) out to the
+ * capture point
+ */
+export class CapturePointVisualizer {
+  private tracker: DisposalTracker;
+  private scene: THREE.Scene | null = null;
+
+  // Visual elements
+  private captureMarker: THREE.Mesh | null = null;
+  private zmpMarker: THREE.Mesh | null = null;
+  private captureLine: THREE.Line | null = null;
+
+  // Materials
+  private captureMaterial: THREE.MeshBasicMaterial;
+  private zmpMaterial: THREE.MeshBasicMaterial;
+  private lineMaterial: THREE.LineBasicMaterial;
+
+  // State
+  private visible: boolean = false;
+
+  constructor(tracker: DisposalTracker) {
+    this.tracker = tracker;
+
+    // Create materials
+    this.captureMaterial = tracker.trackMaterial(
+      new THREE.MeshBasicMaterial({
+        color: COM.CAPTURE_POINT.CAPTURE_COLOR,
+        transparent: true,
+        opacity: 0.8,
+        side: THREE.DoubleSide
+      })
+    );
+
+    this.zmpMaterial = tracker.trackMaterial(
+      new THREE.MeshBasicMaterial({
+        color: COM.CAPTURE_POINT.ZMP_COLOR,
+        transparent: true,
+        opacity: 0.6,
+        side: THREE.DoubleSide
+      })
+    );
+
+    this.lineMaterial = tracker.trackMaterial(
+      new THREE.LineBasicMaterial({
+        color: COM.CAPTURE_POINT.CAPTURE_COLOR,
+        transparent: true,
+        opacity: 0.6
+      })
+    );
+
+    this.createGeometry();
+  }
+
+  /**
+   * Create all visual elements
+   */
+  private createGeometry(): void {
+    const size = COM.CAPTURE_POINT.MARKER_SIZE;
+
+    // Capture point ring
+    const ringGeometry = this.tracker.trackGeometry(
+      new THREE.RingGeometry(size * 0.6, size, 20)
+    );
+    this.captureMarker = new THREE.Mesh(ringGeometry, this.captureMaterial);
+    this.captureMarker.rotation.x = -Math.PI / 2; // Lay flat on ground
+    this.captureMarker.visible = false;
+
+    // ZMP disc
+    const discGeometry = this.tracker.trackGeometry(
+      new THREE.CircleGeometry(size * 0.5, 16)
+    );
+    this.zmpMarker = new THREE.Mesh(discGeometry, this.zmpMaterial);
+    this.zmpMarker.rotation.x = -Math.PI / 2;
+    this.zmpMarker.visible = false;
+
+    // Ground projection to capture point
+    const lineGeometry = this.tracker.trackGeometry(
+      new THREE.BufferGeometry()
+    );
+    lineGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(6), 3));
+    this.captureLine = new THREE.Line(lineGeometry, this.lineMaterial);
+    this.captureLine.visible = false;
+  }
+
+  /**
+   * Add visualizer to scene
+   */
+  addToScene(scene: THREE.Scene): void {
+    this.scene = scene;
+    if (this.captureMarker) scene.add(this.captureMarker);
+    if (this.zmpMarker) scene.add(this.zmpMarker);
+    if (this.captureLine) scene.add(this.captureLine);
+  }
+
+  /**
+   * Remove visualizer from scene
+   */
+  removeFromScene(): void {
+    if (this.scene) {
+      if (this.captureMarker) this.scene.remove(this.captureMarker);
+      if (this.zmpMarker) this.scene.remove(this.zmpMarker);
+      if (this.captureLine) this.scene.remove(this.captureLine);
+    }
+    this.scene = null;
+  }
+
+  /**
+   * Set visibility of all elements
+   */
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    if (this.captureMarker) this.captureMarker.visible = visible;
+    if (this.zmpMarker) this.zmpMarker.visible = visible;
+    if (this.captureLine) this.captureLine.visible = visible;
+  }
+
+  /**
+   * Update visualizer with current CoM state
+   */
+  update(state: CoMState): void {
+    if (!this.visible) return;
+
+    // Red once the capture point leaves the support polygon (a step is needed)
+    const color = state.captureMargin >= 0
+      ? COM.CAPTURE_POINT.CAPTURE_COLOR
+      : COM.SUPPORT_POLYGON.COLOR_UNSTABLE;
+    this.captureMaterial.color.setHex(color);
+    this.lineMaterial.color.setHex(color);
+
+    if (this.captureMarker) {
+      this.captureMarker.position.set(
+        state.capturePoint.x,
+        state.capturePoint.y + 0.02, // Above the plumb line's ring to prevent z-fighting
+        state.capturePoint.z
+      );
+    }
+
+    if (this.zmpMarker) {
+      this.zmpMarker.position.set(
+        state.zmp.x,
+        state.zmp.y + 0.015,
+        state.zmp.z
+      );
+    }
+
+    if (this.captureLine) {
+      const positions = this.captureLine.geometry.attributes.position;
+      if (positions) {
+        const posArray = positions.array as Float32Array;
+
+        posArray[0] = state.groundProjection.x;
+        posArray[1] = state.groundProjection.y + 0.02;
+        posArray[2] = state.groundProjection.z;
+
+        posArray[3] = state.capturePoint.x;
+        posArray[4] = state.capturePoint.y + 0.02;
+        posArray[5] = state.capturePoint.z;
+
+        positions.needsUpdate = true;
+      }
+    }
+  }
+
+  /**
+   * Check if visualizer is currently visible
+   */
+  isVisible(): boolean {
+    return this.visible;
+  }
+}
+
+export default CapturePointVisualizer;
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import { DEBUG } from '../config/index.js';
+import type { DisposalTracker } from '../utils/disposal.js';
+import type {
+  CharacterShapeDefinition,
+  IPhysicsWorld,
+  PhysicsQueryRecord
+} from '../physics/IPhysicsWorld.js';
+import type { Vector3Like } from '../types/index.js';
+
+// Line segments drawn per cast: path, hit cross (3 axes), normal
+const SEGMENTS_PER_QUERY = 5;
+const HIT_MARKER_SIZE = 0.08;
+
+interface QueryTrace {
+  record: PhysicsQueryRecord;
+  age: number;
+}
+
+/**
+ * Draws engine collider wireframes, the character capsule and recent
+ * raycasts/shapecasts (path, hit point, normal) fading out over time
+ */
+export class PhysicsDebugRenderer {
+  private scene: THREE.Scene | null = null;
+
+  // Visual elements
+  private colliderLines: THREE.LineSegments;
+  private colliderGeometry: THREE.BufferGeometry;
+  private colliderPositions: Float32Array = new Float32Array(0);
+  private colliderColors: Float32Array = new Float32Array(0);
+  private capsule: THREE.LineSegments;
+  private capsuleShapeKey: string | null = null;
+  private queryLines: THREE.LineSegments;
+  private queryGeometry: THREE.BufferGeometry;
+  private queryPositions: Float32Array;
+  private queryColors: Float32Array;
+  private tracker: DisposalTracker;
+
+  // State
+  private visible: boolean = false;
+  private recording: boolean = false;
+  private traces: QueryTrace[] = [];
+
+  // Colors
+  private rayColor: THREE.Color;
+  private hitColor: THREE.Color;
+  private normalColor: THREE.Color;
+  private scratchColor: THREE.Color;
+
+  constructor(tracker: DisposalTracker) {
+    this.tracker = tracker;
+    this.rayColor = new THREE.Color(DEBUG.PHYSICS_RAY_COLOR);
+    this.hitColor = new THREE.Color(DEBUG.PHYSICS_HIT_COLOR);
+    this.normalColor = new THREE.Color(DEBUG.PHYSICS_NORMAL_COLOR);
+    this.scratchColor = new THREE.Color();
+
+    // Engine collider wireframes (rebuilt every frame while visible)
+    this.colliderGeometry = tracker.trackGeometry(new THREE.BufferGeometry());
+    this.colliderLines = new THREE.LineSegments(
+      this.colliderGeometry,
+      tracker.trackMaterial(new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.6 }))
+    );
+    this.colliderLines.frustumCulled = false;
+
+    // Character capsule (geometry swapped when the shape changes)
+    this.capsule = new THREE.LineSegments(
+      tracker.trackGeometry(new THREE.BufferGeometry()),
+      tracker.trackMaterial(new THREE.LineBasicMaterial({ color: DEBUG.PHYSICS_CAPSULE_COLOR }))
+    );
+
+    // Recent casts, pre-allocated for the full history
+    const vertexCount = DEBUG.PHYSICS_QUERY_HISTORY * SEGMENTS_PER_QUERY * 2;
+    this.queryPositions = new Float32Array(vertexCount * 3);
+    this.queryColors = new Float32Array(vertexCount * 3);
+    this.queryGeometry = tracker.trackGeometry(new THREE.BufferGeometry());
+    this.queryGeometry.setAttribute('position', new THREE.BufferAttribute(this.queryPositions, 3));
+    this.queryGeometry.setAttribute('color', new THREE.BufferAttribute(this.queryColors, 3));
+    this.queryGeometry.setDrawRange(0, 0);
+    this.queryLines = new THREE.LineSegments(
+      this.queryGeometry,
+      tracker.trackMaterial(new THREE.LineBasicMaterial({ vertexColors: true }))
+    );
+    this.queryLines.frustumCulled = false;
+
+    this.applyVisibility();
+  }
+
+  /**
+   * Add visualizer to scene
+   */
+  addToScene(scene: THREE.Scene): void {
+    this.scene = scene;
+    scene.add(this.colliderLines, this.capsule, this.queryLines);
+  }
+
+  /**
+   * Remove visualizer from scene
+   */
+  removeFromScene(): void {
+    if (this.scene) {
+      this.scene.remove(this.colliderLines, this.capsule, this.queryLines);
+    }
+    this.scene = null;
+  }
+
+  /**
+   * Set visibility
+   */
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.applyVisibility();
+  }
+
+  /**
+   * Refresh colliders, capsule and cast history; also switches the
+   * physics world's query recording on or off to match visibility
+   */
+  update(
+    physics: IPhysicsWorld,
+    characterPosition: Vector3Like,
+    characterShape: CharacterShapeDefinition,
+    deltaTime: number
+  ): void {
+    if (this.recording !== this.visible) {
+      physics.setQueryRecording(this.visible ? DEBUG.PHYSICS_QUERY_HISTORY : 0);
+      this.recording = this.visible;
+    }
+    if (!this.visible) {
+      this.traces = [];
+      return;
+    }
+
+    this.updateColliders(physics);
+    this.updateCapsule(characterPosition, characterShape);
+    this.updateQueries(physics.takeRecordedQueries(), deltaTime);
+  }
+
+  /**
+   * Drop all recorded casts
+   */
+  clear(): void {
+    this.traces = [];
+    this.queryGeometry.setDrawRange(0, 0);
+  }
+
+  /**
+   * Check if renderer is currently visible
+   */
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * Number of casts currently drawn
+   */
+  getQueryCount(): number {
+    return this.traces.length;
+  }
+
+  private applyVisibility(): void {
+    this.colliderLines.visible = this.visible;
+    this.capsule.visible = this.visible;
+    this.queryLines.visible = this.visible;
+  }
+
+  private updateColliders(physics: IPhysicsWorld): void {
+    const buffers = physics.getDebugRenderBuffers();
+    if (!buffers) {
+      this.colliderGeometry.setDrawRange(0, 0);
+      return;
+    }
+
+    const vertexCount = buffers.vertices.length / 3;
+    if (vertexCount * 3 > this.colliderPositions.length) {
+      this.growColliderBuffers(vertexCount);
+    }
+
+    // Engine colors are RGBA; line materials take RGB
+    const colors = this.colliderColors;
+    this.colliderPositions.set(buffers.vertices);
+    for (let i = 0; i < vertexCount; i++) {
+      colors[i * 3] = buffers.colors[i * 4] ?? 1;
+      colors[i * 3 + 1] = buffers.colors[i * 4 + 1] ?? 1;
+      colors[i * 3 + 2] = buffers.colors[i * 4 + 2] ?? 1;
+    }
+
+    this.colliderGeometry.getAttribute('position').needsUpdate = true;
+    this.colliderGeometry.getAttribute('color').needsUpdate = true;
+    this.colliderGeometry.setDrawRange(0, vertexCount);
+  }
+
+  /**
+   * Reallocate the collider buffers with room for at least `vertexCount`
+   * vertices (doubling, so a growing scene reallocates rarely)
+   */
+  private growColliderBuffers(vertexCount: number): void {
+    const capacity = Math.max(vertexCount, (this.colliderPositions.length / 3) * 2);
+    // Frees the GPU copies of the old buffers; the geometry re-uploads on the next render
+    this.colliderGeometry.dispose();
+    this.colliderPositions = new Float32Array(capacity * 3);
+    this.colliderColors = new Float32Array(capacity * 3);
+
+    const position = new THREE.BufferAttribute(this.colliderPositions, 3);
+    const color = new THREE.BufferAttribute(this.colliderColors, 3);
+    position.setUsage(THREE.DynamicDrawUsage);
+    color.setUsage(THREE.DynamicDrawUsage);
+    this.colliderGeometry.setAttribute('position', position);
+    this.colliderGeometry.setAttribute('color', color);
+  }
+
+  private updateCapsule(position: Vector3Like, shape: CharacterShapeDefinition): void {
+    const shapeKey = `${shape.radius}:${shape.height}`;
+    if (shapeKey !== this.capsuleShapeKey) {
+      const length = Math.max(0, shape.height - shape.radius * 2);
+      const source = new THREE.CapsuleGeometry(shape.radius, length, 4, 12);
+      const wireframe = this.tracker.trackGeometry(new THREE.WireframeGeometry(source));
+      source.dispose();
+      this.capsule.geometry.dispose();
+      this.capsule.geometry = wireframe;
+      this.capsuleShapeKey = shapeKey;
+    }
+
+    // Position is at the feet; the capsule is centered half its height above
+    this.capsule.position.set(position.x, position.y + shape.height / 2, position.z);
+  }
+
+  private updateQueries(records: PhysicsQueryRecord[], deltaTime: number): void {
+    const fadeTime = DEBUG.PHYSICS_QUERY_FADE_TIME;
+    for (const trace of this.traces) trace.age += deltaTime;
+    this.traces = this.traces.filter((trace) => trace.age < fadeTime);
+    for (const record of records) this.traces.push({ record, age: 0 });
+    if (this.traces.length > DEBUG.PHYSICS_QUERY_HISTORY) {
+      this.traces.splice(0, this.traces.length - DEBUG.PHYSICS_QUERY_HISTORY);
+    }
+
+    let vertex = 0;
+    const addSegment = (a: Vector3Like, b: Vector3Like, color: THREE.Color, fade: number) => {
+      this.scratchColor.copy(color).multiplyScalar(fade);
+      for (const point of [a, b]) {
+        this.queryPositions[vertex * 3] = point.x;
+        this.queryPositions[vertex * 3 + 1] = point.y;
+        this.queryPositions[vertex * 3 + 2] = point.z;
+        this.queryColors[vertex * 3] = this.scratchColor.r;
+        this.queryColors[vertex * 3 + 1] = this.scratchColor.g;
+        this.queryColors[vertex * 3 + 2] = this.scratchColor.b;
+        vertex++;
+      }
+    };
+
+    for (const { record, age } of this.traces) {
+      const fade = 1 - age / fadeTime;
+      const { origin, direction } = record;
+      const length = Math.hypot(direction.x, direction.y, direction.z);
+      if (length < 1e-6) continue;
+
+      const end = record.hit && record.point
+        ? record.point
+        : {
+          x: origin.x + (direction.x / length) * record.distance,
+          y: origin.y + (direction.y / length) * record.distance,
+          z: origin.z + (direction.z / length) * record.distance
+        };
+      addSegment(origin, end, record.hit ? this.hitColor : this.rayColor, fade);
+
+      if (!record.hit || !record.point) continue;
+      const p = record.point;
+      const s = HIT_MARKER_SIZE;
+      addSegment({ x: p.x - s, y: p.y, z: p.z }, { x: p.x + s, y: p.y, z: p.z }, this.hitColor, fade);
+      addSegment({ x: p.x, y: p.y - s, z: p.z }, { x: p.x, y: p.y + s, z: p.z }, this.hitColor, fade);
+      addSegment({ x: p.x, y: p.y, z: p.z - s }, { x: p.x, y: p.y, z: p.z + s }, this.hitColor, fade);
+
+      if (record.normal) {
+        const n = record.normal;
+        const normalLength = DEBUG.PHYSICS_NORMAL_LENGTH;
+        addSegment(
+          p,
+          { x: p.x + n.x * normalLength, y: p.y + n.y * normalLength, z: p.z + n.z * normalLength },
+          this.normalColor,
+          fade
+        );
+      }
+    }
+
+    this.queryGeometry.setDrawRange(0, vertex);
+    const position = this.queryGeometry.getAttribute('position');
+    const color = this.queryGeometry.getAttribute('color');
+    position.needsUpdate = true;
+    color.needsUpdate = true;
+  }
+}
+
+export default PhysicsDebugRenderer;
@@ -3,12 +3,27 @@ import { DEBUG, COM } from '../config/index.js';
 import type { DisposalTracker } from '../utils/disposal.js';
 import type { Vector3Like } from '../types/index.js';
 
+/**
+ * Arrow appearance; defaults draw the CoM velocity arrow
+ */
+export interface VelocityArrowOptions {
+  color?: number;
+  scale?: number;           // Length per unit of speed
+  gated?: boolean;          // Shown only with DEBUG.SHOW_VELOCITY_ARROW (default true)
+  endAtPosition?: boolean;  // Point into the position instead of out of it
+}
+
 /**
  * Visualizes velocity as an arrow originating from CoM
  */
 export class VelocityArrow {
   private scene: THREE.Scene | null = null;
 
+  // Appearance
+  private scale: number;
+  private gated: boolean;
+  private endAtPosition: boolean;
+
   // Visual element
   private arrow: THREE.ArrowHelper | null = null;
 
@@ -19,7 +34,11 @@ export class VelocityArrow {
   // State
   private visible: boolean = false;
 
-  constructor(tracker: DisposalTracker) {
+  constructor(tracker: DisposalTracker, options: VelocityArrowOptions = {}) {
+    this.scale = options.scale ?? COM.VELOCITY_ARROW.SCALE;
+    this.gated = options.gated ?? true;
+    this.endAtPosition = options.endAtPosition ?? false;
+
     // Initialize reusable vectors
     this.direction = new THREE.Vector3(0, 0, 1);
     this.origin = new THREE.Vector3(0, 0, 0);
@@ -29,7 +48,7 @@ export class VelocityArrow {
       this.direction,
       this.origin,
       1, // Initial length
-      DEBUG.VELOCITY_COLOR,
+      options.color ?? DEBUG.VELOCITY_COLOR,
       COM.VELOCITY_ARROW.HEAD_LENGTH,
       COM.VELOCITY_ARROW.HEAD_WIDTH
     );
@@ -70,7 +89,7 @@ export class VelocityArrow {
   setVisible(visible: boolean): void {
     this.visible = visible;
     if (this.arrow) {
-      this.arrow.visible = visible && DEBUG.SHOW_VELOCITY_ARROW;
+      this.arrow.visible = visible && this.isEnabled();
     }
   }
 
@@ -78,7 +97,7 @@ export class VelocityArrow {
    * Update arrow with current position and velocity
    */
   update(position: Vector3Like, velocity: Vector3Like): void {
-    if (!this.arrow || !this.visible || !DEBUG.SHOW_VELOCITY_ARROW) {
+    if (!this.arrow || !this.visible || !this.isEnabled()) {
       return;
     }
 
@@ -97,7 +116,7 @@ export class VelocityArrow {
 
     // Calculate arrow length (clamped)
     const length = Math.min(
-      Math.max(speed * COM.VELOCITY_ARROW.SCALE, COM.VELOCITY_ARROW.MIN_LENGTH),
+      Math.max(speed * this.scale, COM.VELOCITY_ARROW.MIN_LENGTH),
       COM.VELOCITY_ARROW.MAX_LENGTH
     );
 
@@ -108,8 +127,11 @@ export class VelocityArrow {
       velocity.z / speed
     );
 
-    // Set origin
+    // Set origin (backed off by the length when the arrow ends at the position)
     this.origin.set(position.x, position.y, position.z);
+    if (this.endAtPosition) {
+      this.origin.addScaledVector(this.direction, -length);
+    }
 
     // Update arrow
     this.arrow.position.copy(this.origin);
@@ -132,6 +154,10 @@ export class VelocityArrow {
     }
   }
 
+  private isEnabled(): boolean {
+    return !this.gated || DEBUG.SHOW_VELOCITY_ARROW;
+  }
+
   /**
    * Check if arrow is currently visible
    */
@@ -1,4 +1,7 @@
 export { CoMVisualizer } from './CoMVisualizer.js';
+export { CapturePointVisualizer } from './CapturePointVisualizer.js';
 export { SupportPolygonVisualizer } from './SupportPolygonVisualizer.js';
 export { TrajectoryTrail } from './TrajectoryTrail.js';
 export { VelocityArrow } from './VelocityArrow.js';
+export { PhysicsDebugRenderer } from './PhysicsDebugRenderer.js';
+export type { VelocityArrowOptions } from './VelocityArrow.js';
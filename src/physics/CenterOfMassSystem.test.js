@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { CenterOfMassSystem } from './CenterOfMassSystem.js'
+import { CHARACTER } from '../config/index.js'
+
+// Single-segment body: the CoM is the torso position
+const bodyAt = (x, y, z) => new Map([['torso', { x, y, z }]])
+
+// Square support polygon around the origin, half-size 0.3
+const square = [
+  { x: -0.3, y: 0, z: -0.3 },
+  { x: 0.3, y: 0, z: -0.3 },
+  { x: 0.3, y: 0, z: 0.3 },
+  { x: -0.3, y: 0, z: 0.3 }
+]
+
+describe('physics/CenterOfMassSystem', () => {
+  it('extrapolates the capture point ahead of the CoM by v / omega', () => {
+    const legLength = 3
+    const com = new CenterOfMassSystem(legLength)
+    const omega = Math.sqrt(CHARACTER.GRAVITY / legLength)
+    expect(com.getOmega()).toBeCloseTo(omega, 5)
+
+    // Standing still over the centre: capture point under the CoM, well inside
+    let state = com.update(bodyAt(0, 3, 0), 0, square, 0.016)
+    state = com.update(bodyAt(0, 3, 0), 0, square, 0.016)
+    expect(state.capturePoint).toEqual({ x: 0, y: 0, z: 0 })
+    expect(state.captureMargin).toBeCloseTo(0.3, 5)
+
+    // Moving steadily along +X: the capture point leads by the smoothed velocity
+    for (let i = 1; i <= 120; i++) {
+      state = com.update(bodyAt(i * 0.016, 3, 0), 0, square, 0.016)
+    }
+    expect(state.velocity.x).toBeCloseTo(1, 3)
+    expect(state.capturePoint.x - state.groundProjection.x).toBeCloseTo(state.velocity.x / omega, 5)
+    expect(state.isStable).toBe(false)
+    expect(state.captureMargin).toBeLessThan(state.stabilityMargin)
+  })
+
+  it('shifts the zero-moment point against the CoM acceleration', () => {
+    const com = new CenterOfMassSystem()
+    const height = 3
+
+    // Constant acceleration along +Z from rest
+    const accel = 2
+    let state
+    for (let i = 0; i <= 120; i++) {
+      const t = i * 0.016
+      state = com.update(bodyAt(0, height, 0.5 * accel * t * t), 0, square, 0.016)
+    }
+
+    expect(state.acceleration.z).toBeCloseTo(accel, 1)
+    expect(state.zmp.y).toBe(0)
+    expect(state.zmp.z).toBeCloseTo(state.position.z - height * state.acceleration.z / CHARACTER.GRAVITY, 1)
+    expect(state.zmp.z).toBeLessThan(state.position.z)
+
+    com.reset()
+    state = com.update(bodyAt(0, height, 0), 0, square, 0.016)
+    expect(state.acceleration).toEqual({ x: 0, y: 0, z: 0 })
+  })
+})
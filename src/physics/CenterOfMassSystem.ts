@@ -1,17 +1,25 @@
-import { COM } from '../config/index.js';
+import { ANIMATION, CHARACTER, COM } from '../config/index.js';
 import type { Vector3Like, CoMState, BonePositions, SegmentMasses } from '../types/index.js';
 
 /**
  * Center of Mass calculation system
- * Computes weighted CoM from bone positions using biomechanics-based segment masses
+ * Computes weighted CoM from bone positions using biomechanics-based segment masses,
+ * plus capture point and zero-moment point from a linear inverted pendulum
+ * on the leg
  */
 export class CenterOfMassSystem {
   private previousPosition: Vector3Like | null = null;
   private velocity: Vector3Like = { x: 0, y: 0, z: 0 };
+  private previousVelocity: Vector3Like | null = null;
+  private acceleration: Vector3Like = { x: 0, y: 0, z: 0 };
   private segmentMasses: SegmentMasses;
 
-  constructor() {
+  // Pendulum natural frequency sqrt(g / leg length) (1/s)
+  private omega: number;
+
+  constructor(legLength: number = ANIMATION.UPPER_LEG_LENGTH + ANIMATION.LOWER_LEG_LENGTH) {
     this.segmentMasses = COM.SEGMENT_MASSES;
+    this.omega = Math.sqrt(CHARACTER.GRAVITY / Math.max(legLength, 0.01));
   }
 
   /**
@@ -87,6 +95,58 @@ export class CenterOfMassSystem {
     return { ...this.velocity };
   }
 
+  /**
+   * Calculate acceleration from the change in smoothed velocity
+   */
+  calculateAcceleration(velocity: Vector3Like, deltaTime: number): Vector3Like {
+    if (!this.previousVelocity || deltaTime <= 0) {
+      this.previousVelocity = { ...velocity };
+      return { ...this.acceleration };
+    }
+
+    const smoothing = COM.CAPTURE_POINT.ACCEL_SMOOTHING;
+    this.acceleration.x = this.acceleration.x * (1 - smoothing) + (velocity.x - this.previousVelocity.x) / deltaTime * smoothing;
+    this.acceleration.y = this.acceleration.y * (1 - smoothing) + (velocity.y - this.previousVelocity.y) / deltaTime * smoothing;
+    this.acceleration.z = this.acceleration.z * (1 - smoothing) + (velocity.z - this.previousVelocity.z) / deltaTime * smoothing;
+
+    this.previousVelocity = { ...velocity };
+
+    return { ...this.acceleration };
+  }
+
+  /**
+   * Instantaneous capture point (extrapolated CoM): where the foot must be
+   * placed for the pendulum to come to rest over it, x + v / omega
+   */
+  calculateCapturePoint(groundProjection: Vector3Like, velocity: Vector3Like): Vector3Like {
+    return {
+      x: groundProjection.x + velocity.x / this.omega,
+      y: groundProjection.y,
+      z: groundProjection.z + velocity.z / this.omega
+    };
+  }
+
+  /**
+   * Zero-moment point of the pendulum: x - h * a / (g + a_y), with the
+   * vertical term floored so a CoM in free fall doesn't blow it up
+   */
+  calculateZMP(position: Vector3Like, acceleration: Vector3Like, groundHeight: number): Vector3Like {
+    const height = Math.max(0, position.y - groundHeight);
+    const support = Math.max(CHARACTER.GRAVITY + acceleration.y, COM.CAPTURE_POINT.MIN_SUPPORT_ACCEL);
+    return {
+      x: position.x - height * acceleration.x / support,
+      y: groundHeight,
+      z: position.z - height * acceleration.z / support
+    };
+  }
+
+  /**
+   * Pendulum natural frequency (1/s)
+   */
+  getOmega(): number {
+    return this.omega;
+  }
+
   /**
    * Project position to ground plane
    */
@@ -232,8 +292,9 @@ export class CenterOfMassSystem {
     // Calculate weighted CoM
     const position = this.calculateWeightedCoM(bonePositions);
 
-    // Calculate velocity
+    // Calculate velocity and acceleration
     const velocity = this.calculateVelocity(position, deltaTime);
+    const acceleration = this.calculateAcceleration(velocity, deltaTime);
 
     // Project to ground
     const groundProjection = this.projectToGround(position, groundHeight);
@@ -243,13 +304,22 @@ export class CenterOfMassSystem {
     const isStable = stabilityMargin >= 0;
     const stabilityLevel = this.getStabilityLevel(stabilityMargin);
 
+    // Dynamic stability
+    const capturePoint = this.calculateCapturePoint(groundProjection, velocity);
+    const zmp = this.calculateZMP(position, acceleration, groundHeight);
+    const captureMargin = this.calculateStabilityMargin(capturePoint, supportPolygon);
+
     return {
       position,
       velocity,
       groundProjection,
       isStable,
       stabilityMargin,
-      stabilityLevel
+      stabilityLevel,
+      acceleration,
+      capturePoint,
+      zmp,
+      captureMargin
     };
   }
 
@@ -267,6 +337,8 @@ export class CenterOfMassSystem {
   reset(): void {
     this.previousPosition = null;
     this.velocity = { x: 0, y: 0, z: 0 };
+    this.previousVelocity = null;
+    this.acceleration = { x: 0, y: 0, z: 0 };
   }
 }
 
@@ -1,8 +1,12 @@
-import type { Vector3Like } from '../types/index.js';
+import type { TerrainHeightmap } from '../terrain/TerrainHeightmap.js';
+import { PhysicsEventEmitter, type ContactListener, type GroundedListener } from './PhysicsEvents.js';
+import type { QuaternionLike, TerrainMaterialId, Vector3Like } from '../types/index.js';
 
 export interface GroundProbeResult {
   height: number;
   normal: Vector3Like;
+  materialId?: TerrainMaterialId; // Surface material (when the world knows about terrain materials)
+  platformKey?: string;           // Moving platform the probe landed on
 }
 
 export interface RaycastResult {
@@ -29,6 +33,8 @@ export interface CharacterMovementResult {
   grounded: boolean;
   groundHeight: number;
   groundNormal: Vector3Like;
+  groundMaterialId?: TerrainMaterialId;
+  groundPlatformKey?: string;
 }
 
 export interface ShapeDefinition {
@@ -37,11 +43,177 @@ export interface ShapeDefinition {
   height?: number;
 }
 
+/**
+ * Axis-aligned box (before yaw) centered on position
+ */
+export interface StaticBoxDefinition {
+  type: 'box';
+  position: Vector3Like;
+  halfExtents: Vector3Like;
+  rotationY?: number;
+  material?: TerrainMaterialId;
+}
+
+/**
+ * Upright cylinder centered on position
+ */
+export interface StaticCylinderDefinition {
+  type: 'cylinder';
+  position: Vector3Like;
+  radius: number;
+  halfHeight: number;
+  material?: TerrainMaterialId;
+}
+
+/**
+ * Wedge rising along local +Z; position is the center of its base
+ */
+export interface StaticRampDefinition {
+  type: 'ramp';
+  position: Vector3Like;
+  width: number;
+  length: number;
+  height: number;
+  rotationY?: number;
+  material?: TerrainMaterialId;
+}
+
+export type StaticShapeDefinition = StaticBoxDefinition | StaticCylinderDefinition | StaticRampDefinition;
+
+/**
+ * Simulated rigid body; position is the center of mass
+ */
+export interface DynamicBodyDefinition {
+  type: 'box' | 'sphere' | 'capsule';
+  position: Vector3Like;
+  mass: number;
+  halfExtents?: Vector3Like; // Box
+  radius?: number;           // Sphere / capsule
+  halfHeight?: number;       // Capsule segment half length
+}
+
+export interface DynamicBodyState {
+  position: Vector3Like;
+  rotation: QuaternionLike;
+  sleeping: boolean;
+}
+
+/**
+ * One rigid segment of a ragdoll; the body origin sits on the joint the
+ * segment hangs from, and the collider is offset from it in body space
+ */
+export interface RagdollSegmentDefinition {
+  shape: 'capsule' | 'sphere';
+  position: Vector3Like;
+  rotation: QuaternionLike;
+  colliderOffset: Vector3Like;
+  radius: number;
+  halfHeight?: number;          // Capsule segment half length (along body Y)
+  mass: number;
+  linearVelocity?: Vector3Like;
+}
+
+/**
+ * Joint between two segments; anchors are in each body's frame
+ * Revolute joints hinge about `axis` (shared by both body frames) within
+ * `limits` (radians, relative to the pose the ragdoll was created in).
+ * Spherical joints swing up to `swingLimit` about the body X and Z axes and
+ * twist up to `twistLimit` about Y (radians either way; free when unset).
+ */
+export interface RagdollJointDefinition {
+  type: 'spherical' | 'revolute';
+  parent: string;
+  child: string;
+  parentAnchor: Vector3Like;
+  childAnchor: Vector3Like;
+  axis?: Vector3Like;
+  limits?: [number, number];
+  swingLimit?: number;
+  twistLimit?: number;
+}
+
+export interface RagdollDefinition {
+  segments: Record<string, RagdollSegmentDefinition>;
+  joints: RagdollJointDefinition[];
+}
+
+export interface RagdollSegmentState extends DynamicBodyState {
+  linearVelocity: Vector3Like;
+}
+
+/**
+ * How a kinematic platform moves; offsets are relative to its start position
+ * - path: ping-pongs through waypoints at a constant speed
+ * - rotate: spins about its center at a constant yaw rate
+ * - elevator: vertical path between the start and `height` above it
+ */
+export type PlatformMotion =
+  | { type: 'path'; waypoints: Vector3Like[]; speed: number; pauseTime?: number }
+  | { type: 'rotate'; angularSpeed: number }
+  | { type: 'elevator'; height: number; speed: number; pauseTime?: number };
+
+export interface PlatformDefinition {
+  shape: StaticBoxDefinition | StaticCylinderDefinition; // Pose at time 0
+  motion: PlatformMotion;
+}
+
+/**
+ * Motion of a platform over the last step (for carrying what stands on it)
+ */
+export interface GroundMotion {
+  velocity: Vector3Like;    // Linear velocity of the platform center
+  angularVelocity: number;  // Yaw rate (rad/s)
+  center: Vector3Like;      // Platform center after the step
+}
+
+export interface PhysicsStats {
+  dynamicBodies: number;
+  activeBodies: number;  // Awake dynamic bodies
+  stepTimeMs: number;    // Duration of the last simulation step
+}
+
+/**
+ * A raycast or shapecast captured for debug drawing
+ */
+export interface PhysicsQueryRecord {
+  type: 'raycast' | 'shapeCast';
+  origin: Vector3Like;
+  direction: Vector3Like;  // As passed by the caller
+  distance: number;        // Maximum cast distance
+  hit: boolean;
+  point?: Vector3Like;
+  normal?: Vector3Like;
+  radius?: number;         // Swept shape radius (shapecasts)
+}
+
+/**
+ * Engine debug geometry: line segment vertex pairs (xyz) and RGBA colors
+ */
+export interface PhysicsDebugBuffers {
+  vertices: Float32Array;
+  colors: Float32Array;
+}
+
 /**
  * Abstract interface for physics world
  * Implement this to swap physics engines (Simple, Rapier, etc.)
  */
 export class IPhysicsWorld {
+  // Contact / grounding listeners
+  events: PhysicsEventEmitter;
+  characterGrounded: boolean | null;
+
+  // Query recording for debug drawing (limit 0 = off)
+  queryRecordLimit: number;
+  recordedQueries: PhysicsQueryRecord[];
+
+  constructor() {
+    this.events = new PhysicsEventEmitter();
+    this.characterGrounded = null;
+    this.queryRecordLimit = 0;
+    this.recordedQueries = [];
+  }
+
   /**
    * Probe the ground at a position
    */
@@ -93,6 +265,205 @@ export class IPhysicsWorld {
     throw new Error('computeCharacterMovement must be implemented');
   }
 
+  /**
+   * Rebuild terrain collision after the heightmap data changes
+   */
+  rebuildTerrain(): void {
+    // Optional: override for engines that bake terrain into colliders
+  }
+
+  /**
+   * Register collision for a streamed terrain chunk
+   */
+  addTerrainChunk(_key: string, _heightmap: TerrainHeightmap): void {
+    void _key;
+    void _heightmap;
+    // Optional: heightmap-query engines read chunks through their height source
+  }
+
+  /**
+   * Remove collision for an unloaded terrain chunk
+   */
+  removeTerrainChunk(_key: string): void {
+    void _key;
+  }
+
+  /**
+   * Register a static obstacle (walls, props, stairs) under a key
+   */
+  addStaticShape(_key: string, _shape: StaticShapeDefinition): void {
+    void _key;
+    void _shape;
+    // Optional: override for engines that collide against world objects
+  }
+
+  /**
+   * Remove a static obstacle
+   */
+  removeStaticShape(_key: string): void {
+    void _key;
+  }
+
+  /**
+   * Returns true if this physics world simulates rigid bodies
+   * (dynamic props and kinematic platforms).
+   */
+  supportsDynamicBodies(): boolean {
+    return false;
+  }
+
+  /**
+   * Spawn a dynamic rigid body under a key
+   */
+  addDynamicBody(_key: string, _body: DynamicBodyDefinition): void {
+    void _key;
+    void _body;
+    // Optional: override for engines with rigid body simulation
+  }
+
+  /**
+   * Remove a dynamic rigid body
+   */
+  removeDynamicBody(_key: string): void {
+    void _key;
+  }
+
+  /**
+   * Current transform of a dynamic body (null when unknown)
+   */
+  getDynamicBodyState(_key: string): DynamicBodyState | null {
+    void _key;
+    return null;
+  }
+
+  /**
+   * Returns true if this physics world can simulate jointed ragdolls
+   */
+  supportsRagdolls(): boolean {
+    return false;
+  }
+
+  /**
+   * Spawn a ragdoll (segments connected by joints) under a key
+   */
+  addRagdoll(_key: string, _ragdoll: RagdollDefinition): void {
+    void _key;
+    void _ragdoll;
+    // Optional: override for engines with joint simulation
+  }
+
+  /**
+   * Remove a ragdoll and its joints
+   */
+  removeRagdoll(_key: string): void {
+    void _key;
+  }
+
+  /**
+   * Current transform of every ragdoll segment (null when unknown)
+   */
+  getRagdollState(_key: string): Record<string, RagdollSegmentState> | null {
+    void _key;
+    return null;
+  }
+
+  /**
+   * Add a kinematic moving platform under a key
+   */
+  addPlatform(_key: string, _platform: PlatformDefinition): void {
+    void _key;
+    void _platform;
+    // Optional: override for engines with kinematic bodies
+  }
+
+  /**
+   * Remove a moving platform
+   */
+  removePlatform(_key: string): void {
+    void _key;
+  }
+
+  /**
+   * Current transform of a platform (null when unknown)
+   */
+  getPlatformState(_key: string): DynamicBodyState | null {
+    void _key;
+    return null;
+  }
+
+  /**
+   * Platform motion over the last step (null when unknown)
+   */
+  getPlatformMotion(_key: string): GroundMotion | null {
+    void _key;
+    return null;
+  }
+
+  /**
+   * Listen for contacts beginning; returns an unsubscribe function
+   */
+  onContactStart(listener: ContactListener): () => void {
+    return this.events.onContactStart(listener);
+  }
+
+  /**
+   * Listen for contacts ending; returns an unsubscribe function
+   */
+  onContactEnd(listener: ContactListener): () => void {
+    return this.events.onContactEnd(listener);
+  }
+
+  /**
+   * Listen for character grounding changes; returns an unsubscribe function
+   */
+  onGroundedChanged(listener: GroundedListener): () => void {
+    return this.events.onGroundedChanged(listener);
+  }
+
+  /**
+   * Report the character's (debounced) grounded state; emits on change
+   */
+  setCharacterGrounded(grounded: boolean, position: Vector3Like, velocity: Vector3Like): void {
+    if (this.characterGrounded === grounded) return;
+    const first = this.characterGrounded === null;
+    this.characterGrounded = grounded;
+    if (first) return;
+    this.events.emitGroundedChanged({ grounded, position: { ...position }, velocity: { ...velocity } });
+  }
+
+  /**
+   * Keep up to `limit` raycasts/shapecasts for takeRecordedQueries (0 disables)
+   */
+  setQueryRecording(limit: number): void {
+    this.queryRecordLimit = Math.max(0, Math.floor(limit));
+    if (this.recordedQueries.length > this.queryRecordLimit) {
+      this.recordedQueries.splice(0, this.recordedQueries.length - this.queryRecordLimit);
+    }
+  }
+
+  /**
+   * Queries recorded since the last call (oldest first)
+   */
+  takeRecordedQueries(): PhysicsQueryRecord[] {
+    const queries = this.recordedQueries;
+    this.recordedQueries = [];
+    return queries;
+  }
+
+  /**
+   * Line geometry of every collider, when the engine can provide it
+   */
+  getDebugRenderBuffers(): PhysicsDebugBuffers | null {
+    return null;
+  }
+
+  /**
+   * Body counts and step timing for telemetry
+   */
+  getStats(): PhysicsStats {
+    return { dynamicBodies: 0, activeBodies: 0, stepTimeMs: 0 };
+  }
+
   /**
    * Update physics simulation
    */
@@ -100,6 +471,33 @@ export class IPhysicsWorld {
     void _deltaTime;
     // Optional: override for physics engines that need stepping
   }
+
+  /**
+   * Store a query result while recording is on
+   */
+  protected recordQuery(
+    type: PhysicsQueryRecord['type'],
+    origin: Vector3Like,
+    direction: Vector3Like,
+    distance: number,
+    result: RaycastResult | ShapeCastResult,
+    radius?: number
+  ): void {
+    if (this.queryRecordLimit <= 0) return;
+    this.recordedQueries.push({
+      type,
+      origin: { ...origin },
+      direction: { ...direction },
+      distance,
+      hit: result.hit,
+      point: result.point ? { ...result.point } : undefined,
+      normal: result.normal ? { ...result.normal } : undefined,
+      radius
+    });
+    if (this.recordedQueries.length > this.queryRecordLimit) {
+      this.recordedQueries.shift();
+    }
+  }
 }
 
 export default IPhysicsWorld;
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { debugLogger } from '../utils/index.js'
+import { PhysicsEventEmitter, attachPhysicsEventLogging } from './PhysicsEvents.js'
+
+const contact = {
+  bodyA: 'character',
+  bodyB: 'static:rock',
+  normal: { x: -1, y: 0, z: 0 },
+  impulse: 12.34567
+}
+
+describe('physics/PhysicsEvents', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('delivers events to listeners until they unsubscribe', () => {
+    const events = new PhysicsEventEmitter()
+    const listener = vi.fn()
+    expect(events.hasContactListeners()).toBe(false)
+
+    const unsubscribe = events.onContactStart(listener)
+    expect(events.hasContactListeners()).toBe(true)
+    events.emitContactStart(contact)
+    expect(listener).toHaveBeenCalledWith(contact)
+
+    unsubscribe()
+    events.emitContactStart(contact)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(events.hasContactListeners()).toBe(false)
+  })
+
+  it('routes contacts and grounding changes into the physics log', () => {
+    const log = vi.spyOn(debugLogger, 'log').mockImplementation(() => {})
+    const events = new PhysicsEventEmitter()
+    const detach = attachPhysicsEventLogging(events)
+
+    events.emitContactStart(contact)
+    events.emitGroundedChanged({
+      grounded: true,
+      position: { x: 0, y: 0, z: 0 },
+      velocity: { x: 0, y: -3, z: 0 }
+    })
+    expect(log).toHaveBeenCalledWith(
+      'physics',
+      'debug',
+      'Contact start character <-> static:rock',
+      expect.objectContaining({ impulse: 12.346 })
+    )
+    expect(log).toHaveBeenCalledWith('physics', 'info', 'Grounded true', expect.objectContaining({ verticalSpeed: -3 }))
+
+    detach()
+    log.mockClear()
+    events.emitContactEnd(contact)
+    expect(log).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,120 @@
+import { debugLogger } from '../utils/index.js';
+import type { Vector3Like } from '../types/index.js';
+
+/**
+ * Body labels used in contact events: 'character', 'terrain',
+ * 'terrain:<chunk>', 'static:<key>', 'platform:<key>', 'dynamic:<key>'
+ */
+export type PhysicsBodyLabel = string;
+
+export interface ContactEvent {
+  bodyA: PhysicsBodyLabel;
+  bodyB: PhysicsBodyLabel;
+  normal: Vector3Like;   // World space, pointing from bodyB toward bodyA
+  impulse: number;       // Normal impulse magnitude (N·s) for the step
+  point?: Vector3Like;
+}
+
+export interface GroundedChangedEvent {
+  grounded: boolean;
+  position: Vector3Like;
+  velocity: Vector3Like; // Character velocity entering the step (impact speed on landing)
+}
+
+export type ContactListener = (event: ContactEvent) => void;
+export type GroundedListener = (event: GroundedChangedEvent) => void;
+
+/**
+ * Listener registry shared by physics world implementations
+ */
+export class PhysicsEventEmitter {
+  private contactStartListeners: Set<ContactListener>;
+  private contactEndListeners: Set<ContactListener>;
+  private groundedListeners: Set<GroundedListener>;
+
+  constructor() {
+    this.contactStartListeners = new Set();
+    this.contactEndListeners = new Set();
+    this.groundedListeners = new Set();
+  }
+
+  onContactStart(listener: ContactListener): () => void {
+    this.contactStartListeners.add(listener);
+    return () => this.contactStartListeners.delete(listener);
+  }
+
+  onContactEnd(listener: ContactListener): () => void {
+    this.contactEndListeners.add(listener);
+    return () => this.contactEndListeners.delete(listener);
+  }
+
+  onGroundedChanged(listener: GroundedListener): () => void {
+    this.groundedListeners.add(listener);
+    return () => this.groundedListeners.delete(listener);
+  }
+
+  /**
+   * True when anyone listens for contacts (lets engines skip pair bookkeeping)
+   */
+  hasContactListeners(): boolean {
+    return this.contactStartListeners.size > 0 || this.contactEndListeners.size > 0;
+  }
+
+  emitContactStart(event: ContactEvent): void {
+    for (const listener of this.contactStartListeners) listener(event);
+  }
+
+  emitContactEnd(event: ContactEvent): void {
+    for (const listener of this.contactEndListeners) listener(event);
+  }
+
+  emitGroundedChanged(event: GroundedChangedEvent): void {
+    for (const listener of this.groundedListeners) listener(event);
+  }
+
+  clear(): void {
+    this.contactStartListeners.clear();
+    this.contactEndListeners.clear();
+    this.groundedListeners.clear();
+  }
+}
+
+interface PhysicsEventSource {
+  onContactStart(listener: ContactListener): () => void;
+  onContactEnd(listener: ContactListener): () => void;
+  onGroundedChanged(listener: GroundedListener): () => void;
+}
+
+/**
+ * Route contact and grounding events into debugLogger ('physics' category)
+ * Returns a function that detaches the listeners.
+ */
+export function attachPhysicsEventLogging(physics: PhysicsEventSource): () => void {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const describe = (event: ContactEvent) => ({
+    pair: `${event.bodyA} <-> ${event.bodyB}`,
+    normal: { x: round(event.normal.x), y: round(event.normal.y), z: round(event.normal.z) },
+    impulse: round(event.impulse)
+  });
+
+  const unsubscribers = [
+    physics.onContactStart((event) => {
+      debugLogger.log('physics', 'debug', `Contact start ${event.bodyA} <-> ${event.bodyB}`, describe(event));
+    }),
+    physics.onContactEnd((event) => {
+      debugLogger.log('physics', 'debug', `Contact end ${event.bodyA} <-> ${event.bodyB}`, describe(event));
+    }),
+    physics.onGroundedChanged((event) => {
+      debugLogger.log('physics', 'info', `Grounded ${event.grounded ? 'true' : 'false'}`, {
+        position: { x: round(event.position.x), y: round(event.position.y), z: round(event.position.z) },
+        verticalSpeed: round(event.velocity.y)
+      });
+    })
+  ];
+
+  return () => {
+    for (const unsubscribe of unsubscribers) unsubscribe();
+  };
+}
+
+export default PhysicsEventEmitter;
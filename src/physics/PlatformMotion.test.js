@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { samplePlatformPose } from './PlatformMotion.js'
+
+const box = { type: 'box', position: { x: 1, y: 0, z: 2 }, halfExtents: { x: 1, y: 0.2, z: 1 } }
+
+describe('physics/PlatformMotion', () => {
+  it('ping-pongs along a path with pauses at each end', () => {
+    const platform = { shape: box, motion: { type: 'path', waypoints: [{ x: 4, y: 0, z: 0 }], speed: 2, pauseTime: 1 } }
+
+    expect(samplePlatformPose(platform, 0).position.x).toBeCloseTo(1, 5)
+    expect(samplePlatformPose(platform, 1).position.x).toBeCloseTo(3, 5)
+    expect(samplePlatformPose(platform, 2.5).position.x).toBeCloseTo(5, 5)
+    expect(samplePlatformPose(platform, 4).position.x).toBeCloseTo(3, 5)
+    expect(samplePlatformPose(platform, 5.5).position.x).toBeCloseTo(1, 5)
+    expect(samplePlatformPose(platform, 6).position.x).toBeCloseTo(1, 5)
+  })
+
+  it('raises elevators and spins rotating platforms', () => {
+    const elevator = { shape: box, motion: { type: 'elevator', height: 3, speed: 1 } }
+    expect(samplePlatformPose(elevator, 2).position.y).toBeCloseTo(2, 5)
+    expect(samplePlatformPose(elevator, 4).position.y).toBeCloseTo(2, 5)
+
+    const disc = { shape: { ...box, rotationY: 0.5 }, motion: { type: 'rotate', angularSpeed: 2 } }
+    const pose = samplePlatformPose(disc, 1.5)
+    expect(pose.yaw).toBeCloseTo(3.5, 5)
+    expect(pose.position).toEqual(box.position)
+  })
+})
@@ -0,0 +1,75 @@
+import type { Vector3Like } from '../types/index.js';
+import type { PlatformDefinition } from './IPhysicsWorld.js';
+
+const EPSILON = 1e-6;
+
+export interface PlatformPose {
+  position: Vector3Like;
+  yaw: number;
+}
+
+/**
+ * Distance along a ping-pong cycle (out, pause, back, pause)
+ */
+function pingPongDistance(length: number, speed: number, pauseTime: number, time: number): number {
+  const travel = length / speed;
+  const period = 2 * (travel + pauseTime);
+  const t = ((time % period) + period) % period;
+
+  if (t < travel) return t * speed;
+  if (t < travel + pauseTime) return length;
+  if (t < 2 * travel + pauseTime) return length - (t - travel - pauseTime) * speed;
+  return 0;
+}
+
+/**
+ * Point at a distance along a polyline
+ */
+function pointAlong(points: Vector3Like[], distance: number): Vector3Like {
+  let remaining = distance;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (!a || !b) break;
+    const segment = Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+    if (remaining <= segment || i === points.length - 1) {
+      const t = segment > EPSILON ? Math.min(remaining / segment, 1) : 0;
+      return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+    }
+    remaining -= segment;
+  }
+  return { ...(points[0] ?? { x: 0, y: 0, z: 0 }) };
+}
+
+/**
+ * Platform pose at a simulation time (seconds since it was added)
+ */
+export function samplePlatformPose(platform: PlatformDefinition, time: number): PlatformPose {
+  const { shape, motion } = platform;
+  const start = shape.position;
+  const baseYaw = shape.type === 'box' ? shape.rotationY ?? 0 : 0;
+
+  if (motion.type === 'rotate') {
+    return { position: { ...start }, yaw: baseYaw + motion.angularSpeed * time };
+  }
+
+  const offsets = motion.type === 'elevator'
+    ? [{ x: 0, y: motion.height, z: 0 }]
+    : motion.waypoints;
+  const points = [start, ...offsets.map((o) => ({ x: start.x + o.x, y: start.y + o.y, z: start.z + o.z }))];
+
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a && b) length += Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+  }
+  if (length < EPSILON || motion.speed <= 0) {
+    return { position: { ...start }, yaw: baseYaw };
+  }
+
+  const distance = pingPongDistance(length, motion.speed, Math.max(0, motion.pauseTime ?? 0), time);
+  return { position: pointAlong(points, distance), yaw: baseYaw };
+}
+
+export default samplePlatformPose;
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { TerrainHeightmap } from '../terrain/TerrainHeightmap.js'
+import { TerrainChunkManager } from '../terrain/TerrainChunkManager.js'
 import { RapierPhysics } from './RapierPhysics.js'
 
 describe('physics/RapierPhysics', () => {
@@ -24,4 +25,325 @@ describe('physics/RapierPhysics', () => {
       physics.dispose()
     }
   })
+
+  it('rebuilds the terrain collider from updated heights', async () => {
+    const heightmap = new TerrainHeightmap(10, 2)
+    const physics = await RapierPhysics.create(heightmap)
+    try {
+      heightmap.setHeights(new Float32Array(9).fill(3))
+      physics.rebuildTerrain()
+
+      const hit = physics.raycast({ x: 0, y: 10, z: 0 }, { x: 0, y: -1, z: 0 }, 20)
+      expect(hit.point.y).toBeCloseTo(3, 4)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('adds and removes streamed terrain chunk colliders', async () => {
+    const chunks = new TerrainChunkManager({ chunkSize: 10, segments: 2, loadRadius: 0 })
+    const physics = await RapierPhysics.create(chunks)
+    try {
+      expect(physics.terrainCollider).toBeNull()
+
+      const chunk = new TerrainHeightmap(10, 2, { type: 'sine', sample: () => 2 }, 20, 0)
+      physics.addTerrainChunk('2,0', chunk)
+      expect(physics.raycast({ x: 20, y: 10, z: 0 }, { x: 0, y: -1, z: 0 }, 20).point.y).toBeCloseTo(2, 4)
+
+      physics.removeTerrainChunk('2,0')
+      expect(physics.raycast({ x: 20, y: 10, z: 0 }, { x: 0, y: -1, z: 0 }, 20).hit).toBe(false)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('adds and removes static obstacle colliders', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(20, 4))
+    try {
+      physics.addStaticShape('crate', {
+        type: 'box',
+        position: { x: 0, y: 1, z: 0 },
+        halfExtents: { x: 1, y: 1, z: 1 },
+        material: 'rock'
+      })
+      expect(physics.raycast({ x: 0, y: 10, z: 0 }, { x: 0, y: -1, z: 0 }, 20).point.y).toBeCloseTo(2, 4)
+      expect(physics.probeGround(0, 0).materialId).toBe('rock')
+
+      physics.removeStaticShape('crate')
+      expect(physics.raycast({ x: 0, y: 10, z: 0 }, { x: 0, y: -1, z: 0 }, 20).point.y).toBeCloseTo(0, 4)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('simulates dynamic bodies and reports stats', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(20, 4))
+    try {
+      physics.addDynamicBody('ball', { type: 'sphere', position: { x: 0, y: 5, z: 0 }, radius: 0.5, mass: 10 })
+      for (let i = 0; i < 30; i++) physics.update(1 / 60)
+
+      const state = physics.getDynamicBodyState('ball')
+      expect(state.position.y).toBeLessThan(5)
+      const stats = physics.getStats()
+      expect(stats.dynamicBodies).toBe(1)
+      expect(stats.activeBodies).toBe(1)
+      expect(stats.stepTimeMs).toBeGreaterThanOrEqual(0)
+
+      physics.removeDynamicBody('ball')
+      expect(physics.getDynamicBodyState('ball')).toBeNull()
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('pushes dynamic bodies the character walks into', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(40, 4))
+    try {
+      physics.addDynamicBody('crate', {
+        type: 'box',
+        position: { x: 1, y: 0.5, z: 0 },
+        halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+        mass: 10
+      })
+      physics.update(1 / 60)
+
+      const shape = { type: 'capsule', radius: 0.35, height: 2 }
+      physics.computeCharacterMovement({ x: 0, y: 0.05, z: 0 }, { x: 0.3, y: 0, z: 0 }, shape)
+
+      const crate = physics.dynamicBodies.get('crate')
+      expect(crate.linvel().x).toBeGreaterThan(0)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('simulates jointed ragdolls that settle within their hinge limits', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(40, 4))
+    try {
+      const identity = { x: 0, y: 0, z: 0, w: 1 }
+      physics.addRagdoll('dummy', {
+        segments: {
+          thigh: {
+            shape: 'capsule',
+            position: { x: 0, y: 4, z: 0 },
+            rotation: identity,
+            colliderOffset: { x: 0, y: -0.75, z: 0 },
+            radius: 0.1,
+            halfHeight: 0.65,
+            mass: 8,
+            linearVelocity: { x: 2, y: 0, z: 0 }
+          },
+          shin: {
+            shape: 'capsule',
+            position: { x: 0, y: 2.5, z: 0 },
+            rotation: identity,
+            colliderOffset: { x: 0, y: -0.75, z: 0 },
+            radius: 0.1,
+            halfHeight: 0.65,
+            mass: 4
+          }
+        },
+        joints: [{
+          type: 'revolute',
+          parent: 'thigh',
+          child: 'shin',
+          parentAnchor: { x: 0, y: -1.5, z: 0 },
+          childAnchor: { x: 0, y: 0, z: 0 },
+          axis: { x: 1, y: 0, z: 0 },
+          limits: [0, 1]
+        }]
+      })
+      for (let i = 0; i < 240; i++) physics.update(1 / 60)
+
+      const state = physics.getRagdollState('dummy')
+      expect(state.thigh.position.y).toBeLessThan(1)
+      expect(state.thigh.position.x).toBeGreaterThan(0)
+
+      // Relative rotation about the hinge axis stays inside the limits
+      const { thigh, shin } = state
+      const inverse = { x: -thigh.rotation.x, y: -thigh.rotation.y, z: -thigh.rotation.z, w: thigh.rotation.w }
+      const relative = {
+        x: inverse.w * shin.rotation.x + inverse.x * shin.rotation.w + inverse.y * shin.rotation.z - inverse.z * shin.rotation.y,
+        w: inverse.w * shin.rotation.w - inverse.x * shin.rotation.x - inverse.y * shin.rotation.y - inverse.z * shin.rotation.z
+      }
+      const angle = 2 * Math.atan2(relative.x, relative.w)
+      expect(angle).toBeGreaterThan(-0.1)
+      expect(angle).toBeLessThan(1.1)
+
+      // Character queries don't see ragdoll bodies
+      expect(physics.probeGround(thigh.position.x, thigh.position.z).height).toBeCloseTo(0, 1)
+
+      physics.removeRagdoll('dummy')
+      expect(physics.getRagdollState('dummy')).toBeNull()
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('keeps spherical ragdoll joints within their swing and twist limits', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(40, 4))
+    try {
+      const identity = { x: 0, y: 0, z: 0, w: 1 }
+      const addFlailingArm = (key, x, limits) => physics.addRagdoll(key, {
+        segments: {
+          torso: {
+            shape: 'capsule',
+            position: { x, y: 6, z: 0 },
+            rotation: identity,
+            colliderOffset: { x: 0, y: 0.5, z: 0 },
+            radius: 0.3,
+            halfHeight: 0.2,
+            mass: 40
+          },
+          arm: {
+            shape: 'capsule',
+            position: { x, y: 6, z: 0 },
+            rotation: identity,
+            colliderOffset: { x: 0, y: -0.5, z: 0 },
+            radius: 0.05,
+            halfHeight: 0.45,
+            mass: 2,
+            linearVelocity: { x: 3, y: 0, z: 2 }
+          }
+        },
+        joints: [{
+          type: 'spherical',
+          parent: 'torso',
+          child: 'arm',
+          parentAnchor: { x: 0, y: 0, z: 0 },
+          childAnchor: { x: 0, y: 0, z: 0 },
+          ...limits
+        }]
+      })
+      addFlailingArm('limited', -5, { swingLimit: 0.4, twistLimit: 0.2 })
+      addFlailingArm('free', 5, {})
+
+      // Largest relative rotation while falling (before either hits the ground)
+      const maxAngles = { limited: 0, free: 0 }
+      for (let i = 0; i < 30; i++) {
+        physics.update(1 / 60)
+        for (const key of Object.keys(maxAngles)) {
+          const { torso, arm } = physics.getRagdollState(key)
+          const dot = torso.rotation.x * arm.rotation.x + torso.rotation.y * arm.rotation.y +
+            torso.rotation.z * arm.rotation.z + torso.rotation.w * arm.rotation.w
+          maxAngles[key] = Math.max(maxAngles[key], 2 * Math.acos(Math.min(1, Math.abs(dot))))
+        }
+      }
+
+      // Swing on both axes plus twist, with a little solver slack
+      expect(maxAngles.limited).toBeGreaterThan(0.2)
+      expect(maxAngles.limited).toBeLessThan(Math.hypot(0.4, 0.4, 0.2) + 0.1)
+      expect(maxAngles.free).toBeGreaterThan(1)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('moves kinematic platforms and reports them under ground probes', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(40, 4))
+    try {
+      physics.addPlatform('lift', {
+        shape: { type: 'box', position: { x: 0, y: 1, z: 0 }, halfExtents: { x: 2, y: 0.25, z: 2 } },
+        motion: { type: 'elevator', height: 4, speed: 2 }
+      })
+      for (let i = 0; i < 30; i++) physics.update(1 / 60)
+
+      const motion = physics.getPlatformMotion('lift')
+      expect(motion.velocity.y).toBeCloseTo(2, 3)
+      expect(motion.center.y).toBeCloseTo(2, 3)
+
+      const ground = physics.probeGround(0, 0)
+      expect(ground.platformKey).toBe('lift')
+      expect(ground.height).toBeCloseTo(2.25, 3)
+
+      physics.removePlatform('lift')
+      expect(physics.probeGround(0, 0).platformKey).toBeUndefined()
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('emits contact events for dynamic bodies landing on terrain', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(20, 4))
+    try {
+      const started = []
+      physics.onContactStart((event) => started.push(event))
+      physics.addDynamicBody('ball', { type: 'sphere', position: { x: 0, y: 2, z: 0 }, radius: 0.5, mass: 10 })
+      for (let i = 0; i < 60; i++) physics.update(1 / 60)
+
+      const landing = started.find((event) => event.bodyA === 'dynamic:ball' || event.bodyB === 'dynamic:ball')
+      expect(landing).toBeDefined()
+      expect([landing.bodyA, landing.bodyB]).toContain('terrain')
+      const sign = landing.bodyA === 'dynamic:ball' ? 1 : -1
+      expect(landing.normal.y * sign).toBeGreaterThan(0.9)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('emits character contact start and end with impulses', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(40, 4))
+    try {
+      const started = []
+      const ended = []
+      physics.onContactStart((event) => started.push(event))
+      physics.onContactEnd((event) => ended.push(event))
+      physics.addDynamicBody('crate', {
+        type: 'box',
+        position: { x: 1, y: 0.5, z: 0 },
+        halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+        mass: 10
+      })
+      physics.update(1 / 60)
+
+      const shape = { type: 'capsule', radius: 0.35, height: 2 }
+      physics.computeCharacterMovement({ x: 0, y: 0.05, z: 0 }, { x: 0.3, y: 0, z: 0 }, shape)
+      const push = started.find((event) => event.bodyA === 'character' && event.bodyB === 'dynamic:crate')
+      expect(push.bodyA).toBe('character')
+      expect(push.impulse).toBeGreaterThan(0)
+      expect(push.normal.x).toBeLessThan(0)
+
+      physics.computeCharacterMovement({ x: -5, y: 0.05, z: 0 }, { x: -0.1, y: 0, z: 0 }, shape)
+      expect(ended.some((event) => event.bodyA === 'character' && event.bodyB === 'dynamic:crate')).toBe(true)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('records casts and exposes collider debug lines', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(20, 4))
+    try {
+      physics.setQueryRecording(8)
+      physics.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 10)
+      const [query] = physics.takeRecordedQueries()
+      expect(query.hit).toBe(true)
+      expect(query.point.y).toBeCloseTo(0, 3)
+
+      const buffers = physics.getDebugRenderBuffers()
+      expect(buffers.vertices.length).toBeGreaterThan(0)
+      expect(buffers.colors.length / 4).toBe(buffers.vertices.length / 3)
+    } finally {
+      physics.dispose()
+    }
+  })
+
+  it('resizes the character capsule in place and ignores it in shape casts', async () => {
+    const physics = await RapierPhysics.create(new TerrainHeightmap(20, 4))
+    try {
+      const position = { x: 0, y: 0, z: 0 }
+      const still = { x: 0, y: 0, z: 0 }
+      physics.computeCharacterMovement(position, still, { type: 'capsule', radius: 0.35, height: 5.2 })
+      const collider = physics.characterCollider
+      physics.computeCharacterMovement(position, still, { type: 'capsule', radius: 0.35, height: 4 })
+
+      expect(physics.characterCollider).toBe(collider)
+      expect(collider.halfHeight()).toBeCloseTo(2 - 0.35, 5)
+      expect(physics.characterOffset).toBeCloseTo(2, 5)
+
+      const up = physics.shapeCast({ x: 0, y: 3.65, z: 0 }, { x: 0, y: 1, z: 0 }, 1.2, { type: 'sphere', radius: 0.35 })
+      expect(up.hit).toBe(false)
+    } finally {
+      physics.dispose()
+    }
+  })
 })
@@ -1,39 +1,102 @@
 import RAPIER from '@dimforge/rapier3d-compat';
 import { CHARACTER } from '../config/index.js';
-import type { TerrainHeightmap } from '../terrain/TerrainHeightmap.js';
-import type { Vector3Like } from '../types/index.js';
+import { TerrainHeightmap } from '../terrain/TerrainHeightmap.js';
+import type { TerrainHeightSource, TerrainMaterialId, Vector3Like } from '../types/index.js';
 import {
   IPhysicsWorld,
   type CharacterMovementResult,
   type CharacterShapeDefinition,
+  type DynamicBodyDefinition,
+  type DynamicBodyState,
+  type GroundMotion,
   type GroundProbeResult,
+  type PhysicsDebugBuffers,
+  type PhysicsStats,
+  type PlatformDefinition,
+  type RagdollDefinition,
+  type RagdollSegmentState,
   type RaycastResult,
   type ShapeCastResult,
-  type ShapeDefinition
+  type ShapeDefinition,
+  type StaticShapeDefinition
 } from './IPhysicsWorld.js';
+import type { ContactEvent } from './PhysicsEvents.js';
+import { samplePlatformPose } from './PlatformMotion.js';
+import { getRampLocalVertices } from './StaticShapeQueries.js';
+
+interface PlatformEntry {
+  definition: PlatformDefinition;
+  body: RAPIER.RigidBody;
+  yaw: number;
+  motion: GroundMotion;
+}
 
 const DEFAULT_NORMAL: Vector3Like = { x: 0, y: 1, z: 0 };
 const EPSILON = 1e-6;
 
+// Interaction groups (membership << 16 | filter): ragdoll segments collide
+// with the world but not the character capsule or each other, and the
+// character's own queries see through ragdolls
+const CHARACTER_GROUP = 0x0002;
+const RAGDOLL_GROUP = 0x0004;
+const ALL_GROUPS = 0xffff;
+const CHARACTER_COLLISION_GROUPS = ((CHARACTER_GROUP << 16) | ALL_GROUPS) >>> 0;
+const RAGDOLL_COLLISION_GROUPS = ((RAGDOLL_GROUP << 16) | (ALL_GROUPS & ~(CHARACTER_GROUP | RAGDOLL_GROUP))) >>> 0;
+const QUERY_GROUPS = ((ALL_GROUPS << 16) | (ALL_GROUPS & ~RAGDOLL_GROUP)) >>> 0;
+
+// Ragdoll segments: damping settles the limbs; CCD keeps thin limbs from
+// tunnelling at impact speed
+const RAGDOLL_ANGULAR_DAMPING = 2;
+const RAGDOLL_FRICTION = 0.8;
+
+// Angular joint axes (RawJointAxis.AngX / AngY / AngZ), limited per axis on
+// spherical joints
+const JOINT_AXIS_ANG_X = 3;
+const JOINT_AXIS_ANG_Y = 4;
+const JOINT_AXIS_ANG_Z = 5;
+
 /**
- * Rapier-backed physics world for terrain queries and future rigid bodies.
+ * Rapier-backed physics world for terrain, static obstacles, dynamic props,
+ * moving platforms and the character.
  */
 export class RapierPhysics extends IPhysicsWorld {
   world: RAPIER.World;
-  terrainCollider: RAPIER.Collider;
-  heightmap: TerrainHeightmap;
+  terrainCollider: RAPIER.Collider | null;
+  terrainChunkColliders: Map<string, RAPIER.Collider>;
+  staticColliders: Map<string, RAPIER.Collider>;
+  // Surface material per static collider handle (for ground probes)
+  staticMaterials: Map<number, TerrainMaterialId>;
+  dynamicBodies: Map<string, RAPIER.RigidBody>;
+  ragdolls: Map<string, Map<string, RAPIER.RigidBody>>;
+  platforms: Map<string, PlatformEntry>;
+  // Platform key per collider handle (for ground probes)
+  platformKeys: Map<number, string>;
+  // Seconds simulated so far (drives platform paths)
+  simulationTime: number;
+  lastStepTimeMs: number;
+  // Contact events: body label per collider handle, open character contacts
+  // (from the character controller) and open pairs from the event queue
+  eventQueue: RAPIER.EventQueue;
+  colliderLabels: Map<number, string>;
+  characterContacts: Map<number, ContactEvent>;
+  pairContacts: Map<string, ContactEvent>;
+  heightmap: TerrainHeightSource;
   characterController: RAPIER.KinematicCharacterController | null;
   characterCollider: RAPIER.Collider | null;
   characterBody: RAPIER.RigidBody | null;
   characterShapeKey: string | null;
   characterOffset: number;
 
-  static async create(heightmap: TerrainHeightmap): Promise<RapierPhysics> {
+  static async create(heightmap: TerrainHeightSource): Promise<RapierPhysics> {
     await RAPIER.init();
     return new RapierPhysics(heightmap);
   }
 
-  constructor(heightmap: TerrainHeightmap) {
+  /**
+   * A single TerrainHeightmap is baked into one trimesh; other sources
+   * (streaming chunks) register colliders through addTerrainChunk.
+   */
+  constructor(heightmap: TerrainHeightSource) {
     super();
     this.heightmap = heightmap;
     this.world = new RAPIER.World({ x: 0, y: -CHARACTER.GRAVITY, z: 0 });
@@ -43,17 +106,283 @@ export class RapierPhysics extends IPhysicsWorld {
     this.characterShapeKey = null;
     this.characterOffset = 0;
 
-    const { vertices, indices } = this.buildTerrainMesh(heightmap);
-    const colliderDesc = RAPIER.ColliderDesc.trimesh(
-      vertices,
-      indices,
-      RAPIER.TriMeshFlags.FIX_INTERNAL_EDGES
-    );
-    this.terrainCollider = this.world.createCollider(colliderDesc);
+    this.terrainChunkColliders = new Map();
+    this.staticColliders = new Map();
+    this.staticMaterials = new Map();
+    this.dynamicBodies = new Map();
+    this.ragdolls = new Map();
+    this.platforms = new Map();
+    this.platformKeys = new Map();
+    this.simulationTime = 0;
+    this.lastStepTimeMs = 0;
+    this.eventQueue = new RAPIER.EventQueue(true);
+    this.colliderLabels = new Map();
+    this.characterContacts = new Map();
+    this.pairContacts = new Map();
+    this.terrainCollider = heightmap instanceof TerrainHeightmap
+      ? this.createTerrainCollider(heightmap, 'terrain')
+      : null;
     this.world.step();
   }
 
+  /**
+   * Replace the terrain trimesh with one built from the current heights
+   */
+  override rebuildTerrain(): void {
+    if (!this.terrainCollider || !(this.heightmap instanceof TerrainHeightmap)) return;
+    this.removeCollider(this.terrainCollider);
+    this.terrainCollider = this.createTerrainCollider(this.heightmap, 'terrain');
+    this.refreshSceneQueries();
+  }
+
+  override addTerrainChunk(key: string, heightmap: TerrainHeightmap): void {
+    this.removeTerrainChunk(key);
+    this.terrainChunkColliders.set(key, this.createTerrainCollider(heightmap, `terrain:${key}`));
+    this.refreshSceneQueries();
+  }
+
+  override removeTerrainChunk(key: string): void {
+    const collider = this.terrainChunkColliders.get(key);
+    if (!collider) return;
+    this.removeCollider(collider);
+    this.terrainChunkColliders.delete(key);
+    this.refreshSceneQueries();
+  }
+
+  override addStaticShape(key: string, shape: StaticShapeDefinition): void {
+    this.removeStaticShape(key);
+    const colliderDesc = this.createStaticColliderDesc(shape);
+    if (!colliderDesc) return;
+
+    const yaw = shape.type === 'cylinder' ? 0 : shape.rotationY ?? 0;
+    colliderDesc
+      .setTranslation(shape.position.x, shape.position.y, shape.position.z)
+      .setRotation({ x: 0, y: Math.sin(yaw / 2), z: 0, w: Math.cos(yaw / 2) });
+
+    const collider = this.world.createCollider(colliderDesc);
+    this.colliderLabels.set(collider.handle, `static:${key}`);
+    this.staticColliders.set(key, collider);
+    if (shape.material) {
+      this.staticMaterials.set(collider.handle, shape.material);
+    }
+    this.refreshSceneQueries();
+  }
+
+  override removeStaticShape(key: string): void {
+    const collider = this.staticColliders.get(key);
+    if (!collider) return;
+    this.staticMaterials.delete(collider.handle);
+    this.removeCollider(collider);
+    this.staticColliders.delete(key);
+    this.refreshSceneQueries();
+  }
+
+  override supportsDynamicBodies(): boolean {
+    return true;
+  }
+
+  override addDynamicBody(key: string, body: DynamicBodyDefinition): void {
+    this.removeDynamicBody(key);
+    const colliderDesc = this.createDynamicColliderDesc(body);
+    colliderDesc
+      .setMass(Math.max(body.mass, EPSILON))
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS | RAPIER.ActiveEvents.CONTACT_FORCE_EVENTS)
+      .setContactForceEventThreshold(0);
+
+    const rigidBody = this.world.createRigidBody(
+      RAPIER.RigidBodyDesc.dynamic().setTranslation(body.position.x, body.position.y, body.position.z)
+    );
+    const collider = this.world.createCollider(colliderDesc, rigidBody);
+    this.colliderLabels.set(collider.handle, `dynamic:${key}`);
+    this.dynamicBodies.set(key, rigidBody);
+    this.refreshSceneQueries();
+  }
+
+  override removeDynamicBody(key: string): void {
+    const body = this.dynamicBodies.get(key);
+    if (!body) return;
+    for (let i = 0; i < body.numColliders(); i++) {
+      this.colliderLabels.delete(body.collider(i).handle);
+    }
+    this.world.removeRigidBody(body);
+    this.dynamicBodies.delete(key);
+    this.refreshSceneQueries();
+  }
+
+  override getDynamicBodyState(key: string): DynamicBodyState | null {
+    const body = this.dynamicBodies.get(key);
+    if (!body) return null;
+    return {
+      position: body.translation(),
+      rotation: body.rotation(),
+      sleeping: body.isSleeping()
+    };
+  }
+
+  override supportsRagdolls(): boolean {
+    return true;
+  }
+
+  override addRagdoll(key: string, ragdoll: RagdollDefinition): void {
+    this.removeRagdoll(key);
+    const bodies = new Map<string, RAPIER.RigidBody>();
+
+    for (const [name, segment] of Object.entries(ragdoll.segments)) {
+      const velocity = segment.linearVelocity ?? { x: 0, y: 0, z: 0 };
+      const body = this.world.createRigidBody(
+        RAPIER.RigidBodyDesc.dynamic()
+          .setTranslation(segment.position.x, segment.position.y, segment.position.z)
+          .setRotation(segment.rotation)
+          .setLinvel(velocity.x, velocity.y, velocity.z)
+          .setAngularDamping(RAGDOLL_ANGULAR_DAMPING)
+          .setCcdEnabled(true)
+      );
+
+      const colliderDesc = segment.shape === 'capsule'
+        ? RAPIER.ColliderDesc.capsule(segment.halfHeight ?? segment.radius, segment.radius)
+        : RAPIER.ColliderDesc.ball(segment.radius);
+      colliderDesc
+        .setTranslation(segment.colliderOffset.x, segment.colliderOffset.y, segment.colliderOffset.z)
+        .setMass(Math.max(segment.mass, EPSILON))
+        .setFriction(RAGDOLL_FRICTION)
+        .setCollisionGroups(RAGDOLL_COLLISION_GROUPS);
+      const collider = this.world.createCollider(colliderDesc, body);
+      this.colliderLabels.set(collider.handle, `ragdoll:${key}:${name}`);
+      bodies.set(name, body);
+    }
+
+    for (const joint of ragdoll.joints) {
+      const parent = bodies.get(joint.parent);
+      const child = bodies.get(joint.child);
+      if (!parent || !child) continue;
+
+      const data = joint.type === 'revolute'
+        ? RAPIER.JointData.revolute(joint.parentAnchor, joint.childAnchor, joint.axis ?? { x: 1, y: 0, z: 0 })
+        : RAPIER.JointData.spherical(joint.parentAnchor, joint.childAnchor);
+      if (joint.type === 'revolute' && joint.limits) {
+        data.limitsEnabled = true;
+        data.limits = [joint.limits[0], joint.limits[1]];
+      }
+      const created = this.world.createImpulseJoint(data, parent, child, true);
+      if (joint.type === 'spherical') {
+        const joints = this.world.impulseJoints.raw;
+        if (joint.swingLimit !== undefined) {
+          joints.jointSetLimits(created.handle, JOINT_AXIS_ANG_X, -joint.swingLimit, joint.swingLimit);
+          joints.jointSetLimits(created.handle, JOINT_AXIS_ANG_Z, -joint.swingLimit, joint.swingLimit);
+        }
+        if (joint.twistLimit !== undefined) {
+          joints.jointSetLimits(created.handle, JOINT_AXIS_ANG_Y, -joint.twistLimit, joint.twistLimit);
+        }
+      }
+    }
+
+    this.ragdolls.set(key, bodies);
+    this.refreshSceneQueries();
+  }
+
+  override removeRagdoll(key: string): void {
+    const bodies = this.ragdolls.get(key);
+    if (!bodies) return;
+    for (const body of bodies.values()) {
+      for (let i = 0; i < body.numColliders(); i++) {
+        this.colliderLabels.delete(body.collider(i).handle);
+      }
+      this.world.removeRigidBody(body);
+    }
+    this.ragdolls.delete(key);
+    this.refreshSceneQueries();
+  }
+
+  override getRagdollState(key: string): Record<string, RagdollSegmentState> | null {
+    const bodies = this.ragdolls.get(key);
+    if (!bodies) return null;
+    const state: Record<string, RagdollSegmentState> = {};
+    for (const [name, body] of bodies) {
+      state[name] = {
+        position: body.translation(),
+        rotation: body.rotation(),
+        sleeping: body.isSleeping(),
+        linearVelocity: body.linvel()
+      };
+    }
+    return state;
+  }
+
+  override addPlatform(key: string, platform: PlatformDefinition): void {
+    this.removePlatform(key);
+    const colliderDesc = this.createStaticColliderDesc(platform.shape);
+    if (!colliderDesc) return;
+
+    const pose = samplePlatformPose(platform, this.simulationTime);
+    const body = this.world.createRigidBody(
+      RAPIER.RigidBodyDesc.kinematicPositionBased()
+        .setTranslation(pose.position.x, pose.position.y, pose.position.z)
+        .setRotation({ x: 0, y: Math.sin(pose.yaw / 2), z: 0, w: Math.cos(pose.yaw / 2) })
+    );
+    const collider = this.world.createCollider(colliderDesc, body);
+
+    this.platforms.set(key, {
+      definition: platform,
+      body,
+      yaw: pose.yaw,
+      motion: { velocity: { x: 0, y: 0, z: 0 }, angularVelocity: 0, center: pose.position }
+    });
+    this.platformKeys.set(collider.handle, key);
+    this.colliderLabels.set(collider.handle, `platform:${key}`);
+    if (platform.shape.material) {
+      this.staticMaterials.set(collider.handle, platform.shape.material);
+    }
+    this.refreshSceneQueries();
+  }
+
+  override removePlatform(key: string): void {
+    const platform = this.platforms.get(key);
+    if (!platform) return;
+    for (let i = 0; i < platform.body.numColliders(); i++) {
+      const handle = platform.body.collider(i).handle;
+      this.platformKeys.delete(handle);
+      this.staticMaterials.delete(handle);
+      this.colliderLabels.delete(handle);
+    }
+    this.world.removeRigidBody(platform.body);
+    this.platforms.delete(key);
+    this.refreshSceneQueries();
+  }
+
+  override getPlatformState(key: string): DynamicBodyState | null {
+    const platform = this.platforms.get(key);
+    if (!platform) return null;
+    return {
+      position: platform.body.translation(),
+      rotation: platform.body.rotation(),
+      sleeping: false
+    };
+  }
+
+  override getPlatformMotion(key: string): GroundMotion | null {
+    return this.platforms.get(key)?.motion ?? null;
+  }
+
+  override getStats(): PhysicsStats {
+    let activeBodies = 0;
+    for (const body of this.dynamicBodies.values()) {
+      if (!body.isSleeping()) activeBodies++;
+    }
+    return {
+      dynamicBodies: this.dynamicBodies.size,
+      activeBodies,
+      stepTimeMs: this.lastStepTimeMs
+    };
+  }
+
   override probeGround(x: number, z: number): GroundProbeResult {
+    return this.castGround(x, z).ground;
+  }
+
+  /**
+   * Downward probe that also reports the collider it hit
+   */
+  private castGround(x: number, z: number): { ground: GroundProbeResult; handle: number | null } {
     const originY = Math.max(this.heightmap.size, CHARACTER.HEIGHT * 5, 50);
     const maxDistance = originY * 2;
     const ray = new RAPIER.Ray({ x, y: originY, z }, { x: 0, y: -1, z: 0 });
@@ -63,24 +392,50 @@ export class RapierPhysics extends IPhysicsWorld {
       maxDistance,
       true,
       undefined,
-      undefined,
+      QUERY_GROUPS,
       this.characterCollider ?? undefined
     );
     if (hit) {
       const point = ray.pointAt(hit.timeOfImpact);
       return {
-        height: point.y,
-        normal: hit.normal
+        ground: {
+          height: point.y,
+          normal: hit.normal,
+          materialId: this.staticMaterials.get(hit.collider.handle) ?? this.heightmap.getMaterial(x, z),
+          platformKey: this.platformKeys.get(hit.collider.handle)
+        },
+        handle: hit.collider.handle
       };
     }
 
     return {
-      height: this.heightmap.getHeight(x, z),
-      normal: this.heightmap.getNormal(x, z) ?? DEFAULT_NORMAL
+      ground: {
+        height: this.heightmap.getHeight(x, z),
+        normal: this.heightmap.getNormal(x, z) ?? DEFAULT_NORMAL,
+        materialId: this.heightmap.getMaterial(x, z)
+      },
+      handle: null
     };
   }
 
   override raycast(origin: Vector3Like, direction: Vector3Like, maxDistance: number): RaycastResult {
+    const result = this.castRay(origin, direction, maxDistance);
+    this.recordQuery('raycast', origin, direction, maxDistance, result);
+    return result;
+  }
+
+  override shapeCast(origin: Vector3Like, direction: Vector3Like, distance: number, shape: ShapeDefinition): ShapeCastResult {
+    const result = this.castShape(origin, direction, distance, shape);
+    this.recordQuery('shapeCast', origin, direction, distance, result, shape.radius ?? 0.5);
+    return result;
+  }
+
+  override getDebugRenderBuffers(): PhysicsDebugBuffers {
+    const { vertices, colors } = this.world.debugRender();
+    return { vertices, colors };
+  }
+
+  private castRay(origin: Vector3Like, direction: Vector3Like, maxDistance: number): RaycastResult {
     if (maxDistance <= 0) {
       return { hit: false };
     }
@@ -92,7 +447,14 @@ export class RapierPhysics extends IPhysicsWorld {
 
     const dir = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
     const ray = new RAPIER.Ray(origin, dir);
-    const hit = this.world.castRayAndGetNormal(ray, maxDistance, true);
+    const hit = this.world.castRayAndGetNormal(
+      ray,
+      maxDistance,
+      true,
+      undefined,
+      QUERY_GROUPS,
+      this.characterCollider ?? undefined
+    );
 
     if (!hit) {
       return { hit: false };
@@ -107,7 +469,7 @@ export class RapierPhysics extends IPhysicsWorld {
     };
   }
 
-  override shapeCast(origin: Vector3Like, direction: Vector3Like, distance: number, shape: ShapeDefinition): ShapeCastResult {
+  private castShape(origin: Vector3Like, direction: Vector3Like, distance: number, shape: ShapeDefinition): ShapeCastResult {
     if (distance <= 0) {
       return { hit: false };
     }
@@ -118,8 +480,8 @@ export class RapierPhysics extends IPhysicsWorld {
     }
 
     const dir = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
-    const castShape = this.createShape(shape);
-    if (!castShape) {
+    const sweptShape = this.createShape(shape);
+    if (!sweptShape) {
       return { hit: false };
     }
 
@@ -128,10 +490,13 @@ export class RapierPhysics extends IPhysicsWorld {
       origin,
       rotation,
       dir,
-      castShape,
+      sweptShape,
       0,
       distance,
-      true
+      true,
+      undefined,
+      QUERY_GROUPS,
+      this.characterCollider ?? undefined
     );
 
     if (!hit) {
@@ -148,7 +513,12 @@ export class RapierPhysics extends IPhysicsWorld {
   override update(deltaTime: number): void {
     if (deltaTime <= 0) return;
     this.world.timestep = deltaTime;
-    this.world.step();
+    this.simulationTime += deltaTime;
+    this.movePlatforms(deltaTime);
+    const start = performance.now();
+    this.world.step(this.eventQueue);
+    this.lastStepTimeMs = performance.now() - start;
+    this.drainContactEvents();
   }
 
   override supportsCharacterMovement(): boolean {
@@ -183,7 +553,9 @@ export class RapierPhysics extends IPhysicsWorld {
 
     this.characterController.computeColliderMovement(
       this.characterCollider,
-      desiredMovement
+      desiredMovement,
+      undefined,
+      QUERY_GROUPS
     );
 
     const movement = this.characterController.computedMovement();
@@ -201,20 +573,250 @@ export class RapierPhysics extends IPhysicsWorld {
     this.characterBody.setTranslation(nextTranslation, true);
     this.world.propagateModifiedBodyPositionsToColliders();
 
-    const ground = this.probeGround(nextPosition.x, nextPosition.z);
+    const { ground, handle: groundHandle } = this.castGround(nextPosition.x, nextPosition.z);
+    const grounded = this.characterController.computedGrounded();
+    this.handleCharacterCollisions(desiredMovement, grounded ? groundHandle : null, ground.normal);
 
     return {
       movement,
-      grounded: this.characterController.computedGrounded(),
+      grounded,
       groundHeight: ground.height,
-      groundNormal: ground.normal
+      groundNormal: ground.normal,
+      groundMaterialId: ground.materialId,
+      groundPlatformKey: ground.platformKey
     };
   }
 
   dispose(): void {
+    this.events.clear();
+    this.eventQueue.free();
     this.world.free();
   }
 
+  /**
+   * Scene queries only see collider changes after a step; a zero-length
+   * step updates the broad phase without advancing the simulation.
+   */
+  private refreshSceneQueries(): void {
+    const timestep = this.world.timestep;
+    this.world.timestep = 0;
+    this.world.step(this.eventQueue);
+    this.world.timestep = timestep;
+    this.drainContactEvents();
+  }
+
+  private removeCollider(collider: RAPIER.Collider): void {
+    this.colliderLabels.delete(collider.handle);
+    this.world.removeCollider(collider, false);
+  }
+
+  private getColliderLabel(handle: number): string {
+    return this.colliderLabels.get(handle) ?? `collider:${handle}`;
+  }
+
+  /**
+   * Emit start/end events for body pairs reported by Rapier's event queue
+   * (character contacts come from the character controller instead).
+   */
+  private drainContactEvents(): void {
+    if (!this.events.hasContactListeners()) return;
+
+    const impulses = new Map<string, number>();
+    this.eventQueue.drainContactForceEvents((event) => {
+      const key = this.getPairKey(event.collider1(), event.collider2());
+      impulses.set(key, event.totalForceMagnitude() * this.world.timestep);
+    });
+
+    const characterHandle = this.characterCollider?.handle;
+    this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      if (handle1 === characterHandle || handle2 === characterHandle) return;
+      const key = this.getPairKey(handle1, handle2);
+
+      if (started) {
+        const event: ContactEvent = {
+          bodyA: this.getColliderLabel(handle1),
+          bodyB: this.getColliderLabel(handle2),
+          normal: this.getContactNormal(handle1, handle2),
+          impulse: impulses.get(key) ?? 0
+        };
+        this.pairContacts.set(key, event);
+        this.events.emitContactStart(event);
+        return;
+      }
+
+      const event = this.pairContacts.get(key) ?? {
+        bodyA: this.getColliderLabel(handle1),
+        bodyB: this.getColliderLabel(handle2),
+        normal: DEFAULT_NORMAL,
+        impulse: 0
+      };
+      this.pairContacts.delete(key);
+      this.events.emitContactEnd({ ...event, impulse: 0 });
+    });
+  }
+
+  private getPairKey(handle1: number, handle2: number): string {
+    return handle1 < handle2 ? `${handle1}:${handle2}` : `${handle2}:${handle1}`;
+  }
+
+  /**
+   * World-space contact normal pointing from the second collider toward the first
+   */
+  private getContactNormal(handle1: number, handle2: number): Vector3Like {
+    const collider1 = this.world.getCollider(handle1);
+    const collider2 = this.world.getCollider(handle2);
+    let normal = DEFAULT_NORMAL;
+    if (!collider1 || !collider2) return normal;
+
+    this.world.contactPair(collider1, collider2, (manifold, flipped) => {
+      // Trimeshes report one manifold per touched triangle; some may be empty
+      if (manifold.numContacts() === 0) return;
+      // manifold.normal() points from the manifold's first collider to its second
+      const n = manifold.normal();
+      const sign = flipped ? 1 : -1;
+      normal = { x: n.x * sign, y: n.y * sign, z: n.z * sign };
+    });
+    return normal;
+  }
+
+  /**
+   * Queue each platform's next pose and record its velocity over the step
+   */
+  private movePlatforms(deltaTime: number): void {
+    for (const platform of this.platforms.values()) {
+      const pose = samplePlatformPose(platform.definition, this.simulationTime);
+      const previous = platform.motion.center;
+
+      platform.motion = {
+        velocity: {
+          x: (pose.position.x - previous.x) / deltaTime,
+          y: (pose.position.y - previous.y) / deltaTime,
+          z: (pose.position.z - previous.z) / deltaTime
+        },
+        angularVelocity: (pose.yaw - platform.yaw) / deltaTime,
+        center: pose.position
+      };
+      platform.yaw = pose.yaw;
+
+      platform.body.setNextKinematicTranslation(pose.position);
+      platform.body.setNextKinematicRotation({ x: 0, y: Math.sin(pose.yaw / 2), z: 0, w: Math.cos(pose.yaw / 2) });
+    }
+  }
+
+  /**
+   * Push dynamic bodies the character ran into and emit character contact
+   * start/end events. Pushes are horizontal only - standing on a body is
+   * left to gravity. The ground collider counts as touched while grounded.
+   */
+  private handleCharacterCollisions(desiredMovement: Vector3Like, groundHandle: number | null, groundNormal: Vector3Like): void {
+    const controller = this.characterController;
+    if (!controller || this.world.timestep <= 0) return;
+
+    const touched = new Map<number, ContactEvent>();
+    for (let i = 0; i < controller.numComputedCollisions(); i++) {
+      const collision = controller.computedCollision(i);
+      const collider = collision?.collider;
+      if (!collision || !collider) continue;
+
+      // normal1 points out of the obstacle, toward the character
+      const normal = collision.normal1;
+      const closingSpeed = -(desiredMovement.x * normal.x + desiredMovement.y * normal.y + desiredMovement.z * normal.z) /
+        this.world.timestep;
+      let impulse = Math.max(0, closingSpeed) * CHARACTER.MASS;
+
+      const body = collider.parent();
+      if (body?.isDynamic()) {
+        impulse = this.pushDynamicBody(body, desiredMovement, normal);
+      }
+
+      touched.set(collider.handle, {
+        bodyA: 'character',
+        bodyB: this.getColliderLabel(collider.handle),
+        normal: { x: normal.x, y: normal.y, z: normal.z },
+        impulse,
+        point: { x: collision.witness1.x, y: collision.witness1.y, z: collision.witness1.z }
+      });
+    }
+
+    if (groundHandle !== null && !touched.has(groundHandle)) {
+      touched.set(groundHandle, {
+        bodyA: 'character',
+        bodyB: this.getColliderLabel(groundHandle),
+        normal: groundNormal,
+        impulse: 0
+      });
+    }
+
+    if (this.events.hasContactListeners()) {
+      for (const [handle, event] of touched) {
+        if (!this.characterContacts.has(handle)) this.events.emitContactStart(event);
+      }
+      for (const [handle, event] of this.characterContacts) {
+        if (!touched.has(handle)) this.events.emitContactEnd({ ...event, impulse: 0 });
+      }
+    }
+    this.characterContacts = touched;
+  }
+
+  /**
+   * Impulse along the horizontal contact normal from the closing speed
+   * between character and body; returns its magnitude.
+   */
+  private pushDynamicBody(body: RAPIER.RigidBody, desiredMovement: Vector3Like, normal: Vector3Like): number {
+    const length = Math.hypot(normal.x, normal.z);
+    if (length < EPSILON) return 0;
+    const dirX = -normal.x / length;
+    const dirZ = -normal.z / length;
+
+    const characterSpeed = (desiredMovement.x * dirX + desiredMovement.z * dirZ) / this.world.timestep;
+    const bodyVelocity = body.linvel();
+    const closingSpeed = characterSpeed - (bodyVelocity.x * dirX + bodyVelocity.z * dirZ);
+    if (closingSpeed <= 0) return 0;
+
+    const magnitude = closingSpeed * Math.min(CHARACTER.MASS, body.mass()) * CHARACTER.PUSH_STRENGTH;
+    body.applyImpulse({ x: dirX * magnitude, y: 0, z: dirZ * magnitude }, true);
+    return magnitude;
+  }
+
+  private createDynamicColliderDesc(body: DynamicBodyDefinition): RAPIER.ColliderDesc {
+    const radius = body.radius ?? 0.5;
+    switch (body.type) {
+      case 'box': {
+        const half = body.halfExtents ?? { x: radius, y: radius, z: radius };
+        return RAPIER.ColliderDesc.cuboid(half.x, half.y, half.z);
+      }
+      case 'sphere':
+        return RAPIER.ColliderDesc.ball(radius);
+      case 'capsule':
+        return RAPIER.ColliderDesc.capsule(body.halfHeight ?? radius, radius);
+    }
+  }
+
+  private createStaticColliderDesc(shape: StaticShapeDefinition): RAPIER.ColliderDesc | null {
+    switch (shape.type) {
+      case 'box':
+        return RAPIER.ColliderDesc.cuboid(shape.halfExtents.x, shape.halfExtents.y, shape.halfExtents.z);
+      case 'cylinder':
+        return RAPIER.ColliderDesc.cylinder(shape.halfHeight, shape.radius);
+      case 'ramp': {
+        const points = new Float32Array(getRampLocalVertices(shape).flatMap((v) => [v.x, v.y, v.z]));
+        return RAPIER.ColliderDesc.convexHull(points);
+      }
+    }
+  }
+
+  private createTerrainCollider(heightmap: TerrainHeightmap, label: string): RAPIER.Collider {
+    const { vertices, indices } = this.buildTerrainMesh(heightmap);
+    const colliderDesc = RAPIER.ColliderDesc.trimesh(
+      vertices,
+      indices,
+      RAPIER.TriMeshFlags.FIX_INTERNAL_EDGES
+    );
+    const collider = this.world.createCollider(colliderDesc);
+    this.colliderLabels.set(collider.handle, label);
+    return collider;
+  }
+
   private buildTerrainMesh(heightmap: TerrainHeightmap): {
     vertices: Float32Array;
     indices: Uint32Array;
@@ -226,8 +828,8 @@ export class RapierPhysics extends IPhysicsWorld {
 
     for (let z = 0; z < gridSize; z++) {
       for (let x = 0; x < gridSize; x++) {
-        const worldX = (x / segments - 0.5) * size;
-        const worldZ = (z / segments - 0.5) * size;
+        const worldX = heightmap.originX + (x / segments - 0.5) * size;
+        const worldZ = heightmap.originZ + (z / segments - 0.5) * size;
         const height = heights[z * gridSize + x] ?? 0;
         const index = (z * gridSize + x) * 3;
 
@@ -313,15 +915,27 @@ export class RapierPhysics extends IPhysicsWorld {
       return;
     }
 
+    // Crouching and standing resize the existing capsule in place
+    if (this.characterCollider && this.characterController) {
+      this.characterCollider.setRadius(radius);
+      this.characterCollider.setHalfHeight(halfHeight);
+      this.configureAutostep(radius);
+      this.characterOffset = halfHeight + radius;
+      this.characterShapeKey = shapeKey;
+      return;
+    }
+
     if (this.characterController) {
       this.world.removeCharacterController(this.characterController);
       this.characterController = null;
     }
 
     if (this.characterCollider) {
+      this.colliderLabels.delete(this.characterCollider.handle);
       this.world.removeCollider(this.characterCollider, true);
       this.characterCollider = null;
     }
+    this.characterContacts.clear();
 
     if (this.characterBody) {
       this.world.removeRigidBody(this.characterBody);
@@ -332,14 +946,24 @@ export class RapierPhysics extends IPhysicsWorld {
       RAPIER.RigidBodyDesc.kinematicPositionBased()
     );
 
-    const colliderDesc = RAPIER.ColliderDesc.capsule(halfHeight, radius);
+    const colliderDesc = RAPIER.ColliderDesc.capsule(halfHeight, radius)
+      .setCollisionGroups(CHARACTER_COLLISION_GROUPS);
     this.characterCollider = this.world.createCollider(colliderDesc, this.characterBody);
+    this.colliderLabels.set(this.characterCollider.handle, 'character');
 
     this.characterController = this.world.createCharacterController(CHARACTER.SKIN_WIDTH);
     this.characterController.setSlideEnabled(true);
     this.characterController.setMaxSlopeClimbAngle((CHARACTER.SLOPE_LIMIT * Math.PI) / 180);
     this.characterController.setMinSlopeSlideAngle((CHARACTER.SLOPE_LIMIT * Math.PI) / 180);
     this.characterController.enableSnapToGround(CHARACTER.SNAP_DISTANCE);
+    this.configureAutostep(radius);
+
+    this.characterOffset = halfHeight + radius;
+    this.characterShapeKey = shapeKey;
+  }
+
+  private configureAutostep(radius: number): void {
+    if (!this.characterController) return;
 
     if (CHARACTER.STEP_OFFSET > 0) {
       const minWidth = Math.max(radius * 0.5, 0.15);
@@ -351,9 +975,6 @@ export class RapierPhysics extends IPhysicsWorld {
     } else {
       this.characterController.disableAutostep();
     }
-
-    this.characterOffset = halfHeight + radius;
-    this.characterShapeKey = shapeKey;
   }
 }
 
@@ -8,6 +8,7 @@ describe('physics/SimplePhysics', () => {
     const ground = physics.probeGround(0, 0)
     expect(ground.height).toBe(0)
     expect(ground.normal.y).toBeCloseTo(1, 5)
+    expect(ground.materialId).toBe('grass')
   })
 
   it('raycasts downward to terrain', () => {
@@ -27,4 +28,113 @@ describe('physics/SimplePhysics', () => {
     expect(hit.point.x).toBe(2)
     expect(hit.point.y).toBe(0)
   })
+
+  it('raycasts and probes against static boxes', () => {
+    const physics = new SimplePhysics(new TerrainHeightmap(20, 4))
+    physics.addStaticShape('crate', {
+      type: 'box',
+      position: { x: 0, y: 1, z: 0 },
+      halfExtents: { x: 1, y: 1, z: 1 },
+      material: 'rock'
+    })
+
+    const down = physics.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 10)
+    expect(down.point.y).toBeCloseTo(2, 5)
+    expect(down.normal.y).toBeCloseTo(1, 5)
+
+    const side = physics.raycast({ x: -5, y: 1, z: 0 }, { x: 1, y: 0, z: 0 }, 10)
+    expect(side.hit).toBe(true)
+    expect(side.distance).toBeCloseTo(4, 5)
+    expect(side.normal.x).toBeCloseTo(-1, 5)
+
+    const ground = physics.probeGround(0, 0)
+    expect(ground.height).toBeCloseTo(2, 5)
+    expect(ground.materialId).toBe('rock')
+
+    physics.removeStaticShape('crate')
+    expect(physics.probeGround(0, 0).height).toBe(0)
+  })
+
+  it('follows ramp slopes and sweeps capsules against obstacles', () => {
+    const physics = new SimplePhysics(new TerrainHeightmap(20, 4))
+    physics.addStaticShape('ramp', {
+      type: 'ramp',
+      position: { x: 0, y: 0, z: 0 },
+      width: 2,
+      length: 4,
+      height: 2
+    })
+
+    // Ramp rises from z = -2 to z = 2; halfway up is height 1
+    expect(physics.probeGround(0, 0).height).toBeCloseTo(1, 5)
+    expect(physics.probeGround(0, 0).normal.z).toBeLessThan(0)
+
+    physics.addStaticShape('pillar', {
+      type: 'cylinder',
+      position: { x: 5, y: 1, z: 0 },
+      radius: 0.5,
+      halfHeight: 1
+    })
+    const hit = physics.shapeCast({ x: 2, y: 1, z: 0 }, { x: 1, y: 0, z: 0 }, 5, { type: 'capsule', radius: 0.3, height: 1 })
+    expect(hit.hit).toBe(true)
+    expect(hit.point.x).toBeCloseTo(4.5, 5)
+    expect(hit.normal.x).toBeCloseTo(-1, 5)
+  })
+
+  it('reports grounding changes as terrain contacts', () => {
+    const physics = new SimplePhysics(new TerrainHeightmap(10, 2))
+    const grounded = []
+    const started = []
+    const ended = []
+    physics.onGroundedChanged((event) => grounded.push(event))
+    physics.onContactStart((event) => started.push(event))
+    physics.onContactEnd((event) => ended.push(event))
+
+    const position = { x: 0, y: 0, z: 0 }
+    physics.setCharacterGrounded(true, position, { x: 0, y: 0, z: 0 })
+    expect(grounded).toHaveLength(0)
+    expect(started).toHaveLength(1)
+
+    physics.setCharacterGrounded(false, position, { x: 0, y: 4, z: 0 })
+    physics.setCharacterGrounded(true, position, { x: 0, y: -2, z: 0 })
+    expect(grounded.map((event) => event.grounded)).toEqual([false, true])
+    expect(ended).toHaveLength(1)
+    expect(started).toHaveLength(2)
+    expect(started[1].bodyB).toBe('terrain')
+    expect(started[1].normal.y).toBeCloseTo(1, 5)
+    expect(started[1].impulse).toBeCloseTo(160, 5)
+  })
+
+  it('pairs terrain contact starts and ends from an airborne start', () => {
+    const physics = new SimplePhysics(new TerrainHeightmap(10, 2))
+    let open = 0
+    physics.onContactStart(() => open++)
+    physics.onContactEnd(() => {
+      open--
+      expect(open).toBeGreaterThanOrEqual(0)
+    })
+
+    const position = { x: 0, y: 0, z: 0 }
+    physics.setCharacterGrounded(false, position, { x: 0, y: 0, z: 0 })
+    physics.setCharacterGrounded(true, position, { x: 0, y: -1, z: 0 })
+    physics.setCharacterGrounded(false, position, { x: 0, y: 2, z: 0 })
+    expect(open).toBe(0)
+  })
+
+  it('records casts only while query recording is on', () => {
+    const physics = new SimplePhysics(new TerrainHeightmap(10, 2))
+    physics.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 10)
+    expect(physics.takeRecordedQueries()).toHaveLength(0)
+
+    physics.setQueryRecording(2)
+    physics.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: -1, z: 0 }, 10)
+    physics.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: 1, z: 0 }, 10)
+    physics.shapeCast({ x: 0, y: 1, z: 0 }, { x: 1, y: 0, z: 0 }, 2, { type: 'sphere', radius: 0.3 })
+
+    const queries = physics.takeRecordedQueries()
+    expect(queries.map((query) => query.type)).toEqual(['raycast', 'shapeCast'])
+    expect(queries[0].hit).toBe(false)
+    expect(queries[1].radius).toBe(0.3)
+    expect(physics.takeRecordedQueries()).toHaveLength(0)
+  })
 })
@@ -1,35 +1,84 @@
-import type { Vector3Like } from '../types/index.js';
-import type { TerrainHeightmap } from '../terrain/TerrainHeightmap.js';
-import { IPhysicsWorld, type GroundProbeResult, type RaycastResult, type ShapeCastResult, type ShapeDefinition } from './IPhysicsWorld.js';
+import { CHARACTER } from '../config/index.js';
+import type { TerrainHeightSource, Vector3Like } from '../types/index.js';
+import {
+  IPhysicsWorld,
+  type GroundProbeResult,
+  type RaycastResult,
+  type ShapeCastResult,
+  type ShapeDefinition,
+  type StaticShapeDefinition
+} from './IPhysicsWorld.js';
+import { raycastStaticShape, type StaticShapeHit, type SweepShape } from './StaticShapeQueries.js';
 import { TerrainCollider } from './TerrainCollider.js';
 
+const EPSILON = 1e-6;
+
 /**
  * Simple physics implementation using terrain heightmap
- * No rigid bodies or collision response - just queries
+ * No rigid bodies or collision response - just queries. Static obstacles
+ * are answered analytically.
  */
 export class SimplePhysics extends IPhysicsWorld {
   terrain: TerrainCollider;
+  staticShapes: Map<string, StaticShapeDefinition>;
+  terrainContact: boolean;
 
-  constructor(heightmap: TerrainHeightmap) {
+  constructor(heightmap: TerrainHeightSource) {
     super();
     this.terrain = new TerrainCollider(heightmap);
+    this.staticShapes = new Map();
+    this.terrainContact = false;
+  }
+
+  override addStaticShape(key: string, shape: StaticShapeDefinition): void {
+    this.staticShapes.set(key, shape);
+  }
+
+  override removeStaticShape(key: string): void {
+    this.staticShapes.delete(key);
   }
 
   override probeGround(x: number, z: number): GroundProbeResult {
-    return {
+    const ground: GroundProbeResult = {
       height: this.terrain.getHeight(x, z),
-      normal: this.terrain.getNormal(x, z)
+      normal: this.terrain.getNormal(x, z),
+      materialId: this.terrain.getMaterial(x, z)
     };
+
+    // Obstacle tops above the terrain act as ground (matches a downward probe from above)
+    const originY = Math.max(this.terrain.heightmap.size, 50);
+    const obstacle = this.castStaticShapes({ x, y: originY, z }, { x: 0, y: -1, z: 0 }, originY * 2);
+    if (obstacle && originY - obstacle.hit.distance > ground.height) {
+      ground.height = originY - obstacle.hit.distance;
+      ground.normal = obstacle.hit.normal;
+      ground.materialId = obstacle.shape.material ?? ground.materialId;
+    }
+
+    return ground;
   }
 
   override raycast(origin: Vector3Like, direction: Vector3Like, maxDistance: number): RaycastResult {
+    const result = this.castRay(origin, direction, maxDistance);
+    this.recordQuery('raycast', origin, direction, maxDistance, result);
+    return result;
+  }
+
+  override shapeCast(origin: Vector3Like, direction: Vector3Like, distance: number, shape: ShapeDefinition): ShapeCastResult {
+    const result = this.castShape(origin, direction, distance, shape);
+    this.recordQuery('shapeCast', origin, direction, distance, result, shape.radius ?? 0.5);
+    return result;
+  }
+
+  private castRay(origin: Vector3Like, direction: Vector3Like, maxDistance: number): RaycastResult {
+    let result: RaycastResult = { hit: false };
+
     // Simple vertical raycast for terrain
     if (direction.y < 0) {
       const height = this.terrain.getHeight(origin.x, origin.z);
       const distance = origin.y - height;
 
       if (distance <= maxDistance && distance >= 0) {
-        return {
+        result = {
           hit: true,
           point: { x: origin.x, y: height, z: origin.z },
           normal: this.terrain.getNormal(origin.x, origin.z),
@@ -38,12 +87,54 @@ export class SimplePhysics extends IPhysicsWorld {
       }
     }
 
-    return { hit: false };
+    const dir = this.normalize(direction);
+    if (!dir) return result;
+
+    const limit = result.hit ? result.distance ?? maxDistance : maxDistance;
+    const obstacle = this.castStaticShapes(origin, dir, limit);
+    if (obstacle) {
+      const { distance, normal } = obstacle.hit;
+      return {
+        hit: true,
+        point: {
+          x: origin.x + dir.x * distance,
+          y: origin.y + dir.y * distance,
+          z: origin.z + dir.z * distance
+        },
+        normal,
+        distance
+      };
+    }
+
+    return result;
   }
 
-  override shapeCast(origin: Vector3Like, direction: Vector3Like, distance: number, _shape: ShapeDefinition): ShapeCastResult {
-    void _shape;
-    // Simplified: treat as point cast for now
+  private castShape(origin: Vector3Like, direction: Vector3Like, distance: number, shape: ShapeDefinition): ShapeCastResult {
+    const dir = this.normalize(direction);
+    if (dir) {
+      const radius = shape.radius ?? 0.5;
+      const sweep: SweepShape = {
+        radius,
+        halfSegment: shape.type === 'capsule' ? Math.max(0, (shape.height ?? radius * 2) / 2) : 0
+      };
+      const obstacle = this.castStaticShapes(origin, dir, distance, sweep);
+      if (obstacle) {
+        // Contact point sits on the obstacle, one support distance from the swept center
+        const { distance: t, normal } = obstacle.hit;
+        const support = sweep.radius + Math.abs(normal.y) * sweep.halfSegment;
+        return {
+          hit: true,
+          point: {
+            x: origin.x + dir.x * t - normal.x * support,
+            y: origin.y + dir.y * t - normal.y * support,
+            z: origin.z + dir.z * t - normal.z * support
+          },
+          normal
+        };
+      }
+    }
+
+    // Simplified terrain: treat as point cast for now
     const targetX = origin.x + direction.x * distance;
     const targetZ = origin.z + direction.z * distance;
     const height = this.terrain.getHeight(targetX, targetZ);
@@ -59,6 +150,58 @@ export class SimplePhysics extends IPhysicsWorld {
     void _deltaTime;
     // No-op for simple physics
   }
+
+  /**
+   * Terrain-only contacts: grounding opens and lifting off closes a
+   * character <-> terrain contact (landing impulse from vertical speed).
+   * The first grounded report opens one too, so starts and ends pair up.
+   */
+  override setCharacterGrounded(grounded: boolean, position: Vector3Like, velocity: Vector3Like): void {
+    super.setCharacterGrounded(grounded, position, velocity);
+    if (grounded === this.terrainContact) return;
+    this.terrainContact = grounded;
+
+    const event = {
+      bodyA: 'character',
+      bodyB: 'terrain',
+      normal: this.terrain.getNormal(position.x, position.z),
+      impulse: grounded ? CHARACTER.MASS * Math.max(0, -velocity.y) : 0,
+      point: { ...position }
+    };
+    if (grounded) {
+      this.events.emitContactStart(event);
+    } else {
+      this.events.emitContactEnd(event);
+    }
+  }
+
+  /**
+   * Nearest static obstacle along a normalized direction
+   */
+  private castStaticShapes(
+    origin: Vector3Like,
+    direction: Vector3Like,
+    maxDistance: number,
+    sweep?: SweepShape
+  ): { shape: StaticShapeDefinition; hit: StaticShapeHit } | null {
+    let nearest: { shape: StaticShapeDefinition; hit: StaticShapeHit } | null = null;
+
+    for (const shape of this.staticShapes.values()) {
+      const limit = nearest ? nearest.hit.distance : maxDistance;
+      const hit = raycastStaticShape(shape, origin, direction, limit, sweep);
+      if (hit && (!nearest || hit.distance < nearest.hit.distance)) {
+        nearest = { shape, hit };
+      }
+    }
+
+    return nearest;
+  }
+
+  private normalize(direction: Vector3Like): Vector3Like | null {
+    const length = Math.hypot(direction.x, direction.y, direction.z);
+    if (length < EPSILON) return null;
+    return { x: direction.x / length, y: direction.y / length, z: direction.z / length };
+  }
 }
 
 export default SimplePhysics;
@@ -0,0 +1,217 @@
+import type { Vector3Like } from '../types/index.js';
+import type { StaticRampDefinition, StaticShapeDefinition } from './IPhysicsWorld.js';
+
+const EPSILON = 1e-9;
+
+/**
+ * Half-space dot(normal, p) <= offset
+ */
+interface Plane {
+  normal: Vector3Like;
+  offset: number;
+}
+
+/**
+ * Swept query volume: a sphere (halfSegment 0) or an upright capsule
+ */
+export interface SweepShape {
+  radius: number;
+  halfSegment: number;
+}
+
+export interface StaticShapeHit {
+  distance: number;
+  normal: Vector3Like;
+}
+
+/**
+ * Rotate a local vector about +Y (same convention as Object3D.rotation.y)
+ */
+export function rotateY(vector: Vector3Like, angle: number): Vector3Like {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: vector.x * cos + vector.z * sin,
+    y: vector.y,
+    z: -vector.x * sin + vector.z * cos
+  };
+}
+
+/**
+ * Ramp corners relative to its base center (before yaw)
+ * Order: base (-x,-z), (+x,-z), (+x,+z), (-x,+z), then top (+x,+z), (-x,+z).
+ */
+export function getRampLocalVertices(ramp: StaticRampDefinition): Vector3Like[] {
+  const halfWidth = ramp.width / 2;
+  const halfLength = ramp.length / 2;
+  return [
+    { x: -halfWidth, y: 0, z: -halfLength },
+    { x: halfWidth, y: 0, z: -halfLength },
+    { x: halfWidth, y: 0, z: halfLength },
+    { x: -halfWidth, y: 0, z: halfLength },
+    { x: halfWidth, y: ramp.height, z: halfLength },
+    { x: -halfWidth, y: ramp.height, z: halfLength }
+  ];
+}
+
+/**
+ * Bounding planes of a box or ramp in world space
+ */
+function getConvexPlanes(shape: Exclude<StaticShapeDefinition, { type: 'cylinder' }>): Plane[] {
+  const yaw = shape.rotationY ?? 0;
+  const local: Plane[] = [];
+
+  if (shape.type === 'box') {
+    const { halfExtents } = shape;
+    local.push(
+      { normal: { x: 1, y: 0, z: 0 }, offset: halfExtents.x },
+      { normal: { x: -1, y: 0, z: 0 }, offset: halfExtents.x },
+      { normal: { x: 0, y: 1, z: 0 }, offset: halfExtents.y },
+      { normal: { x: 0, y: -1, z: 0 }, offset: halfExtents.y },
+      { normal: { x: 0, y: 0, z: 1 }, offset: halfExtents.z },
+      { normal: { x: 0, y: 0, z: -1 }, offset: halfExtents.z }
+    );
+  } else {
+    const halfWidth = shape.width / 2;
+    const halfLength = shape.length / 2;
+    const slopeLength = Math.hypot(shape.length, shape.height);
+    local.push(
+      { normal: { x: 1, y: 0, z: 0 }, offset: halfWidth },
+      { normal: { x: -1, y: 0, z: 0 }, offset: halfWidth },
+      { normal: { x: 0, y: -1, z: 0 }, offset: 0 },
+      { normal: { x: 0, y: 0, z: 1 }, offset: halfLength },
+      {
+        normal: { x: 0, y: shape.length / slopeLength, z: -shape.height / slopeLength },
+        offset: (shape.height * halfLength) / slopeLength
+      }
+    );
+  }
+
+  return local.map((plane) => {
+    const normal = rotateY(plane.normal, yaw);
+    const { position } = shape;
+    return {
+      normal,
+      offset: plane.offset + normal.x * position.x + normal.y * position.y + normal.z * position.z
+    };
+  });
+}
+
+function raycastConvex(
+  planes: Plane[],
+  origin: Vector3Like,
+  direction: Vector3Like,
+  maxDistance: number,
+  sweep: SweepShape
+): StaticShapeHit | null {
+  let enter = 0;
+  let exit = maxDistance;
+  let enterNormal: Vector3Like | null = null;
+
+  for (const { normal, offset } of planes) {
+    // Offset each face by the sweep shape's support distance along its normal
+    const inflated = offset + sweep.radius + Math.abs(normal.y) * sweep.halfSegment;
+    const denom = normal.x * direction.x + normal.y * direction.y + normal.z * direction.z;
+    const distance = inflated - (normal.x * origin.x + normal.y * origin.y + normal.z * origin.z);
+
+    if (Math.abs(denom) < EPSILON) {
+      if (distance < 0) return null;
+      continue;
+    }
+
+    const t = distance / denom;
+    if (denom < 0) {
+      if (t > enter) {
+        enter = t;
+        enterNormal = normal;
+      }
+    } else if (t < exit) {
+      exit = t;
+    }
+    if (enter > exit) return null;
+  }
+
+  return {
+    distance: enter,
+    normal: enterNormal ?? { x: -direction.x, y: -direction.y, z: -direction.z }
+  };
+}
+
+function raycastCylinder(
+  shape: Extract<StaticShapeDefinition, { type: 'cylinder' }>,
+  origin: Vector3Like,
+  direction: Vector3Like,
+  maxDistance: number,
+  sweep: SweepShape
+): StaticShapeHit | null {
+  const radius = shape.radius + sweep.radius;
+  const halfHeight = shape.halfHeight + sweep.radius + sweep.halfSegment;
+  const ox = origin.x - shape.position.x;
+  const oy = origin.y - shape.position.y;
+  const oz = origin.z - shape.position.z;
+
+  // Slab along Y
+  let enter = 0;
+  let exit = maxDistance;
+  let enterNormal: Vector3Like | null = null;
+  if (Math.abs(direction.y) < EPSILON) {
+    if (Math.abs(oy) > halfHeight) return null;
+  } else {
+    const t0 = (-halfHeight - oy) / direction.y;
+    const t1 = (halfHeight - oy) / direction.y;
+    const near = Math.min(t0, t1);
+    if (near > enter) {
+      enter = near;
+      enterNormal = { x: 0, y: direction.y > 0 ? -1 : 1, z: 0 };
+    }
+    exit = Math.min(exit, Math.max(t0, t1));
+  }
+
+  // Infinite cylinder in XZ
+  const a = direction.x * direction.x + direction.z * direction.z;
+  const c = ox * ox + oz * oz - radius * radius;
+  if (a < EPSILON) {
+    if (c > 0) return null;
+  } else {
+    const b = ox * direction.x + oz * direction.z;
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) return null;
+    const root = Math.sqrt(discriminant);
+    const near = (-b - root) / a;
+    const far = (-b + root) / a;
+    if (near > enter) {
+      enter = near;
+      const hx = ox + direction.x * near;
+      const hz = oz + direction.z * near;
+      const length = Math.hypot(hx, hz) || 1;
+      enterNormal = { x: hx / length, y: 0, z: hz / length };
+    }
+    exit = Math.min(exit, far);
+  }
+
+  if (enter > exit) return null;
+  return {
+    distance: enter,
+    normal: enterNormal ?? { x: -direction.x, y: -direction.y, z: -direction.z }
+  };
+}
+
+/**
+ * Analytic ray (or swept sphere/capsule) test against a static shape
+ * `direction` must be normalized. Returns the entry distance and surface
+ * normal, or distance 0 when the query starts inside the shape.
+ */
+export function raycastStaticShape(
+  shape: StaticShapeDefinition,
+  origin: Vector3Like,
+  direction: Vector3Like,
+  maxDistance: number,
+  sweep: SweepShape = { radius: 0, halfSegment: 0 }
+): StaticShapeHit | null {
+  if (maxDistance <= 0) return null;
+  return shape.type === 'cylinder'
+    ? raycastCylinder(shape, origin, direction, maxDistance, sweep)
+    : raycastConvex(getConvexPlanes(shape), origin, direction, maxDistance, sweep);
+}
+
+export default raycastStaticShape;
@@ -1,14 +1,13 @@
-import type { Vector3Like } from '../types/index.js';
-import type { TerrainHeightmap } from '../terrain/TerrainHeightmap.js';
+import type { TerrainHeightSource, TerrainMaterialId, Vector3Like } from '../types/index.js';
 
 /**
  * Physics collider wrapping terrain heightmap
  * Provides physics queries without Three.js dependency
  */
 export class TerrainCollider {
-  heightmap: TerrainHeightmap;
+  heightmap: TerrainHeightSource;
 
-  constructor(heightmap: TerrainHeightmap) {
+  constructor(heightmap: TerrainHeightSource) {
     this.heightmap = heightmap;
   }
 
@@ -26,6 +25,13 @@ export class TerrainCollider {
     return this.heightmap.getNormal(x, z);
   }
 
+  /**
+   * Get surface material at world position
+   */
+  getMaterial(x: number, z: number): TerrainMaterialId {
+    return this.heightmap.getMaterial(x, z);
+  }
+
   /**
    * Get slope angle in degrees at world position
    */
@@ -2,6 +2,36 @@ export { IPhysicsWorld } from './IPhysicsWorld.js';
 export { TerrainCollider } from './TerrainCollider.js';
 export { SimplePhysics } from './SimplePhysics.js';
 export { RapierPhysics } from './RapierPhysics.js';
+export { raycastStaticShape, getRampLocalVertices, rotateY } from './StaticShapeQueries.js';
+export type { StaticShapeHit, SweepShape } from './StaticShapeQueries.js';
+export { samplePlatformPose } from './PlatformMotion.js';
+export { PhysicsEventEmitter, attachPhysicsEventLogging } from './PhysicsEvents.js';
+export type {
+  ContactEvent,
+  ContactListener,
+  GroundedChangedEvent,
+  GroundedListener,
+  PhysicsBodyLabel
+} from './PhysicsEvents.js';
+export type { PlatformPose } from './PlatformMotion.js';
+export type {
+  DynamicBodyDefinition,
+  DynamicBodyState,
+  GroundMotion,
+  PhysicsDebugBuffers,
+  PhysicsQueryRecord,
+  PhysicsStats,
+  PlatformDefinition,
+  PlatformMotion,
+  RagdollDefinition,
+  RagdollJointDefinition,
+  RagdollSegmentDefinition,
+  RagdollSegmentState,
+  StaticShapeDefinition,
+  StaticBoxDefinition,
+  StaticCylinderDefinition,
+  StaticRampDefinition
+} from './IPhysicsWorld.js';
 export { CenterOfMassSystem } from './CenterOfMassSystem.js';
 export { SupportPolygonCalculator } from './SupportPolygonCalculator.js';
 export type { FootState } from './SupportPolygonCalculator.js';
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TerrainHeightmap } from './TerrainHeightmap.js'
+import {
+  decodePngHeightfield,
+  decodeRawHeightfield,
+  exportHeightmap,
+  importHeightmap,
+  parseHeightmapMetadata,
+  resampleHeightfield
+} from './HeightmapIO.js'
+import { platform } from '../platform/index.js'
+
+const deflate = async (bytes) => {
+  const stream = new Response(bytes).body.pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const chunk = (type, data) => {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  out.set([...type].map((c) => c.charCodeAt(0)), 4)
+  out.set(data, 8)
+  return out // CRC left as zero; the decoder does not verify it
+}
+
+// Build a non-interlaced grayscale PNG using the Sub filter on every row
+const buildGrayPng = async (width, height, values, bitDepth = 8) => {
+  const bytesPerPixel = bitDepth / 8
+  const rowBytes = width * bytesPerPixel
+  const raw = new Uint8Array((rowBytes + 1) * height)
+  for (let y = 0; y < height; y++) {
+    const row = new Uint8Array(rowBytes)
+    for (let x = 0; x < width; x++) {
+      const value = values[y * width + x]
+      if (bitDepth === 16) {
+        row[x * 2] = value >> 8
+        row[x * 2 + 1] = value & 0xff
+      } else {
+        row[x] = value
+      }
+    }
+    raw[y * (rowBytes + 1)] = 1
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0
+      raw[y * (rowBytes + 1) + 1 + i] = (row[i] - left) & 0xff
+    }
+  }
+
+  const header = new Uint8Array(13)
+  const headerView = new DataView(header.buffer)
+  headerView.setUint32(0, width)
+  headerView.setUint32(4, height)
+  header[8] = bitDepth
+  header[9] = 0
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0))
+  ]
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    png.set(part, offset)
+    offset += part.length
+  }
+  return png.buffer
+}
+
+describe('terrain/HeightmapIO', () => {
+  it('decodes 8-bit grayscale PNGs to normalized samples', async () => {
+    const png = await buildGrayPng(2, 2, [0, 255, 51, 102])
+    const data = await decodePngHeightfield(png)
+    expect(data.width).toBe(2)
+    expect(data.depth).toBe(2)
+    expect(Array.from(data.samples)).toEqual([0, 1, 0.2, 0.4].map((v) => Math.fround(v)))
+  })
+
+  it('decodes 16-bit grayscale PNGs', async () => {
+    const png = await buildGrayPng(2, 1, [0, 65535], 16)
+    const data = await decodePngHeightfield(png)
+    expect(Array.from(data.samples)).toEqual([0, 1])
+  })
+
+  it('rejects non-PNG data', async () => {
+    await expect(decodePngHeightfield(new Uint8Array(16).buffer)).rejects.toThrow('Not a PNG')
+  })
+
+  it('decodes raw uint16 and float32 heightfields', () => {
+    const uint16 = new Uint16Array([0, 65535, 65535, 0])
+    const decoded16 = decodeRawHeightfield(uint16.buffer, 'uint16')
+    expect(decoded16.width).toBe(2)
+    expect(decoded16.normalized).toBe(true)
+    expect(Array.from(decoded16.samples)).toEqual([0, 1, 1, 0])
+
+    const float32 = new Float32Array([1.5, -2, 3, 4, 5, 6])
+    const decoded32 = decodeRawHeightfield(float32.buffer, 'float32', 3)
+    expect(decoded32.depth).toBe(2)
+    expect(decoded32.normalized).toBe(false)
+    expect(decoded32.samples[1]).toBe(-2)
+  })
+
+  it('resamples onto the terrain grid with bilinear filtering', () => {
+    const data = { width: 2, depth: 2, samples: new Float32Array([0, 1, 0, 1]), normalized: true }
+    const resampled = resampleHeightfield(data, 2)
+    expect(Array.from(resampled)).toEqual([0, 0.5, 1, 0, 0.5, 1, 0, 0.5, 1])
+  })
+
+  it('imports a PNG into the heightmap with height scale and world size', async () => {
+    const heightmap = new TerrainHeightmap(10, 2)
+    const png = await buildGrayPng(3, 3, [0, 0, 0, 0, 255, 0, 0, 0, 0])
+
+    await importHeightmap(heightmap, 'hills.png', png, { heightScale: 4, worldSize: 20 })
+
+    expect(heightmap.size).toBe(20)
+    expect(heightmap.heights[4]).toBeCloseTo(4)
+    expect(heightmap.getHeight(0, 0)).toBeCloseTo(4)
+  })
+
+  it('round-trips an export through the raw importer', async () => {
+    const saveBlob = vi.spyOn(platform, 'saveBlob').mockImplementation(() => {})
+    const saveTextFile = vi.spyOn(platform, 'saveTextFile').mockImplementation(() => {})
+    try {
+      const source = new TerrainHeightmap(30, 4)
+      source.setHeights(Float32Array.from({ length: 25 }, (_, i) => i * 0.25))
+
+      exportHeightmap(source, 'terrain')
+
+      expect(saveBlob).toHaveBeenCalledWith('terrain.raw', expect.any(Blob))
+      expect(saveTextFile).toHaveBeenCalledWith('terrain.json', expect.any(String))
+
+      const metadata = parseHeightmapMetadata(saveTextFile.mock.calls[0][1])
+      expect(metadata).toMatchObject({ format: 'float32', width: 5, worldSize: 30 })
+
+      const raw = new ArrayBuffer(source.heights.length * 4)
+      new Float32Array(raw).set(source.heights)
+      const target = new TerrainHeightmap(10, 4)
+      await importHeightmap(target, 'terrain.raw', raw, {}, metadata)
+
+      expect(target.size).toBe(30)
+      expect(Array.from(target.heights)).toEqual(Array.from(source.heights))
+    } finally {
+      saveBlob.mockRestore()
+      saveTextFile.mockRestore()
+    }
+  })
+})
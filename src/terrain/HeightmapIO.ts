@@ -0,0 +1,351 @@
+/**
+ * Heightmap import/export
+ * Decodes grayscale PNG and raw heightfields, resamples them onto the
+ * terrain grid, and writes the current heights back out as raw Float32.
+ */
+
+import { TERRAIN } from '../config/index.js';
+import { platform } from '../platform/index.js';
+import type { TerrainHeightmap } from './TerrainHeightmap.js';
+
+export const HEIGHTMAP_METADATA_VERSION = 1;
+
+export type RawHeightfieldFormat = 'float32' | 'uint16';
+
+/**
+ * Decoded heightfield samples, row-major with `width` samples per row
+ * Samples are normalized to [0, 1] unless `normalized` is false (Float32 raw)
+ */
+export interface HeightfieldData {
+  width: number;
+  depth: number;
+  samples: Float32Array;
+  normalized: boolean;
+}
+
+/**
+ * World placement for imported heightfields (also written as the export sidecar)
+ */
+export interface HeightmapMetadata {
+  version: number;
+  format: RawHeightfieldFormat;
+  width: number;
+  depth: number;
+  worldSize: number;
+  heightScale: number;
+  baseHeight: number;
+}
+
+export interface HeightmapImportOptions {
+  worldSize?: number;
+  heightScale?: number;
+  baseHeight?: number;
+  rawFormat?: RawHeightfieldFormat;
+  rawWidth?: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel by PNG colour type (gray, rgb, -, -, gray+alpha, -, rgba)
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+/**
+ * Inflate zlib-compressed bytes with the platform DecompressionStream
+ */
+async function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const body = new Response(bytes).body;
+  if (!body) {
+    throw new Error('Unable to read compressed PNG data');
+  }
+  const stream = body.pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Paeth predictor from the PNG specification
+ */
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Reverse per-scanline PNG filters in place, returning the unfiltered pixel bytes
+ */
+function unfilterScanlines(data: Uint8Array, rowBytes: number, rows: number, bytesPerPixel: number): Uint8Array {
+  const output = new Uint8Array(rowBytes * rows);
+
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowBytes + 1)] ?? 0;
+    const src = row * (rowBytes + 1) + 1;
+    const dst = row * rowBytes;
+    const prev = dst - rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[src + i] ?? 0;
+      const left = i >= bytesPerPixel ? output[dst + i - bytesPerPixel] ?? 0 : 0;
+      const up = row > 0 ? output[prev + i] ?? 0 : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[prev + i - bytesPerPixel] ?? 0 : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paeth(left, up, upLeft); break;
+        default:
+          throw new Error(`Unsupported PNG filter type: ${filter}`);
+      }
+      output[dst + i] = value & 0xff;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Decode an 8- or 16-bit grayscale PNG (colour images use the first channel)
+ */
+export async function decodePngHeightfield(buffer: ArrayBuffer): Promise<HeightfieldData> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  if (PNG_SIGNATURE.some((value, index) => bytes[index] !== value)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let depth = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const idatChunks: Uint8Array[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const dataStart = offset + 8;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(dataStart);
+      depth = view.getUint32(dataStart + 4);
+      bitDepth = bytes[dataStart + 8] ?? 0;
+      colorType = bytes[dataStart + 9] ?? 0;
+      const interlace = bytes[dataStart + 12] ?? 0;
+      if (interlace !== 0) {
+        throw new Error('Interlaced PNG heightmaps are not supported');
+      }
+    } else if (type === 'IDAT') {
+      idatChunks.push(bytes.subarray(dataStart, dataStart + length));
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset = dataStart + length + 4; // Skip CRC
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels || (bitDepth !== 8 && bitDepth !== 16)) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, ${bitDepth}-bit)`);
+  }
+  if (width === 0 || depth === 0 || idatChunks.length === 0) {
+    throw new Error('PNG is missing image data');
+  }
+
+  const compressed = new Uint8Array(idatChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let writeOffset = 0;
+  for (const chunk of idatChunks) {
+    compressed.set(chunk, writeOffset);
+    writeOffset += chunk.length;
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const bytesPerPixel = channels * bytesPerSample;
+  const rowBytes = width * bytesPerPixel;
+  const pixels = unfilterScanlines(await inflate(compressed), rowBytes, depth, bytesPerPixel);
+
+  const samples = new Float32Array(width * depth);
+  const maxValue = bitDepth === 16 ? 65535 : 255;
+  for (let i = 0; i < samples.length; i++) {
+    const index = i * bytesPerPixel;
+    const value = bitDepth === 16
+      ? ((pixels[index] ?? 0) << 8) | (pixels[index + 1] ?? 0)
+      : pixels[index] ?? 0;
+    samples[i] = value / maxValue;
+  }
+
+  return { width, depth, samples, normalized: true };
+}
+
+/**
+ * Decode a headerless little-endian heightfield
+ * Width defaults to a square grid inferred from the byte length.
+ */
+export function decodeRawHeightfield(
+  buffer: ArrayBuffer,
+  format: RawHeightfieldFormat,
+  width?: number
+): HeightfieldData {
+  const bytesPerSample = format === 'float32' ? 4 : 2;
+  if (buffer.byteLength % bytesPerSample !== 0) {
+    throw new Error(`Raw ${format} heightfield has a partial sample`);
+  }
+
+  const count = buffer.byteLength / bytesPerSample;
+  const rowWidth = width ?? Math.round(Math.sqrt(count));
+  if (rowWidth < 2 || count % rowWidth !== 0 || count / rowWidth < 2) {
+    throw new Error(`Raw heightfield size ${count} does not match width ${rowWidth}`);
+  }
+
+  const view = new DataView(buffer);
+  const samples = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    samples[i] = format === 'float32'
+      ? view.getFloat32(i * 4, true)
+      : view.getUint16(i * 2, true) / 65535;
+  }
+
+  return { width: rowWidth, depth: count / rowWidth, samples, normalized: format === 'uint16' };
+}
+
+/**
+ * Bilinearly resample a heightfield onto a (segments + 1)² grid
+ */
+export function resampleHeightfield(data: HeightfieldData, segments: number): Float32Array {
+  const gridSize = segments + 1;
+  const output = new Float32Array(gridSize * gridSize);
+  const { width, depth, samples } = data;
+  const sample = (x: number, z: number): number => samples[z * width + x] ?? 0;
+
+  for (let z = 0; z < gridSize; z++) {
+    const sz = (z / segments) * (depth - 1);
+    const z0 = Math.floor(sz);
+    const z1 = Math.min(z0 + 1, depth - 1);
+    const fz = sz - z0;
+
+    for (let x = 0; x < gridSize; x++) {
+      const sx = (x / segments) * (width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const fx = sx - x0;
+
+      const h0 = sample(x0, z0) * (1 - fx) + sample(x1, z0) * fx;
+      const h1 = sample(x0, z1) * (1 - fx) + sample(x1, z1) * fx;
+      output[z * gridSize + x] = h0 * (1 - fz) + h1 * fz;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resample decoded data onto the heightmap grid and apply world scale
+ * Normalized samples map to [baseHeight, baseHeight + heightScale];
+ * Float32 samples are treated as metres and offset by baseHeight.
+ */
+export function applyHeightfield(
+  heightmap: TerrainHeightmap,
+  data: HeightfieldData,
+  options: HeightmapImportOptions = {}
+): void {
+  const heightScale = options.heightScale ?? TERRAIN.IMPORT_HEIGHT_SCALE;
+  const baseHeight = options.baseHeight ?? 0;
+  const heights = resampleHeightfield(data, heightmap.segments);
+
+  for (let i = 0; i < heights.length; i++) {
+    const value = heights[i] ?? 0;
+    heights[i] = baseHeight + (data.normalized ? value * heightScale : value);
+  }
+
+  heightmap.setHeights(heights, options.worldSize ?? heightmap.size);
+}
+
+/**
+ * Parse an export sidecar so raw files round-trip with their placement
+ */
+export function parseHeightmapMetadata(json: string): HeightmapMetadata {
+  const parsed = JSON.parse(json) as Partial<HeightmapMetadata>;
+
+  if (parsed.version !== HEIGHTMAP_METADATA_VERSION) {
+    throw new Error(`Unsupported heightmap metadata version: ${String(parsed.version)}`);
+  }
+  if (!parsed.format || !parsed.width || !parsed.worldSize) {
+    throw new Error('Heightmap metadata is missing format, width, or worldSize');
+  }
+
+  return {
+    version: parsed.version,
+    format: parsed.format,
+    width: parsed.width,
+    depth: parsed.depth ?? parsed.width,
+    worldSize: parsed.worldSize,
+    heightScale: parsed.heightScale ?? 1,
+    baseHeight: parsed.baseHeight ?? 0
+  };
+}
+
+/**
+ * Decode a PNG or raw file by extension and apply it to the heightmap
+ * Raw files use metadata (from an exported sidecar) when provided.
+ */
+export async function importHeightmap(
+  heightmap: TerrainHeightmap,
+  filename: string,
+  buffer: ArrayBuffer,
+  options: HeightmapImportOptions = {},
+  metadata: HeightmapMetadata | null = null
+): Promise<HeightfieldData> {
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+
+  let data: HeightfieldData;
+  if (extension === 'png') {
+    data = await decodePngHeightfield(buffer);
+  } else {
+    const format = metadata?.format ?? options.rawFormat ?? (extension === 'r16' ? 'uint16' : 'float32');
+    data = decodeRawHeightfield(buffer, format, metadata?.width ?? options.rawWidth);
+  }
+
+  applyHeightfield(heightmap, data, {
+    worldSize: metadata?.worldSize ?? options.worldSize,
+    heightScale: metadata?.heightScale ?? options.heightScale,
+    baseHeight: metadata?.baseHeight ?? options.baseHeight
+  });
+
+  return data;
+}
+
+/**
+ * Build sidecar metadata describing the current heightmap as raw Float32
+ */
+export function createHeightmapMetadata(heightmap: TerrainHeightmap): HeightmapMetadata {
+  const gridSize = heightmap.segments + 1;
+  return {
+    version: HEIGHTMAP_METADATA_VERSION,
+    format: 'float32',
+    width: gridSize,
+    depth: gridSize,
+    worldSize: heightmap.size,
+    heightScale: 1,
+    baseHeight: 0
+  };
+}
+
+/**
+ * Download the current heights as little-endian Float32 plus a JSON sidecar
+ */
+export function exportHeightmap(heightmap: TerrainHeightmap, basename?: string): void {
+  const name = basename ?? `heightmap-${Date.now()}`;
+  const raw = new ArrayBuffer(heightmap.heights.length * 4);
+  const view = new DataView(raw);
+  heightmap.heights.forEach((height, index) => view.setFloat32(index * 4, height, true));
+
+  platform.saveBlob(`${name}.raw`, new Blob([raw], { type: 'application/octet-stream' }));
+  platform.saveTextFile(`${name}.json`, JSON.stringify(createHeightmapMetadata(heightmap), null, 2));
+}
+
+export default importHeightmap;
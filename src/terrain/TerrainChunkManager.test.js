@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import { TERRAIN } from '../config/index.js'
+import { createTerrainGenerator } from './TerrainGenerators.js'
+import { TerrainChunkManager } from './TerrainChunkManager.js'
+import { TerrainHeightmap } from './TerrainHeightmap.js'
+
+const generator = createTerrainGenerator({ ...TERRAIN, GENERATOR: 'fbm', HEIGHT_SCALE: 5, SEED: 3 })
+
+const createManager = (options = {}) =>
+  new TerrainChunkManager({ chunkSize: 16, segments: 8, loadRadius: 1, unloadRadius: 2, generator, ...options })
+
+describe('terrain/TerrainChunkManager', () => {
+  it('loads every chunk in radius around the focus point', () => {
+    const manager = createManager()
+    manager.loadAround(0, 0)
+
+    expect(manager.getLoadedCount()).toBe(9)
+    expect(manager.chunks.has('1,-1')).toBe(true)
+    expect(manager.chunks.get('1,0').heightmap.originX).toBe(16)
+  })
+
+  it('limits chunk builds per update, nearest first', () => {
+    const manager = createManager({ buildsPerUpdate: 1 })
+
+    manager.update(0, 0)
+    expect([...manager.chunks.keys()]).toEqual(['0,0'])
+
+    manager.update(0, 0)
+    expect(manager.getLoadedCount()).toBe(2)
+  })
+
+  it('shares identical heights along chunk seams', () => {
+    const manager = createManager()
+    manager.loadAround(0, 0)
+
+    const left = manager.chunks.get('0,0').heightmap
+    const right = manager.chunks.get('1,0').heightmap
+    const gridSize = left.segments + 1
+    for (let z = 0; z < gridSize; z++) {
+      expect(left.heights[z * gridSize + left.segments]).toBe(right.heights[z * gridSize])
+    }
+
+    const seamX = 8
+    expect(manager.getHeight(seamX - 1e-4, 3)).toBeCloseTo(manager.getHeight(seamX + 1e-4, 3), 2)
+  })
+
+  it('matches seamless world normals and splat along chunk edges', () => {
+    const steep = createTerrainGenerator({ ...TERRAIN, GENERATOR: 'fbm', HEIGHT_SCALE: 30, SEED: 3 })
+    const manager = createManager({ generator: steep })
+    manager.loadAround(0, 0)
+    // One heightmap over the same 3x3 chunks and grid spacing has no seams
+    const world = new TerrainHeightmap(48, 24, steep)
+
+    const chunk = manager.chunks.get('0,0').heightmap
+    const { segments, size, originX, originZ } = chunk
+    for (let i = 0; i <= segments; i++) {
+      for (const [x, z] of [[i, 0], [i, segments], [0, i], [segments, i]]) {
+        const worldX = originX + (x / segments - 0.5) * size
+        const worldZ = originZ + (z / segments - 0.5) * size
+
+        const normal = chunk.getNormal(worldX, worldZ)
+        const expected = world.getNormal(worldX, worldZ)
+        expect(normal.x).toBeCloseTo(expected.x, 4)
+        expect(normal.y).toBeCloseTo(expected.y, 4)
+        expect(normal.z).toBeCloseTo(expected.z, 4)
+
+        const weights = chunk.getMaterialWeights(worldX, worldZ)
+        const expectedWeights = world.getMaterialWeights(worldX, worldZ)
+        weights.forEach((weight, channel) => expect(weight).toBeCloseTo(expectedWeights[channel], 4))
+      }
+    }
+  })
+
+  it('gives neighbouring chunk meshes matching normals along the seam', () => {
+    const steep = createTerrainGenerator({ ...TERRAIN, GENERATOR: 'fbm', HEIGHT_SCALE: 30, SEED: 3 })
+    const manager = createManager({ generator: steep })
+    manager.attach(new THREE.Scene())
+    manager.loadAround(0, 0)
+
+    const left = manager.chunks.get('0,0').mesh.mesh.geometry.attributes.normal
+    const right = manager.chunks.get('1,0').mesh.mesh.geometry.attributes.normal
+    const gridSize = 9
+    for (let z = 0; z < gridSize; z++) {
+      const a = z * gridSize + gridSize - 1
+      const b = z * gridSize
+      expect(left.getX(a)).toBeCloseTo(right.getX(b), 5)
+      expect(left.getY(a)).toBeCloseTo(right.getY(b), 5)
+      expect(left.getZ(a)).toBeCloseTo(right.getZ(b), 5)
+    }
+  })
+
+  it('answers heights outside loaded chunks from the generator', () => {
+    const manager = createManager()
+    manager.loadAround(0, 0)
+
+    expect(manager.getHeight(500, -300)).toBeCloseTo(generator.sample(500, -300), 6)
+    expect(manager.getNormal(500, -300).y).toBeGreaterThan(0)
+  })
+
+  it('unloads distant chunks and releases mesh and collider', () => {
+    const scene = new THREE.Scene()
+    const physics = { addTerrainChunk: vi.fn(), removeTerrainChunk: vi.fn() }
+    const manager = createManager()
+    manager.attach(scene, physics)
+    manager.loadAround(0, 0)
+
+    expect(physics.addTerrainChunk).toHaveBeenCalledTimes(9)
+    expect(scene.children.filter((child) => child.isMesh)).toHaveLength(9)
+
+    manager.loadAround(16 * 4, 0)
+
+    expect(manager.chunks.has('0,0')).toBe(false)
+    expect(manager.getLoadedCount()).toBe(9)
+    expect(physics.removeTerrainChunk).toHaveBeenCalledWith('0,0')
+    expect(scene.children.filter((child) => child.isMesh)).toHaveLength(9)
+  })
+
+  it('keeps chunks within the unload radius (hysteresis)', () => {
+    const manager = createManager()
+    manager.loadAround(0, 0)
+    manager.loadAround(16, 0)
+
+    expect(manager.chunks.has('-1,0')).toBe(true)
+    expect(manager.getLoadedCount()).toBe(12)
+  })
+})
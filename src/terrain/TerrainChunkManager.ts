@@ -0,0 +1,313 @@
+import type * as THREE from 'three';
+import { TERRAIN } from '../config/index.js';
+import { DisposalTracker } from '../utils/disposal.js';
+import { createTerrainGenerator, type TerrainGenerator } from './TerrainGenerators.js';
+import { TerrainHeightmap } from './TerrainHeightmap.js';
+import { TerrainMesh } from './TerrainMesh.js';
+import { mergeLODStats, type TerrainLODStats } from './TerrainLOD.js';
+import type { IPhysicsWorld } from '../physics/IPhysicsWorld.js';
+import type { TerrainHeightSource, TerrainMaterialId, Vector3Like } from '../types/index.js';
+
+/**
+ * One streamed terrain tile, centered on (chunkX, chunkZ) * chunkSize
+ */
+export interface TerrainChunk {
+  key: string;
+  chunkX: number;
+  chunkZ: number;
+  heightmap: TerrainHeightmap;
+  mesh: TerrainMesh | null;
+  tracker: DisposalTracker;
+}
+
+export interface TerrainChunkManagerOptions {
+  chunkSize?: number;
+  segments?: number;
+  loadRadius?: number;
+  unloadRadius?: number;
+  buildsPerUpdate?: number;
+  generator?: TerrainGenerator;
+}
+
+/**
+ * Streams TerrainHeightmap tiles around a focus point
+ * Builds a mesh and physics collider per chunk and answers height queries
+ * across chunk seams. Unloaded areas fall back to the generator sampled on
+ * the chunk grid (bilinear between vertices, as a loaded chunk would answer),
+ * so queries stay continuous while chunks are still queued.
+ */
+export class TerrainChunkManager implements TerrainHeightSource {
+  size: number;
+  segments: number;
+  loadRadius: number;
+  unloadRadius: number;
+  buildsPerUpdate: number;
+  generator: TerrainGenerator;
+
+  // Loaded chunks by "x,z" key
+  chunks: Map<string, TerrainChunk>;
+
+  // Attached consumers (optional - headless use only needs heights)
+  scene: THREE.Scene | null;
+  physics: IPhysicsWorld | null;
+
+  // Last focus chunk, to skip redundant scans
+  centerChunkX: number | null;
+  centerChunkZ: number | null;
+  pending: Array<{ chunkX: number; chunkZ: number }>;
+
+  constructor(options: TerrainChunkManagerOptions = {}) {
+    this.size = options.chunkSize ?? TERRAIN.CHUNK_SIZE;
+    this.segments = options.segments ?? TERRAIN.CHUNK_SEGMENTS;
+    this.loadRadius = options.loadRadius ?? TERRAIN.CHUNK_LOAD_RADIUS;
+    this.unloadRadius = Math.max(this.loadRadius, options.unloadRadius ?? TERRAIN.CHUNK_UNLOAD_RADIUS);
+    this.buildsPerUpdate = options.buildsPerUpdate ?? TERRAIN.CHUNK_BUILDS_PER_FRAME;
+    this.generator = options.generator ?? createTerrainGenerator();
+
+    // Loaded chunks
+    this.chunks = new Map();
+
+    // Attached consumers
+    this.scene = null;
+    this.physics = null;
+
+    // Focus tracking
+    this.centerChunkX = null;
+    this.centerChunkZ = null;
+    this.pending = [];
+  }
+
+  /**
+   * Attach a scene for chunk meshes and a physics world for chunk colliders
+   * Chunks already loaded are added to both.
+   */
+  attach(scene: THREE.Scene | null, physics: IPhysicsWorld | null = null): void {
+    this.scene = scene;
+    this.physics = physics;
+
+    for (const chunk of this.chunks.values()) {
+      this.buildChunkResources(chunk);
+    }
+  }
+
+  /**
+   * Chunk coordinate containing a world coordinate
+   */
+  getChunkCoord(world: number): number {
+    return Math.floor(world / this.size + 0.5);
+  }
+
+  /**
+   * Stream chunks around a world position
+   * Loads at most `buildsPerUpdate` chunks per call (nearest first).
+   */
+  update(worldX: number, worldZ: number): void {
+    const centerX = this.getChunkCoord(worldX);
+    const centerZ = this.getChunkCoord(worldZ);
+
+    if (centerX !== this.centerChunkX || centerZ !== this.centerChunkZ) {
+      this.centerChunkX = centerX;
+      this.centerChunkZ = centerZ;
+      this.unloadDistant(centerX, centerZ);
+      this.pending = this.collectMissing(centerX, centerZ);
+    }
+
+    let builds = 0;
+    while (this.pending.length > 0 && builds < this.buildsPerUpdate) {
+      const next = this.pending.shift();
+      if (!next) break;
+      if (this.chunks.has(this.getKey(next.chunkX, next.chunkZ))) continue;
+      this.loadChunk(next.chunkX, next.chunkZ);
+      builds++;
+    }
+  }
+
+  /**
+   * Load every chunk in range immediately (initial spawn, teleports)
+   */
+  loadAround(worldX: number, worldZ: number): void {
+    this.centerChunkX = null;
+    this.centerChunkZ = null;
+    const budget = this.buildsPerUpdate;
+    this.buildsPerUpdate = Number.POSITIVE_INFINITY;
+    this.update(worldX, worldZ);
+    this.buildsPerUpdate = budget;
+  }
+
+  /**
+   * Get height at world position from the owning chunk
+   */
+  getHeight(worldX: number, worldZ: number): number {
+    const chunk = this.chunks.get(this.getKey(this.getChunkCoord(worldX), this.getChunkCoord(worldZ)));
+    return chunk
+      ? chunk.heightmap.getHeight(worldX, worldZ)
+      : this.sampleGeneratorGrid(worldX, worldZ);
+  }
+
+  /**
+   * Get surface normal using finite differences across chunk seams
+   */
+  getNormal(worldX: number, worldZ: number): Vector3Like {
+    const delta = 0.5;
+    const hLeft = this.getHeight(worldX - delta, worldZ);
+    const hRight = this.getHeight(worldX + delta, worldZ);
+    const hBack = this.getHeight(worldX, worldZ - delta);
+    const hFront = this.getHeight(worldX, worldZ + delta);
+
+    const nx = (hLeft - hRight) / (2 * delta);
+    const nz = (hBack - hFront) / (2 * delta);
+    const ny = 1;
+
+    const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    return {
+      x: nx / len,
+      y: ny / len,
+      z: nz / len
+    };
+  }
+
+  /**
+   * Dominant surface material from the owning chunk (default while unloaded)
+   */
+  getMaterial(worldX: number, worldZ: number): TerrainMaterialId {
+    const chunk = this.chunks.get(this.getKey(this.getChunkCoord(worldX), this.getChunkCoord(worldZ)));
+    return chunk ? chunk.heightmap.getMaterial(worldX, worldZ) : TERRAIN.DEFAULT_MATERIAL;
+  }
+
+  /**
+   * Refine LOD tiles of every chunk mesh around the camera
+   */
+  updateLOD(cameraPosition: Vector3Like): void {
+    for (const chunk of this.chunks.values()) {
+      chunk.mesh?.updateLOD(cameraPosition);
+    }
+  }
+
+  /**
+   * Combined LOD stats across chunks, or null when chunk meshes have no LOD
+   */
+  getLODStats(): TerrainLODStats | null {
+    const stats: TerrainLODStats[] = [];
+    for (const chunk of this.chunks.values()) {
+      const chunkStats = chunk.mesh?.getLODStats();
+      if (chunkStats) stats.push(chunkStats);
+    }
+    return stats.length > 0 ? mergeLODStats(stats) : null;
+  }
+
+  /**
+   * Number of chunks currently loaded
+   */
+  getLoadedCount(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Unload all chunks and release their resources
+   */
+  dispose(): void {
+    for (const chunk of [...this.chunks.values()]) {
+      this.unloadChunk(chunk);
+    }
+    this.pending = [];
+    this.centerChunkX = null;
+    this.centerChunkZ = null;
+  }
+
+  private getKey(chunkX: number, chunkZ: number): string {
+    return `${chunkX},${chunkZ}`;
+  }
+
+  private collectMissing(centerX: number, centerZ: number): Array<{ chunkX: number; chunkZ: number }> {
+    const missing: Array<{ chunkX: number; chunkZ: number; distance: number }> = [];
+    const radius = this.loadRadius;
+
+    for (let dz = -radius; dz <= radius; dz++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const chunkX = centerX + dx;
+        const chunkZ = centerZ + dz;
+        if (this.chunks.has(this.getKey(chunkX, chunkZ))) continue;
+        missing.push({ chunkX, chunkZ, distance: dx * dx + dz * dz });
+      }
+    }
+
+    missing.sort((a, b) => a.distance - b.distance);
+    return missing.map(({ chunkX, chunkZ }) => ({ chunkX, chunkZ }));
+  }
+
+  private unloadDistant(centerX: number, centerZ: number): void {
+    for (const chunk of [...this.chunks.values()]) {
+      const distance = Math.max(Math.abs(chunk.chunkX - centerX), Math.abs(chunk.chunkZ - centerZ));
+      if (distance > this.unloadRadius) {
+        this.unloadChunk(chunk);
+      }
+    }
+  }
+
+  /**
+   * Generator heights at the surrounding chunk-grid vertices, bilinearly blended
+   */
+  private sampleGeneratorGrid(worldX: number, worldZ: number): number {
+    const spacing = this.size / this.segments;
+    // Chunk grids share vertices on a lattice offset by half a chunk
+    const offset = this.size / 2;
+    const gridX = (worldX + offset) / spacing;
+    const gridZ = (worldZ + offset) / spacing;
+    const x0 = Math.floor(gridX);
+    const z0 = Math.floor(gridZ);
+    const fx = gridX - x0;
+    const fz = gridZ - z0;
+    const sample = (x: number, z: number): number =>
+      this.generator.sample(x * spacing - offset, z * spacing - offset);
+
+    const h0 = sample(x0, z0) * (1 - fx) + sample(x0 + 1, z0) * fx;
+    const h1 = sample(x0, z0 + 1) * (1 - fx) + sample(x0 + 1, z0 + 1) * fx;
+    return h0 * (1 - fz) + h1 * fz;
+  }
+
+  private loadChunk(chunkX: number, chunkZ: number): TerrainChunk {
+    const key = this.getKey(chunkX, chunkZ);
+    const heightmap = new TerrainHeightmap(
+      this.size,
+      this.segments,
+      this.generator,
+      chunkX * this.size,
+      chunkZ * this.size,
+      this
+    );
+
+    const chunk: TerrainChunk = {
+      key,
+      chunkX,
+      chunkZ,
+      heightmap,
+      mesh: null,
+      tracker: new DisposalTracker()
+    };
+    this.chunks.set(key, chunk);
+    this.buildChunkResources(chunk);
+
+    return chunk;
+  }
+
+  private buildChunkResources(chunk: TerrainChunk): void {
+    if (this.scene && !chunk.mesh) {
+      chunk.mesh = new TerrainMesh(chunk.heightmap, chunk.tracker, { showGrid: false });
+      chunk.mesh.addToScene(this.scene);
+    }
+    this.physics?.addTerrainChunk(chunk.key, chunk.heightmap);
+  }
+
+  private unloadChunk(chunk: TerrainChunk): void {
+    if (chunk.mesh && this.scene) {
+      chunk.mesh.removeFromScene(this.scene);
+    }
+    chunk.mesh?.dispose();
+    chunk.tracker.dispose();
+    chunk.mesh = null;
+    this.physics?.removeTerrainChunk(chunk.key);
+    this.chunks.delete(chunk.key);
+  }
+}
+
+export default TerrainChunkManager;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { TERRAIN } from '../config/index.js'
+import { createTerrainGenerator, SineGenerator } from './TerrainGenerators.js'
+import { createNoise } from './noise.js'
+import { TerrainHeightmap } from './TerrainHeightmap.js'
+
+const config = (overrides) => ({ ...TERRAIN, HEIGHT_SCALE: 4, ...overrides })
+
+describe('terrain/noise', () => {
+  it.each(['perlin', 'simplex'])('keeps %s noise within [-1, 1]', (basis) => {
+    const noise = createNoise(basis, 42)
+    for (let i = 0; i < 500; i++) {
+      const value = noise.noise2D(i * 0.37 - 50, i * 0.61 + 11)
+      expect(value).toBeGreaterThanOrEqual(-1)
+      expect(value).toBeLessThanOrEqual(1)
+    }
+  })
+})
+
+describe('terrain/TerrainGenerators', () => {
+  it('defaults to the sine generator', () => {
+    expect(createTerrainGenerator(config({ GENERATOR: 'sine' }))).toBeInstanceOf(SineGenerator)
+  })
+
+  it.each(['fbm', 'ridged', 'warped'])('produces identical heights for the same seed (%s)', (type) => {
+    const a = new TerrainHeightmap(50, 16, createTerrainGenerator(config({ GENERATOR: type, SEED: 7 })))
+    const b = new TerrainHeightmap(50, 16, createTerrainGenerator(config({ GENERATOR: type, SEED: 7 })))
+    expect(Array.from(a.heights)).toEqual(Array.from(b.heights))
+    expect(new Set(a.heights).size).toBeGreaterThan(1)
+  })
+
+  it('produces different heights for different seeds', () => {
+    const a = new TerrainHeightmap(50, 16, createTerrainGenerator(config({ GENERATOR: 'fbm', SEED: 1 })))
+    const b = new TerrainHeightmap(50, 16, createTerrainGenerator(config({ GENERATOR: 'fbm', SEED: 2 })))
+    expect(Array.from(a.heights)).not.toEqual(Array.from(b.heights))
+  })
+
+  it('keeps heights within the configured height scale', () => {
+    for (const type of ['fbm', 'ridged', 'warped']) {
+      const generator = createTerrainGenerator(config({ GENERATOR: type }))
+      for (let i = 0; i < 200; i++) {
+        expect(Math.abs(generator.sample(i * 1.3 - 100, i * 0.7))).toBeLessThanOrEqual(4)
+      }
+    }
+  })
+
+  it('regenerates heights when the generator changes', () => {
+    const heightmap = new TerrainHeightmap(50, 8)
+    expect(new Set(heightmap.heights).size).toBe(1)
+
+    heightmap.setGenerator(createTerrainGenerator(config({ GENERATOR: 'ridged' })))
+    expect(new Set(heightmap.heights).size).toBeGreaterThan(1)
+  })
+})
@@ -0,0 +1,209 @@
+import { TERRAIN } from '../config/index.js';
+import { createNoise, createRandom, type Noise2D } from './noise.js';
+import type { TerrainConfig, TerrainGeneratorType } from '../types/index.js';
+
+/**
+ * Pluggable height source for TerrainHeightmap
+ * Must be deterministic: the same world position always returns the same height.
+ */
+export interface TerrainGenerator {
+  readonly type: TerrainGeneratorType;
+  sample(worldX: number, worldZ: number): number;
+}
+
+/**
+ * Fractal noise settings shared by the noise-based generators
+ */
+export interface FractalSettings {
+  seed: number;
+  heightScale: number;
+  frequency: number;
+  octaves: number;
+  lacunarity: number;
+  gain: number;
+}
+
+/**
+ * Seeded noise plus a per-seed offset so seeds differ even near the origin
+ */
+function createSeededNoise(config: TerrainConfig, seed: number): { noise: Noise2D; offsetX: number; offsetZ: number } {
+  const random = createRandom(seed);
+  return {
+    noise: createNoise(config.NOISE_BASIS, seed),
+    offsetX: random() * 1000,
+    offsetZ: random() * 1000
+  };
+}
+
+/**
+ * Original three-sine terrain (kept as the default)
+ */
+export class SineGenerator implements TerrainGenerator {
+  readonly type = 'sine' as const;
+  private config: TerrainConfig;
+
+  constructor(config: TerrainConfig = TERRAIN) {
+    this.config = config;
+  }
+
+  sample(worldX: number, worldZ: number): number {
+    const { HEIGHT_SCALE: scale, NOISE_SCALE_1, NOISE_SCALE_2, NOISE_SCALE_3 } = this.config;
+
+    return (
+      Math.sin(worldX * NOISE_SCALE_1) * Math.cos(worldZ * NOISE_SCALE_1) * scale +
+      Math.sin(worldX * NOISE_SCALE_2 + 1) * Math.cos(worldZ * NOISE_SCALE_2 * 0.8) * (scale * 0.5) +
+      Math.sin(worldX * NOISE_SCALE_3) * Math.sin(worldZ * NOISE_SCALE_3) * scale
+    );
+  }
+}
+
+/**
+ * Fractal Brownian motion: summed octaves of gradient noise
+ */
+export class FbmGenerator implements TerrainGenerator {
+  readonly type = 'fbm' as const;
+  private settings: FractalSettings;
+  private noise: Noise2D;
+  private offsetX: number;
+  private offsetZ: number;
+
+  constructor(settings: FractalSettings, config: TerrainConfig = TERRAIN) {
+    this.settings = settings;
+    const seeded = createSeededNoise(config, settings.seed);
+    this.noise = seeded.noise;
+    this.offsetX = seeded.offsetX;
+    this.offsetZ = seeded.offsetZ;
+  }
+
+  /**
+   * Normalized fBm value in roughly [-1, 1]
+   */
+  fbm(worldX: number, worldZ: number): number {
+    const { frequency, octaves, lacunarity, gain } = this.settings;
+    let sum = 0;
+    let amplitude = 1;
+    let norm = 0;
+    let freq = frequency;
+
+    for (let octave = 0; octave < octaves; octave++) {
+      sum += this.noise.noise2D(worldX * freq + this.offsetX, worldZ * freq + this.offsetZ) * amplitude;
+      norm += amplitude;
+      amplitude *= gain;
+      freq *= lacunarity;
+    }
+
+    return norm > 0 ? sum / norm : 0;
+  }
+
+  sample(worldX: number, worldZ: number): number {
+    return this.fbm(worldX, worldZ) * this.settings.heightScale;
+  }
+}
+
+/**
+ * Ridged multifractal: inverted absolute noise with octave weighting
+ * for sharp crests and smooth valleys
+ */
+export class RidgedGenerator implements TerrainGenerator {
+  readonly type = 'ridged' as const;
+  private settings: FractalSettings;
+  private noise: Noise2D;
+  private offsetX: number;
+  private offsetZ: number;
+
+  constructor(settings: FractalSettings, config: TerrainConfig = TERRAIN) {
+    this.settings = settings;
+    const seeded = createSeededNoise(config, settings.seed);
+    this.noise = seeded.noise;
+    this.offsetX = seeded.offsetX;
+    this.offsetZ = seeded.offsetZ;
+  }
+
+  sample(worldX: number, worldZ: number): number {
+    const { frequency, octaves, lacunarity, gain, heightScale } = this.settings;
+    let sum = 0;
+    let amplitude = 1;
+    let norm = 0;
+    let freq = frequency;
+    let weight = 1;
+
+    for (let octave = 0; octave < octaves; octave++) {
+      let signal = 1 - Math.abs(this.noise.noise2D(worldX * freq + this.offsetX, worldZ * freq + this.offsetZ));
+      signal *= signal;
+      signal *= weight;
+      weight = Math.min(1, Math.max(0, signal * 2));
+
+      sum += signal * amplitude;
+      norm += amplitude;
+      amplitude *= gain;
+      freq *= lacunarity;
+    }
+
+    // Map [0, 1] ridges to [-1, 1] before scaling
+    const ridged = norm > 0 ? sum / norm : 0;
+    return (ridged * 2 - 1) * heightScale;
+  }
+}
+
+/**
+ * Domain warping: offsets sample coordinates of a base generator by a
+ * second fBm field for swirled, eroded-looking features
+ */
+export class DomainWarpGenerator implements TerrainGenerator {
+  readonly type = 'warped' as const;
+  private base: TerrainGenerator;
+  private warpX: FbmGenerator;
+  private warpZ: FbmGenerator;
+  private strength: number;
+
+  constructor(
+    base: TerrainGenerator,
+    warpSettings: FractalSettings,
+    strength: number,
+    config: TerrainConfig = TERRAIN
+  ) {
+    this.base = base;
+    this.strength = strength;
+    this.warpX = new FbmGenerator(warpSettings, config);
+    this.warpZ = new FbmGenerator({ ...warpSettings, seed: warpSettings.seed + 1 }, config);
+  }
+
+  sample(worldX: number, worldZ: number): number {
+    const dx = this.warpX.fbm(worldX, worldZ) * this.strength;
+    const dz = this.warpZ.fbm(worldX, worldZ) * this.strength;
+    return this.base.sample(worldX + dx, worldZ + dz);
+  }
+}
+
+/**
+ * Build the generator selected in TerrainConfig
+ */
+export function createTerrainGenerator(config: TerrainConfig = TERRAIN): TerrainGenerator {
+  const settings: FractalSettings = {
+    seed: config.SEED,
+    heightScale: config.HEIGHT_SCALE,
+    frequency: config.NOISE_FREQUENCY,
+    octaves: Math.max(1, Math.floor(config.NOISE_OCTAVES)),
+    lacunarity: config.NOISE_LACUNARITY,
+    gain: config.NOISE_GAIN
+  };
+
+  switch (config.GENERATOR) {
+    case 'fbm':
+      return new FbmGenerator(settings, config);
+    case 'ridged':
+      return new RidgedGenerator(settings, config);
+    case 'warped':
+      return new DomainWarpGenerator(
+        new FbmGenerator(settings, config),
+        { ...settings, seed: settings.seed + 101, frequency: config.WARP_FREQUENCY, octaves: 3 },
+        config.WARP_STRENGTH,
+        config
+      );
+    case 'sine':
+    default:
+      return new SineGenerator(config);
+  }
+}
+
+export default createTerrainGenerator;
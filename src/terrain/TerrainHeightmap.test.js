@@ -17,4 +17,43 @@ describe('terrain/TerrainHeightmap', () => {
     expect(normal.y).toBeCloseTo(1, 5)
     expect(normal.z).toBeCloseTo(0, 5)
   })
+
+  it('uses one-sided differences for normals at the grid edge', () => {
+    const heightmap = new TerrainHeightmap(10, 4)
+    // Uniform 0.5 rise per unit along x
+    heightmap.setHeights(Float32Array.from(heightmap.heights, (_, i) => (i % 5) * 1.25))
+
+    const interior = heightmap.getNormal(0, 0)
+    for (const [x, z] of [[-5, 0], [5, 0], [0, -5], [5, 5]]) {
+      const edge = heightmap.getNormal(x, z)
+      expect(edge.x).toBeCloseTo(interior.x, 5)
+      expect(edge.y).toBeCloseTo(interior.y, 5)
+      expect(edge.z).toBeCloseTo(interior.z, 5)
+    }
+  })
+
+  it('splats rock onto steep slopes and the default material elsewhere', () => {
+    const heightmap = new TerrainHeightmap(10, 4)
+    expect(heightmap.getMaterial(0, 0)).toBe('grass')
+    expect(heightmap.getMaterial(100, 100)).toBe('grass')
+
+    // 45° ramp along x
+    heightmap.setHeights(Float32Array.from(heightmap.heights, (_, i) => (i % 5) * 2.5))
+    expect(heightmap.getMaterial(0, 0)).toBe('rock')
+    const weights = heightmap.getMaterialWeights(0, 0)
+    expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1)
+  })
+
+  it('raycasts onto the height surface and misses outside the grid', () => {
+    const heightmap = new TerrainHeightmap(10, 4)
+    heightmap.heights.fill(2)
+
+    const hit = heightmap.raycast({ x: 1, y: 10, z: 1 }, { x: 0, y: -1, z: 0 }, 50)
+    expect(hit.x).toBeCloseTo(1)
+    expect(hit.y).toBeCloseTo(2, 3)
+    expect(hit.z).toBeCloseTo(1)
+
+    expect(heightmap.raycast({ x: 0, y: 10, z: 0 }, { x: 1, y: 0, z: 0 }, 50)).toBeNull()
+    expect(heightmap.raycast({ x: 20, y: 10, z: 0 }, { x: 0, y: -1, z: 0 }, 50)).toBeNull()
+  })
 })
@@ -1,47 +1,113 @@
-import { TERRAIN } from '../config/index.js';
-import type { Vector3Like } from '../types/index.js';
+import { TERRAIN, TERRAIN_MATERIAL_IDS } from '../config/index.js';
+import { createTerrainGenerator, type TerrainGenerator } from './TerrainGenerators.js';
+import type { TerrainHeightSource, TerrainMaterialId, Vector3Like } from '../types/index.js';
+
+const MATERIAL_COUNT = TERRAIN_MATERIAL_IDS.length;
 
 /**
  * Generates and stores terrain heightmap data
  * Pure data class - no Three.js dependency
+ * The grid is centered on (originX, originZ) so streaming chunks can tile the world.
+ * A splat layer stores per-vertex material weights in TERRAIN_MATERIAL_IDS order.
+ * Normals near the edge read past it through `borderSource` (the streamed
+ * world for chunks), or fall back to one-sided differences without one.
  */
-export class TerrainHeightmap {
+export class TerrainHeightmap implements TerrainHeightSource {
   size: number;
   segments: number;
   heights: Float32Array;
+  splat: Float32Array;
+  generator: TerrainGenerator;
+  originX: number;
+  originZ: number;
+  borderSource: Pick<TerrainHeightSource, 'getHeight'> | null;
 
-  constructor(size: number = TERRAIN.SIZE, segments: number = TERRAIN.SEGMENTS) {
+  constructor(
+    size: number = TERRAIN.SIZE,
+    segments: number = TERRAIN.SEGMENTS,
+    generator: TerrainGenerator = createTerrainGenerator(),
+    originX: number = 0,
+    originZ: number = 0,
+    borderSource: Pick<TerrainHeightSource, 'getHeight'> | null = null
+  ) {
     this.size = size;
     this.segments = segments;
     this.heights = new Float32Array((segments + 1) * (segments + 1));
+    this.splat = new Float32Array(this.heights.length * MATERIAL_COUNT);
+    this.generator = generator;
+    this.originX = originX;
+    this.originZ = originZ;
+    this.borderSource = borderSource;
 
     this.generate();
   }
 
   /**
-   * Generate heightmap using sine waves
-   * Can be overridden for different terrain types
+   * Fill the heightmap by sampling the generator at each grid vertex
    */
   generate(): void {
-    const { size, segments, heights } = this;
-    const scale = TERRAIN.HEIGHT_SCALE;
+    const { size, segments, heights, generator } = this;
 
     for (let z = 0; z <= segments; z++) {
       for (let x = 0; x <= segments; x++) {
-        const worldX = (x / segments - 0.5) * size;
-        const worldZ = (z / segments - 0.5) * size;
+        const worldX = this.originX + (x / segments - 0.5) * size;
+        const worldZ = this.originZ + (z / segments - 0.5) * size;
+
+        heights[z * (segments + 1) + x] = generator.sample(worldX, worldZ);
+      }
+    }
+
+    this.generateSplat();
+  }
+
+  /**
+   * Assign materials from slope: rock on steep ground, the default material elsewhere
+   */
+  generateSplat(): void {
+    const { size, segments, splat } = this;
+    const defaultChannel = TERRAIN_MATERIAL_IDS.indexOf(TERRAIN.DEFAULT_MATERIAL);
+    const rockChannel = TERRAIN_MATERIAL_IDS.indexOf('rock');
+    const halfRange = TERRAIN.SPLAT_BLEND_RANGE / 2;
 
-        // Multi-octave sine wave terrain
-        const height =
-          Math.sin(worldX * TERRAIN.NOISE_SCALE_1) * Math.cos(worldZ * TERRAIN.NOISE_SCALE_1) * scale +
-          Math.sin(worldX * TERRAIN.NOISE_SCALE_2 + 1) * Math.cos(worldZ * TERRAIN.NOISE_SCALE_2 * 0.8) * (scale * 0.5) +
-          Math.sin(worldX * TERRAIN.NOISE_SCALE_3) * Math.sin(worldZ * TERRAIN.NOISE_SCALE_3) * scale;
+    splat.fill(0);
+    for (let z = 0; z <= segments; z++) {
+      for (let x = 0; x <= segments; x++) {
+        const worldX = this.originX + (x / segments - 0.5) * size;
+        const worldZ = this.originZ + (z / segments - 0.5) * size;
+        const slope = Math.acos(Math.min(1, this.getNormal(worldX, worldZ).y)) * (180 / Math.PI);
+        const rock = halfRange > 0
+          ? Math.min(1, Math.max(0, (slope - TERRAIN.SPLAT_ROCK_SLOPE + halfRange) / (2 * halfRange)))
+          : Number(slope >= TERRAIN.SPLAT_ROCK_SLOPE);
 
-        heights[z * (segments + 1) + x] = height;
+        const base = (z * (segments + 1) + x) * MATERIAL_COUNT;
+        splat[base + defaultChannel] = (splat[base + defaultChannel] ?? 0) + 1 - rock;
+        splat[base + rockChannel] = (splat[base + rockChannel] ?? 0) + rock;
       }
     }
   }
 
+  /**
+   * Swap the height source and regenerate
+   */
+  setGenerator(generator: TerrainGenerator): void {
+    this.generator = generator;
+    this.generate();
+  }
+
+  /**
+   * Replace heights with externally sourced data (e.g. an imported heightmap)
+   * Length must match the current (segments + 1)² grid.
+   */
+  setHeights(heights: Float32Array, size: number = this.size): void {
+    const expected = (this.segments + 1) * (this.segments + 1);
+    if (heights.length !== expected) {
+      throw new Error(`Heightmap expects ${expected} samples, got ${heights.length}`);
+    }
+    this.size = size;
+    this.heights.set(heights);
+    this.generateSplat();
+  }
+
   /**
    * Get height at world position using bilinear interpolation
    */
@@ -49,8 +115,8 @@ export class TerrainHeightmap {
     const { size, segments, heights } = this;
 
     // Convert world coords to normalized [0, 1]
-    const u = (worldX + size / 2) / size;
-    const v = (worldZ + size / 2) / size;
+    const u = (worldX - this.originX + size / 2) / size;
+    const v = (worldZ - this.originZ + size / 2) / size;
 
     // Out of bounds check
     if (u < 0 || u > 1 || v < 0 || v > 1) return 0;
@@ -81,19 +147,133 @@ export class TerrainHeightmap {
     return h0 * (1 - fz) + h1 * fz;
   }
 
+  /**
+   * Bilinearly interpolated material weights at world position
+   */
+  getMaterialWeights(worldX: number, worldZ: number, out: Float32Array = new Float32Array(MATERIAL_COUNT)): Float32Array {
+    const { size, segments, splat } = this;
+    out.fill(0);
+
+    const u = (worldX - this.originX + size / 2) / size;
+    const v = (worldZ - this.originZ + size / 2) / size;
+    if (u < 0 || u > 1 || v < 0 || v > 1) {
+      out[TERRAIN_MATERIAL_IDS.indexOf(TERRAIN.DEFAULT_MATERIAL)] = 1;
+      return out;
+    }
+
+    const gridX = u * segments;
+    const gridZ = v * segments;
+    const x0 = Math.floor(gridX);
+    const z0 = Math.floor(gridZ);
+    const x1 = Math.min(x0 + 1, segments);
+    const z1 = Math.min(z0 + 1, segments);
+    const fx = gridX - x0;
+    const fz = gridZ - z0;
+
+    const corners: Array<[number, number, number]> = [
+      [x0, z0, (1 - fx) * (1 - fz)],
+      [x1, z0, fx * (1 - fz)],
+      [x0, z1, (1 - fx) * fz],
+      [x1, z1, fx * fz]
+    ];
+    for (const [x, z, weight] of corners) {
+      const base = (z * (segments + 1) + x) * MATERIAL_COUNT;
+      for (let channel = 0; channel < MATERIAL_COUNT; channel++) {
+        out[channel] = (out[channel] ?? 0) + (splat[base + channel] ?? 0) * weight;
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * Dominant material at world position
+   */
+  getMaterial(worldX: number, worldZ: number): TerrainMaterialId {
+    const weights = this.getMaterialWeights(worldX, worldZ);
+    let best = 0;
+    for (let channel = 1; channel < MATERIAL_COUNT; channel++) {
+      if ((weights[channel] ?? 0) > (weights[best] ?? 0)) best = channel;
+    }
+    return TERRAIN_MATERIAL_IDS[best] ?? TERRAIN.DEFAULT_MATERIAL;
+  }
+
+  /**
+   * Intersect a ray with the height surface (march then bisect)
+   * Returns null when the ray leaves the heightmap without hitting it.
+   */
+  raycast(origin: Vector3Like, direction: Vector3Like, maxDistance: number): Vector3Like | null {
+    const length = Math.hypot(direction.x, direction.y, direction.z);
+    if (length === 0 || maxDistance <= 0) return null;
+
+    const dir = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
+    const pointAt = (t: number): Vector3Like => ({
+      x: origin.x + dir.x * t,
+      y: origin.y + dir.y * t,
+      z: origin.z + dir.z * t
+    });
+    const above = (t: number): number => {
+      const point = pointAt(t);
+      return point.y - this.getHeight(point.x, point.z);
+    };
+
+    const step = (this.size / this.segments) * 0.5;
+    let previous = 0;
+    if (above(previous) < 0) return null;
+
+    for (let t = step; t <= maxDistance + step; t += step) {
+      const current = Math.min(t, maxDistance);
+      if (above(current) <= 0) {
+        let low = previous;
+        let high = current;
+        for (let i = 0; i < 16; i++) {
+          const mid = (low + high) / 2;
+          if (above(mid) > 0) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        const hit = pointAt(high);
+        return this.contains(hit.x, hit.z) ? hit : null;
+      }
+      previous = current;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if a world position lies on the grid
+   */
+  contains(worldX: number, worldZ: number): boolean {
+    const halfSize = this.size / 2;
+    return Math.abs(worldX - this.originX) <= halfSize && Math.abs(worldZ - this.originZ) <= halfSize;
+  }
+
   /**
    * Get surface normal at world position using finite difference
+   * Samples past the edge come from `borderSource`; without one the
+   * difference turns one-sided so edge vertices don't slope toward 0.
    */
   getNormal(worldX: number, worldZ: number): Vector3Like {
     const delta = 0.5;
-    const hLeft = this.getHeight(worldX - delta, worldZ);
-    const hRight = this.getHeight(worldX + delta, worldZ);
-    const hBack = this.getHeight(worldX, worldZ - delta);
-    const hFront = this.getHeight(worldX, worldZ + delta);
+    const center = this.getHeight(worldX, worldZ);
+    const sample = (x: number, z: number): number | null => {
+      if (this.contains(x, z)) return this.getHeight(x, z);
+      return this.borderSource ? this.borderSource.getHeight(x, z) : null;
+    };
+    // Height drop per unit along +offset (centered where both sides exist)
+    const drop = (dx: number, dz: number): number => {
+      const behind = sample(worldX - dx, worldZ - dz);
+      const ahead = sample(worldX + dx, worldZ + dz);
+      const span = (behind === null ? 0 : delta) + (ahead === null ? 0 : delta);
+      return span > 0 ? ((behind ?? center) - (ahead ?? center)) / span : 0;
+    };
 
     // Cross product of tangent vectors
-    const nx = (hLeft - hRight) / (2 * delta);
-    const nz = (hBack - hFront) / (2 * delta);
+    const nx = drop(delta, 0);
+    const nz = drop(0, delta);
     const ny = 1;
 
     // Normalize
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import { TERRAIN } from '../config/index.js'
+import { createTerrainGenerator } from './TerrainGenerators.js'
+import { TerrainHeightmap } from './TerrainHeightmap.js'
+import { TerrainLOD, mergeLODStats } from './TerrainLOD.js'
+
+const createHeightmap = () =>
+  new TerrainHeightmap(64, 64, createTerrainGenerator({ ...TERRAIN, GENERATOR: 'fbm', HEIGHT_SCALE: 4 }))
+
+const createLOD = (heightmap = createHeightmap()) =>
+  new TerrainLOD(heightmap, new THREE.MeshBasicMaterial(), { tileResolution: 8, splitDistance: 1.5, skirtDepth: 0.5 })
+
+describe('terrain/TerrainLOD', () => {
+  it('derives the deepest level from the source grid resolution', () => {
+    expect(createLOD().maxLevel).toBe(3)
+  })
+
+  it('refines tiles near the camera and keeps far tiles coarse', () => {
+    const lod = createLOD()
+    lod.update({ x: -30, y: 5, z: -30 })
+
+    const stats = lod.getStats()
+    const levels = stats.levels.map((level) => level.level)
+    expect(Math.max(...levels)).toBe(3)
+    expect(Math.min(...levels)).toBeLessThan(3)
+
+    // Full-resolution tiles only exist near the camera corner
+    const fine = lod.activeNodes.filter((node) => node.level === 3)
+    expect(fine.every((node) => node.u0 < 0.5 && node.v0 < 0.5)).toBe(true)
+  })
+
+  it('keeps tile normals true to the slope out to the grid edge', () => {
+    const heightmap = new TerrainHeightmap(64, 64)
+    // Uniform 0.5 rise per unit along x
+    heightmap.setHeights(Float32Array.from(heightmap.heights, (_, i) => (i % 65) * 0.5))
+    const lod = createLOD(heightmap)
+    lod.update({ x: 0, y: 200, z: 0 })
+
+    const expected = heightmap.getNormal(0, 0)
+    const normals = [...lod.tiles.values()][0].geometry.attributes.normal
+    for (let i = 0; i < normals.count; i++) {
+      expect(normals.getX(i)).toBeCloseTo(expected.x, 5)
+      expect(normals.getY(i)).toBeCloseTo(expected.y, 5)
+    }
+  })
+
+  it('uses fewer triangles than the full-resolution mesh when the camera is far', () => {
+    const lod = createLOD()
+    lod.update({ x: 0, y: 200, z: 0 })
+
+    const stats = lod.getStats()
+    expect(stats.levels).toEqual([{ level: 0, tiles: 1, triangles: 8 * 8 * 2 + 8 * 4 * 2 }])
+    expect(stats.totalTriangles).toBeLessThan(64 * 64 * 2)
+  })
+
+  it('hangs skirts below tile borders', () => {
+    const heightmap = createHeightmap()
+    const lod = createLOD(heightmap)
+    lod.update({ x: 0, y: 200, z: 0 })
+
+    const positions = lod.tiles.get('0:0:0').geometry.attributes.position
+    const gridVertices = 9 * 9
+    expect(positions.count).toBe(gridVertices + 8 * 4)
+    // First skirt vertex sits below the first border vertex
+    expect(positions.getX(gridVertices)).toBe(positions.getX(0))
+    expect(positions.getY(gridVertices)).toBeLessThan(positions.getY(0))
+  })
+
+  it('matches heightmap heights at tile vertices so neighbouring tiles meet', () => {
+    const heightmap = createHeightmap()
+    const lod = createLOD(heightmap)
+    lod.update({ x: -30, y: 5, z: -30 })
+
+    for (const mesh of lod.tiles.values()) {
+      const positions = mesh.geometry.attributes.position
+      for (let i = 0; i < 9 * 9; i += 7) {
+        const expected = heightmap.getHeight(positions.getX(i), positions.getZ(i))
+        expect(positions.getY(i)).toBeCloseTo(expected, 4)
+      }
+    }
+  })
+
+  it('hides tiles that leave the selection and rebuilds after invalidate', () => {
+    const lod = createLOD()
+    lod.update({ x: -30, y: 5, z: -30 })
+    const tileCount = lod.tiles.size
+
+    lod.update({ x: 0, y: 200, z: 0 })
+    const visible = [...lod.tiles.values()].filter((mesh) => mesh.visible)
+    expect(visible).toHaveLength(1)
+    expect(lod.tiles.size).toBe(tileCount + 1)
+
+    lod.invalidate()
+    expect(lod.tiles.size).toBe(1)
+  })
+
+  it('merges stats by level', () => {
+    const merged = mergeLODStats([
+      { levels: [{ level: 0, tiles: 1, triangles: 10 }], totalTriangles: 10 },
+      { levels: [{ level: 0, tiles: 2, triangles: 20 }, { level: 1, tiles: 1, triangles: 5 }], totalTriangles: 25 }
+    ])
+    expect(merged).toEqual({
+      levels: [{ level: 0, tiles: 3, triangles: 30 }, { level: 1, tiles: 1, triangles: 5 }],
+      totalTriangles: 35
+    })
+  })
+})
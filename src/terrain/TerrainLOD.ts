@@ -0,0 +1,316 @@
+import * as THREE from 'three';
+import { TERRAIN } from '../config/index.js';
+import type { TerrainHeightmap } from './TerrainHeightmap.js';
+import type { Vector3Like } from '../types/index.js';
+
+export interface TerrainLODOptions {
+  tileResolution?: number;
+  splitDistance?: number;
+  skirtDepth?: number;
+}
+
+export interface TerrainLODLevelStats {
+  level: number;
+  tiles: number;
+  triangles: number;
+}
+
+export interface TerrainLODStats {
+  levels: TerrainLODLevelStats[];
+  totalTriangles: number;
+}
+
+interface LODNode {
+  key: string;
+  level: number;
+  // Normalized [0, 1] heightmap coordinates of the node's min corner
+  u0: number;
+  v0: number;
+  extent: number;
+}
+
+/**
+ * Combine stats from several LOD trees (e.g. streamed chunks) by level
+ */
+export function mergeLODStats(stats: TerrainLODStats[]): TerrainLODStats {
+  const byLevel = new Map<number, TerrainLODLevelStats>();
+  let totalTriangles = 0;
+
+  for (const entry of stats) {
+    totalTriangles += entry.totalTriangles;
+    for (const level of entry.levels) {
+      const merged = byLevel.get(level.level) ?? { level: level.level, tiles: 0, triangles: 0 };
+      merged.tiles += level.tiles;
+      merged.triangles += level.triangles;
+      byLevel.set(level.level, merged);
+    }
+  }
+
+  return {
+    levels: [...byLevel.values()].sort((a, b) => a.level - b.level),
+    totalTriangles
+  };
+}
+
+/**
+ * Quadtree level-of-detail renderer for a TerrainHeightmap
+ * Every tile has the same vertex resolution, so deeper (smaller) tiles are
+ * denser. Tiles are split near the camera; skirts hang below each tile's
+ * border to hide T-junction cracks between neighbouring levels. Visual only -
+ * physics keeps using the full-resolution heightmap.
+ */
+export class TerrainLOD {
+  heightmap: TerrainHeightmap;
+  material: THREE.Material;
+  group: THREE.Group;
+
+  // Settings
+  tileResolution: number;
+  splitDistance: number;
+  skirtDepth: number;
+  maxLevel: number;
+
+  // Tile cache by node key; active keys are the currently selected leaves
+  tiles: Map<string, THREE.Mesh>;
+  activeNodes: LODNode[];
+  lastCameraPosition: Vector3Like | null;
+
+  constructor(heightmap: TerrainHeightmap, material: THREE.Material, options: TerrainLODOptions = {}) {
+    this.heightmap = heightmap;
+    this.material = material;
+    this.group = new THREE.Group();
+    this.group.name = 'TerrainLOD';
+
+    // Settings
+    this.tileResolution = Math.max(2, Math.floor(options.tileResolution ?? TERRAIN.LOD_TILE_RESOLUTION));
+    this.splitDistance = options.splitDistance ?? TERRAIN.LOD_SPLIT_DISTANCE;
+    this.skirtDepth = options.skirtDepth ?? TERRAIN.LOD_SKIRT_DEPTH;
+    // Deepest level whose tile spacing reaches the source grid spacing
+    this.maxLevel = Math.max(0, Math.ceil(Math.log2(heightmap.segments / this.tileResolution)));
+
+    // Tile cache
+    this.tiles = new Map();
+    this.activeNodes = [];
+    this.lastCameraPosition = null;
+  }
+
+  /**
+   * Select tiles for the camera position and show only those
+   */
+  update(cameraPosition: Vector3Like): void {
+    this.lastCameraPosition = { x: cameraPosition.x, y: cameraPosition.y, z: cameraPosition.z };
+
+    const selected: LODNode[] = [];
+    this.selectNodes({ key: '0:0:0', level: 0, u0: 0, v0: 0, extent: 1 }, cameraPosition, selected);
+    this.activeNodes = selected;
+
+    const activeKeys = new Set(selected.map((node) => node.key));
+    for (const [key, mesh] of this.tiles) {
+      mesh.visible = activeKeys.has(key);
+    }
+    for (const node of selected) {
+      if (!this.tiles.has(node.key)) {
+        const mesh = new THREE.Mesh(this.buildTileGeometry(node), this.material);
+        mesh.receiveShadow = true;
+        mesh.name = `TerrainTile ${node.key}`;
+        mesh.userData.node = node;
+        this.tiles.set(node.key, mesh);
+        this.group.add(mesh);
+      }
+    }
+  }
+
+  /**
+   * Drop cached tiles after the heightmap changes and reselect
+   */
+  invalidate(): void {
+    this.disposeTiles();
+    if (this.lastCameraPosition) {
+      this.update(this.lastCameraPosition);
+    }
+  }
+
+  /**
+   * Drop cached tiles overlapping a normalized [0, 1] heightmap rectangle
+   */
+  invalidateArea(u0: number, v0: number, u1: number, v1: number): void {
+    let removed = 0;
+    for (const [key, mesh] of [...this.tiles]) {
+      const node = mesh.userData.node as LODNode;
+      if (node.u0 > u1 || node.u0 + node.extent < u0 || node.v0 > v1 || node.v0 + node.extent < v0) {
+        continue;
+      }
+      this.group.remove(mesh);
+      mesh.geometry.dispose();
+      this.tiles.delete(key);
+      removed++;
+    }
+
+    if (removed > 0 && this.lastCameraPosition) {
+      this.update(this.lastCameraPosition);
+    }
+  }
+
+  /**
+   * Tile and triangle counts for the active selection, per level
+   */
+  getStats(): TerrainLODStats {
+    const levels: TerrainLODLevelStats[] = [];
+    let totalTriangles = 0;
+
+    for (const node of this.activeNodes) {
+      const geometry = this.tiles.get(node.key)?.geometry;
+      const triangles = geometry?.index ? geometry.index.count / 3 : 0;
+      let entry = levels.find((level) => level.level === node.level);
+      if (!entry) {
+        entry = { level: node.level, tiles: 0, triangles: 0 };
+        levels.push(entry);
+      }
+      entry.tiles += 1;
+      entry.triangles += triangles;
+      totalTriangles += triangles;
+    }
+
+    levels.sort((a, b) => a.level - b.level);
+    return { levels, totalTriangles };
+  }
+
+  /**
+   * Release tile geometries (the material belongs to TerrainMesh)
+   */
+  dispose(): void {
+    this.disposeTiles();
+    this.activeNodes = [];
+  }
+
+  private disposeTiles(): void {
+    for (const mesh of this.tiles.values()) {
+      this.group.remove(mesh);
+      mesh.geometry.dispose();
+    }
+    this.tiles.clear();
+  }
+
+  private selectNodes(node: LODNode, camera: Vector3Like, selected: LODNode[]): void {
+    const { size, originX, originZ } = this.heightmap;
+    const nodeSize = node.extent * size;
+    const centerX = originX + (node.u0 + node.extent / 2 - 0.5) * size;
+    const centerZ = originZ + (node.v0 + node.extent / 2 - 0.5) * size;
+    const centerY = this.heightmap.getHeight(centerX, centerZ);
+    const distance = Math.hypot(camera.x - centerX, camera.y - centerY, camera.z - centerZ);
+
+    if (node.level >= this.maxLevel || distance > nodeSize * this.splitDistance) {
+      selected.push(node);
+      return;
+    }
+
+    const half = node.extent / 2;
+    const level = node.level + 1;
+    for (const [du, dv] of [[0, 0], [1, 0], [0, 1], [1, 1]] as const) {
+      const u0 = node.u0 + du * half;
+      const v0 = node.v0 + dv * half;
+      this.selectNodes({ key: `${level}:${u0}:${v0}`, level, u0, v0, extent: half }, camera, selected);
+    }
+  }
+
+  /**
+   * Build a tile grid in world XZ plus a downward skirt around its border
+   */
+  private buildTileGeometry(node: LODNode): THREE.BufferGeometry {
+    const { size, originX, originZ } = this.heightmap;
+    const resolution = this.tileResolution;
+    const gridSize = resolution + 1;
+    const gridVertices = gridSize * gridSize;
+    const borderLength = resolution * 4;
+    const vertexCount = gridVertices + borderLength;
+
+    const positions = new Float32Array(vertexCount * 3);
+    const normals = new Float32Array(vertexCount * 3);
+    const cellSize = (node.extent * size) / resolution;
+    const skirt = Math.max(this.skirtDepth, cellSize);
+
+    const writeVertex = (index: number, worldX: number, y: number, worldZ: number, normal: Vector3Like): void => {
+      positions[index * 3] = worldX;
+      positions[index * 3 + 1] = y;
+      positions[index * 3 + 2] = worldZ;
+      normals[index * 3] = normal.x;
+      normals[index * 3 + 1] = normal.y;
+      normals[index * 3 + 2] = normal.z;
+    };
+
+    // Surface grid (border-aware heightmap normals, so shading matches across tiles and chunks)
+    for (let z = 0; z < gridSize; z++) {
+      for (let x = 0; x < gridSize; x++) {
+        const worldX = originX + (node.u0 + (x / resolution) * node.extent - 0.5) * size;
+        const worldZ = originZ + (node.v0 + (z / resolution) * node.extent - 0.5) * size;
+        writeVertex(
+          z * gridSize + x,
+          worldX,
+          this.heightmap.getHeight(worldX, worldZ),
+          worldZ,
+          this.heightmap.getNormal(worldX, worldZ)
+        );
+      }
+    }
+
+    // Border loop ordered so the outward side is on the left (north +x, east +z, south -x, west -z)
+    const border: number[] = [];
+    for (let x = 0; x < resolution; x++) border.push(x);
+    for (let z = 0; z < resolution; z++) border.push(z * gridSize + resolution);
+    for (let x = resolution; x > 0; x--) border.push(resolution * gridSize + x);
+    for (let z = resolution; z > 0; z--) border.push(z * gridSize);
+
+    border.forEach((top, i) => {
+      const skirtIndex = gridVertices + i;
+      positions[skirtIndex * 3] = positions[top * 3] ?? 0;
+      positions[skirtIndex * 3 + 1] = (positions[top * 3 + 1] ?? 0) - skirt;
+      positions[skirtIndex * 3 + 2] = positions[top * 3 + 2] ?? 0;
+      normals[skirtIndex * 3] = normals[top * 3] ?? 0;
+      normals[skirtIndex * 3 + 1] = normals[top * 3 + 1] ?? 1;
+      normals[skirtIndex * 3 + 2] = normals[top * 3 + 2] ?? 0;
+    });
+
+    const indices = new Uint32Array((resolution * resolution + borderLength) * 6);
+    let writeIndex = 0;
+
+    for (let z = 0; z < resolution; z++) {
+      for (let x = 0; x < resolution; x++) {
+        const a = z * gridSize + x;
+        const b = a + 1;
+        const c = a + gridSize;
+        const d = c + 1;
+
+        indices[writeIndex++] = a;
+        indices[writeIndex++] = c;
+        indices[writeIndex++] = b;
+        indices[writeIndex++] = b;
+        indices[writeIndex++] = c;
+        indices[writeIndex++] = d;
+      }
+    }
+
+    for (let i = 0; i < borderLength; i++) {
+      const t0 = border[i] ?? 0;
+      const t1 = border[(i + 1) % borderLength] ?? 0;
+      const s0 = gridVertices + i;
+      const s1 = gridVertices + ((i + 1) % borderLength);
+
+      indices[writeIndex++] = t0;
+      indices[writeIndex++] = t1;
+      indices[writeIndex++] = s0;
+      indices[writeIndex++] = t1;
+      indices[writeIndex++] = s1;
+      indices[writeIndex++] = s0;
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+    geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+    geometry.computeBoundingSphere();
+
+    return geometry;
+  }
+}
+
+export default TerrainLOD;
@@ -0,0 +1,146 @@
+import * as THREE from 'three';
+import { add, color, div, max, positionWorld, texture, uniform } from 'three/tsl';
+import { TERRAIN, TERRAIN_MATERIAL_IDS, TERRAIN_MATERIALS } from '../config/index.js';
+import type { TerrainHeightmap } from './TerrainHeightmap.js';
+import type { HeightmapRegion } from './TerrainSculptor.js';
+
+const MATERIAL_COUNT = TERRAIN_MATERIAL_IDS.length;
+
+// Splat weights are packed four channels per RGBA texture
+const SPLAT_TEXTURE_COUNT = Math.ceil(MATERIAL_COUNT / 4);
+const CHANNELS = ['r', 'g', 'b', 'a'] as const;
+
+// Material colors in linear space, in splat channel order
+const MATERIAL_COLORS = TERRAIN_MATERIAL_IDS.map((id) => new THREE.Color(TERRAIN_MATERIALS[id].COLOR));
+
+type NodeOperand = Parameters<typeof add>[0];
+
+const sumNodes = (operands: NodeOperand[]): NodeOperand =>
+  operands.reduce<NodeOperand>((total, operand) => add(total, operand), 0);
+
+/**
+ * Heightmap splat weights uploaded as textures for per-pixel blending
+ * Texel centers sit on heightmap vertices; `transform` maps world XZ to
+ * texture UV (xy scale, zw offset) and is refreshed with the texels.
+ */
+export class TerrainSplatMaps {
+  heightmap: TerrainHeightmap;
+  textures: THREE.DataTexture[];
+  transform: THREE.Vector4;
+
+  constructor(heightmap: TerrainHeightmap) {
+    this.heightmap = heightmap;
+    this.transform = new THREE.Vector4();
+
+    const gridSize = heightmap.segments + 1;
+    this.textures = [];
+    for (let i = 0; i < SPLAT_TEXTURE_COUNT; i++) {
+      const data = new Uint8Array(gridSize * gridSize * 4);
+      const map = new THREE.DataTexture(data, gridSize, gridSize, THREE.RGBAFormat);
+      map.magFilter = THREE.LinearFilter;
+      map.minFilter = THREE.LinearFilter;
+      map.wrapS = THREE.ClampToEdgeWrapping;
+      map.wrapT = THREE.ClampToEdgeWrapping;
+      this.textures.push(map);
+    }
+
+    this.update();
+  }
+
+  /**
+   * Rewrite texels from the heightmap splat (the whole map, or one grid region)
+   */
+  update(region?: HeightmapRegion): void {
+    const { size, segments, splat, originX, originZ } = this.heightmap;
+    const gridSize = segments + 1;
+    const minX = region ? Math.max(0, region.minX) : 0;
+    const minZ = region ? Math.max(0, region.minZ) : 0;
+    const maxX = region ? Math.min(segments, region.maxX) : segments;
+    const maxZ = region ? Math.min(segments, region.maxZ) : segments;
+
+    for (let z = minZ; z <= maxZ; z++) {
+      for (let x = minX; x <= maxX; x++) {
+        const index = z * gridSize + x;
+        for (let channel = 0; channel < MATERIAL_COUNT; channel++) {
+          const data = this.textures[channel >> 2]?.image.data as Uint8Array;
+          const weight = splat[index * MATERIAL_COUNT + channel] ?? 0;
+          data[index * 4 + (channel & 3)] = Math.round(Math.min(Math.max(weight, 0), 1) * 255);
+        }
+      }
+    }
+    for (const map of this.textures) map.needsUpdate = true;
+
+    // World -> normalized grid position -> texel-centered UV
+    const scale = segments / (gridSize * size);
+    this.transform.set(
+      scale,
+      scale,
+      ((0.5 - originX / size) * segments + 0.5) / gridSize,
+      ((0.5 - originZ / size) * segments + 0.5) / gridSize
+    );
+  }
+}
+
+/**
+ * Standard material that blends the surface material colors per pixel from
+ * the splat maps. The WebGL path patches the built-in shader; the WebGPU
+ * renderer converts standard materials to node materials (copying their
+ * properties), where the colorNode does the same blend.
+ */
+export function createTerrainMaterial(splatMaps: TerrainSplatMaps): THREE.MeshStandardMaterial {
+  const material = new THREE.MeshStandardMaterial({ roughness: TERRAIN.ROUGHNESS });
+
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.splatTransform = { value: splatMaps.transform };
+    splatMaps.textures.forEach((map, i) => {
+      shader.uniforms[`splatMap${i}`] = { value: map };
+    });
+    shader.uniforms.splatColors = { value: MATERIAL_COLORS };
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nuniform vec4 splatTransform;\nvarying vec2 vSplatUv;')
+      .replace(
+        '#include <project_vertex>',
+        '#include <project_vertex>\nvSplatUv = ( modelMatrix * vec4( transformed, 1.0 ) ).xz * splatTransform.xy + splatTransform.zw;'
+      );
+
+    const samplers = splatMaps.textures.map((_, i) => `uniform sampler2D splatMap${i};`).join('\n');
+    const samples = splatMaps.textures
+      .map((_, i) => `vec4 splat${i} = texture2D( splatMap${i}, vSplatUv );`)
+      .join('\n');
+    const terms = TERRAIN_MATERIAL_IDS.map((_, channel) => `splat${channel >> 2}.${CHANNELS[channel & 3]}`);
+    const blend = terms.map((weight, channel) => `${weight} * splatColors[ ${channel} ]`).join(' + ');
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        '#include <common>',
+        `#include <common>\n${samplers}\nuniform vec3 splatColors[ ${MATERIAL_COUNT} ];\nvarying vec2 vSplatUv;`
+      )
+      .replace(
+        '#include <color_fragment>',
+        [
+          '#include <color_fragment>',
+          samples,
+          `float splatTotal = max( ${terms.join(' + ')}, 1e-4 );`,
+          `diffuseColor.rgb *= ( ${blend} ) / splatTotal;`
+        ].join('\n')
+      );
+  };
+  material.customProgramCacheKey = () => 'terrain-splat';
+
+  // WebGPU: same blend as a node graph
+  const transform = uniform(splatMaps.transform);
+  const splatUv = positionWorld.xz.mul(transform.xy).add(transform.zw);
+  const weights = splatMaps.textures
+    .flatMap((map) => {
+      const layer = texture(map, splatUv);
+      return CHANNELS.map((name) => layer[name]);
+    })
+    .slice(0, MATERIAL_COUNT);
+  const blend = sumNodes(MATERIAL_COLORS.map((tint, channel) => color(tint).mul(weights[channel] ?? 0)));
+  Object.assign(material, { colorNode: div(blend, max(sumNodes(weights), 1e-4)) });
+
+  return material;
+}
+
+export default createTerrainMaterial;
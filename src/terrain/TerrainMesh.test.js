@@ -33,4 +33,79 @@ describe('terrain/TerrainMesh', () => {
     expect(scene.children).not.toContain(terrain.mesh)
     expect(scene.children).not.toContain(terrain.grid)
   })
+
+  it('updates vertex positions after the heightmap changes', () => {
+    const heightmap = new TerrainHeightmap(10, 2)
+    const terrain = new TerrainMesh(heightmap, new DisposalTracker())
+
+    heightmap.setHeights(new Float32Array([0, 1, 2, 3, 4, 5, 6, 7, 8]), 20)
+    terrain.updateGeometry()
+
+    const positions = terrain.mesh.geometry.attributes.position
+    expect(positions.getZ(4)).toBe(4)
+    expect(positions.getX(0)).toBe(-10)
+    expect(positions.getY(0)).toBe(10)
+    expect(terrain.grid.scale.x).toBeCloseTo(20 / 100)
+  })
+
+  it('updates only the vertices of a sculpted region', () => {
+    const heightmap = new TerrainHeightmap(10, 8)
+    const terrain = new TerrainMesh(heightmap, new DisposalTracker(), { lod: false })
+    const positions = terrain.mesh.geometry.attributes.position
+
+    heightmap.heights.fill(3)
+    terrain.updateRegion({ minX: 2, minZ: 2, maxX: 3, maxZ: 3 })
+
+    // Region expanded by one vertex for normals; far vertices untouched
+    expect(positions.getZ(3 * 9 + 3)).toBe(3)
+    expect(positions.getZ(1 * 9 + 1)).toBe(3)
+    expect(positions.getZ(8 * 9 + 8)).toBe(0)
+    expect(positions.updateRanges.length).toBeGreaterThan(0)
+  })
+
+  it('blends surface materials per pixel from splat maps', () => {
+    const heightmap = new TerrainHeightmap(10, 4)
+    const tracker = new DisposalTracker()
+    const terrain = new TerrainMesh(heightmap, tracker, { lod: false })
+
+    expect(terrain.mesh.geometry.attributes.color).toBeUndefined()
+    expect(tracker.textures).toEqual(terrain.splatMaps.textures)
+
+    // Paint vertex (2, 2) fully mud and push just that region
+    const index = 2 * 5 + 2
+    const channels = heightmap.splat.length / heightmap.heights.length
+    heightmap.splat.fill(0, index * channels, (index + 1) * channels)
+    heightmap.splat[index * channels + 2] = 1
+    terrain.updateRegion({ minX: 2, minZ: 2, maxX: 2, maxZ: 2 })
+
+    const texels = terrain.splatMaps.textures[0].image.data
+    expect(Array.from(texels.slice(index * 4, index * 4 + 4))).toEqual([0, 0, 255, 0])
+
+    const shader = {
+      uniforms: {},
+      vertexShader: '#include <common>\n#include <project_vertex>',
+      fragmentShader: '#include <common>\n#include <color_fragment>'
+    }
+    terrain.mesh.material.onBeforeCompile(shader)
+    expect(shader.uniforms.splatMap0.value).toBe(terrain.splatMaps.textures[0])
+    expect(shader.fragmentShader).toContain('diffuseColor.rgb *=')
+    expect(terrain.mesh.material.colorNode).toBeDefined()
+  })
+
+  it('renders LOD tiles in place of the full-resolution mesh when enabled', () => {
+    const heightmap = new TerrainHeightmap(10, 32)
+    const terrain = new TerrainMesh(heightmap, new DisposalTracker(), { lod: true })
+    const scene = new THREE.Scene()
+    terrain.addToScene(scene)
+
+    expect(terrain.mesh.visible).toBe(false)
+    expect(scene.children).toContain(terrain.lod.group)
+
+    terrain.updateLOD({ x: 0, y: 100, z: 0 })
+    expect(terrain.getLODStats().levels[0].tiles).toBe(1)
+
+    terrain.dispose()
+    expect(terrain.lod.tiles.size).toBe(0)
+    expect(new TerrainMesh(heightmap, new DisposalTracker(), { lod: false }).getLODStats()).toBeNull()
+  })
 })
@@ -1,23 +1,45 @@
 import * as THREE from 'three';
 import { TERRAIN } from '../config/index.js';
+import { TerrainLOD, type TerrainLODStats } from './TerrainLOD.js';
+import { TerrainSplatMaps, createTerrainMaterial } from './TerrainMaterials.js';
 import type { TerrainHeightmap } from './TerrainHeightmap.js';
+import type { HeightmapRegion } from './TerrainSculptor.js';
 import type { DisposalTracker } from '../utils/disposal.js';
+import type { Vector3Like } from '../types/index.js';
+
+export interface TerrainMeshOptions {
+  showGrid?: boolean;
+  lod?: boolean;
+}
 
 /**
  * Creates the visual Three.js terrain mesh
+ * Surface materials are splat-blended per pixel from the heightmap's splat maps.
  */
 export class TerrainMesh {
   heightmap: TerrainHeightmap;
   tracker: DisposalTracker;
+  splatMaps: TerrainSplatMaps;
   mesh: THREE.Mesh;
-  grid: THREE.GridHelper;
+  grid: THREE.GridHelper | null;
+  lod: TerrainLOD | null;
 
-  constructor(heightmap: TerrainHeightmap, tracker: DisposalTracker) {
+  constructor(heightmap: TerrainHeightmap, tracker: DisposalTracker, options: TerrainMeshOptions = {}) {
     this.heightmap = heightmap;
     this.tracker = tracker;
 
+    this.splatMaps = new TerrainSplatMaps(heightmap);
+    this.splatMaps.textures.forEach((map) => tracker.trackTexture(map));
     this.mesh = this.createMesh();
-    this.grid = this.createGrid();
+    this.grid = options.showGrid === false ? null : this.createGrid();
+
+    // LOD tiles replace the full-resolution mesh visually (kept for raycasts)
+    this.lod = (options.lod ?? TERRAIN.LOD_ENABLED)
+      ? new TerrainLOD(heightmap, this.mesh.material as THREE.Material)
+      : null;
+    if (this.lod) {
+      this.mesh.visible = false;
+    }
   }
 
   createMesh(): THREE.Mesh {
@@ -31,21 +53,116 @@ export class TerrainMesh {
     for (let i = 0; i < positions.count; i++) {
       positions.setZ(i, heights[i] ?? 0);
     }
-    geometry.computeVertexNormals();
+    this.writeNormals(geometry.attributes.normal as THREE.BufferAttribute, 0, 0, segments, segments);
 
-    const material = new THREE.MeshStandardMaterial({
-      color: TERRAIN.COLOR,
-      roughness: TERRAIN.ROUGHNESS
-    });
+    const material = createTerrainMaterial(this.splatMaps);
     this.tracker.trackMaterial(material);
 
     const mesh = new THREE.Mesh(geometry, material);
     mesh.rotation.x = -Math.PI / 2;
+    mesh.position.set(this.heightmap.originX, 0, this.heightmap.originZ);
     mesh.receiveShadow = true;
 
     return mesh;
   }
 
+  /**
+   * Rewrite vertex positions from the heightmap (after import or regeneration)
+   */
+  updateGeometry(): void {
+    const { size, segments, heights } = this.heightmap;
+    const geometry = this.mesh.geometry;
+    const positions = geometry.attributes.position as THREE.BufferAttribute;
+    const gridSize = segments + 1;
+
+    for (let i = 0; i < positions.count; i++) {
+      const x = i % gridSize;
+      const z = Math.floor(i / gridSize);
+      // Plane is built in XY and rotated -90° about X, so local +Y maps to world -Z
+      positions.setXYZ(i, (x / segments - 0.5) * size, (0.5 - z / segments) * size, heights[i] ?? 0);
+    }
+    positions.needsUpdate = true;
+    const normals = geometry.attributes.normal as THREE.BufferAttribute;
+    this.writeNormals(normals, 0, 0, segments, segments);
+    normals.needsUpdate = true;
+    this.splatMaps.update();
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+
+    this.grid?.scale.setScalar(size / TERRAIN.SIZE);
+    this.lod?.invalidate();
+  }
+
+  /**
+   * Rewrite only the vertices inside a grid region (sculpting)
+   * Normals are refreshed one vertex beyond the region since they depend on neighbours.
+   */
+  updateRegion(region: HeightmapRegion): void {
+    const { segments, heights } = this.heightmap;
+    const geometry = this.mesh.geometry;
+    const positions = geometry.attributes.position as THREE.BufferAttribute;
+    const normals = geometry.attributes.normal as THREE.BufferAttribute;
+    const gridSize = segments + 1;
+
+    const minX = Math.max(0, region.minX - 1);
+    const minZ = Math.max(0, region.minZ - 1);
+    const maxX = Math.min(segments, region.maxX + 1);
+    const maxZ = Math.min(segments, region.maxZ + 1);
+
+    for (let z = minZ; z <= maxZ; z++) {
+      for (let x = minX; x <= maxX; x++) {
+        const index = z * gridSize + x;
+        positions.setZ(index, heights[index] ?? 0);
+      }
+    }
+    this.writeNormals(normals, minX, minZ, maxX, maxZ);
+
+    const start = minZ * gridSize + minX;
+    const count = (maxZ - minZ) * gridSize + (maxX - minX) + 1;
+    positions.addUpdateRange(start * 3, count * 3);
+    normals.addUpdateRange(start * 3, count * 3);
+    positions.needsUpdate = true;
+    normals.needsUpdate = true;
+    this.splatMaps.update(region);
+    geometry.computeBoundingSphere();
+
+    this.lod?.invalidateArea(minX / segments, minZ / segments, maxX / segments, maxZ / segments);
+  }
+
+  /**
+   * Write heightmap normals for a grid rectangle. These read across chunk
+   * borders, so neighbouring meshes (and LOD tiles) shade the seam alike.
+   */
+  private writeNormals(normals: THREE.BufferAttribute, minX: number, minZ: number, maxX: number, maxZ: number): void {
+    const { size, segments, originX, originZ } = this.heightmap;
+    const gridSize = segments + 1;
+
+    for (let z = minZ; z <= maxZ; z++) {
+      for (let x = minX; x <= maxX; x++) {
+        // Heightmap normal (world) -> plane local space (rotated -90° about X)
+        const normal = this.heightmap.getNormal(
+          originX + (x / segments - 0.5) * size,
+          originZ + (z / segments - 0.5) * size
+        );
+        normals.setXYZ(z * gridSize + x, normal.x, -normal.z, normal.y);
+      }
+    }
+  }
+
+  /**
+   * Refine LOD tiles around the camera (no-op without LOD)
+   */
+  updateLOD(cameraPosition: Vector3Like): void {
+    this.lod?.update(cameraPosition);
+  }
+
+  /**
+   * Active LOD tile/triangle counts, or null when LOD is disabled
+   */
+  getLODStats(): TerrainLODStats | null {
+    return this.lod?.getStats() ?? null;
+  }
+
   createGrid(): THREE.GridHelper {
     const grid = new THREE.GridHelper(
       TERRAIN.SIZE,
@@ -62,7 +179,8 @@ export class TerrainMesh {
    */
   addToScene(scene: THREE.Scene): void {
     scene.add(this.mesh);
-    scene.add(this.grid);
+    if (this.grid) scene.add(this.grid);
+    if (this.lod) scene.add(this.lod.group);
   }
 
   /**
@@ -70,7 +188,15 @@ export class TerrainMesh {
    */
   removeFromScene(scene: THREE.Scene): void {
     scene.remove(this.mesh);
-    scene.remove(this.grid);
+    if (this.grid) scene.remove(this.grid);
+    if (this.lod) scene.remove(this.lod.group);
+  }
+
+  /**
+   * Release LOD tiles (mesh and material are owned by the tracker)
+   */
+  dispose(): void {
+    this.lod?.dispose();
   }
 }
 
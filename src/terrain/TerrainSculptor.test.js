@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { TerrainHeightmap } from './TerrainHeightmap.js'
+import { TerrainSculptor, mergeRegions } from './TerrainSculptor.js'
+
+const createSculptor = () => {
+  const heightmap = new TerrainHeightmap(20, 20)
+  return { heightmap, sculptor: new TerrainSculptor(heightmap, 2) }
+}
+
+const brush = (type, extra = {}) => ({ type, radius: 4, strength: 2, ...extra })
+
+describe('terrain/TerrainSculptor', () => {
+  it('raises terrain with a falloff and reports the touched region', () => {
+    const { heightmap, sculptor } = createSculptor()
+
+    const region = sculptor.apply(0, 0, brush('raise'), 1)
+    expect(region).toEqual({ minX: 6, minZ: 6, maxX: 14, maxZ: 14 })
+    expect(heightmap.getHeight(0, 0)).toBeCloseTo(2)
+    expect(heightmap.getHeight(2, 0)).toBeGreaterThan(0)
+    expect(heightmap.getHeight(2, 0)).toBeLessThan(2)
+    expect(heightmap.getHeight(8, 8)).toBe(0)
+
+    sculptor.apply(0, 0, brush('lower'), 1)
+    expect(heightmap.getHeight(0, 0)).toBeCloseTo(0)
+  })
+
+  it('smooths peaks and flattens toward the first sampled height', () => {
+    const { heightmap, sculptor } = createSculptor()
+    heightmap.heights[10 * 21 + 10] = 9
+
+    sculptor.apply(0, 0, brush('smooth', { strength: 1 }), 1)
+    expect(heightmap.heights[10 * 21 + 10]).toBeCloseTo(1)
+
+    heightmap.heights.fill(0)
+    heightmap.heights[10 * 21 + 10] = 5
+    sculptor.beginStroke()
+    sculptor.apply(0, 0, brush('flatten', { strength: 1 }), 1)
+    expect(heightmap.heights[10 * 21 + 11]).toBeGreaterThan(0)
+    expect(heightmap.heights[10 * 21 + 10]).toBe(5)
+  })
+
+  it('perturbs heights with the noise brush', () => {
+    const { heightmap, sculptor } = createSculptor()
+    sculptor.apply(0, 0, brush('noise'), 1)
+    expect(new Set(heightmap.heights).size).toBeGreaterThan(1)
+  })
+
+  it('paints materials into the splat layer with undo', () => {
+    const { heightmap, sculptor } = createSculptor()
+
+    sculptor.apply(0, 0, brush('paint', { material: 'ice', strength: 100 }), 1)
+    sculptor.endStroke()
+    expect(heightmap.getMaterial(0, 0)).toBe('ice')
+    expect(heightmap.getMaterial(8, 8)).toBe('grass')
+    expect(heightmap.heights.every((height) => height === 0)).toBe(true)
+
+    sculptor.undo()
+    expect(heightmap.getMaterial(0, 0)).toBe('grass')
+    sculptor.redo()
+    expect(heightmap.getMaterial(0, 0)).toBe('ice')
+  })
+
+  it('undoes and redoes whole strokes', () => {
+    const { heightmap, sculptor } = createSculptor()
+
+    sculptor.beginStroke()
+    sculptor.apply(0, 0, brush('raise'), 0.5)
+    sculptor.apply(1, 0, brush('raise'), 0.5)
+    const strokeRegion = sculptor.endStroke()
+    expect(strokeRegion).toEqual({ minX: 6, minZ: 6, maxX: 15, maxZ: 14 })
+    const raised = Float32Array.from(heightmap.heights)
+
+    expect(sculptor.undo()).toEqual(strokeRegion)
+    expect(heightmap.heights.every((height) => height === 0)).toBe(true)
+    expect(sculptor.canRedo()).toBe(true)
+
+    sculptor.redo()
+    expect(heightmap.heights).toEqual(raised)
+    expect(sculptor.canRedo()).toBe(false)
+  })
+
+  it('caps history and clears redo on a new stroke', () => {
+    const { sculptor } = createSculptor()
+    for (let i = 0; i < 3; i++) {
+      sculptor.apply(0, 0, brush('raise'), 0.1)
+      sculptor.endStroke()
+    }
+    expect(sculptor.undoStack).toHaveLength(2)
+
+    sculptor.undo()
+    sculptor.apply(0, 0, brush('raise'), 0.1)
+    sculptor.endStroke()
+    expect(sculptor.canRedo()).toBe(false)
+
+    sculptor.clearHistory()
+    expect(sculptor.canUndo()).toBe(false)
+  })
+
+  it('merges regions', () => {
+    expect(mergeRegions(null, null)).toBeNull()
+    expect(mergeRegions({ minX: 0, minZ: 2, maxX: 3, maxZ: 4 }, { minX: 1, minZ: 1, maxX: 5, maxZ: 3 })).toEqual({
+      minX: 0,
+      minZ: 1,
+      maxX: 5,
+      maxZ: 4
+    })
+  })
+})
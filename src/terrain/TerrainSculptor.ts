@@ -0,0 +1,349 @@
+import { TERRAIN, TERRAIN_MATERIAL_IDS } from '../config/index.js';
+import { createNoise, type Noise2D } from './noise.js';
+import type { TerrainHeightmap } from './TerrainHeightmap.js';
+import type { TerrainMaterialId } from '../types/index.js';
+
+export type SculptBrushType = 'raise' | 'lower' | 'smooth' | 'flatten' | 'noise' | 'paint';
+
+export const SCULPT_BRUSH_TYPES: readonly SculptBrushType[] = ['raise', 'lower', 'smooth', 'flatten', 'noise', 'paint'];
+
+const MATERIAL_COUNT = TERRAIN_MATERIAL_IDS.length;
+
+/**
+ * Brush settings for one application
+ * Strength is meters/second for raise, lower and noise, and a blend
+ * rate (per second) for smooth, flatten and paint.
+ */
+export interface SculptBrush {
+  type: SculptBrushType;
+  radius: number;
+  strength: number;
+  targetHeight?: number; // Flatten target (defaults to the height under the first sample of the stroke)
+  material?: TerrainMaterialId; // Paint material (defaults to TERRAIN.DEFAULT_MATERIAL)
+}
+
+/**
+ * Inclusive grid index bounds of a heightmap edit
+ */
+export interface HeightmapRegion {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+interface SculptStroke {
+  indices: Uint32Array;
+  before: Float32Array;
+  after: Float32Array;
+  // Splat weights of painted vertices (MATERIAL_COUNT values per index)
+  splatIndices: Uint32Array;
+  splatBefore: Float32Array;
+  splatAfter: Float32Array;
+  region: HeightmapRegion;
+}
+
+interface ActiveStroke {
+  before: Map<number, number>;
+  splatBefore: Map<number, Float32Array>;
+  region: HeightmapRegion | null;
+  flattenHeight: number | null;
+}
+
+/**
+ * Union of two regions (either may be null)
+ */
+export function mergeRegions(a: HeightmapRegion | null, b: HeightmapRegion | null): HeightmapRegion | null {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minZ: Math.min(a.minZ, b.minZ),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxZ: Math.max(a.maxZ, b.maxZ)
+  };
+}
+
+/**
+ * Edits TerrainHeightmap heights and material splat with brushes, grouped into undoable strokes
+ * Pure data class - callers push returned regions to the mesh and physics.
+ */
+export class TerrainSculptor {
+  heightmap: TerrainHeightmap;
+  maxHistory: number;
+  undoStack: SculptStroke[];
+  redoStack: SculptStroke[];
+  noise: Noise2D;
+  private activeStroke: ActiveStroke | null;
+
+  constructor(heightmap: TerrainHeightmap, maxHistory: number = TERRAIN.SCULPT_MAX_UNDO) {
+    this.heightmap = heightmap;
+    this.maxHistory = maxHistory;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.noise = createNoise('simplex', TERRAIN.SEED);
+    this.activeStroke = null;
+  }
+
+  /**
+   * Start recording a stroke (one undo step)
+   */
+  beginStroke(): void {
+    if (this.activeStroke) {
+      this.endStroke();
+    }
+    this.activeStroke = { before: new Map(), splatBefore: new Map(), region: null, flattenHeight: null };
+  }
+
+  /**
+   * Whether a stroke is in progress
+   */
+  isStroking(): boolean {
+    return this.activeStroke !== null;
+  }
+
+  /**
+   * Apply a brush at a world position for `deltaTime` seconds
+   * Starts a stroke if none is active. Returns the modified grid region.
+   */
+  apply(worldX: number, worldZ: number, brush: SculptBrush, deltaTime: number): HeightmapRegion | null {
+    if (!this.activeStroke) {
+      this.beginStroke();
+    }
+    const stroke = this.activeStroke as ActiveStroke;
+    const { size, segments, heights, originX, originZ } = this.heightmap;
+    const gridSize = segments + 1;
+    const cellSize = size / segments;
+
+    // Grid bounds covered by the brush
+    const centerX = (worldX - originX) / cellSize + segments / 2;
+    const centerZ = (worldZ - originZ) / cellSize + segments / 2;
+    const radiusCells = brush.radius / cellSize;
+    const region: HeightmapRegion = {
+      minX: Math.max(0, Math.floor(centerX - radiusCells)),
+      minZ: Math.max(0, Math.floor(centerZ - radiusCells)),
+      maxX: Math.min(segments, Math.ceil(centerX + radiusCells)),
+      maxZ: Math.min(segments, Math.ceil(centerZ + radiusCells))
+    };
+    if (region.minX > region.maxX || region.minZ > region.maxZ || brush.radius <= 0) {
+      return null;
+    }
+
+    if (brush.type === 'flatten' && stroke.flattenHeight === null) {
+      stroke.flattenHeight = brush.targetHeight ?? this.heightmap.getHeight(worldX, worldZ);
+    }
+
+    if (brush.type === 'paint') {
+      return this.paint(stroke, region, centerX, centerZ, brush, deltaTime);
+    }
+
+    // Smooth reads from a snapshot so results don't depend on iteration order
+    const source = brush.type === 'smooth' ? Float32Array.from(heights) : heights;
+    let changed = false;
+
+    for (let z = region.minZ; z <= region.maxZ; z++) {
+      for (let x = region.minX; x <= region.maxX; x++) {
+        const distance = Math.hypot(x - centerX, z - centerZ) * cellSize;
+        if (distance > brush.radius) continue;
+
+        // Smooth falloff from center to edge
+        const t = 1 - distance / brush.radius;
+        const weight = t * t * (3 - 2 * t);
+        const index = z * gridSize + x;
+        const current = heights[index] ?? 0;
+        const amount = brush.strength * deltaTime * weight;
+
+        let next = current;
+        switch (brush.type) {
+          case 'raise':
+            next = current + amount;
+            break;
+          case 'lower':
+            next = current - amount;
+            break;
+          case 'smooth':
+            next = current + (this.averageNeighbors(source, x, z) - current) * Math.min(1, amount);
+            break;
+          case 'flatten':
+            next = current + ((stroke.flattenHeight ?? current) - current) * Math.min(1, amount);
+            break;
+          case 'noise': {
+            const worldPX = originX + (x / segments - 0.5) * size;
+            const worldPZ = originZ + (z / segments - 0.5) * size;
+            const frequency = TERRAIN.SCULPT_NOISE_FREQUENCY;
+            next = current + this.noise.noise2D(worldPX * frequency, worldPZ * frequency) * amount;
+            break;
+          }
+        }
+
+        if (next === current) continue;
+        if (!stroke.before.has(index)) {
+          stroke.before.set(index, current);
+        }
+        heights[index] = next;
+        changed = true;
+      }
+    }
+
+    if (!changed) return null;
+    stroke.region = mergeRegions(stroke.region, region);
+    return region;
+  }
+
+  /**
+   * Finish the active stroke and push it onto the undo stack
+   * Returns the stroke's full region (for deferred physics refresh).
+   */
+  endStroke(): HeightmapRegion | null {
+    const stroke = this.activeStroke;
+    this.activeStroke = null;
+    if (!stroke || !stroke.region || (stroke.before.size === 0 && stroke.splatBefore.size === 0)) {
+      return null;
+    }
+
+    const indices = Uint32Array.from(stroke.before.keys());
+    const before = Float32Array.from(stroke.before.values());
+    const after = Float32Array.from(indices, (index) => this.heightmap.heights[index] ?? 0);
+
+    const splatIndices = Uint32Array.from(stroke.splatBefore.keys());
+    const splatBefore = new Float32Array(splatIndices.length * MATERIAL_COUNT);
+    const splatAfter = new Float32Array(splatIndices.length * MATERIAL_COUNT);
+    splatIndices.forEach((index, i) => {
+      splatBefore.set(stroke.splatBefore.get(index) ?? [], i * MATERIAL_COUNT);
+      splatAfter.set(this.getSplat(index), i * MATERIAL_COUNT);
+    });
+
+    this.undoStack.push({ indices, before, after, splatIndices, splatBefore, splatAfter, region: stroke.region });
+    if (this.undoStack.length > this.maxHistory) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+
+    return stroke.region;
+  }
+
+  /**
+   * Revert the most recent stroke
+   */
+  undo(): HeightmapRegion | null {
+    if (this.activeStroke) this.endStroke();
+    const stroke = this.undoStack.pop();
+    if (!stroke) return null;
+    this.writeHeights(stroke.indices, stroke.before);
+    this.writeSplat(stroke.splatIndices, stroke.splatBefore);
+    this.redoStack.push(stroke);
+    return stroke.region;
+  }
+
+  /**
+   * Re-apply the most recently undone stroke
+   */
+  redo(): HeightmapRegion | null {
+    const stroke = this.redoStack.pop();
+    if (!stroke) return null;
+    this.writeHeights(stroke.indices, stroke.after);
+    this.writeSplat(stroke.splatIndices, stroke.splatAfter);
+    this.undoStack.push(stroke);
+    return stroke.region;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Drop history (e.g. after the heightmap is replaced by an import)
+   */
+  clearHistory(): void {
+    this.activeStroke = null;
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private writeHeights(indices: Uint32Array, values: Float32Array): void {
+    const { heights } = this.heightmap;
+    indices.forEach((index, i) => {
+      heights[index] = values[i] ?? 0;
+    });
+  }
+
+  private writeSplat(indices: Uint32Array, values: Float32Array): void {
+    indices.forEach((index, i) => {
+      this.heightmap.splat.set(values.subarray(i * MATERIAL_COUNT, (i + 1) * MATERIAL_COUNT), index * MATERIAL_COUNT);
+    });
+  }
+
+  private getSplat(index: number): Float32Array {
+    return this.heightmap.splat.subarray(index * MATERIAL_COUNT, (index + 1) * MATERIAL_COUNT);
+  }
+
+  /**
+   * Blend vertex splat weights toward the brush material
+   */
+  private paint(
+    stroke: ActiveStroke,
+    region: HeightmapRegion,
+    centerX: number,
+    centerZ: number,
+    brush: SculptBrush,
+    deltaTime: number
+  ): HeightmapRegion | null {
+    const { size, segments } = this.heightmap;
+    const gridSize = segments + 1;
+    const cellSize = size / segments;
+    const channel = TERRAIN_MATERIAL_IDS.indexOf(brush.material ?? TERRAIN.DEFAULT_MATERIAL);
+    if (channel < 0) return null;
+    let changed = false;
+
+    for (let z = region.minZ; z <= region.maxZ; z++) {
+      for (let x = region.minX; x <= region.maxX; x++) {
+        const distance = Math.hypot(x - centerX, z - centerZ) * cellSize;
+        if (distance > brush.radius) continue;
+
+        const t = 1 - distance / brush.radius;
+        const blend = Math.min(1, brush.strength * deltaTime * t * t * (3 - 2 * t));
+        const index = z * gridSize + x;
+        const weights = this.getSplat(index);
+        if (blend <= 0 || weights[channel] === 1) continue;
+
+        if (!stroke.splatBefore.has(index)) {
+          stroke.splatBefore.set(index, Float32Array.from(weights));
+        }
+        for (let c = 0; c < MATERIAL_COUNT; c++) {
+          const target = c === channel ? 1 : 0;
+          weights[c] = (weights[c] ?? 0) + (target - (weights[c] ?? 0)) * blend;
+        }
+        changed = true;
+      }
+    }
+
+    if (!changed) return null;
+    stroke.region = mergeRegions(stroke.region, region);
+    return region;
+  }
+
+  private averageNeighbors(source: Float32Array, x: number, z: number): number {
+    const { segments } = this.heightmap;
+    const gridSize = segments + 1;
+    let sum = 0;
+    let count = 0;
+
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const nz = z + dz;
+        if (nx < 0 || nz < 0 || nx > segments || nz > segments) continue;
+        sum += source[nz * gridSize + nx] ?? 0;
+        count++;
+      }
+    }
+
+    return count > 0 ? sum / count : 0;
+  }
+}
+
+export default TerrainSculptor;
@@ -1,2 +1,36 @@
 export { TerrainHeightmap } from './TerrainHeightmap.js';
 export { TerrainMesh } from './TerrainMesh.js';
+export type { TerrainMeshOptions } from './TerrainMesh.js';
+export { TerrainLOD, mergeLODStats } from './TerrainLOD.js';
+export type { TerrainLODOptions, TerrainLODStats, TerrainLODLevelStats } from './TerrainLOD.js';
+export { TerrainSplatMaps, createTerrainMaterial } from './TerrainMaterials.js';
+export {
+  createTerrainGenerator,
+  SineGenerator,
+  FbmGenerator,
+  RidgedGenerator,
+  DomainWarpGenerator
+} from './TerrainGenerators.js';
+export type { TerrainGenerator, FractalSettings } from './TerrainGenerators.js';
+export { PerlinNoise, SimplexNoise, createNoise, createRandom } from './noise.js';
+export type { Noise2D, NoiseBasis } from './noise.js';
+export {
+  importHeightmap,
+  exportHeightmap,
+  applyHeightfield,
+  decodePngHeightfield,
+  decodeRawHeightfield,
+  resampleHeightfield,
+  parseHeightmapMetadata,
+  createHeightmapMetadata
+} from './HeightmapIO.js';
+export type {
+  HeightfieldData,
+  HeightmapMetadata,
+  HeightmapImportOptions,
+  RawHeightfieldFormat
+} from './HeightmapIO.js';
+export { TerrainChunkManager } from './TerrainChunkManager.js';
+export type { TerrainChunk, TerrainChunkManagerOptions } from './TerrainChunkManager.js';
+export { TerrainSculptor, SCULPT_BRUSH_TYPES, mergeRegions } from './TerrainSculptor.js';
+export type { SculptBrush, SculptBrushType, HeightmapRegion } from './TerrainSculptor.js';
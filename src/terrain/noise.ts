@@ -0,0 +1,159 @@
+/**
+ * Seeded gradient noise primitives for terrain generation
+ * Pure math - no Three.js dependency
+ */
+
+import type { TerrainNoiseBasis } from '../types/index.js';
+
+export type NoiseBasis = TerrainNoiseBasis;
+
+/**
+ * 2D noise function returning values in roughly [-1, 1]
+ */
+export interface Noise2D {
+  noise2D(x: number, y: number): number;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = (Math.floor(seed) ^ 0x9e3779b9) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Build a seeded, doubled permutation table
+ */
+function buildPermutation(seed: number): Uint8Array {
+  const random = createRandom(seed);
+  const source = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) source[i] = i;
+
+  // Fisher-Yates shuffle
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = source[i] ?? 0;
+    source[i] = source[j] ?? 0;
+    source[j] = tmp;
+  }
+
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = source[i & 255] ?? 0;
+  return perm;
+}
+
+// Eight unit-ish gradient directions shared by both bases
+const GRADIENTS_2D: ReadonlyArray<readonly [number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [Math.SQRT1_2, Math.SQRT1_2], [-Math.SQRT1_2, Math.SQRT1_2],
+  [Math.SQRT1_2, -Math.SQRT1_2], [-Math.SQRT1_2, -Math.SQRT1_2]
+];
+
+function gradientDot(hash: number, x: number, y: number): number {
+  const gradient = GRADIENTS_2D[hash & 7] ?? GRADIENTS_2D[0]!;
+  return gradient[0] * x + gradient[1] * y;
+}
+
+const fade = (t: number): number => t * t * t * (t * (t * 6 - 15) + 10);
+
+/**
+ * Seeded improved Perlin noise
+ */
+export class PerlinNoise implements Noise2D {
+  private perm: Uint8Array;
+
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  noise2D(x: number, y: number): number {
+    const perm = this.perm;
+    const xFloor = Math.floor(x);
+    const yFloor = Math.floor(y);
+    const xi = xFloor & 255;
+    const yi = yFloor & 255;
+    const xf = x - xFloor;
+    const yf = y - yFloor;
+
+    const aa = perm[(perm[xi] ?? 0) + yi] ?? 0;
+    const ab = perm[(perm[xi] ?? 0) + yi + 1] ?? 0;
+    const ba = perm[(perm[xi + 1] ?? 0) + yi] ?? 0;
+    const bb = perm[(perm[xi + 1] ?? 0) + yi + 1] ?? 0;
+
+    const u = fade(xf);
+    const v = fade(yf);
+
+    const x1 = gradientDot(aa, xf, yf) + u * (gradientDot(ba, xf - 1, yf) - gradientDot(aa, xf, yf));
+    const x2 = gradientDot(ab, xf, yf - 1) + u * (gradientDot(bb, xf - 1, yf - 1) - gradientDot(ab, xf, yf - 1));
+
+    // Max magnitude for unit gradients is sqrt(0.5); rescale to ~[-1, 1]
+    return (x1 + v * (x2 - x1)) * Math.SQRT2;
+  }
+}
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+/**
+ * Seeded 2D simplex noise
+ */
+export class SimplexNoise implements Noise2D {
+  private perm: Uint8Array;
+
+  constructor(seed: number) {
+    this.perm = buildPermutation(seed);
+  }
+
+  noise2D(x: number, y: number): number {
+    const perm = this.perm;
+
+    // Skew into simplex cell space
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    // Which of the two triangles are we in
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const gi0 = perm[ii + (perm[jj] ?? 0)] ?? 0;
+    const gi1 = perm[ii + i1 + (perm[jj + j1] ?? 0)] ?? 0;
+    const gi2 = perm[ii + 1 + (perm[jj + 1] ?? 0)] ?? 0;
+
+    const corner = (hash: number, cx: number, cy: number): number => {
+      const falloff = 0.5 - cx * cx - cy * cy;
+      if (falloff < 0) return 0;
+      const f2 = falloff * falloff;
+      return f2 * f2 * gradientDot(hash, cx, cy);
+    };
+
+    // Scale to roughly [-1, 1]
+    return 70 * (corner(gi0, x0, y0) + corner(gi1, x1, y1) + corner(gi2, x2, y2));
+  }
+}
+
+/**
+ * Create a seeded noise source for the given basis
+ */
+export function createNoise(basis: NoiseBasis, seed: number): Noise2D {
+  return basis === 'simplex' ? new SimplexNoise(seed) : new PerlinNoise(seed);
+}
+
+export default createNoise;
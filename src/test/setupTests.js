@@ -17,6 +17,11 @@ Object.defineProperty(window, 'matchMedia', {
   })
 })
 
+// WebGPU shader stage flags (three/webgpu reads them at import; not in JSDOM)
+if (!globalThis.GPUShaderStage) {
+  globalThis.GPUShaderStage = { VERTEX: 1, FRAGMENT: 2, COMPUTE: 4 }
+}
+
 afterEach(() => {
   cleanup()
 })
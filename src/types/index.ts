@@ -8,6 +8,13 @@ export interface Vector3Like {
   z: number;
 }
 
+export interface QuaternionLike {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
 // =============================================================================
 // Logging Types
 // =============================================================================
@@ -30,6 +37,28 @@ export interface LoggingConfig {
   CATEGORIES: Record<LogCategory, boolean>;
 }
 
+// =============================================================================
+// Engine Types
+// =============================================================================
+
+export interface EngineConfig {
+  FIXED_TIMESTEP: boolean;
+  STEP_RATE: number;
+  MAX_SUBSTEPS: number;
+  MAX_DELTA_TIME: number;
+}
+
+// =============================================================================
+// Input Types
+// =============================================================================
+
+export interface InputConfig {
+  GAMEPAD_DEADZONE: number;
+  GAMEPAD_LOOK_SPEED_X: number;
+  GAMEPAD_LOOK_SPEED_Y: number;
+  GAMEPAD_INVERT_Y: boolean;
+}
+
 // =============================================================================
 // Render Types
 // =============================================================================
@@ -80,6 +109,52 @@ export interface CameraConfig {
 // Terrain Types
 // =============================================================================
 
+export type TerrainGeneratorType = 'sine' | 'fbm' | 'ridged' | 'warped';
+
+/**
+ * Anything physics and foot IK can query for ground height
+ * (a single TerrainHeightmap or the streaming chunk manager)
+ */
+export interface TerrainHeightSource {
+  size: number;
+  getHeight(worldX: number, worldZ: number): number;
+  getNormal(worldX: number, worldZ: number): Vector3Like;
+  getMaterial(worldX: number, worldZ: number): TerrainMaterialId;
+}
+
+/**
+ * Water queries (plane and pools) used by the character controller
+ */
+export interface WaterSource {
+  // Surface height of the water containing the point, or null when dry
+  getSurfaceHeight(x: number, y: number, z: number): number | null;
+}
+
+/**
+ * Physics body the character hands its motion to while ragdolled
+ */
+export interface RagdollSource {
+  // Start simulating from the current pose; false when the physics can't
+  activate(velocity: Vector3Like): boolean;
+  deactivate(): void;
+  // Pelvis position and velocity (null while inactive)
+  getRootPosition(): Vector3Like | null;
+  getRootVelocity(): Vector3Like | null;
+  isSettled(): boolean;
+}
+
+export type TerrainMaterialId = 'grass' | 'rock' | 'mud' | 'ice' | 'sand';
+
+/**
+ * Visual and gameplay properties of one terrain surface material
+ */
+export interface TerrainMaterialConfig {
+  COLOR: number;
+  FRICTION: number;    // Multiplier on GROUND_ACCEL / GROUND_DECEL
+  SINK_DEPTH: number;  // Meters planted feet sink below the surface
+}
+export type TerrainNoiseBasis = 'perlin' | 'simplex';
+
 export interface TerrainConfig {
   SIZE: number;
   SEGMENTS: number;
@@ -87,6 +162,39 @@ export interface TerrainConfig {
   NOISE_SCALE_1: number;
   NOISE_SCALE_2: number;
   NOISE_SCALE_3: number;
+  // Procedural generator
+  GENERATOR: TerrainGeneratorType;
+  SEED: number;
+  NOISE_BASIS: TerrainNoiseBasis;
+  NOISE_FREQUENCY: number;
+  NOISE_OCTAVES: number;
+  NOISE_LACUNARITY: number;
+  NOISE_GAIN: number;
+  WARP_FREQUENCY: number;
+  WARP_STRENGTH: number;
+  IMPORT_HEIGHT_SCALE: number;
+  // Streaming chunks
+  STREAMING: boolean;
+  CHUNK_SIZE: number;
+  CHUNK_SEGMENTS: number;
+  CHUNK_LOAD_RADIUS: number;
+  CHUNK_UNLOAD_RADIUS: number;
+  CHUNK_BUILDS_PER_FRAME: number;
+  // Level of detail
+  LOD_ENABLED: boolean;
+  LOD_TILE_RESOLUTION: number;
+  LOD_SPLIT_DISTANCE: number;
+  LOD_SKIRT_DEPTH: number;
+  // Sculpting
+  SCULPT_RADIUS: number;
+  SCULPT_STRENGTH: number;
+  SCULPT_NOISE_FREQUENCY: number;
+  SCULPT_MAX_UNDO: number;
+  SCULPT_PHYSICS_INTERVAL: number;
+  // Surface materials
+  DEFAULT_MATERIAL: TerrainMaterialId;
+  SPLAT_ROCK_SLOPE: number;
+  SPLAT_BLEND_RANGE: number;
   COLOR: number;
   ROUGHNESS: number;
   METALNESS: number;
@@ -95,6 +203,39 @@ export interface TerrainConfig {
   GRID_COLOR_LINES: number;
 }
 
+// =============================================================================
+// World Types
+// =============================================================================
+
+export interface WorldConfig {
+  // Test course
+  TEST_COURSE_ENABLED: boolean;
+  TEST_COURSE_ORIGIN_X: number;
+  TEST_COURSE_ORIGIN_Z: number;
+  // Staircase generator defaults
+  STAIR_STEP_HEIGHT: number;
+  STAIR_STEP_DEPTH: number;
+  // Visual
+  OBSTACLE_COLOR: number;
+  OBSTACLE_ROUGHNESS: number;
+  // Dynamic bodies
+  DYNAMIC_BODY_LIMIT: number;
+  DYNAMIC_BODY_MASS: number;
+  DYNAMIC_BODY_SIZE: number;
+  DYNAMIC_SPAWN_HEIGHT: number;
+  DYNAMIC_KILL_Y: number;
+  DYNAMIC_BODY_COLOR: number;
+  // Water
+  WATER_ENABLED: boolean;
+  WATER_LEVEL: number;
+  WATER_COLOR: number;
+  WATER_OPACITY: number;
+  WATER_PLANE_SIZE: number;
+  UNDERWATER_FOG_COLOR: number;
+  UNDERWATER_FOG_NEAR: number;
+  UNDERWATER_FOG_FAR: number;
+}
+
 // =============================================================================
 // Character Types
 // =============================================================================
@@ -116,6 +257,8 @@ export interface CharacterConfig {
   // Movement speeds
   WALK_SPEED: number;
   RUN_SPEED: number;
+  CROUCH_SPEED: number;
+  ANALOG_WALK_MAGNITUDE: number;
   // Acceleration
   GROUND_ACCEL: number;
   GROUND_DECEL: number;
@@ -130,6 +273,14 @@ export interface CharacterConfig {
   // Jumping & Gravity
   JUMP_VELOCITY: number;
   GRAVITY: number;
+  COYOTE_TIME: number;
+  JUMP_BUFFER_TIME: number;
+  JUMP_CUT_MULTIPLIER: number;
+  AIR_JUMPS: number;
+  AIR_JUMP_VELOCITY: number;
+  // Ground state hysteresis
+  GROUNDED_DEBOUNCE_TIME: number;
+  AIRBORNE_DEBOUNCE_TIME: number;
   // Ground detection
   SKIN_WIDTH: number;
   STEP_OFFSET: number;
@@ -138,8 +289,62 @@ export interface CharacterConfig {
   // Collider
   CAPSULE_RADIUS: number;
   CAPSULE_HEIGHT: number;
+  CROUCH_CAPSULE_HEIGHT: number;
   // Landing
   LANDING_DURATION: number;
+  // Pushing dynamic bodies
+  MASS: number;
+  PUSH_STRENGTH: number;
+  // Abilities
+  STAMINA_MAX: number;
+  STAMINA_REGEN: number;
+  STAMINA_REGEN_DELAY: number;
+  SPRINT_SPEED: number;
+  SPRINT_STAMINA_DRAIN: number;
+  SPRINT_MIN_STAMINA: number;
+  DODGE_SPEED: number;
+  DODGE_DURATION: number;
+  DODGE_COOLDOWN: number;
+  DODGE_STAMINA_COST: number;
+  SLIDE_FRICTION: number;
+  SLIDE_STEER_ACCEL: number;
+  SLIDE_EXIT_ANGLE: number;
+  // Ledges & vaulting
+  LEDGE_PROBE_DISTANCE: number;
+  LEDGE_LOW_PROBE_HEIGHT: number;
+  LEDGE_HIGH_PROBE_HEIGHT: number;
+  LEDGE_TOP_INSET: number;
+  LEDGE_GRAB_MIN_HEIGHT: number;
+  LEDGE_GRAB_MAX_HEIGHT: number;
+  LEDGE_HANG_OFFSET: number;
+  LEDGE_WALL_GAP: number;
+  LEDGE_SHIMMY_SPEED: number;
+  LEDGE_SHIMMY_MAX_STEP: number;
+  LEDGE_REGRAB_DELAY: number;
+  CLIMB_UP_DURATION: number;
+  VAULT_MIN_HEIGHT: number;
+  VAULT_MAX_HEIGHT: number;
+  VAULT_MAX_DEPTH: number;
+  VAULT_DURATION: number;
+  VAULT_CLEARANCE: number;
+  // Swimming
+  SWIM_SPEED: number;
+  SWIM_ACCEL: number;
+  SWIM_ENTER_DEPTH: number;
+  SWIM_EXIT_DEPTH: number;
+  SWIM_FLOAT_DEPTH: number;
+  SWIM_MAX_BUOYANCY: number;
+  WATER_DRAG: number;
+  SWIM_JUMP_VELOCITY: number;
+  FALL_DAMAGE_HEIGHT: number;
+  RAGDOLL_MIN_TIME: number;
+  RAGDOLL_MAX_TIME: number;
+  RAGDOLL_SETTLE_SPEED: number;
+  GET_UP_DURATION: number;
+  PUSH_STAGGER_SPEED: number;
+  PUSH_KNOCKDOWN_SPEED: number;
+  STAGGER_DURATION: number;
+  STAGGER_DECEL: number;
   // Bounds
   WORLD_BOUNDS: number;
   // Center of Mass
@@ -165,20 +370,36 @@ export interface AnimationConfig {
   RUN_STRIDE_LENGTH: number;
   WALK_STRIDE_HEIGHT: number;
   RUN_STRIDE_HEIGHT: number;
+  CROUCH_STRIDE_LENGTH: number;
+  CROUCH_STRIDE_HEIGHT: number;
   // IK
   IK_BLEND_SPEED: number;
   FOOT_PLANT_TOLERANCE: number;
   PELVIS_DROP_MAX: number;
+  CROUCH_PELVIS_DROP: number;
+  CROUCH_BLEND_SPEED: number;
   // Leg dimensions
   UPPER_LEG_LENGTH: number;
   LOWER_LEG_LENGTH: number;
   // Arm swing
   ARM_SWING_WALK: number;
   ARM_SWING_RUN: number;
+  ARM_SWING_CROUCH: number;
+  ARM_SWING_SPRINT: number;
   ELBOW_BEND_BASE: number;
   // Torso
   TORSO_LEAN_WALK: number;
   TORSO_LEAN_RUN: number;
+  TORSO_LEAN_CROUCH: number;
+  TORSO_LEAN_SPRINT: number;
+  TORSO_LEAN_DODGE: number;
+  TORSO_LEAN_SLIDE: number;
+  TORSO_LEAN_HANG: number;
+  TORSO_LEAN_CLIMB: number;
+  TORSO_LEAN_VAULT: number;
+  TORSO_LEAN_SWIM: number;
+  TORSO_LEAN_TREAD: number;
+  TORSO_LEAN_GET_UP: number;
   TORSO_LEAN_JUMP: number;
   TORSO_LEAN_FALL: number;
   TORSO_TWIST_AMOUNT: number;
@@ -189,6 +410,15 @@ export interface AnimationConfig {
   // Breathing
   BREATHE_SPEED: number;
   BREATHE_AMPLITUDE: number;
+  SWIM_STROKE_SPEED: number;
+  SWIM_STROKE_AMOUNT: number;
+  SWIM_KICK_SPEED: number;
+  SWIM_KICK_AMOUNT: number;
+  GET_UP_BLEND: number;
+  FLINCH_LEAN: number;
+  FLINCH_SIDE_LEAN: number;
+  FLINCH_ARM_RAISE: number;
+  FLINCH_ELBOW_BEND: number;
   // Landing
   LANDING_IMPACT: number;
 }
@@ -207,6 +437,8 @@ export interface DebugConfig {
   SHOW_COM_TRAIL: boolean;
   SHOW_SKELETON_JOINTS: boolean;
   SHOW_GROUND_CONTACT: boolean;
+  SHOW_PHYSICS_DEBUG: boolean;
+  SHOW_CAPTURE_POINT: boolean;
   // Marker sizes
   FOOT_MARKER_SIZE: number;
   COM_MARKER_SIZE: number;
@@ -215,8 +447,22 @@ export interface DebugConfig {
   COM_COLOR: number;
   PLUMB_COLOR: number;
   VELOCITY_COLOR: number;
+  PUSH_COLOR: number;
   STANCE_COLOR: number;
   SWING_COLOR: number;
+  // Physics debug rendering
+  PHYSICS_QUERY_HISTORY: number;
+  PHYSICS_QUERY_FADE_TIME: number;
+  PHYSICS_NORMAL_LENGTH: number;
+  PHYSICS_CAPSULE_COLOR: number;
+  PHYSICS_RAY_COLOR: number;
+  PHYSICS_HIT_COLOR: number;
+  PHYSICS_NORMAL_COLOR: number;
+  // Push tool
+  PUSH_IMPULSE: number;
+  PUSH_STRONG_IMPULSE: number;
+  PUSH_ARROW_TIME: number;
+  PUSH_ARROW_SCALE: number;
 }
 
 // =============================================================================
@@ -231,6 +477,9 @@ export interface GameConfig {
   debug: DebugConfig;
   logging: LoggingConfig;
   render: RenderConfig;
+  engine: EngineConfig;
+  input: InputConfig;
+  world: WorldConfig;
 }
 
 // =============================================================================
@@ -276,6 +525,28 @@ export interface VelocityArrowConfig {
   HEAD_WIDTH: number;
 }
 
+export interface CapturePointConfig {
+  ACCEL_SMOOTHING: number;
+  MIN_SUPPORT_ACCEL: number;
+  MARKER_SIZE: number;
+  CAPTURE_COLOR: number;
+  ZMP_COLOR: number;
+}
+
+export interface BalanceConfig {
+  MAX_LEAN: number;
+  MAX_SIDE_LEAN: number;
+  ARM_COUNTERBALANCE: number;
+  RESPONSE: number;
+  RECOVERY_DELAY: number;
+  RECOVERY_STEP_MARGIN: number;
+  RECOVERY_STEP_MAX: number;
+  RECOVERY_STEP_DURATION: number;
+  RECOVERY_STEP_HEIGHT: number;
+  SETTLE_DELAY: number;
+  SETTLE_TOLERANCE: number;
+}
+
 export interface SupportPolygonConfig {
   FOOT_LENGTH: number;
   FOOT_WIDTH: number;
@@ -290,6 +561,8 @@ export interface CoMConfig {
   STABILITY: StabilityConfig;
   VELOCITY_ARROW: VelocityArrowConfig;
   SUPPORT_POLYGON: SupportPolygonConfig;
+  BALANCE: BalanceConfig;
+  CAPTURE_POINT: CapturePointConfig;
 }
 
 /**
@@ -302,6 +575,10 @@ export interface CoMState {
   isStable: boolean;
   stabilityMargin: number;
   stabilityLevel: 'stable' | 'warning' | 'unstable';
+  acceleration: Vector3Like;
+  capturePoint: Vector3Like;   // Instantaneous capture point (extrapolated CoM) on the ground
+  zmp: Vector3Like;            // Zero-moment point estimate on the ground
+  captureMargin: number;       // Capture point distance inside (+) or outside (-) the support hull
 }
 
 /**
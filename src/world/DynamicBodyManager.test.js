@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import { WORLD } from '../config/index.js'
+import { DynamicBodyManager, createDynamicBody } from './DynamicBodyManager.js'
+
+function createPhysics(supported = true) {
+  const states = new Map()
+  return {
+    states,
+    supportsDynamicBodies: () => supported,
+    addDynamicBody: vi.fn((key, body) => {
+      states.set(key, { position: { ...body.position }, rotation: { x: 0, y: 0, z: 0, w: 1 }, sleeping: false })
+    }),
+    removeDynamicBody: vi.fn((key) => states.delete(key)),
+    getDynamicBodyState: (key) => states.get(key) ?? null
+  }
+}
+
+describe('world/DynamicBodyManager', () => {
+  it('spawns bodies and syncs meshes from physics state', () => {
+    const scene = new THREE.Scene()
+    const physics = createPhysics()
+    const bodies = new DynamicBodyManager()
+    bodies.attach(scene, physics)
+
+    const key = bodies.spawn(createDynamicBody('sphere', { x: 1, y: 4, z: 2 }))
+    expect(physics.addDynamicBody).toHaveBeenCalledWith(key, expect.objectContaining({ type: 'sphere', radius: WORLD.DYNAMIC_BODY_SIZE }))
+
+    physics.states.get(key).position.y = 1.5
+    physics.states.get(key).rotation = { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 }
+    bodies.sync()
+
+    const mesh = bodies.objects.get(key).mesh
+    expect(scene.children).toContain(mesh)
+    expect(mesh.position.y).toBe(1.5)
+    expect(mesh.quaternion.y).toBeCloseTo(Math.SQRT1_2, 5)
+  })
+
+  it('removes fallen bodies and the oldest past the limit', () => {
+    const physics = createPhysics()
+    const bodies = new DynamicBodyManager()
+    bodies.attach(null, physics)
+
+    const first = bodies.spawn(createDynamicBody('box', { x: 0, y: 1, z: 0 }))
+    for (let i = 1; i < WORLD.DYNAMIC_BODY_LIMIT; i++) {
+      bodies.spawn(createDynamicBody('capsule', { x: i, y: 1, z: 0 }))
+    }
+    expect(bodies.getCount()).toBe(WORLD.DYNAMIC_BODY_LIMIT)
+
+    const last = bodies.spawn(createDynamicBody('box', { x: 0, y: 1, z: 5 }))
+    expect(bodies.getCount()).toBe(WORLD.DYNAMIC_BODY_LIMIT)
+    expect(bodies.objects.has(first)).toBe(false)
+    expect(physics.removeDynamicBody).toHaveBeenCalledWith(first)
+
+    physics.states.get(last).position.y = WORLD.DYNAMIC_KILL_Y - 1
+    bodies.sync()
+    expect(bodies.objects.has(last)).toBe(false)
+  })
+
+  it('does not spawn without dynamic body support', () => {
+    const bodies = new DynamicBodyManager()
+    bodies.attach(null, createPhysics(false))
+    expect(bodies.spawn(createDynamicBody('box', { x: 0, y: 1, z: 0 }))).toBeNull()
+    expect(bodies.getCount()).toBe(0)
+  })
+})
@@ -0,0 +1,157 @@
+import * as THREE from 'three';
+import { WORLD } from '../config/index.js';
+import { DisposalTracker } from '../utils/disposal.js';
+import type { DynamicBodyDefinition, IPhysicsWorld } from '../physics/IPhysicsWorld.js';
+import type { Vector3Like } from '../types/index.js';
+
+/**
+ * One spawned rigid body with its mesh and resources
+ */
+export interface DynamicObject {
+  key: string;
+  body: DynamicBodyDefinition;
+  mesh: THREE.Mesh;
+  tracker: DisposalTracker;
+}
+
+export const DYNAMIC_BODY_TYPES: readonly DynamicBodyDefinition['type'][] = ['box', 'sphere', 'capsule'];
+
+/**
+ * Default-sized body of the given type using WORLD settings
+ */
+export function createDynamicBody(type: DynamicBodyDefinition['type'], position: Vector3Like): DynamicBodyDefinition {
+  const size = WORLD.DYNAMIC_BODY_SIZE;
+  return {
+    type,
+    position: { ...position },
+    mass: WORLD.DYNAMIC_BODY_MASS,
+    halfExtents: type === 'box' ? { x: size, y: size, z: size } : undefined,
+    radius: type === 'box' ? undefined : size,
+    halfHeight: type === 'capsule' ? size : undefined
+  };
+}
+
+/**
+ * Spawns dynamic props and syncs their meshes from the physics world
+ * The oldest body is removed once WORLD.DYNAMIC_BODY_LIMIT is reached.
+ */
+export class DynamicBodyManager {
+  objects: Map<string, DynamicObject>;
+
+  // Attached consumers
+  scene: THREE.Scene | null;
+  physics: IPhysicsWorld | null;
+
+  private nextId: number;
+
+  constructor() {
+    this.objects = new Map();
+    this.scene = null;
+    this.physics = null;
+    this.nextId = 0;
+  }
+
+  attach(scene: THREE.Scene | null, physics: IPhysicsWorld | null): void {
+    this.scene = scene;
+    this.physics = physics;
+  }
+
+  isSupported(): boolean {
+    return this.physics?.supportsDynamicBodies() ?? false;
+  }
+
+  /**
+   * Spawn a body and return its key (null when physics can't simulate it)
+   */
+  spawn(body: DynamicBodyDefinition): string | null {
+    if (!this.physics || !this.isSupported()) return null;
+
+    while (this.objects.size >= WORLD.DYNAMIC_BODY_LIMIT) {
+      const oldest = this.objects.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+
+    const key = `${body.type}-${this.nextId++}`;
+    const tracker = new DisposalTracker();
+    const mesh = this.createMesh(body, tracker);
+    mesh.name = `DynamicBody ${key}`;
+    mesh.position.set(body.position.x, body.position.y, body.position.z);
+
+    this.objects.set(key, { key, body, mesh, tracker });
+    this.scene?.add(mesh);
+    this.physics.addDynamicBody(key, body);
+
+    return key;
+  }
+
+  /**
+   * Copy simulated transforms onto meshes; drops bodies that fell out of the world
+   */
+  sync(): void {
+    if (!this.physics) return;
+
+    for (const object of [...this.objects.values()]) {
+      const state = this.physics.getDynamicBodyState(object.key);
+      if (!state) continue;
+      if (state.position.y < WORLD.DYNAMIC_KILL_Y) {
+        this.remove(object.key);
+        continue;
+      }
+      object.mesh.position.set(state.position.x, state.position.y, state.position.z);
+      object.mesh.quaternion.set(state.rotation.x, state.rotation.y, state.rotation.z, state.rotation.w);
+    }
+  }
+
+  remove(key: string): boolean {
+    const object = this.objects.get(key);
+    if (!object) return false;
+
+    this.scene?.remove(object.mesh);
+    this.physics?.removeDynamicBody(key);
+    object.tracker.dispose();
+    this.objects.delete(key);
+    return true;
+  }
+
+  getCount(): number {
+    return this.objects.size;
+  }
+
+  dispose(): void {
+    for (const key of [...this.objects.keys()]) {
+      this.remove(key);
+    }
+  }
+
+  private createMesh(body: DynamicBodyDefinition, tracker: DisposalTracker): THREE.Mesh {
+    const radius = body.radius ?? WORLD.DYNAMIC_BODY_SIZE;
+    let geometry: THREE.BufferGeometry;
+    switch (body.type) {
+      case 'box': {
+        const half = body.halfExtents ?? { x: radius, y: radius, z: radius };
+        geometry = new THREE.BoxGeometry(half.x * 2, half.y * 2, half.z * 2);
+        break;
+      }
+      case 'sphere':
+        geometry = new THREE.SphereGeometry(radius, 20, 14);
+        break;
+      case 'capsule':
+        geometry = new THREE.CapsuleGeometry(radius, (body.halfHeight ?? radius) * 2, 6, 16);
+        break;
+    }
+    tracker.trackGeometry(geometry);
+
+    const material = tracker.trackMaterial(new THREE.MeshStandardMaterial({
+      color: WORLD.DYNAMIC_BODY_COLOR,
+      roughness: WORLD.OBSTACLE_ROUGHNESS
+    }));
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    return mesh;
+  }
+}
+
+export default DynamicBodyManager;
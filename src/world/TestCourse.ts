@@ -0,0 +1,124 @@
+import { WORLD } from '../config/index.js';
+import type { WorldObjectManager } from './WorldObjectManager.js';
+import type { WaterVolumes } from './WaterVolumes.js';
+import type { TerrainHeightSource } from '../types/index.js';
+
+/**
+ * Place a small obstacle course (wall, climbing blocks, crates, pillar, ramp, stairs, platforms)
+ * Objects sit on the terrain surface around the origin. Returns their keys.
+ */
+export function buildTestCourse(
+  objects: WorldObjectManager,
+  terrain: TerrainHeightSource,
+  originX: number = WORLD.TEST_COURSE_ORIGIN_X,
+  originZ: number = WORLD.TEST_COURSE_ORIGIN_Z
+): string[] {
+  const ground = (x: number, z: number): number => terrain.getHeight(x, z);
+  const keys: string[] = [];
+
+  // Wall
+  keys.push(objects.addBox({
+    position: { x: originX, y: ground(originX, originZ - 6) + 1, z: originZ - 6 },
+    halfExtents: { x: 3, y: 1, z: 0.25 }
+  }));
+
+  // Climbing block (ledge to hang from) and a chest-high block to mantle
+  keys.push(objects.addBox({
+    position: { x: originX - 8, y: ground(originX - 8, originZ - 6) + 4.5, z: originZ - 6 },
+    halfExtents: { x: 2, y: 4.5, z: 1.5 },
+    material: 'rock'
+  }));
+  keys.push(objects.addBox({
+    position: { x: originX + 8, y: ground(originX + 8, originZ - 6) + 1.75, z: originZ - 6 },
+    halfExtents: { x: 1.5, y: 1.75, z: 1.5 }
+  }));
+
+  // Crates
+  keys.push(objects.addBox({
+    position: { x: originX, y: ground(originX, originZ) + 0.5, z: originZ },
+    halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+    rotationY: Math.PI / 8
+  }));
+  keys.push(objects.addBox({
+    position: { x: originX + 1.2, y: ground(originX + 1.2, originZ + 0.3) + 0.25, z: originZ + 0.3 },
+    halfExtents: { x: 0.25, y: 0.25, z: 0.25 }
+  }));
+
+  // Pillar
+  keys.push(objects.addCylinder({
+    position: { x: originX - 2, y: ground(originX - 2, originZ + 3) + 1.5, z: originZ + 3 },
+    radius: 0.4,
+    halfHeight: 1.5,
+    material: 'rock'
+  }));
+
+  // Ramp (about 17°) climbing toward +Z
+  keys.push(objects.addRamp({
+    position: { x: originX + 4, y: ground(originX + 4, originZ), z: originZ },
+    width: 2,
+    length: 5,
+    height: 1.5
+  }));
+
+  // Staircase climbing toward +X
+  keys.push(...objects.addStaircase({
+    position: { x: originX, y: ground(originX, originZ + 6), z: originZ + 6 },
+    steps: 6,
+    width: 2,
+    rotationY: Math.PI / 2
+  }));
+
+  // Platform sliding back and forth along X
+  keys.push(objects.addPlatform({
+    shape: {
+      type: 'box',
+      position: { x: originX - 3, y: ground(originX - 3, originZ - 12) + 0.25, z: originZ - 12 },
+      halfExtents: { x: 1.5, y: 0.2, z: 1.5 }
+    },
+    motion: { type: 'path', waypoints: [{ x: 8, y: 0, z: 0 }], speed: 2, pauseTime: 1 }
+  }));
+
+  // Rotating disc
+  keys.push(objects.addPlatform({
+    shape: {
+      type: 'cylinder',
+      position: { x: originX, y: ground(originX, originZ + 13) + 0.25, z: originZ + 13 },
+      radius: 3,
+      halfHeight: 0.2,
+      material: 'rock'
+    },
+    motion: { type: 'rotate', angularSpeed: 0.5 }
+  }));
+
+  // Elevator
+  keys.push(objects.addPlatform({
+    shape: {
+      type: 'box',
+      position: { x: originX + 7, y: ground(originX + 7, originZ + 13) + 0.25, z: originZ + 13 },
+      halfExtents: { x: 1.5, y: 0.2, z: 1.5 }
+    },
+    motion: { type: 'elevator', height: 4, speed: 1.5, pauseTime: 1.5 }
+  }));
+
+  return keys;
+}
+
+/**
+ * Place a swimming pool (deeper than SWIM_ENTER_DEPTH) beside the course
+ * Returns its key.
+ */
+export function buildTestPool(
+  water: WaterVolumes,
+  terrain: TerrainHeightSource,
+  originX: number = WORLD.TEST_COURSE_ORIGIN_X,
+  originZ: number = WORLD.TEST_COURSE_ORIGIN_Z
+): string {
+  const x = originX - 9;
+  const z = originZ + 7;
+  return water.addPool({
+    position: { x, y: terrain.getHeight(x, z) + 2.5, z },
+    halfExtents: { x: 4, y: 2.5, z: 4 }
+  });
+}
+
+export default buildTestCourse;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { WaterVolumes } from './WaterVolumes.js'
+
+describe('world/WaterVolumes', () => {
+  it('reports the water level below a global plane', () => {
+    const water = new WaterVolumes(2)
+
+    expect(water.getSurfaceHeight(10, 1, -5)).toBe(2)
+    expect(water.getSurfaceHeight(10, 3, -5)).toBe(null)
+    expect(water.isUnderwater({ x: 0, y: 2, z: 0 })).toBe(true)
+  })
+
+  it('reports pool surfaces only inside the pool box', () => {
+    const water = new WaterVolumes(null)
+    const key = water.addPool({ position: { x: 5, y: 1, z: 0 }, halfExtents: { x: 2, y: 1, z: 2 } })
+
+    expect(water.getSurfaceHeight(5, 0.5, 1)).toBe(2)
+    expect(water.getSurfaceHeight(8, 0.5, 1)).toBe(null)
+    expect(water.getSurfaceHeight(5, 2.5, 1)).toBe(null)
+    expect(water.getSurfaceHeight(5, -0.5, 1)).toBe(null)
+
+    expect(water.removePool(key)).toBe(true)
+    expect(water.getSurfaceHeight(5, 0.5, 1)).toBe(null)
+  })
+
+  it('uses the highest surface where a pool sits in the plane', () => {
+    const water = new WaterVolumes(0)
+    water.addPool({ position: { x: 0, y: 0, z: 0 }, halfExtents: { x: 1, y: 1, z: 1 } })
+
+    expect(water.getSurfaceHeight(0, -0.5, 0)).toBe(1)
+    expect(water.getPools()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,68 @@
+import { WORLD } from '../config/index.js';
+import type { Vector3Like, WaterSource } from '../types/index.js';
+
+/**
+ * Axis-aligned box of water; its top face is the surface
+ */
+export interface WaterPool {
+  position: Vector3Like;     // Box center
+  halfExtents: Vector3Like;
+}
+
+/**
+ * Water in the world: an optional global plane at `level` (everything below
+ * it is water) plus box-shaped pools
+ */
+export class WaterVolumes implements WaterSource {
+  level: number | null;
+  pools: Map<string, WaterPool>;
+  private nextId: number;
+
+  constructor(level: number | null = WORLD.WATER_ENABLED ? WORLD.WATER_LEVEL : null) {
+    this.level = level;
+    this.pools = new Map();
+    this.nextId = 0;
+  }
+
+  addPool(pool: WaterPool, key: string = `pool-${this.nextId++}`): string {
+    this.pools.set(key, {
+      position: { ...pool.position },
+      halfExtents: { ...pool.halfExtents }
+    });
+    return key;
+  }
+
+  removePool(key: string): boolean {
+    return this.pools.delete(key);
+  }
+
+  /**
+   * Highest surface of the water containing the point, or null when dry
+   */
+  getSurfaceHeight(x: number, y: number, z: number): number | null {
+    let surface: number | null = this.level !== null && y <= this.level ? this.level : null;
+
+    for (const { position, halfExtents } of this.pools.values()) {
+      const top = position.y + halfExtents.y;
+      const inside = Math.abs(x - position.x) <= halfExtents.x &&
+        Math.abs(z - position.z) <= halfExtents.z &&
+        y <= top &&
+        y >= position.y - halfExtents.y;
+      if (inside && (surface === null || top > surface)) {
+        surface = top;
+      }
+    }
+
+    return surface;
+  }
+
+  isUnderwater(point: Vector3Like): boolean {
+    return this.getSurfaceHeight(point.x, point.y, point.z) !== null;
+  }
+
+  getPools(): WaterPool[] {
+    return Array.from(this.pools.values());
+  }
+}
+
+export default WaterVolumes;
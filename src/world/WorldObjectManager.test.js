@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import { WorldObjectManager, createStaircase } from './WorldObjectManager.js'
+
+function createPhysics() {
+  return { addStaticShape: vi.fn(), removeStaticShape: vi.fn() }
+}
+
+describe('world/WorldObjectManager', () => {
+  it('adds meshes and colliders under a shared key', () => {
+    const scene = new THREE.Scene()
+    const physics = createPhysics()
+    const objects = new WorldObjectManager()
+    objects.attach(scene, physics)
+
+    const key = objects.addBox({ position: { x: 1, y: 0.5, z: 2 }, halfExtents: { x: 0.5, y: 0.5, z: 0.5 } })
+    const object = objects.objects.get(key)
+    expect(scene.children).toContain(object.mesh)
+    expect(object.mesh.position.x).toBe(1)
+    expect(physics.addStaticShape).toHaveBeenCalledWith(key, object.shape)
+
+    const dispose = vi.spyOn(object.mesh.geometry, 'dispose')
+    expect(objects.remove(key)).toBe(true)
+    expect(scene.children).not.toContain(object.mesh)
+    expect(physics.removeStaticShape).toHaveBeenCalledWith(key)
+    expect(dispose).toHaveBeenCalled()
+    expect(objects.getCount()).toBe(0)
+  })
+
+  it('registers objects placed before attach', () => {
+    const objects = new WorldObjectManager()
+    objects.addRamp({ position: { x: 0, y: 0, z: 0 }, width: 2, length: 4, height: 1 })
+    objects.addCylinder({ position: { x: 3, y: 1, z: 0 }, radius: 0.5, halfHeight: 1 })
+
+    const physics = createPhysics()
+    objects.attach(new THREE.Scene(), physics)
+    expect(physics.addStaticShape).toHaveBeenCalledTimes(2)
+
+    objects.dispose()
+    expect(physics.removeStaticShape).toHaveBeenCalledTimes(2)
+  })
+
+  it('generates solid stairs climbing along the rotated axis', () => {
+    const steps = createStaircase({
+      position: { x: 0, y: 1, z: 0 },
+      steps: 3,
+      width: 2,
+      stepHeight: 0.2,
+      stepDepth: 0.5,
+      rotationY: Math.PI / 2
+    })
+
+    expect(steps).toHaveLength(3)
+    expect(steps[0].position.x).toBeCloseTo(-0.5, 5)
+    expect(steps[2].position.x).toBeCloseTo(0.5, 5)
+    expect(steps[2].position.y + steps[2].halfExtents.y).toBeCloseTo(1.6, 5)
+    expect(steps[0].position.y - steps[0].halfExtents.y).toBeCloseTo(1, 5)
+  })
+})
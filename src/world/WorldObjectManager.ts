@@ -0,0 +1,271 @@
+import * as THREE from 'three';
+import { TERRAIN_MATERIALS, WORLD } from '../config/index.js';
+import { DisposalTracker } from '../utils/disposal.js';
+import { getRampLocalVertices, rotateY } from '../physics/StaticShapeQueries.js';
+import type {
+  IPhysicsWorld,
+  PlatformDefinition,
+  PlatformMotion,
+  StaticBoxDefinition,
+  StaticCylinderDefinition,
+  StaticRampDefinition,
+  StaticShapeDefinition
+} from '../physics/IPhysicsWorld.js';
+import type { TerrainMaterialId, Vector3Like } from '../types/index.js';
+
+/**
+ * One placed primitive with its mesh and resources
+ * Objects with a motion are kinematic platforms.
+ */
+export interface WorldObject {
+  key: string;
+  shape: StaticShapeDefinition;
+  motion?: PlatformMotion;
+  mesh: THREE.Mesh;
+  tracker: DisposalTracker;
+}
+
+export interface StaircaseOptions {
+  position: Vector3Like; // Center of the staircase footprint at ground level
+  steps: number;
+  width: number;
+  stepHeight?: number;
+  stepDepth?: number;
+  rotationY?: number;    // Steps climb along local +Z
+  material?: TerrainMaterialId;
+}
+
+/**
+ * Generate solid step boxes for a straight staircase
+ */
+export function createStaircase(options: StaircaseOptions): StaticBoxDefinition[] {
+  const stepHeight = options.stepHeight ?? WORLD.STAIR_STEP_HEIGHT;
+  const stepDepth = options.stepDepth ?? WORLD.STAIR_STEP_DEPTH;
+  const yaw = options.rotationY ?? 0;
+  const totalDepth = options.steps * stepDepth;
+  const steps: StaticBoxDefinition[] = [];
+
+  for (let i = 0; i < options.steps; i++) {
+    const height = (i + 1) * stepHeight;
+    const offset = rotateY({ x: 0, y: 0, z: -totalDepth / 2 + (i + 0.5) * stepDepth }, yaw);
+    steps.push({
+      type: 'box',
+      position: {
+        x: options.position.x + offset.x,
+        y: options.position.y + height / 2,
+        z: options.position.z + offset.z
+      },
+      halfExtents: { x: options.width / 2, y: height / 2, z: stepDepth / 2 },
+      rotationY: yaw,
+      material: options.material
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Places static primitives (boxes, cylinders, ramps, stairs) and moving platforms
+ * Each object gets a mesh in the attached scene and a collider in the
+ * attached physics world, registered under the same key. Platforms fall back
+ * to static colliders at their start pose when physics has no rigid bodies.
+ */
+export class WorldObjectManager {
+  objects: Map<string, WorldObject>;
+
+  // Attached consumers (optional - headless use only needs physics)
+  scene: THREE.Scene | null;
+  physics: IPhysicsWorld | null;
+
+  private nextId: number;
+
+  constructor() {
+    this.objects = new Map();
+    this.scene = null;
+    this.physics = null;
+    this.nextId = 0;
+  }
+
+  /**
+   * Attach a scene for meshes and a physics world for colliders
+   * Objects already placed are added to both.
+   */
+  attach(scene: THREE.Scene | null, physics: IPhysicsWorld | null = null): void {
+    this.scene = scene;
+    this.physics = physics;
+
+    for (const object of this.objects.values()) {
+      if (scene) scene.add(object.mesh);
+      this.register(object);
+    }
+  }
+
+  /**
+   * Place a primitive and return its key
+   */
+  add(shape: StaticShapeDefinition, key: string = `${shape.type}-${this.nextId++}`): string {
+    this.remove(key);
+
+    const tracker = new DisposalTracker();
+    const mesh = this.createMesh(shape, tracker);
+    mesh.name = `WorldObject ${key}`;
+
+    const object: WorldObject = { key, shape, mesh, tracker };
+    this.objects.set(key, object);
+    this.scene?.add(mesh);
+    this.register(object);
+
+    return key;
+  }
+
+  /**
+   * Place a kinematic platform (path, rotating disc or elevator)
+   */
+  addPlatform(platform: PlatformDefinition, key: string = `platform-${this.nextId++}`): string {
+    this.remove(key);
+
+    const tracker = new DisposalTracker();
+    const mesh = this.createMesh(platform.shape, tracker);
+    mesh.name = `Platform ${key}`;
+
+    const object: WorldObject = { key, shape: platform.shape, motion: platform.motion, mesh, tracker };
+    this.objects.set(key, object);
+    this.scene?.add(mesh);
+    this.register(object);
+
+    return key;
+  }
+
+  addBox(options: Omit<StaticBoxDefinition, 'type'>): string {
+    return this.add({ type: 'box', ...options });
+  }
+
+  addCylinder(options: Omit<StaticCylinderDefinition, 'type'>): string {
+    return this.add({ type: 'cylinder', ...options });
+  }
+
+  addRamp(options: Omit<StaticRampDefinition, 'type'>): string {
+    return this.add({ type: 'ramp', ...options });
+  }
+
+  /**
+   * Place a generated staircase; returns one key per step
+   */
+  addStaircase(options: StaircaseOptions): string[] {
+    return createStaircase(options).map((step) => this.add(step));
+  }
+
+  /**
+   * Remove an object's mesh, collider and resources
+   */
+  remove(key: string): boolean {
+    const object = this.objects.get(key);
+    if (!object) return false;
+
+    this.scene?.remove(object.mesh);
+    if (object.motion && this.physics?.supportsDynamicBodies()) {
+      this.physics.removePlatform(key);
+    } else {
+      this.physics?.removeStaticShape(key);
+    }
+    object.tracker.dispose();
+    this.objects.delete(key);
+    return true;
+  }
+
+  /**
+   * Copy simulated platform transforms onto their meshes
+   */
+  sync(): void {
+    if (!this.physics) return;
+    for (const object of this.objects.values()) {
+      if (!object.motion) continue;
+      const state = this.physics.getPlatformState(object.key);
+      if (!state) continue;
+      object.mesh.position.set(state.position.x, state.position.y, state.position.z);
+      object.mesh.quaternion.set(state.rotation.x, state.rotation.y, state.rotation.z, state.rotation.w);
+    }
+  }
+
+  getCount(): number {
+    return this.objects.size;
+  }
+
+  /**
+   * Remove every object
+   */
+  dispose(): void {
+    for (const key of [...this.objects.keys()]) {
+      this.remove(key);
+    }
+  }
+
+  private register(object: WorldObject): void {
+    const physics = this.physics;
+    if (!physics) return;
+    const { key, shape, motion } = object;
+    if (motion && physics.supportsDynamicBodies() && shape.type !== 'ramp') {
+      physics.addPlatform(key, { shape, motion });
+    } else {
+      physics.addStaticShape(key, shape);
+    }
+  }
+
+  private createMesh(shape: StaticShapeDefinition, tracker: DisposalTracker): THREE.Mesh {
+    let geometry: THREE.BufferGeometry;
+    switch (shape.type) {
+      case 'box':
+        geometry = new THREE.BoxGeometry(shape.halfExtents.x * 2, shape.halfExtents.y * 2, shape.halfExtents.z * 2);
+        break;
+      case 'cylinder':
+        geometry = new THREE.CylinderGeometry(shape.radius, shape.radius, shape.halfHeight * 2, 24);
+        break;
+      case 'ramp':
+        geometry = this.createRampGeometry(shape);
+        break;
+    }
+    tracker.trackGeometry(geometry);
+
+    const material = tracker.trackMaterial(new THREE.MeshStandardMaterial({
+      color: shape.material ? TERRAIN_MATERIALS[shape.material].COLOR : WORLD.OBSTACLE_COLOR,
+      roughness: WORLD.OBSTACLE_ROUGHNESS
+    }));
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(shape.position.x, shape.position.y, shape.position.z);
+    mesh.rotation.y = shape.type === 'cylinder' ? 0 : shape.rotationY ?? 0;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+
+    return mesh;
+  }
+
+  /**
+   * Wedge with flat-shaded faces (base, back, slope and two sides)
+   */
+  private createRampGeometry(shape: StaticRampDefinition): THREE.BufferGeometry {
+    const vertices = getRampLocalVertices(shape);
+    const faces = [
+      [0, 1, 2], [0, 2, 3], // base
+      [3, 2, 4], [3, 4, 5], // back
+      [0, 5, 4], [0, 4, 1], // slope
+      [1, 4, 2],            // +X side
+      [0, 3, 5]             // -X side
+    ];
+
+    const positions = new Float32Array(faces.length * 9);
+    faces.flat().forEach((vertexIndex, i) => {
+      const vertex = vertices[vertexIndex] ?? { x: 0, y: 0, z: 0 };
+      positions[i * 3] = vertex.x;
+      positions[i * 3 + 1] = vertex.y;
+      positions[i * 3 + 2] = vertex.z;
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+}
+
+export default WorldObjectManager;
@@ -0,0 +1,7 @@
+export { WorldObjectManager, createStaircase } from './WorldObjectManager.js';
+export type { WorldObject, StaircaseOptions } from './WorldObjectManager.js';
+export { buildTestCourse, buildTestPool } from './TestCourse.js';
+export { DynamicBodyManager, createDynamicBody, DYNAMIC_BODY_TYPES } from './DynamicBodyManager.js';
+export type { DynamicObject } from './DynamicBodyManager.js';
+export { WaterVolumes } from './WaterVolumes.js';
+export type { WaterPool } from './WaterVolumes.js';